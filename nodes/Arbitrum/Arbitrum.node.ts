@@ -69,11 +69,21 @@ export class Arbitrum implements INodeType {
 						value: 'events',
 						description: 'Event log queries and filtering',
 					},
+					{
+						name: 'GMX',
+						value: 'gmx',
+						description: 'GMX V2 positions and markets',
+					},
 					{
 						name: 'L2 to L1 Messaging',
 						value: 'l2tol1',
 						description: 'L2 to L1 withdrawal and messaging',
 					},
+					{
+						name: 'Lending',
+						value: 'lending',
+						description: 'Aave V3 lending and borrowing',
+					},
 					{
 						name: 'NFT',
 						value: 'nft',
@@ -84,6 +94,11 @@ export class Arbitrum implements INodeType {
 						value: 'nova',
 						description: 'Arbitrum Nova specific operations',
 					},
+					{
+						name: 'Pendle',
+						value: 'pendle',
+						description: 'Pendle PT/YT markets, positions and quotes',
+					},
 					{
 						name: 'Retryable Tickets',
 						value: 'retryable',
@@ -165,6 +180,18 @@ export class Arbitrum implements INodeType {
 			...actions.defi.operations,
 			...actions.defi.fields,
 
+			// GMX Operations and Fields
+			...actions.gmx.operations,
+			...actions.gmx.fields,
+
+			// Lending Operations and Fields
+			...actions.lending.operations,
+			...actions.lending.fields,
+
+			// Pendle Operations and Fields
+			...actions.pendle.operations,
+			...actions.pendle.fields,
+
 			// Utility Operations and Fields
 			...actions.utility.operations,
 			...actions.utility.fields,
@@ -221,6 +248,15 @@ export class Arbitrum implements INodeType {
 					case 'defi':
 						result = await actions.defi.execute.call(this, i);
 						break;
+					case 'gmx':
+						result = await actions.gmx.execute.call(this, i);
+						break;
+					case 'lending':
+						result = await actions.lending.execute.call(this, i);
+						break;
+					case 'pendle':
+						result = await actions.pendle.execute.call(this, i);
+						break;
 					case 'utility':
 						result = await actions.utility.execute.call(this, i);
 						break;
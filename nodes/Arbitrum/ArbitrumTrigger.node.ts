@@ -1,4 +1,5 @@
 import type {
+	IDataObject,
 	IPollFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -6,7 +7,84 @@ import type {
 } from 'n8n-workflow';
 import { ethers } from 'ethers';
 
-import { NETWORK_CONFIGS, ABIS } from './constants';
+import { NETWORK_CONFIGS, ABIS, MESSAGE_STATUS } from './constants';
+import type { ArbitrumNetworkId } from './constants';
+import { createL1Provider, resolveRpcUrl } from './transport/provider';
+import { getLatestConfirmedSendState } from './transport/arbitrumSdk';
+import type { ConfirmedSendState } from './transport/arbitrumSdk';
+import {
+	getDepositMessages,
+	getDepositMessageStatus,
+	getWithdrawalMessages,
+	getWithdrawalMessageStatus,
+	isBridgeMessageForAddress,
+	undoL1ToL2Alias,
+} from './utils/bridgeUtils';
+import type { DepositMessage, WithdrawalMessage } from './utils/bridgeUtils';
+import { SEQUENCER_GRACE_PERIOD, checkOracleSafety, getUniswapV3Twap } from './utils/priceUtils';
+import { advanceCursor, getNextBlockRange, limitBlockRange } from './utils/reorgUtils';
+import type { BlockCursor, BlockRange, FinalityMode } from './utils/reorgUtils';
+import { DEFAULT_BLOCK_CONCURRENCY, findBlockByTimestamp } from './utils/logScanUtils';
+import { readBlockEventParams, scanBlockEvents } from './utils/blockEventUtils';
+
+/** Deposit statuses after which a tracked deposit no longer changes */
+const FINAL_DEPOSIT_STATUSES: string[] = [
+	MESSAGE_STATUS.DEPOSITED,
+	MESSAGE_STATUS.REDEEMED,
+	MESSAGE_STATUS.EXPIRED,
+	MESSAGE_STATUS.CREATION_FAILED,
+];
+
+/** Bridge events that scan the L1 inbox or L2 ArbSys logs since the last poll */
+const BRIDGE_EVENTS = [
+	'bridgeDepositInitiated',
+	'bridgeDepositCompleted',
+	'bridgeWithdrawalInitiated',
+	'bridgeWithdrawalReady',
+];
+
+/** Events that scan block ranges and keep a reorg-safe block cursor */
+const BLOCK_RANGE_EVENTS = [
+	'newBlock',
+	'addressActivity',
+	'tokenTransfer',
+	'nftTransfer',
+	'contractEvent',
+	'largeTransaction',
+	'largeSwap',
+];
+
+function formatDepositMessage(message: DepositMessage): IDataObject {
+	return {
+		messageNumber: message.messageNumber,
+		kind: message.kind,
+		from: undoL1ToL2Alias(message.sender),
+		destination: message.destination,
+		value: ethers.formatEther(message.value),
+		valueWei: message.value,
+		token: message.tokenTransfer ? { ...message.tokenTransfer } : null,
+		l1TransactionHash: message.l1TxHash,
+		l1BlockNumber: message.l1BlockNumber,
+		l2TransactionHash: message.l2TxHash,
+		retryableTicketId: message.kind === 'retryable' ? message.l2TxHash : null,
+		timestamp: message.timestamp,
+	};
+}
+
+function formatWithdrawalMessage(message: WithdrawalMessage): IDataObject {
+	return {
+		position: message.position,
+		from: message.caller,
+		destination: message.destination,
+		value: ethers.formatEther(message.value),
+		valueWei: message.value,
+		token: message.tokenTransfer ? { ...message.tokenTransfer } : null,
+		l2TransactionHash: message.l2TxHash,
+		l2BlockNumber: message.l2BlockNumber,
+		l1BlockNumber: message.ethBlockNum,
+		timestamp: message.timestamp,
+	};
+}
 
 export class ArbitrumTrigger implements INodeType {
 	description: INodeTypeDescription = {
@@ -84,22 +162,22 @@ export class ArbitrumTrigger implements INodeType {
 					{
 						name: 'Bridge Deposit Initiated',
 						value: 'bridgeDepositInitiated',
-						description: 'Trigger when a deposit is initiated (L1 to L2)',
+						description: 'Trigger when a deposit to or from the address is delivered to the L1 inbox (requires L1 RPC URL)',
 					},
 					{
 						name: 'Bridge Deposit Completed',
 						value: 'bridgeDepositCompleted',
-						description: 'Trigger when a deposit is completed on L2',
+						description: 'Trigger when a tracked deposit changes status on L2 (requires L1 RPC URL)',
 					},
 					{
 						name: 'Bridge Withdrawal Initiated',
 						value: 'bridgeWithdrawalInitiated',
-						description: 'Trigger when a withdrawal is initiated (L2 to L1)',
+						description: 'Trigger when a withdrawal to or from the address is sent through ArbSys',
 					},
 					{
 						name: 'Bridge Withdrawal Ready',
 						value: 'bridgeWithdrawalReady',
-						description: 'Trigger when a withdrawal can be executed',
+						description: 'Trigger when a tracked withdrawal can be executed on L1 (requires L1 RPC URL)',
 					},
 					{
 						name: 'Price Alert',
@@ -237,7 +315,7 @@ export class ArbitrumTrigger implements INodeType {
 				},
 			},
 
-			// Threshold (for large transactions/swaps)
+			// Threshold (for large transactions)
 			{
 				displayName: 'Threshold (ETH)',
 				name: 'threshold',
@@ -246,7 +324,24 @@ export class ArbitrumTrigger implements INodeType {
 				description: 'Minimum value in ETH to trigger',
 				displayOptions: {
 					show: {
-						event: ['largeTransaction', 'largeSwap'],
+						event: ['largeTransaction'],
+					},
+				},
+			},
+
+			// Threshold (for large swaps)
+			{
+				displayName: 'Threshold (USD)',
+				name: 'swapThresholdUsd',
+				type: 'number',
+				default: 100000,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Minimum swap value in USD to trigger, from Chainlink prices. Swaps where neither token has a feed are skipped.',
+				displayOptions: {
+					show: {
+						event: ['largeSwap'],
 					},
 				},
 			},
@@ -266,6 +361,70 @@ export class ArbitrumTrigger implements INodeType {
 			},
 
 			// Price Alert Settings
+			{
+				displayName: 'Price Source',
+				name: 'priceSource',
+				type: 'options',
+				default: 'chainlink',
+				options: [
+					{ name: 'Chainlink Feed', value: 'chainlink' },
+					{ name: 'Uniswap V3 TWAP', value: 'uniswapV3Twap' },
+				],
+				description: 'Chainlink feed set in Token Address (ETH/USD when empty), or a pool TWAP that resists in-block manipulation',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+					},
+				},
+			},
+			{
+				displayName: 'TWAP Pool Address',
+				name: 'twapPool',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: '0x...',
+				description: 'Uniswap V3 pool to average the price of',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+						priceSource: ['uniswapV3Twap'],
+					},
+				},
+			},
+			{
+				displayName: 'TWAP Window (Seconds)',
+				name: 'twapWindow',
+				type: 'number',
+				default: 1800,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Length of the averaging window',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+						priceSource: ['uniswapV3Twap'],
+					},
+				},
+			},
+			{
+				displayName: 'Price Of',
+				name: 'twapPriceOf',
+				type: 'options',
+				default: 'token0',
+				options: [
+					{ name: 'Token0 in Token1', value: 'token0' },
+					{ name: 'Token1 in Token0', value: 'token1' },
+				],
+				description: 'Which side of the pool the target price is expressed for',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+						priceSource: ['uniswapV3Twap'],
+					},
+				},
+			},
 			{
 				displayName: 'Price Direction',
 				name: 'priceDirection',
@@ -284,17 +443,66 @@ export class ArbitrumTrigger implements INodeType {
 				},
 			},
 			{
-				displayName: 'Target Price (USD)',
+				displayName: 'Target Price',
 				name: 'targetPrice',
 				type: 'number',
 				default: 0,
-				description: 'Target price in USD',
+				description: 'Price to compare against. Chainlink: in the feed\'s quote currency (USD for USD feeds). Uniswap V3 TWAP: in units of the other pool token per token selected in Price Of, adjusted for decimals.',
 				displayOptions: {
 					show: {
 						event: ['priceAlert'],
 					},
 				},
 			},
+			{
+				displayName: 'Max Price Age (Seconds)',
+				name: 'maxPriceAge',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Answers older than this are stale. 0 uses the feed heartbeat (24h when unknown).',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+						priceSource: ['chainlink'],
+					},
+				},
+			},
+			{
+				displayName: 'Sequencer Grace Period (Seconds)',
+				name: 'sequencerGracePeriod',
+				type: 'number',
+				default: 3600,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'How long after the sequencer comes back up prices are still treated as unsafe',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+						priceSource: ['chainlink'],
+					},
+				},
+			},
+			{
+				displayName: 'On Unsafe Price',
+				name: 'unsafePriceAction',
+				type: 'options',
+				default: 'skip',
+				options: [
+					{ name: 'Skip Alert', value: 'skip' },
+					{ name: 'Flag in Output', value: 'flag' },
+				],
+				description: 'Stale prices, or prices read while the sequencer is down or in its grace period, either never fire the alert or fire it with safe set to false',
+				displayOptions: {
+					show: {
+						event: ['priceAlert'],
+						priceSource: ['chainlink'],
+					},
+				},
+			},
 
 			// DEX Selection (for swap monitoring)
 			{
@@ -309,7 +517,7 @@ export class ArbitrumTrigger implements INodeType {
 					{ name: 'Camelot', value: 'camelot' },
 					{ name: 'GMX', value: 'gmx' },
 				],
-				description: 'DEX to monitor for swaps',
+				description: 'DEX to monitor for swaps. Camelot covers its V2 and V3 pools; GMX covers V1 vault swaps.',
 				displayOptions: {
 					show: {
 						event: ['largeSwap'],
@@ -317,6 +525,84 @@ export class ArbitrumTrigger implements INodeType {
 				},
 			},
 
+			// Start From
+			{
+				displayName: 'Start From',
+				name: 'startFrom',
+				type: 'options',
+				options: [
+					{ name: 'Latest Block', value: 'latest', description: 'Only emit events from blocks after activation' },
+					{ name: 'Specific Block', value: 'block', description: 'Backfill from a block number' },
+					{ name: 'Date & Time', value: 'timestamp', description: 'Backfill from the first block at or after a time' },
+					{ name: 'Blocks Ago', value: 'blocksAgo', description: 'Backfill a number of blocks before activation' },
+				],
+				default: 'latest',
+				description: 'Where the first poll starts. Backfilled events are emitted like live ones, Max Blocks per Poll at a time, with backfill set.',
+				displayOptions: {
+					show: {
+						event: BLOCK_RANGE_EVENTS,
+					},
+				},
+			},
+			{
+				displayName: 'Start Block',
+				name: 'startBlock',
+				type: 'number',
+				default: 0,
+				description: 'First block to emit events from',
+				displayOptions: {
+					show: {
+						event: BLOCK_RANGE_EVENTS,
+						startFrom: ['block'],
+					},
+				},
+			},
+			{
+				displayName: 'Start Time',
+				name: 'startTime',
+				type: 'dateTime',
+				default: '',
+				description: 'Emit events from blocks produced at or after this time',
+				displayOptions: {
+					show: {
+						event: BLOCK_RANGE_EVENTS,
+						startFrom: ['timestamp'],
+					},
+				},
+			},
+			{
+				displayName: 'Blocks Ago',
+				name: 'startBlocksAgo',
+				type: 'number',
+				default: 10000,
+				description: 'Number of blocks before the final block to backfill. Arbitrum One produces about 345,600 blocks a day.',
+				displayOptions: {
+					show: {
+						event: BLOCK_RANGE_EVENTS,
+						startFrom: ['blocksAgo'],
+					},
+				},
+			},
+
+			// Block Finality
+			{
+				displayName: 'Finality',
+				name: 'finality',
+				type: 'options',
+				options: [
+					{ name: 'Confirmations', value: 'confirmations', description: 'Wait a fixed number of blocks behind the head' },
+					{ name: 'Safe', value: 'safe', description: 'Process up to the RPC safe block' },
+					{ name: 'Finalized', value: 'finalized', description: 'Process up to the RPC finalized block' },
+				],
+				default: 'confirmations',
+				description: 'Which blocks count as final. Blocks that are reorged out after processing are retracted and their range re-emitted with reorged set.',
+				displayOptions: {
+					show: {
+						event: BLOCK_RANGE_EVENTS,
+					},
+				},
+			},
+
 			// Block Confirmations
 			{
 				displayName: 'Wait for Confirmations',
@@ -326,15 +612,34 @@ export class ArbitrumTrigger implements INodeType {
 				description: 'Number of block confirmations to wait',
 				displayOptions: {
 					show: {
-						event: [
-							'newBlock',
-							'addressActivity',
-							'tokenTransfer',
-							'nftTransfer',
-							'contractEvent',
-							'largeTransaction',
-							'largeSwap',
-						],
+						event: BLOCK_RANGE_EVENTS,
+						finality: ['confirmations'],
+					},
+				},
+			},
+
+			// Catch-up
+			{
+				displayName: 'Max Blocks per Poll',
+				name: 'maxBlocksPerPoll',
+				type: 'number',
+				default: 2000,
+				description: 'Most blocks to scan in one poll. After a pause the trigger resumes where it stopped and catches up over several polls. 0 scans the whole gap at once.',
+				displayOptions: {
+					show: {
+						event: [...BLOCK_RANGE_EVENTS, ...BRIDGE_EVENTS],
+					},
+				},
+			},
+			{
+				displayName: 'Block Fetch Concurrency',
+				name: 'blockConcurrency',
+				type: 'number',
+				default: DEFAULT_BLOCK_CONCURRENCY,
+				description: 'Blocks requested in parallel when scanning block by block',
+				displayOptions: {
+					show: {
+						event: ['newBlock', 'addressActivity', 'largeTransaction'],
 					},
 				},
 			},
@@ -347,343 +652,84 @@ export class ArbitrumTrigger implements INodeType {
 		const network = credentials.network as string;
 		const networkConfig = NETWORK_CONFIGS[network as keyof typeof NETWORK_CONFIGS] || NETWORK_CONFIGS.arbitrumOne;
 
-		// Create provider
-		let rpcUrl: string;
-		const rpcProvider = credentials.rpcProvider as string;
-		const apiKey = credentials.apiKey as string;
-
-		if (rpcProvider === 'custom') {
-			rpcUrl = credentials.customRpcUrl as string;
-		} else {
-			rpcUrl = networkConfig.rpcUrl;
-		}
-
-		const provider = new ethers.JsonRpcProvider(rpcUrl);
+		// Create provider from the configured RPC provider
+		const provider = new ethers.JsonRpcProvider(resolveRpcUrl(credentials).rpcUrl);
 
 		// Get workflow static data for state persistence
 		const workflowStaticData = this.getWorkflowStaticData('node');
 		const lastBlockKey = 'lastProcessedBlock';
 		const lastBalanceKey = 'lastBalance';
 		const lastPriceKey = 'lastPrice';
+		const lastL1BlockKey = 'lastL1Block';
+		const pendingDepositsKey = 'pendingDeposits';
+		const pendingWithdrawalsKey = 'pendingWithdrawals';
+		const blockCursorKey = 'blockCursor';
+		const backfillUntilKey = 'backfillUntil';
 
 		const returnData: INodeExecutionData[] = [];
 
-		try {
-			switch (event) {
-				case 'newBlock': {
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
-
-					if (currentBlock > lastBlock + confirmations) {
-						for (let blockNum = lastBlock + 1; blockNum <= currentBlock - confirmations; blockNum++) {
-							const block = await provider.getBlock(blockNum);
-							if (block) {
-								returnData.push({
-									json: {
-										network: networkConfig.name,
-										blockNumber: block.number,
-										blockHash: block.hash,
-										timestamp: block.timestamp,
-										timestampDate: new Date(Number(block.timestamp) * 1000).toISOString(),
-										gasLimit: block.gasLimit.toString(),
-										gasUsed: block.gasUsed.toString(),
-										baseFeePerGas: block.baseFeePerGas?.toString(),
-										transactionCount: block.transactions.length,
-									},
-								});
-							}
-						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
+		// Block-range events resume after the cursor, rewinding to the common ancestor after a reorg
+		let blockRange: BlockRange | undefined;
+		let blockConcurrency = DEFAULT_BLOCK_CONCURRENCY;
+		if (BLOCK_RANGE_EVENTS.includes(event)) {
+			const finality = this.getNodeParameter('finality', 'confirmations') as FinalityMode;
+			const confirmations = finality === 'confirmations' ? (this.getNodeParameter('confirmations') as number) : 0;
+			const maxBlocksPerPoll = this.getNodeParameter('maxBlocksPerPoll', 2000) as number;
+			blockConcurrency = this.getNodeParameter('blockConcurrency', DEFAULT_BLOCK_CONCURRENCY) as number;
+			const cursor = workflowStaticData[blockCursorKey] as BlockCursor | undefined;
+			let lastBlock = workflowStaticData[lastBlockKey] as number | undefined;
+
+			// First activation: backfill from the configured start before following the chain
+			const startFrom = this.getNodeParameter('startFrom', 'latest') as string;
+			const backfill = !cursor && lastBlock === undefined && startFrom !== 'latest';
+			if (backfill) {
+				if (startFrom === 'block') {
+					lastBlock = (this.getNodeParameter('startBlock') as number) - 1;
+				} else if (startFrom === 'timestamp') {
+					// Block times are whole seconds, so a start between two seconds begins at the later one
+					const startTime = Math.ceil(new Date(this.getNodeParameter('startTime') as string).getTime() / 1000);
+					if (isNaN(startTime)) {
+						throw new Error('Start Time is not a valid date');
 					}
-					break;
+					lastBlock = (await findBlockByTimestamp(provider, startTime)) - 1;
 				}
+			}
 
-				case 'addressActivity': {
-					const address = this.getNodeParameter('address') as string;
-					const filterDirection = this.getNodeParameter('filterDirection') as string;
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
-
-					if (currentBlock > lastBlock + confirmations) {
-						// Get transactions to/from address
-						for (let blockNum = lastBlock + 1; blockNum <= currentBlock - confirmations; blockNum++) {
-							const block = await provider.getBlock(blockNum, true);
-							if (block && block.prefetchedTransactions) {
-								for (const tx of block.prefetchedTransactions) {
-									const isIncoming = tx.to?.toLowerCase() === address.toLowerCase();
-									const isOutgoing = tx.from.toLowerCase() === address.toLowerCase();
-
-									if (
-										(filterDirection === 'both' && (isIncoming || isOutgoing)) ||
-										(filterDirection === 'incoming' && isIncoming) ||
-										(filterDirection === 'outgoing' && isOutgoing)
-									) {
-										returnData.push({
-											json: {
-												network: networkConfig.name,
-												type: isIncoming ? 'incoming' : 'outgoing',
-												transactionHash: tx.hash,
-												from: tx.from,
-												to: tx.to,
-												value: ethers.formatEther(tx.value),
-												valueWei: tx.value.toString(),
-												blockNumber: tx.blockNumber,
-												timestamp: block.timestamp,
-											},
-										});
-									}
-								}
-							}
-						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
-					}
-					break;
-				}
-
-				case 'tokenTransfer': {
-					const address = this.getNodeParameter('address', '') as string;
-					const tokenAddress = this.getNodeParameter('tokenAddress', '') as string;
-					const filterDirection = this.getNodeParameter('filterDirection') as string;
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
-
-					if (currentBlock > lastBlock + confirmations) {
-						// Transfer event signature
-						const transferTopic = ethers.id('Transfer(address,address,uint256)');
-						
-						const filter: ethers.Filter = {
-							fromBlock: lastBlock + 1,
-							toBlock: currentBlock - confirmations,
-							topics: [transferTopic],
-						};
-
-						if (tokenAddress) {
-							filter.address = tokenAddress;
-						}
-
-						const logs = await provider.getLogs(filter);
-
-						for (const log of logs) {
-							const from = '0x' + log.topics[1].slice(26);
-							const to = '0x' + log.topics[2].slice(26);
-
-							// Apply address filter
-							if (address) {
-								const isIncoming = to.toLowerCase() === address.toLowerCase();
-								const isOutgoing = from.toLowerCase() === address.toLowerCase();
-
-								if (
-									(filterDirection === 'both' && !(isIncoming || isOutgoing)) ||
-									(filterDirection === 'incoming' && !isIncoming) ||
-									(filterDirection === 'outgoing' && !isOutgoing)
-								) {
-									continue;
-								}
-							}
-
-							// Decode amount
-							const amount = BigInt(log.data);
-
-							// Get token info
-							let symbol = 'Unknown';
-							let decimals = 18;
-							try {
-								const tokenContract = new ethers.Contract(
-									log.address,
-									['function symbol() view returns (string)', 'function decimals() view returns (uint8)'],
-									provider
-								);
-								[symbol, decimals] = await Promise.all([
-									tokenContract.symbol(),
-									tokenContract.decimals(),
-								]);
-							} catch (e) {
-								// Use defaults
-							}
-
-							returnData.push({
-								json: {
-									network: networkConfig.name,
-									type: 'ERC20Transfer',
-									tokenAddress: log.address,
-									tokenSymbol: symbol,
-									from,
-									to,
-									amount: ethers.formatUnits(amount, decimals),
-									amountWei: amount.toString(),
-									transactionHash: log.transactionHash,
-									blockNumber: log.blockNumber,
-									logIndex: log.index,
-								},
-							});
-						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
-					}
-					break;
-				}
-
-				case 'nftTransfer': {
-					const address = this.getNodeParameter('address', '') as string;
-					const collectionAddress = this.getNodeParameter('collectionAddress', '') as string;
-					const filterDirection = this.getNodeParameter('filterDirection') as string;
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
-
-					if (currentBlock > lastBlock + confirmations) {
-						// ERC-721 Transfer event
-						const erc721TransferTopic = ethers.id('Transfer(address,address,uint256)');
-						
-						const filter: ethers.Filter = {
-							fromBlock: lastBlock + 1,
-							toBlock: currentBlock - confirmations,
-							topics: [erc721TransferTopic],
-						};
-
-						if (collectionAddress) {
-							filter.address = collectionAddress;
-						}
-
-						const logs = await provider.getLogs(filter);
-
-						for (const log of logs) {
-							// ERC-721 has 4 topics (event sig + 3 indexed params)
-							if (log.topics.length === 4) {
-								const from = '0x' + log.topics[1].slice(26);
-								const to = '0x' + log.topics[2].slice(26);
-								const tokenId = BigInt(log.topics[3]);
-
-								// Apply address filter
-								if (address) {
-									const isIncoming = to.toLowerCase() === address.toLowerCase();
-									const isOutgoing = from.toLowerCase() === address.toLowerCase();
-
-									if (
-										(filterDirection === 'both' && !(isIncoming || isOutgoing)) ||
-										(filterDirection === 'incoming' && !isIncoming) ||
-										(filterDirection === 'outgoing' && !isOutgoing)
-									) {
-										continue;
-									}
-								}
-
-								// Get collection info
-								let name = 'Unknown';
-								let symbol = 'Unknown';
-								try {
-									const nftContract = new ethers.Contract(
-										log.address,
-										['function name() view returns (string)', 'function symbol() view returns (string)'],
-										provider
-									);
-									[name, symbol] = await Promise.all([
-										nftContract.name(),
-										nftContract.symbol(),
-									]);
-								} catch (e) {
-									// Use defaults
-								}
-
-								returnData.push({
-									json: {
-										network: networkConfig.name,
-										type: 'ERC721Transfer',
-										collectionAddress: log.address,
-										collectionName: name,
-										collectionSymbol: symbol,
-										from,
-										to,
-										tokenId: tokenId.toString(),
-										transactionHash: log.transactionHash,
-										blockNumber: log.blockNumber,
-										logIndex: log.index,
-									},
-								});
-							}
-						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
-					}
-					break;
+			const range = await getNextBlockRange(provider, cursor, finality, confirmations, lastBlock);
+			// A start beyond the final block waits for the chain to reach it; a cursor now would start earlier
+			if (!cursor && lastBlock !== undefined && lastBlock > range.toBlock) {
+				workflowStaticData[lastBlockKey] = lastBlock;
+				return null;
+			}
+			if (backfill) {
+				if (startFrom === 'blocksAgo') {
+					range.fromBlock = range.toBlock - (this.getNodeParameter('startBlocksAgo') as number) + 1;
 				}
+				range.fromBlock = Math.max(0, range.fromBlock);
+				workflowStaticData[backfillUntilKey] = range.toBlock;
+			}
+			blockRange = limitBlockRange(range, maxBlocksPerPoll);
+		}
 
-				case 'contractEvent': {
-					const contractAddress = this.getNodeParameter('contractAddress') as string;
-					const eventName = this.getNodeParameter('eventName', '') as string;
-					const abiStr = this.getNodeParameter('abi', '') as string;
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
-
-					if (currentBlock > lastBlock + confirmations) {
-						let iface: ethers.Interface | undefined;
-						let eventTopic: string | undefined;
-
-						if (abiStr) {
-							try {
-								const abi = JSON.parse(abiStr);
-								iface = new ethers.Interface(abi);
-								if (eventName) {
-									eventTopic = iface.getEvent(eventName)?.topicHash;
-								}
-							} catch (e) {
-								// Invalid ABI
-							}
-						}
-
-						const filter: ethers.Filter = {
-							address: contractAddress,
-							fromBlock: lastBlock + 1,
-							toBlock: currentBlock - confirmations,
-						};
-
-						if (eventTopic) {
-							filter.topics = [eventTopic];
-						}
-
-						const logs = await provider.getLogs(filter);
-
-						for (const log of logs) {
-							let decoded: Record<string, unknown> = {};
-
-							if (iface) {
-								try {
-									const parsed = iface.parseLog({ data: log.data, topics: log.topics as string[] });
-									if (parsed) {
-										decoded = {
-											eventName: parsed.name,
-											args: Object.fromEntries(
-												parsed.fragment.inputs.map((input, i) => [
-													input.name || `arg${i}`,
-													typeof parsed.args[i] === 'bigint'
-														? parsed.args[i].toString()
-														: parsed.args[i],
-												])
-											),
-										};
-									}
-								} catch (e) {
-									// Decoding failed
-								}
-							}
-
-							returnData.push({
-								json: {
-									network: networkConfig.name,
-									contractAddress: log.address,
-									transactionHash: log.transactionHash,
-									blockNumber: log.blockNumber,
-									logIndex: log.index,
-									topics: log.topics,
-									data: log.data,
-									...decoded,
-								},
-							});
-						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
-					}
+		try {
+			switch (event) {
+				case 'newBlock':
+				case 'addressActivity':
+				case 'tokenTransfer':
+				case 'nftTransfer':
+				case 'contractEvent':
+				case 'largeTransaction':
+				case 'largeSwap': {
+					const { fromBlock, toBlock } = blockRange as BlockRange;
+					const items = await scanBlockEvents(
+						{ provider, network, networkName: networkConfig.name },
+						event,
+						readBlockEventParams((name, fallback) => this.getNodeParameter(name, fallback)),
+						fromBlock,
+						toBlock,
+						blockConcurrency,
+					);
+					returnData.push(...items.map((json) => ({ json })));
 					break;
 				}
 
@@ -774,66 +820,86 @@ export class ArbitrumTrigger implements INodeType {
 					break;
 				}
 
-				case 'largeTransaction': {
-					const threshold = this.getNodeParameter('threshold') as number;
-					const thresholdWei = ethers.parseEther(threshold.toString());
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
-
-					if (currentBlock > lastBlock + confirmations) {
-						for (let blockNum = lastBlock + 1; blockNum <= currentBlock - confirmations; blockNum++) {
-							const block = await provider.getBlock(blockNum, true);
-							if (block && block.prefetchedTransactions) {
-								for (const tx of block.prefetchedTransactions) {
-									if (tx.value >= thresholdWei) {
-										returnData.push({
-											json: {
-												network: networkConfig.name,
-												type: 'largeTransaction',
-												transactionHash: tx.hash,
-												from: tx.from,
-												to: tx.to,
-												value: ethers.formatEther(tx.value),
-												valueWei: tx.value.toString(),
-												threshold: threshold,
-												blockNumber: tx.blockNumber,
-												timestamp: block.timestamp,
-											},
-										});
-									}
-								}
-							}
-						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
-					}
-					break;
-				}
-
 				case 'priceAlert': {
 					const tokenAddress = this.getNodeParameter('tokenAddress') as string;
 					const priceDirection = this.getNodeParameter('priceDirection') as string;
 					const targetPrice = this.getNodeParameter('targetPrice') as number;
 
-					// Use Chainlink price feeds
-					const CHAINLINK_ETH_USD = '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612'; // Arbitrum One
-					const feedAddress = tokenAddress || CHAINLINK_ETH_USD;
+					const priceSource = this.getNodeParameter('priceSource', 'chainlink') as string;
+					let currentPrice: number;
+					let sourceData: IDataObject;
 
-					const feed = new ethers.Contract(
-						feedAddress,
-						[
-							'function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)',
-							'function decimals() view returns (uint8)',
-						],
-						provider
-					);
+					if (priceSource === 'uniswapV3Twap') {
+						const twapPool = this.getNodeParameter('twapPool') as string;
+						const twapWindow = this.getNodeParameter('twapWindow', 1800) as number;
+						const priceOf = this.getNodeParameter('twapPriceOf', 'token0') as string;
+						if (!ethers.isAddress(twapPool)) {
+							throw new Error('Invalid TWAP pool address');
+						}
 
-					const [roundData, decimals] = await Promise.all([
-						feed.latestRoundData(),
-						feed.decimals(),
-					]);
+						const twap = await getUniswapV3Twap(provider, twapPool, twapWindow);
+						currentPrice = priceOf === 'token1' ? 1 / twap.price0In1 : twap.price0In1;
+						sourceData = {
+							priceSource,
+							poolAddress: twapPool,
+							windowSeconds: twapWindow,
+							twapTick: twap.twapTick,
+							baseToken: priceOf === 'token1' ? twap.token1 : twap.token0,
+							quoteToken: priceOf === 'token1' ? twap.token0 : twap.token1,
+						};
+					} else {
+						// Use Chainlink price feeds
+						const CHAINLINK_ETH_USD = '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612'; // Arbitrum One
+						const feedAddress = tokenAddress || CHAINLINK_ETH_USD;
+
+						const feed = new ethers.Contract(
+							feedAddress,
+							[
+								'function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)',
+								'function decimals() view returns (uint8)',
+							],
+							provider
+						);
+
+						const [roundData, decimals] = await Promise.all([
+							feed.latestRoundData(),
+							feed.decimals(),
+						]);
+
+						const safety = await checkOracleSafety(
+							provider,
+							network,
+							feedAddress,
+							Number(roundData[3]),
+							this.getNodeParameter('maxPriceAge', 0) as number,
+							this.getNodeParameter('sequencerGracePeriod', SEQUENCER_GRACE_PERIOD) as number,
+						);
+						if (roundData[1] <= 0n) {
+							safety.safe = false;
+							safety.warnings.push('Feed returned a non-positive answer');
+						}
+
+						currentPrice = Number(ethers.formatUnits(roundData[1], decimals));
+
+						// Baseline the next safe read on the skipped answer, or on nothing when the answer is unusable,
+						// so a crossing that already reverted is not reported later
+						if (!safety.safe && this.getNodeParameter('unsafePriceAction', 'skip') === 'skip') {
+							if (currentPrice > 0) {
+								workflowStaticData[lastPriceKey] = currentPrice;
+							} else {
+								delete workflowStaticData[lastPriceKey];
+							}
+							break;
+						}
+
+						sourceData = {
+							priceSource,
+							feedAddress,
+							priceUpdatedAt: Number(roundData[3]),
+							...safety,
+						};
+					}
 
-					const currentPrice = Number(roundData[1]) / Math.pow(10, decimals);
 					const lastPrice = workflowStaticData[lastPriceKey] as number;
 
 					let shouldTrigger = false;
@@ -854,7 +920,7 @@ export class ArbitrumTrigger implements INodeType {
 							json: {
 								network: networkConfig.name,
 								type: 'priceAlert',
-								feedAddress,
+								...sourceData,
 								currentPrice,
 								targetPrice,
 								direction: currentPrice >= targetPrice ? 'above' : 'below',
@@ -868,92 +934,174 @@ export class ArbitrumTrigger implements INodeType {
 					break;
 				}
 
-				case 'largeSwap': {
-					const contractAddress = this.getNodeParameter('contractAddress', '') as string;
-					const dex = this.getNodeParameter('dex') as string;
-					const threshold = this.getNodeParameter('threshold') as number;
-					const currentBlock = await provider.getBlockNumber();
-					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
-					const confirmations = this.getNodeParameter('confirmations') as number;
+				case 'bridgeDepositInitiated':
+				case 'bridgeDepositCompleted': {
+					const address = this.getNodeParameter('address') as string;
+					const l1 = await createL1Provider(credentials);
+					if (!l1) {
+						throw new Error('Bridge deposit events require an L1 RPC URL in the Arbitrum RPC credentials');
+					}
+
+					const bridgeNetwork = network as ArbitrumNetworkId;
+					const currentL1Block = await l1.provider.getBlockNumber();
+					const lastL1Block = (workflowStaticData[lastL1BlockKey] as number) || currentL1Block - 1;
+					const pendingDeposits = (workflowStaticData[pendingDepositsKey] as IDataObject) || {};
+
+					if (currentL1Block > lastL1Block) {
+						const { fromBlock, toBlock } = limitBlockRange(
+							{ fromBlock: lastL1Block + 1, toBlock: currentL1Block },
+							this.getNodeParameter('maxBlocksPerPoll', 2000) as number,
+						);
+						const messages = await getDepositMessages(
+							bridgeNetwork,
+							l1.provider,
+							networkConfig.chainId,
+							fromBlock,
+							toBlock,
+						);
+
+						for (const message of messages) {
+							if (!isBridgeMessageForAddress(message, address)) continue;
+
+							if (event === 'bridgeDepositInitiated') {
+								returnData.push({
+									json: {
+										network: networkConfig.name,
+										type: event,
+										address,
+										...formatDepositMessage(message),
+									},
+								});
+							} else {
+								pendingDeposits[message.messageNumber] = {
+									message: message as unknown as IDataObject,
+									status: MESSAGE_STATUS.NOT_YET_CREATED,
+								};
+							}
+						}
+						workflowStaticData[lastL1BlockKey] = toBlock;
+					}
 
-					if (currentBlock > lastBlock + confirmations) {
-						// Uniswap V3 Swap event
-						const swapTopic = ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24)');
+					if (event === 'bridgeDepositCompleted') {
+						// Emit once for every L2 status transition of a tracked deposit
+						for (const [messageNumber, entry] of Object.entries(pendingDeposits)) {
+							const tracked = entry as IDataObject;
+							const message = tracked.message as unknown as DepositMessage;
+							const l2Status = await getDepositMessageStatus(message, bridgeNetwork, provider);
 
-						const filter: ethers.Filter = {
-							fromBlock: lastBlock + 1,
-							toBlock: currentBlock - confirmations,
-							topics: [swapTopic],
-						};
+							if (l2Status.status === tracked.status) continue;
 
-						if (contractAddress) {
-							filter.address = contractAddress;
-						}
+							returnData.push({
+								json: {
+									network: networkConfig.name,
+									type: event,
+									address,
+									...formatDepositMessage(message),
+									status: l2Status.status,
+									previousStatus: tracked.status,
+									l2BlockNumber: l2Status.l2BlockNumber ?? null,
+									redeemTransactionHash: l2Status.redeemTxHash ?? null,
+									ticketTimeout: l2Status.timeout ?? null,
+								},
+							});
 
-						const logs = await provider.getLogs(filter);
-
-						for (const log of logs) {
-							try {
-								// Decode Uniswap V3 swap
-								const iface = new ethers.Interface([
-									'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
-								]);
-								const decoded = iface.parseLog({ data: log.data, topics: log.topics as string[] });
-
-								if (decoded) {
-									const amount0 = decoded.args.amount0;
-									const amount1 = decoded.args.amount1;
-
-									// Rough ETH value estimation (assuming 18 decimals)
-									const absAmount0 = amount0 < 0n ? -amount0 : amount0;
-									const absAmount1 = amount1 < 0n ? -amount1 : amount1;
-									const maxAmount = absAmount0 > absAmount1 ? absAmount0 : absAmount1;
-									const ethValue = Number(ethers.formatEther(maxAmount));
-
-									if (ethValue >= threshold) {
-										returnData.push({
-											json: {
-												network: networkConfig.name,
-												type: 'largeSwap',
-												poolAddress: log.address,
-												sender: decoded.args.sender,
-												recipient: decoded.args.recipient,
-												amount0: amount0.toString(),
-												amount1: amount1.toString(),
-												estimatedValue: ethValue,
-												threshold,
-												transactionHash: log.transactionHash,
-												blockNumber: log.blockNumber,
-											},
-										});
-									}
-								}
-							} catch (e) {
-								// Skip non-matching events
+							if (FINAL_DEPOSIT_STATUSES.includes(l2Status.status)) {
+								delete pendingDeposits[messageNumber];
+							} else {
+								pendingDeposits[messageNumber] = { ...tracked, status: l2Status.status };
 							}
 						}
-						workflowStaticData[lastBlockKey] = currentBlock - confirmations;
+						workflowStaticData[pendingDepositsKey] = pendingDeposits;
 					}
 					break;
 				}
 
-				case 'bridgeDepositInitiated':
-				case 'bridgeDepositCompleted':
 				case 'bridgeWithdrawalInitiated':
 				case 'bridgeWithdrawalReady': {
-					// Bridge events require monitoring specific bridge contracts
-					// This is a simplified implementation
 					const address = this.getNodeParameter('address') as string;
-					
-					returnData.push({
-						json: {
-							network: networkConfig.name,
-							type: event,
-							address,
-							note: 'Bridge event monitoring requires integration with @arbitrum/sdk for full functionality',
-							timestamp: new Date().toISOString(),
-						},
-					});
+					const bridgeNetwork = network as ArbitrumNetworkId;
+					const currentBlock = await provider.getBlockNumber();
+					const lastBlock = (workflowStaticData[lastBlockKey] as number) || currentBlock - 1;
+					const pendingWithdrawals = (workflowStaticData[pendingWithdrawalsKey] as IDataObject) || {};
+
+					if (currentBlock > lastBlock) {
+						const { fromBlock, toBlock } = limitBlockRange(
+							{ fromBlock: lastBlock + 1, toBlock: currentBlock },
+							this.getNodeParameter('maxBlocksPerPoll', 2000) as number,
+						);
+						const messages = await getWithdrawalMessages(bridgeNetwork, provider, fromBlock, toBlock);
+
+						for (const message of messages) {
+							if (!isBridgeMessageForAddress(message, address)) continue;
+
+							if (event === 'bridgeWithdrawalInitiated') {
+								returnData.push({
+									json: {
+										network: networkConfig.name,
+										type: event,
+										address,
+										...formatWithdrawalMessage(message),
+									},
+								});
+							} else {
+								pendingWithdrawals[message.position] = {
+									message: message as unknown as IDataObject,
+									challengePeriodEnd: 0,
+								};
+							}
+						}
+						workflowStaticData[lastBlockKey] = toBlock;
+					}
+
+					if (event === 'bridgeWithdrawalReady') {
+						const l1 = await createL1Provider(credentials);
+						if (!l1) {
+							throw new Error('Bridge withdrawal events require an L1 RPC URL in the Arbitrum RPC credentials');
+						}
+
+						const now = Math.floor(Date.now() / 1000);
+						// Looked up once per poll, and only when some withdrawal is past its challenge period
+						let sendState: ConfirmedSendState | null | undefined;
+
+						for (const [position, entry] of Object.entries(pendingWithdrawals)) {
+							const tracked = entry as IDataObject;
+							// Skip outbox lookups until the known challenge period has passed
+							if (now < (tracked.challengePeriodEnd as number)) continue;
+
+							if (sendState === undefined) {
+								sendState = await getLatestConfirmedSendState(l1.provider, provider);
+							}
+							const message = tracked.message as unknown as WithdrawalMessage;
+							const status = await getWithdrawalMessageStatus(
+								message,
+								bridgeNetwork,
+								l1.provider,
+								sendState?.sendCount,
+							);
+
+							if (status.status === 'ready_to_execute') {
+								returnData.push({
+									json: {
+										network: networkConfig.name,
+										type: event,
+										address,
+										...formatWithdrawalMessage(message),
+										status: status.status,
+										challengePeriodEnd: status.challengePeriodEnd,
+									},
+								});
+								delete pendingWithdrawals[position];
+							} else if (status.status === 'executed') {
+								delete pendingWithdrawals[position];
+							} else {
+								pendingWithdrawals[position] = {
+									...tracked,
+									challengePeriodEnd: status.challengePeriodEnd,
+								};
+							}
+						}
+						workflowStaticData[pendingWithdrawalsKey] = pendingWithdrawals;
+					}
 					break;
 				}
 
@@ -964,6 +1112,49 @@ export class ArbitrumTrigger implements INodeType {
 			throw error;
 		}
 
+		if (blockRange) {
+			const { reorg, replayedTo } = blockRange;
+			const backfillUntil = workflowStaticData[backfillUntilKey] as number | undefined;
+			if (backfillUntil !== undefined) {
+				for (const item of returnData) {
+					if ((item.json.blockNumber as number) <= backfillUntil) {
+						item.json.backfill = true;
+					}
+				}
+			}
+			if (replayedTo !== undefined) {
+				for (const item of returnData) {
+					if ((item.json.blockNumber as number) <= replayedTo) {
+						item.json.reorged = true;
+					}
+				}
+			}
+			if (reorg) {
+				returnData.unshift({
+					json: {
+						network: networkConfig.name,
+						type: 'reorg',
+						reorged: true,
+						retracted: true,
+						commonAncestor: reorg.commonAncestor,
+						fromBlock: reorg.commonAncestor + 1,
+						toBlock: reorg.replayedTo,
+						orphanedBlocks: reorg.orphaned,
+						windowExceeded: reorg.windowExceeded,
+					},
+				});
+			}
+
+			const cursor = await advanceCursor(provider, blockRange);
+			if (cursor) {
+				workflowStaticData[blockCursorKey] = cursor;
+				workflowStaticData[lastBlockKey] = cursor.number;
+				if (backfillUntil !== undefined && cursor.number >= backfillUntil) {
+					delete workflowStaticData[backfillUntilKey];
+				}
+			}
+		}
+
 		if (returnData.length === 0) {
 			return null;
 		}
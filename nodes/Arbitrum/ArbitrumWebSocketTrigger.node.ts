@@ -0,0 +1,723 @@
+import type {
+	IDataObject,
+	INodeType,
+	INodeTypeDescription,
+	ITriggerFunctions,
+	ITriggerResponse,
+} from 'n8n-workflow';
+import { ethers } from 'ethers';
+import type { Log, WebSocketProvider } from 'ethers';
+
+import { NETWORK_CONFIGS } from './constants';
+import { resolveRpcUrl } from './transport/provider';
+import { openReconnectingWebSocket, openSequencerFeed } from './transport/webSocket';
+import {
+	BLOCK_EVENTS,
+	formatEventLogs,
+	getEventLogFilter,
+	readBlockEventParams,
+	scanBlockEvents,
+} from './utils/blockEventUtils';
+import type { BlockEventSource } from './utils/blockEventUtils';
+import { DEFAULT_BLOCK_CONCURRENCY, getLogsChunked } from './utils/logScanUtils';
+import { advanceCursor, getBlockRangeTo, limitBlockRange } from './utils/reorgUtils';
+import type { BlockCursor } from './utils/reorgUtils';
+import {
+	decodeFeedMessage,
+	getFeedRequestHeaders,
+	matchesFeedFilter,
+	parseFeedBroadcast,
+	parseFeedFilter,
+} from './utils/sequencerFeedUtils';
+import type { FeedMessage, SequencerTransaction } from './utils/sequencerFeedUtils';
+
+/** Blocks below the last processed block whose emitted logs are remembered, for de-duplication and retraction */
+const EMITTED_LOG_WINDOW = 64;
+
+function logKey(log: Log): string {
+	return `${log.blockHash}:${log.index}`;
+}
+
+function formatSequencerTransaction(networkName: string, sequenced: SequencerTransaction): IDataObject {
+	const { transaction } = sequenced;
+	return {
+		network: networkName,
+		type: 'sequencerTransaction',
+		sequenceNumber: sequenced.sequenceNumber,
+		l1BlockNumber: sequenced.l1BlockNumber,
+		timestamp: sequenced.timestamp,
+		timestampDate: new Date(sequenced.timestamp * 1000).toISOString(),
+		transactionHash: transaction.hash,
+		from: transaction.from,
+		to: transaction.to,
+		nonce: transaction.nonce,
+		value: ethers.formatEther(transaction.value),
+		valueWei: transaction.value.toString(),
+		selector: transaction.data.length >= 10 ? transaction.data.slice(0, 10) : null,
+		data: transaction.data,
+		gasLimit: transaction.gasLimit.toString(),
+		gasPrice: transaction.gasPrice?.toString(),
+		maxFeePerGas: transaction.maxFeePerGas?.toString(),
+		maxPriorityFeePerGas: transaction.maxPriorityFeePerGas?.toString(),
+		transactionType: transaction.type,
+		chainId: transaction.chainId.toString(),
+	};
+}
+
+/**
+ * Emit sequencer feed transactions that pass the filter, before they are in a block
+ * After a reconnect the feed is asked to resume after the last sequence number seen.
+ */
+function triggerSequencerFeed(this: ITriggerFunctions, feedUrl: string, networkName: string): ITriggerResponse {
+	const filter = parseFeedFilter(
+		this.getNodeParameter('feedAddresses', '') as string,
+		this.getNodeParameter('feedContracts', '') as string,
+		this.getNodeParameter('feedSelectors', '') as string,
+	);
+	let lastSequenceNumber: number | undefined;
+
+	const feed = openSequencerFeed({
+		url: feedUrl,
+		headers: () => getFeedRequestHeaders(lastSequenceNumber === undefined ? undefined : lastSequenceNumber + 1),
+		onMessage: (data) => {
+			let messages: FeedMessage[];
+			try {
+				messages = parseFeedBroadcast(data);
+			} catch (error) {
+				// Not a feed broadcast
+				return;
+			}
+
+			const items: IDataObject[] = [];
+			for (const message of messages) {
+				// A resumed feed can repeat messages already seen
+				if (lastSequenceNumber !== undefined && message.sequenceNumber <= lastSequenceNumber) {
+					continue;
+				}
+				lastSequenceNumber = message.sequenceNumber;
+				for (const sequenced of decodeFeedMessage(message)) {
+					if (matchesFeedFilter(sequenced.transaction, filter)) {
+						items.push(formatSequencerTransaction(networkName, sequenced));
+					}
+				}
+			}
+			if (items.length > 0) {
+				this.emit([items.map((json) => ({ json }))]);
+			}
+		},
+		onDisconnect: (error, attempt, delay) => {
+			this.logger.warn(`Arbitrum sequencer feed disconnected (${error.message}), reconnect attempt ${attempt} in ${delay} ms`);
+		},
+	});
+
+	const closeFunction = async () => {
+		await feed.close();
+	};
+
+	if (this.getMode() === 'manual') {
+		return {
+			closeFunction,
+			manualTriggerFunction: async () => {
+				// A manual run reports a failed connection instead of retrying in the background
+				try {
+					await feed.ready;
+				} catch (error) {
+					await feed.close();
+					throw new Error(`Could not connect to the sequencer feed: ${(error as Error).message}`);
+				}
+			},
+		};
+	}
+
+	return { closeFunction };
+}
+
+export class ArbitrumWebSocketTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Arbitrum WebSocket Trigger',
+		name: 'arbitrumWebSocketTrigger',
+		icon: 'file:arbitrum.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["event"]}}',
+		description: 'Trigger workflows on Arbitrum blocks, logs and sequencer feed transactions pushed over WebSocket',
+		defaults: {
+			name: 'Arbitrum WebSocket Trigger',
+		},
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'arbitrumRpc',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Requires a WebSocket endpoint: enable WebSocket in the Arbitrum RPC credentials, or set a WebSocket URL for a custom network',
+				name: 'notice',
+				type: 'notice',
+				default: '',
+				displayOptions: {
+					hide: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+
+			// Event Type Selection
+			{
+				displayName: 'Event',
+				name: 'event',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'New Block',
+						value: 'newBlock',
+						description: 'Trigger on new blocks (newHeads subscription)',
+					},
+					{
+						name: 'Address Activity',
+						value: 'addressActivity',
+						description: 'Trigger on transactions to or from an address in each new block',
+					},
+					{
+						name: 'Token Transfer (ERC-20)',
+						value: 'tokenTransfer',
+						description: 'Trigger on ERC-20 token transfers (logs subscription)',
+					},
+					{
+						name: 'NFT Transfer',
+						value: 'nftTransfer',
+						description: 'Trigger on ERC-721 transfers (logs subscription)',
+					},
+					{
+						name: 'Contract Event',
+						value: 'contractEvent',
+						description: 'Trigger on specific contract events (logs subscription)',
+					},
+					{
+						name: 'Large Transaction Alert',
+						value: 'largeTransaction',
+						description: 'Trigger on large value transactions in each new block',
+					},
+					{
+						name: 'Large Swap',
+						value: 'largeSwap',
+						description: 'Trigger on large DEX swaps (logs subscription)',
+					},
+					{
+						name: 'Sequencer Feed Transaction',
+						value: 'sequencerFeed',
+						description: 'Trigger on transactions from the sequencer feed, before they are in a block',
+					},
+				],
+				default: 'newBlock',
+			},
+
+			// Sequencer Feed
+			{
+				displayName: 'Feed URL',
+				name: 'feedUrl',
+				type: 'string',
+				default: '',
+				placeholder: 'wss://arb1.arbitrum.io/feed',
+				description: "Sequencer feed WebSocket URL. Leave empty for the network's public feed; required for custom networks.",
+				displayOptions: {
+					show: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+			{
+				displayName: 'Addresses',
+				name: 'feedAddresses',
+				type: 'string',
+				default: '',
+				placeholder: '0xabc..., 0xdef...',
+				description: 'Comma-separated addresses; only transactions sent from or to one of them trigger',
+				displayOptions: {
+					show: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+			{
+				displayName: 'Contracts',
+				name: 'feedContracts',
+				type: 'string',
+				default: '',
+				placeholder: '0xabc..., 0xdef...',
+				description: 'Comma-separated contract addresses; only transactions calling one of them trigger',
+				displayOptions: {
+					show: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+			{
+				displayName: 'Function Selectors',
+				name: 'feedSelectors',
+				type: 'string',
+				default: '',
+				placeholder: '0xa9059cbb, swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+				description: 'Comma-separated 4-byte selectors or function signatures. Leaving every filter empty emits the whole feed.',
+				displayOptions: {
+					show: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+
+			// Address Field
+			{
+				displayName: 'Address',
+				name: 'address',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: '0x...',
+				description: 'The address to monitor',
+				displayOptions: {
+					show: {
+						event: ['addressActivity'],
+					},
+				},
+			},
+			{
+				displayName: 'Address',
+				name: 'address',
+				type: 'string',
+				default: '',
+				placeholder: '0x... (leave empty for all transfers)',
+				description: 'Only trigger on transfers to or from this address',
+				displayOptions: {
+					show: {
+						event: ['tokenTransfer', 'nftTransfer'],
+					},
+				},
+			},
+
+			// Token Address
+			{
+				displayName: 'Token Address',
+				name: 'tokenAddress',
+				type: 'string',
+				default: '',
+				placeholder: '0x... (leave empty for all tokens)',
+				description: 'Filter by specific token address',
+				displayOptions: {
+					show: {
+						event: ['tokenTransfer'],
+					},
+				},
+			},
+
+			// Contract Address
+			{
+				displayName: 'Contract Address',
+				name: 'contractAddress',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: '0x...',
+				description: 'The contract address to monitor',
+				displayOptions: {
+					show: {
+						event: ['contractEvent'],
+					},
+				},
+			},
+			{
+				displayName: 'Pool Address',
+				name: 'contractAddress',
+				type: 'string',
+				default: '',
+				placeholder: '0x... (leave empty for all pools)',
+				description: 'Only trigger on swaps in this pool',
+				displayOptions: {
+					show: {
+						event: ['largeSwap'],
+					},
+				},
+			},
+
+			// Event Name
+			{
+				displayName: 'Event Name',
+				name: 'eventName',
+				type: 'string',
+				default: '',
+				placeholder: 'Transfer, Swap, etc.',
+				description: 'Name of the event to listen for (leave empty for all events)',
+				displayOptions: {
+					show: {
+						event: ['contractEvent'],
+					},
+				},
+			},
+
+			// ABI
+			{
+				displayName: 'ABI',
+				name: 'abi',
+				type: 'string',
+				typeOptions: {
+					rows: 5,
+				},
+				default: '',
+				placeholder: '[{"name": "Transfer", "type": "event", ...}]',
+				description: 'Contract ABI for event decoding (JSON format)',
+				displayOptions: {
+					show: {
+						event: ['contractEvent'],
+					},
+				},
+			},
+
+			// NFT Collection
+			{
+				displayName: 'Collection Address',
+				name: 'collectionAddress',
+				type: 'string',
+				default: '',
+				placeholder: '0x... (leave empty for all NFTs)',
+				description: 'Filter by specific NFT collection',
+				displayOptions: {
+					show: {
+						event: ['nftTransfer'],
+					},
+				},
+			},
+
+			// Filter Direction
+			{
+				displayName: 'Filter Direction',
+				name: 'filterDirection',
+				type: 'options',
+				default: 'both',
+				options: [
+					{ name: 'Both (Send & Receive)', value: 'both' },
+					{ name: 'Incoming Only', value: 'incoming' },
+					{ name: 'Outgoing Only', value: 'outgoing' },
+				],
+				description: 'Filter transfers by direction',
+				displayOptions: {
+					show: {
+						event: ['tokenTransfer', 'nftTransfer', 'addressActivity'],
+					},
+				},
+			},
+
+			// Threshold (for large transactions)
+			{
+				displayName: 'Threshold (ETH)',
+				name: 'threshold',
+				type: 'number',
+				default: 10,
+				description: 'Minimum value in ETH to trigger',
+				displayOptions: {
+					show: {
+						event: ['largeTransaction'],
+					},
+				},
+			},
+
+			// Threshold (for large swaps)
+			{
+				displayName: 'Threshold (USD)',
+				name: 'swapThresholdUsd',
+				type: 'number',
+				default: 100000,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Minimum swap value in USD to trigger, from Chainlink prices. Swaps where neither token has a feed are skipped.',
+				displayOptions: {
+					show: {
+						event: ['largeSwap'],
+					},
+				},
+			},
+			{
+				displayName: 'DEX',
+				name: 'dex',
+				type: 'options',
+				default: 'all',
+				options: [
+					{ name: 'All DEXes', value: 'all' },
+					{ name: 'Uniswap V3', value: 'uniswapV3' },
+					{ name: 'SushiSwap', value: 'sushiswap' },
+					{ name: 'Camelot', value: 'camelot' },
+					{ name: 'GMX', value: 'gmx' },
+				],
+				description: 'DEX to monitor for swaps. Camelot covers its V2 and V3 pools; GMX covers V1 vault swaps.',
+				displayOptions: {
+					show: {
+						event: ['largeSwap'],
+					},
+				},
+			},
+
+			// Delivery
+			{
+				displayName: 'Wait for Confirmations',
+				name: 'confirmations',
+				type: 'number',
+				default: 0,
+				description: 'Number of blocks to wait before emitting. Blocks reorged out after emitting are retracted and re-emitted with reorged set; with 0, logs removed by a reorg are retracted too.',
+				displayOptions: {
+					hide: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+			{
+				displayName: 'Max Catch-up Blocks per Batch',
+				name: 'maxCatchUpBlocks',
+				type: 'number',
+				default: 2000,
+				description: 'Most blocks read in one batch when catching up after a reconnect or restart. 0 reads the whole gap at once.',
+				displayOptions: {
+					hide: {
+						event: ['sequencerFeed'],
+					},
+				},
+			},
+			{
+				displayName: 'Block Fetch Concurrency',
+				name: 'blockConcurrency',
+				type: 'number',
+				default: DEFAULT_BLOCK_CONCURRENCY,
+				description: 'Blocks requested in parallel when catching up block by block',
+				displayOptions: {
+					show: {
+						event: ['newBlock', 'addressActivity', 'largeTransaction'],
+					},
+				},
+			},
+		],
+	};
+
+	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+		const event = this.getNodeParameter('event') as string;
+		const credentials = await this.getCredentials('arbitrumRpc');
+		const network = credentials.network as string;
+		const networkConfig = NETWORK_CONFIGS[network as keyof typeof NETWORK_CONFIGS] || NETWORK_CONFIGS.arbitrumOne;
+
+		if (event === 'sequencerFeed') {
+			const feedUrl = (this.getNodeParameter('feedUrl', '') as string)
+				|| (network === 'custom' ? undefined : networkConfig.feedUrl);
+			if (!feedUrl) {
+				throw new Error('No sequencer feed URL: set Feed URL for this network');
+			}
+			return triggerSequencerFeed.call(this, feedUrl, networkConfig.name);
+		}
+
+		const confirmations = this.getNodeParameter('confirmations', 0) as number;
+		const maxCatchUpBlocks = this.getNodeParameter('maxCatchUpBlocks', 2000) as number;
+		const blockConcurrency = this.getNodeParameter('blockConcurrency', DEFAULT_BLOCK_CONCURRENCY) as number;
+		const params = readBlockEventParams((name, fallback) => this.getNodeParameter(name, fallback));
+
+		const { wsUrl } = resolveRpcUrl(credentials);
+		if (!wsUrl) {
+			throw new Error('No WebSocket URL configured: enable WebSocket in the Arbitrum RPC credentials, or set a WebSocket URL for a custom network');
+		}
+
+		// The last processed block survives reconnects in memory and restarts in static data
+		const workflowStaticData = this.getWorkflowStaticData('node');
+		const lastBlockKey = 'lastProcessedBlock';
+		const blockCursorKey = 'blockCursor';
+		let lastBlock = workflowStaticData[lastBlockKey] as number | undefined;
+		// Block events checkpoint block hashes, so blocks reorged out after emitting are retracted
+		let cursor = workflowStaticData[blockCursorKey] as BlockCursor | undefined;
+
+		const filter = BLOCK_EVENTS.includes(event) ? undefined : getEventLogFilter(event, params);
+		let provider: WebSocketProvider | undefined;
+		let latestHead = 0;
+		let draining = false;
+		// First block whose logs arrive through the current subscription; earlier ones are read with getLogs
+		let subscribedFrom = Infinity;
+		const pendingLogs = new Map<string, Log>();
+		const emittedLogs = new Map<string, number>();
+
+		const emitItems = (items: IDataObject[]) => {
+			if (items.length > 0) {
+				this.emit([items.map((json) => ({ json }))]);
+			}
+		};
+
+		/** Emit events after lastBlock up to the final block, at most maxCatchUpBlocks at a time */
+		const processBatch = async (current: WebSocketProvider, finalBlock: number) => {
+			const source: BlockEventSource = { provider: current, network, networkName: networkConfig.name };
+
+			let items: IDataObject[];
+			if (!filter) {
+				// After a reorg the range restarts at the common ancestor, so lastBlock can move back
+				const range = limitBlockRange(await getBlockRangeTo(current, cursor, finalBlock, lastBlock), maxCatchUpBlocks);
+				items = await scanBlockEvents(source, event, params, range.fromBlock, range.toBlock, blockConcurrency);
+				const { reorg, replayedTo } = range;
+				if (replayedTo !== undefined) {
+					for (const item of items) {
+						if ((item.blockNumber as number) <= replayedTo) {
+							item.reorged = true;
+						}
+					}
+				}
+				if (reorg) {
+					items.unshift({
+						network: networkConfig.name,
+						type: 'reorg',
+						reorged: true,
+						retracted: true,
+						commonAncestor: reorg.commonAncestor,
+						fromBlock: reorg.commonAncestor + 1,
+						toBlock: reorg.replayedTo,
+						orphanedBlocks: reorg.orphaned,
+						windowExceeded: reorg.windowExceeded,
+					});
+				}
+
+				cursor = await advanceCursor(current, range);
+				workflowStaticData[blockCursorKey] = cursor;
+				lastBlock = range.toBlock;
+			} else {
+				const fromBlock = (lastBlock as number) + 1;
+				const toBlock = maxCatchUpBlocks > 0 ? Math.min(finalBlock, fromBlock + maxCatchUpBlocks - 1) : finalBlock;
+				const logs = new Map<string, Log>();
+				const scanTo = Math.min(toBlock, subscribedFrom - 1);
+				if (fromBlock <= scanTo) {
+					for (const log of await getLogsChunked(current, filter, fromBlock, scanTo)) {
+						logs.set(logKey(log), log);
+					}
+				}
+				for (const [key, log] of pendingLogs) {
+					if (log.blockNumber <= toBlock) {
+						logs.set(key, log);
+						pendingLogs.delete(key);
+					}
+				}
+
+				const fresh = [...logs.entries()]
+					.filter(([key]) => !emittedLogs.has(key))
+					.map(([, log]) => log)
+					.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+				items = await formatEventLogs(source, event, params, fresh);
+				for (const log of fresh) {
+					emittedLogs.set(logKey(log), log.blockNumber);
+				}
+				lastBlock = Math.max(lastBlock as number, toBlock);
+			}
+
+			workflowStaticData[lastBlockKey] = lastBlock;
+			for (const [key, blockNumber] of emittedLogs) {
+				if (blockNumber < lastBlock - EMITTED_LOG_WINDOW) {
+					emittedLogs.delete(key);
+				}
+			}
+			emitItems(items);
+		};
+
+		/** Work through everything up to the latest head; heads arriving meanwhile extend the loop */
+		const drain = async (current: WebSocketProvider) => {
+			if (draining) {
+				return;
+			}
+			draining = true;
+			try {
+				while (current === provider) {
+					const finalBlock = latestHead - confirmations;
+					// First activation starts at the chain head
+					if (lastBlock === undefined) {
+						lastBlock = finalBlock;
+						workflowStaticData[lastBlockKey] = lastBlock;
+					}
+					const hasPendingLogs = [...pendingLogs.values()].some((log) => log.blockNumber <= finalBlock);
+					if (lastBlock >= finalBlock && !hasPendingLogs) {
+						break;
+					}
+					await processBatch(current, finalBlock);
+				}
+			} catch (error) {
+				// Reconnecting resumes from lastBlock
+				if (current === provider) {
+					subscription.reconnect(error as Error);
+				}
+			} finally {
+				draining = false;
+			}
+		};
+
+		const onLog = (current: WebSocketProvider, log: Log) => {
+			if (current !== provider) {
+				return;
+			}
+			const key = logKey(log);
+			if (!log.removed) {
+				pendingLogs.set(key, log);
+				return;
+			}
+			pendingLogs.delete(key);
+			if (emittedLogs.delete(key)) {
+				emitItems([{
+					network: networkConfig.name,
+					type: 'reorg',
+					reorged: true,
+					retracted: true,
+					transactionHash: log.transactionHash,
+					blockNumber: log.blockNumber,
+					blockHash: log.blockHash,
+					logIndex: log.index,
+				}]);
+			}
+		};
+
+		const subscription = openReconnectingWebSocket({
+			url: wsUrl,
+			onConnect: async (current) => {
+				provider = current;
+				subscribedFrom = Infinity;
+				pendingLogs.clear();
+
+				if (filter) {
+					await current.on(filter, (log: Log) => onLog(current, log));
+				}
+				await current.on('block', (blockNumber: number) => {
+					latestHead = Math.max(latestHead, blockNumber);
+					void drain(current);
+				});
+
+				// Subscribed before reading the head, so every later block is covered by the subscription
+				const head = await current.getBlockNumber();
+				subscribedFrom = head + 1;
+				latestHead = Math.max(latestHead, head);
+				void drain(current);
+			},
+			onDisconnect: (error, attempt, delay) => {
+				this.logger.warn(`Arbitrum WebSocket disconnected (${error.message}), reconnect attempt ${attempt} in ${delay} ms`);
+			},
+		});
+
+		const closeFunction = async () => {
+			provider = undefined;
+			await subscription.close();
+		};
+
+		if (this.getMode() === 'manual') {
+			return {
+				closeFunction,
+				manualTriggerFunction: async () => {
+					try {
+						await subscription.ready;
+					} catch (error) {
+						await closeFunction();
+						throw new Error(`Could not connect to the Arbitrum WebSocket: ${(error as Error).message}`);
+					}
+				},
+			};
+		}
+
+		return { closeFunction };
+	}
+}
@@ -14,6 +14,10 @@ import {
 	getL2ToL1MessageStatus,
 	getL2TokenAddress,
 	getL1TokenAddress,
+	depositEth,
+	depositErc20,
+	withdrawEth,
+	withdrawErc20,
 } from '../../transport/arbitrumSdk';
 import {
 	BRIDGE_CONTRACTS,
@@ -59,6 +63,30 @@ export const operations: INodeProperties[] = [
 				description: 'Get pending L2 to L1 withdrawals for an address',
 				action: 'Get pending L2 to L1 withdrawals',
 			},
+			{
+				name: 'Deposit ETH',
+				value: 'depositEth',
+				description: 'Deposit ETH from L1 to L2',
+				action: 'Deposit ETH to L2',
+			},
+			{
+				name: 'Deposit ERC-20',
+				value: 'depositErc20',
+				description: 'Deposit an ERC-20 token from L1 to L2 through its gateway',
+				action: 'Deposit ERC-20 to L2',
+			},
+			{
+				name: 'Withdraw ETH',
+				value: 'withdrawEth',
+				description: 'Withdraw ETH from L2 to L1',
+				action: 'Withdraw ETH to L1',
+			},
+			{
+				name: 'Withdraw ERC-20',
+				value: 'withdrawErc20',
+				description: 'Withdraw an ERC-20 token from L2 to L1 through its gateway',
+				action: 'Withdraw ERC-20 to L1',
+			},
 			{
 				name: 'Estimate Deposit Gas',
 				value: 'estimateDepositGas',
@@ -247,6 +275,21 @@ export const fields: INodeProperties[] = [
 		default: 'l1',
 		description: 'Which layer the provided token address is on',
 	},
+	{
+		displayName: 'Token Address',
+		name: 'tokenAddress',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['bridge'],
+				operation: ['depositErc20', 'withdrawErc20'],
+			},
+		},
+		default: '',
+		placeholder: '0x...',
+		description: 'The token contract address on the source layer (L1 for deposits, L2 for withdrawals)',
+	},
 	// Amount field
 	{
 		displayName: 'Amount',
@@ -256,13 +299,27 @@ export const fields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['bridge'],
-				operation: ['estimateDepositGas', 'estimateWithdrawalGas'],
+				operation: ['estimateDepositGas', 'estimateWithdrawalGas', 'depositEth', 'depositErc20', 'withdrawEth', 'withdrawErc20'],
 			},
 		},
 		default: '',
 		placeholder: '0.1',
 		description: 'Amount to bridge (in token units)',
 	},
+	{
+		displayName: 'Destination Address',
+		name: 'destinationAddress',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['bridge'],
+				operation: ['depositErc20', 'withdrawEth', 'withdrawErc20'],
+			},
+		},
+		default: '',
+		placeholder: '0x...',
+		description: 'Recipient on the destination layer. Defaults to the sending wallet.',
+	},
 	// Retryable Ticket fields
 	{
 		displayName: 'Ticket ID',
@@ -473,6 +530,109 @@ export async function execute(
 		};
 	}
 
+	if (operation === 'depositEth' || operation === 'depositErc20') {
+		const amount = this.getNodeParameter('amount', index) as string;
+		const l1 = await createL1Provider(credentials);
+
+		if (!l1?.signer) {
+			throw new NodeOperationError(this.getNode(), 'L1 RPC URL and L1 private key required for deposits');
+		}
+
+		const tokenAddress = operation === 'depositErc20'
+			? this.getNodeParameter('tokenAddress', index) as string
+			: undefined;
+		const destinationAddress = operation === 'depositErc20'
+			? this.getNodeParameter('destinationAddress', index, '') as string
+			: '';
+
+		if (tokenAddress && !validateAddress(tokenAddress)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid token address');
+		}
+		if (destinationAddress && !validateAddress(destinationAddress)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid destination address');
+		}
+
+		try {
+			const params = {
+				amount,
+				destinationAddress: destinationAddress || undefined,
+				l1Signer: l1.signer,
+				l2Provider: provider,
+			};
+			const deposit = tokenAddress
+				? await depositErc20(params, tokenAddress)
+				: await depositEth(params);
+
+			result = {
+				type: 'deposit',
+				tokenType: tokenAddress ? 'ERC20' : 'ETH',
+				tokenAddress: tokenAddress ?? null,
+				amount,
+				from: l1.signer.address,
+				destination: deposit.message?.tokenTransfer?.to ?? deposit.message?.destination ?? null,
+				l1TransactionHash: deposit.l1TxHash,
+				l1BlockNumber: deposit.l1TxReceipt.blockNumber,
+				status: deposit.l1TxReceipt.status === 1 ? 'SUCCESS' : 'FAILED',
+				messageNumber: deposit.messageNumber ?? null,
+				retryableTicketId: deposit.retryableTicketId ?? null,
+				l2TransactionHash: deposit.l2TxHash ?? null,
+				network,
+			};
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Failed to deposit: ${error}`);
+		}
+	}
+
+	if (operation === 'withdrawEth' || operation === 'withdrawErc20') {
+		const amount = this.getNodeParameter('amount', index) as string;
+		const destinationAddress = this.getNodeParameter('destinationAddress', index, '') as string;
+		const tokenAddress = operation === 'withdrawErc20'
+			? this.getNodeParameter('tokenAddress', index) as string
+			: undefined;
+
+		if (!credentials.privateKey) {
+			throw new NodeOperationError(this.getNode(), 'Private key required for withdrawals');
+		}
+		if (tokenAddress && !validateAddress(tokenAddress)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid token address');
+		}
+		if (destinationAddress && !validateAddress(destinationAddress)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid destination address');
+		}
+
+		try {
+			const wallet = new ethers.Wallet(credentials.privateKey as string, provider);
+			const params = {
+				amount,
+				destinationAddress: destinationAddress || undefined,
+				l2Signer: wallet,
+			};
+			const withdrawal = tokenAddress
+				? await withdrawErc20(params, tokenAddress)
+				: await withdrawEth(params);
+
+			const networkConfig = NETWORK_CONFIGS[network] || NETWORK_CONFIGS.arbitrumOne;
+
+			result = {
+				type: 'withdrawal',
+				tokenType: tokenAddress ? 'ERC20' : 'ETH',
+				tokenAddress: tokenAddress ?? null,
+				l1TokenAddress: withdrawal.message?.tokenTransfer?.l1Token ?? null,
+				amount,
+				from: wallet.address,
+				destination: withdrawal.message?.tokenTransfer?.to ?? withdrawal.message?.destination ?? null,
+				l2TransactionHash: withdrawal.l2TxHash,
+				l2BlockNumber: withdrawal.l2TxReceipt.blockNumber,
+				status: withdrawal.l2TxReceipt.status === 1 ? 'SUCCESS' : 'FAILED',
+				position: withdrawal.position ?? null,
+				challengePeriodSeconds: networkConfig.challengePeriod || 604800,
+				network,
+			};
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Failed to withdraw: ${error}`);
+		}
+	}
+
 	if (operation === 'estimateDepositGas') {
 		const tokenType = this.getNodeParameter('tokenType', index) as string;
 		const amount = this.getNodeParameter('amount', index) as string;
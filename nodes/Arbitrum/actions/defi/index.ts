@@ -6,7 +6,56 @@ import type {
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { getProvider, validateAddress, getSigner } from '../../transport/provider';
-import { ARBITRUM_NETWORKS, ARBITRUM_ONE_TOKENS, DEX_ROUTERS, CHAINLINK_FEEDS, ABIS } from '../../constants';
+import { ARBITRUM_NETWORKS, ARBITRUM_ONE_TOKENS, DEX_ROUTERS, ABIS, getTokenByAddress } from '../../constants';
+import type { ArbitrumNetworkId } from '../../constants/networks';
+import {
+	getSwapQuoteForDex,
+	getBestSwapQuote,
+	getSwapRouterAddress,
+	getPriceImpact,
+	quoteUniswapV3ExactOutput,
+	submitSwap,
+	submitExactOutputSwap,
+	DEX_NAMES,
+} from '../../utils/dexUtils';
+import type { QuoteDex, SwapDex, SwapQuote } from '../../utils/dexUtils';
+import {
+	TICK_SPACINGS,
+	getAmountsForLiquidity,
+	getFeeGrowthInside,
+	getLiquidityForAmounts,
+	getLpValuation,
+	getSqrtRatioAtTick,
+	getUncollectedFees,
+	priceToTick,
+	sqrtPriceX96ToPrice,
+	tickToPrice,
+} from '../../utils/liquidityUtils';
+import {
+	SEQUENCER_GRACE_PERIOD,
+	checkOracleSafety,
+	getChainlinkFeedAddress,
+	getChainlinkUsdPrice,
+	getTokenUsdPrice,
+	getUniswapV3Twap,
+} from '../../utils/priceUtils';
+import { getLogsChunked } from '../../utils/logScanUtils';
+import { getTokenBalances } from '../../utils/multicallUtils';
+import {
+	findPairPools,
+	getBalancerPoolInfo,
+	getCreatedPools,
+	getCurvePoolInfo,
+	getPoolReserves,
+} from '../../utils/poolUtils';
+import {
+	createPriceLookup,
+	getCamelotNitroFarms,
+	getGmxFarms,
+	getPendleMarketFarms,
+} from '../../utils/yieldUtils';
+import type { YieldFarm } from '../../utils/yieldUtils';
+import type { TokenAmounts } from '../../utils/liquidityUtils';
 import { ethers } from 'ethers';
 
 export const operations: INodeProperties[] = [
@@ -42,7 +91,7 @@ export const operations: INodeProperties[] = [
 			{
 				name: 'Get Liquidity Pools',
 				value: 'getLiquidityPools',
-				description: 'Get liquidity pool information',
+				description: 'Find the pools of a token pair, or newly created pools, from DEX factories',
 				action: 'Get liquidity pools',
 			},
 			{
@@ -51,16 +100,22 @@ export const operations: INodeProperties[] = [
 				description: 'Get detailed information about a liquidity pool',
 				action: 'Get pool info',
 			},
+			{
+				name: 'Get TWAP Price',
+				value: 'getTwap',
+				description: 'Get the time-weighted average price of a Uniswap V3 pool',
+				action: 'Get TWAP price',
+			},
 			{
 				name: 'Get TVL',
 				value: 'getTvl',
-				description: 'Get Total Value Locked for a protocol or pool',
+				description: 'Get on-chain Total Value Locked of a protocol, pool or set of contracts',
 				action: 'Get tvl',
 			},
 			{
 				name: 'Get Yield Farms',
 				value: 'getYieldFarms',
-				description: 'Get yield farming opportunities',
+				description: 'Get yield farms with APRs computed from on-chain reward rates',
 				action: 'Get yield farms',
 			},
 			{
@@ -69,6 +124,60 @@ export const operations: INodeProperties[] = [
 				description: 'Approve token spending and execute swap in one flow',
 				action: 'Approve and swap',
 			},
+			{
+				name: 'Conditional Swap',
+				value: 'conditionalSwap',
+				description: 'Swap only if a price condition still holds when the node runs',
+				action: 'Conditional swap',
+			},
+			{
+				name: 'List LP Positions',
+				value: 'listPositions',
+				description: 'List Uniswap V3 liquidity positions owned by an address',
+				action: 'List LP positions',
+			},
+			{
+				name: 'Get LP Position',
+				value: 'getPosition',
+				description: 'Get token amounts and uncollected fees of a Uniswap V3 position',
+				action: 'Get LP position',
+			},
+			{
+				name: 'Analyze LP Position',
+				value: 'analyzeLpPosition',
+				description: 'Compare a Uniswap V3 position with holding: impermanent loss, fees and range status',
+				action: 'Analyze LP position',
+			},
+			{
+				name: 'Mint LP Position',
+				value: 'mintPosition',
+				description: 'Open a new Uniswap V3 position in a price range',
+				action: 'Mint LP position',
+			},
+			{
+				name: 'Increase Liquidity',
+				value: 'increaseLiquidity',
+				description: 'Add liquidity to an existing Uniswap V3 position',
+				action: 'Increase liquidity',
+			},
+			{
+				name: 'Decrease Liquidity',
+				value: 'decreaseLiquidity',
+				description: 'Remove liquidity from a Uniswap V3 position',
+				action: 'Decrease liquidity',
+			},
+			{
+				name: 'Collect Fees',
+				value: 'collectFees',
+				description: 'Collect owed tokens and fees from a Uniswap V3 position',
+				action: 'Collect fees',
+			},
+			{
+				name: 'Burn LP Position',
+				value: 'burnPosition',
+				description: 'Withdraw everything from a Uniswap V3 position and burn its NFT',
+				action: 'Burn LP position',
+			},
 		],
 		default: 'getTokenPrice',
 	},
@@ -118,6 +227,56 @@ export const fields: INodeProperties[] = [
 			},
 		},
 	},
+	// Oracle safety
+	{
+		displayName: 'Max Price Age (Seconds)',
+		name: 'maxPriceAge',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'Answers older than this are stale. 0 uses the feed heartbeat (24h when unknown).',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTokenPrice'],
+			},
+		},
+	},
+	{
+		displayName: 'Sequencer Grace Period (Seconds)',
+		name: 'sequencerGracePeriod',
+		type: 'number',
+		default: 3600,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'How long after the sequencer comes back up prices are still treated as unsafe',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTokenPrice'],
+			},
+		},
+	},
+	{
+		displayName: 'On Unsafe Price',
+		name: 'unsafePriceAction',
+		type: 'options',
+		default: 'flag',
+		options: [
+			{ name: 'Flag in Output', value: 'flag' },
+			{ name: 'Throw Error', value: 'reject' },
+		],
+		description: 'What to do when the price is stale or the sequencer is down or in its grace period',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTokenPrice'],
+			},
+		},
+	},
 	// DEX Selection
 	{
 		displayName: 'DEX',
@@ -128,7 +287,8 @@ export const fields: INodeProperties[] = [
 		options: [
 			{ name: 'Uniswap V3', value: 'uniswapV3' },
 			{ name: 'SushiSwap', value: 'sushiswap' },
-			{ name: 'Camelot', value: 'camelot' },
+			{ name: 'Camelot V2', value: 'camelot' },
+			{ name: 'Camelot V3', value: 'camelotV3' },
 			{ name: '1inch', value: 'oneInch' },
 			{ name: 'GMX', value: 'gmx' },
 		],
@@ -136,7 +296,214 @@ export const fields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap', 'getLiquidityPools', 'getPoolInfo'],
+				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap', 'conditionalSwap'],
+			},
+			hide: {
+				quoteMode: ['best'],
+			},
+		},
+	},
+	// Liquidity Pools: Discovery Mode
+	{
+		displayName: 'Discover',
+		name: 'poolDiscoveryMode',
+		type: 'options',
+		default: 'pair',
+		options: [
+			{
+				name: 'Pools for Token Pair',
+				value: 'pair',
+				description: 'Look up the pools of a token pair on each DEX factory',
+			},
+			{
+				name: 'Newly Created Pools',
+				value: 'created',
+				description: 'Find pools from factory creation events in a block range',
+			},
+		],
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+			},
+		},
+	},
+	// Liquidity Pools: DEXes
+	{
+		displayName: 'DEXes',
+		name: 'poolDexes',
+		type: 'multiOptions',
+		default: ['uniswapV3', 'sushiswap', 'camelot', 'camelotV3'],
+		options: [
+			{ name: 'Uniswap V3', value: 'uniswapV3' },
+			{ name: 'SushiSwap', value: 'sushiswap' },
+			{ name: 'Camelot V2', value: 'camelot' },
+			{ name: 'Camelot V3', value: 'camelotV3' },
+		],
+		description: 'Factories to search',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+			},
+		},
+	},
+	// Liquidity Pools: Token Pair
+	{
+		displayName: 'Token A Address',
+		name: 'tokenA',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'First token of the pair (wrapped tokens only, e.g. WETH)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+				poolDiscoveryMode: ['pair'],
+			},
+		},
+	},
+	{
+		displayName: 'Token B Address',
+		name: 'tokenB',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Second token of the pair (wrapped tokens only, e.g. WETH)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+				poolDiscoveryMode: ['pair'],
+			},
+		},
+	},
+	{
+		displayName: 'Include Empty Pools',
+		name: 'includeEmptyPools',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to include pools that exist but hold no liquidity',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+				poolDiscoveryMode: ['pair'],
+			},
+		},
+	},
+	// Liquidity Pools: Block Range
+	{
+		displayName: 'From Block',
+		name: 'fromBlock',
+		type: 'number',
+		required: true,
+		default: 0,
+		description: 'First block to search for pool creation events',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+				poolDiscoveryMode: ['created'],
+			},
+		},
+	},
+	{
+		displayName: 'To Block',
+		name: 'toBlock',
+		type: 'number',
+		default: 0,
+		description: 'Last block to search; 0 for the latest block',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+				poolDiscoveryMode: ['created'],
+			},
+		},
+	},
+	{
+		displayName: 'Limit',
+		name: 'poolLimit',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Max number of results to return',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getLiquidityPools'],
+				poolDiscoveryMode: ['created'],
+			},
+		},
+	},
+	// Pool Info: DEX
+	{
+		displayName: 'DEX',
+		name: 'dex',
+		type: 'options',
+		required: true,
+		default: 'uniswapV3',
+		options: [
+			{ name: 'Uniswap V3', value: 'uniswapV3' },
+			{ name: 'SushiSwap', value: 'sushiswap' },
+			{ name: 'Camelot V2', value: 'camelot' },
+			{ name: 'Camelot V3', value: 'camelotV3' },
+			{ name: 'Curve', value: 'curve' },
+			{ name: 'Balancer', value: 'balancer' },
+			{ name: '1inch', value: 'oneInch' },
+			{ name: 'GMX', value: 'gmx' },
+		],
+		description: 'The decentralized exchange the pool belongs to',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getPoolInfo'],
+			},
+		},
+	},
+	// Quote Mode
+	{
+		displayName: 'Quote Mode',
+		name: 'quoteMode',
+		type: 'options',
+		default: 'single',
+		options: [
+			{ name: 'Single DEX', value: 'single', description: 'Quote on the selected DEX' },
+			{ name: 'Best Quote', value: 'best', description: 'Quote on every DEX and rank by output amount' },
+		],
+		description: 'Whether to quote a single DEX or compare all supported DEXes',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getSwapQuote'],
+			},
+		},
+	},
+	// Swap Type
+	{
+		displayName: 'Swap Type',
+		name: 'swapType',
+		type: 'options',
+		default: 'exactInput',
+		options: [
+			{ name: 'Exact Input', value: 'exactInput', description: 'Spend an exact amount of tokenIn' },
+			{ name: 'Exact Output', value: 'exactOutput', description: 'Receive an exact amount of tokenOut' },
+		],
+		description: 'Whether the input or the output amount is fixed',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap'],
+				dex: ['uniswapV3'],
+			},
+			hide: {
+				quoteMode: ['best'],
 			},
 		},
 	},
@@ -152,7 +519,7 @@ export const fields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap'],
+				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap', 'conditionalSwap'],
 			},
 		},
 	},
@@ -168,7 +535,7 @@ export const fields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap'],
+				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap', 'conditionalSwap'],
 			},
 		},
 	},
@@ -181,10 +548,30 @@ export const fields: INodeProperties[] = [
 		default: '',
 		placeholder: '1.0',
 		description: 'Amount of tokenIn to swap (in token units, not wei)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap', 'conditionalSwap'],
+			},
+			hide: {
+				swapType: ['exactOutput'],
+			},
+		},
+	},
+	// Amount Out
+	{
+		displayName: 'Amount Out',
+		name: 'amountOut',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '100.0',
+		description: 'Exact amount of tokenOut to receive (in token units, not wei)',
 		displayOptions: {
 			show: {
 				resource: ['defi'],
 				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap'],
+				swapType: ['exactOutput'],
 			},
 		},
 	},
@@ -194,799 +581,3409 @@ export const fields: INodeProperties[] = [
 		name: 'slippage',
 		type: 'number',
 		default: 0.5,
-		description: 'Maximum acceptable slippage percentage',
+		description: 'Maximum acceptable slippage percentage. For exact output swaps this bounds the extra tokenIn spent.',
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['executeSwap', 'approveAndSwap'],
+				operation: ['executeSwap', 'approveAndSwap', 'conditionalSwap', 'mintPosition', 'increaseLiquidity', 'decreaseLiquidity', 'burnPosition'],
 			},
 		},
 	},
-	// Pool Address
+	// Transfer Tax
 	{
-		displayName: 'Pool Address',
-		name: 'poolAddress',
-		type: 'string',
-		required: true,
-		default: '',
-		placeholder: '0x...',
-		description: 'Address of the liquidity pool',
+		displayName: 'Transfer Tax (%)',
+		name: 'transferTax',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+			maxValue: 99,
+		},
+		description: 'Combined transfer fee charged by fee-on-transfer tokens in this swap. Deducted from the quote before slippage is applied.',
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['getPoolInfo', 'getTvl'],
+				operation: ['executeSwap', 'approveAndSwap', 'conditionalSwap'],
+				dex: ['sushiswap', 'camelot', 'camelotV3'],
 			},
 		},
 	},
-	// Protocol for TVL
+	// Conditional Swap: Condition
 	{
-		displayName: 'Protocol',
-		name: 'protocol',
+		displayName: 'Price Source',
+		name: 'conditionPriceSource',
 		type: 'options',
-		default: 'gmx',
+		default: 'chainlink',
 		options: [
-			{ name: 'GMX', value: 'gmx' },
-			{ name: 'Uniswap', value: 'uniswap' },
-			{ name: 'SushiSwap', value: 'sushiswap' },
-			{ name: 'Camelot', value: 'camelot' },
-			{ name: 'Radiant', value: 'radiant' },
-			{ name: 'Pendle', value: 'pendle' },
-			{ name: 'Custom Pool', value: 'custom' },
+			{
+				name: 'Chainlink',
+				value: 'chainlink',
+				description: 'Ratio of the Chainlink USD prices of both tokens',
+			},
+			{
+				name: 'Uniswap V3 TWAP',
+				value: 'uniswapV3Twap',
+				description: 'Time-weighted average price of a Uniswap V3 pool holding both tokens',
+			},
 		],
-		description: 'The DeFi protocol to get TVL for',
+		description: 'Where the price checked against the condition comes from',
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['getTvl'],
+				operation: ['conditionalSwap'],
 			},
 		},
 	},
-	// Fee Tier
 	{
-		displayName: 'Fee Tier',
-		name: 'feeTier',
+		displayName: 'Condition',
+		name: 'conditionDirection',
 		type: 'options',
-		default: '3000',
+		default: 'below',
 		options: [
-			{ name: '0.01%', value: '100' },
-			{ name: '0.05%', value: '500' },
-			{ name: '0.3%', value: '3000' },
-			{ name: '1%', value: '10000' },
+			{ name: 'Price At or Above', value: 'above' },
+			{ name: 'Price At or Below', value: 'below' },
 		],
-		description: 'Uniswap V3 pool fee tier',
+		description: 'Swap when the price of Token In in Token Out is on this side of the trigger price',
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap'],
-				dex: ['uniswapV3'],
+				operation: ['conditionalSwap'],
 			},
 		},
 	},
-	// Wait for Confirmation
 	{
-		displayName: 'Wait for Confirmation',
-		name: 'waitForConfirmation',
-		type: 'boolean',
-		default: true,
-		description: 'Whether to wait for the swap transaction to be confirmed',
+		displayName: 'Trigger Price',
+		name: 'triggerPrice',
+		type: 'number',
+		required: true,
+		default: 0,
+		typeOptions: {
+			numberPrecision: 10,
+		},
+		description: 'Price of Token In in Token Out that the condition is checked against',
 		displayOptions: {
 			show: {
 				resource: ['defi'],
-				operation: ['executeSwap', 'approveAndSwap'],
+				operation: ['conditionalSwap'],
 			},
 		},
 	},
-];
-
-// Chainlink Feed ABI
-const CHAINLINK_FEED_ABI = [
-	'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
-	'function decimals() external view returns (uint8)',
-	'function description() external view returns (string)',
-];
-
-// Uniswap V3 Quoter ABI
-const UNISWAP_V3_QUOTER_ABI = [
-	'function quoteExactInputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn, uint160 sqrtPriceLimitX96) external returns (uint256 amountOut)',
-];
-
-// Uniswap V3 Router ABI
-const UNISWAP_V3_ROUTER_ABI = [
-	'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountOut)',
-];
-
-// Uniswap V3 Pool ABI
-const UNISWAP_V3_POOL_ABI = [
-	'function token0() external view returns (address)',
-	'function token1() external view returns (address)',
-	'function fee() external view returns (uint24)',
-	'function liquidity() external view returns (uint128)',
-	'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
-];
-
-// Uniswap V3 Factory ABI
-const UNISWAP_V3_FACTORY_ABI = [
-	'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
-];
-
-export async function execute(
-	this: IExecuteFunctions,
-	index: number,
+	{
+		displayName: 'TWAP Pool Address',
+		name: 'conditionPool',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Uniswap V3 pool of Token In and Token Out to read the TWAP from',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['conditionalSwap'],
+				conditionPriceSource: ['uniswapV3Twap'],
+			},
+		},
+	},
+	{
+		displayName: 'TWAP Window (Seconds)',
+		name: 'conditionTwapWindow',
+		type: 'number',
+		default: 300,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Length of the averaging window. The pool must hold observations this far back.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['conditionalSwap'],
+				conditionPriceSource: ['uniswapV3Twap'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Price Age (Seconds)',
+		name: 'maxPriceAge',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'Answers older than this are stale and skip the swap. 0 uses the feed heartbeat (24h when unknown).',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['conditionalSwap'],
+				conditionPriceSource: ['chainlink'],
+			},
+		},
+	},
+	{
+		displayName: 'Sequencer Grace Period (Seconds)',
+		name: 'sequencerGracePeriod',
+		type: 'number',
+		default: 3600,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'How long after the sequencer comes back up prices are still treated as unsafe',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['conditionalSwap'],
+				conditionPriceSource: ['chainlink'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Quote Deviation (%)',
+		name: 'maxQuoteDeviation',
+		type: 'number',
+		default: 1,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'Skip the swap when the DEX quote differs from the condition price by more than this. Also floors the minimum output of the swap.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['conditionalSwap'],
+			},
+		},
+	},
+	// Pool Address
+	{
+		displayName: 'Pool Address',
+		name: 'poolAddress',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Address of the liquidity pool. For Balancer, the pool ID is also accepted.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getPoolInfo', 'getTwap'],
+			},
+		},
+	},
+	// Pool Info: Curve Quote Amount
+	{
+		displayName: 'Quote Amount',
+		name: 'curveQuoteAmount',
+		type: 'string',
+		default: '1',
+		description: 'Amount of each coin to quote with get_dy against every other coin (in token units, not wei)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getPoolInfo'],
+				dex: ['curve'],
+			},
+		},
+	},
+	// TWAP Window
+	{
+		displayName: 'TWAP Window (Seconds)',
+		name: 'twapWindow',
+		type: 'number',
+		default: 1800,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Length of the averaging window. The pool must hold observations this far back.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTwap'],
+			},
+		},
+	},
+	// Protocol for TVL
+	{
+		displayName: 'Protocol',
+		name: 'protocol',
+		type: 'options',
+		default: 'gmx',
+		options: [
+			{ name: 'GMX Vault', value: 'gmx' },
+			{ name: 'Custom Pool', value: 'custom' },
+			{ name: 'Custom Contracts', value: 'contracts' },
+		],
+		description: 'What to compute TVL for. Token balances are read on-chain and valued in USD.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTvl'],
+			},
+		},
+	},
+	// Pool Address for TVL
+	{
+		displayName: 'Pool Address',
+		name: 'poolAddress',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Uniswap V2/V3-style pool whose token0 and token1 balances make up its TVL',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTvl'],
+				protocol: ['custom'],
+			},
+		},
+	},
+	// Holder Addresses for TVL
+	{
+		displayName: 'Contract Addresses',
+		name: 'tvlContracts',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x..., 0x...',
+		description: 'Comma-separated addresses whose token holdings are summed',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTvl'],
+				protocol: ['contracts'],
+			},
+		},
+	},
+	// Tokens for TVL
+	{
+		displayName: 'Token Addresses',
+		name: 'tvlTokens',
+		type: 'string',
+		default: '',
+		placeholder: '0x..., 0x...',
+		description: 'Comma-separated tokens to count (0x000...000 for ETH). Leave empty to use the vault whitelist for GMX or all known tokens otherwise.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getTvl'],
+				protocol: ['gmx', 'contracts'],
+			},
+		},
+	},
+	// Yield Farm Sources
+	{
+		displayName: 'Sources',
+		name: 'farmSources',
+		type: 'multiOptions',
+		default: ['gmx', 'camelotNitro'],
+		options: [
+			{ name: 'GMX Reward Trackers', value: 'gmx' },
+			{ name: 'Camelot Nitro Pools', value: 'camelotNitro' },
+			{ name: 'Pendle Markets', value: 'pendle' },
+		],
+		description: 'Staking contracts to read reward rates and staked totals from',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+			},
+		},
+	},
+	// Camelot Nitro Pools
+	{
+		displayName: 'Nitro Pool Addresses',
+		name: 'nitroPools',
+		type: 'string',
+		default: '',
+		placeholder: '0x..., 0x...',
+		description: 'Comma-separated nitro pools. Leave empty to read the most recent pools from the factory.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+				farmSources: ['camelotNitro'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Nitro Pools',
+		name: 'nitroPoolLimit',
+		type: 'number',
+		default: 20,
+		typeOptions: {
+			minValue: 1,
+			maxValue: 100,
+		},
+		description: 'How many of the most recent factory pools to read when no addresses are given',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+				farmSources: ['camelotNitro'],
+			},
+		},
+	},
+	// Pendle Markets
+	{
+		displayName: 'Pendle Market Addresses',
+		name: 'pendleMarkets',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x..., 0x...',
+		description: 'Comma-separated Pendle markets. The APR reported is the implied fixed yield of PT.',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+				farmSources: ['pendle'],
+			},
+		},
+	},
+	// Sort and filter
+	{
+		displayName: 'Sort By',
+		name: 'farmSortBy',
+		type: 'options',
+		default: 'apr',
+		options: [
+			{ name: 'APR', value: 'apr' },
+			{ name: 'TVL', value: 'tvl' },
+		],
+		description: 'Order farms by APR or TVL, highest first',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+			},
+		},
+	},
+	{
+		displayName: 'Min APR (%)',
+		name: 'minApr',
+		type: 'number',
+		default: 0,
+		description: 'Drop farms below this APR',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+			},
+		},
+	},
+	{
+		displayName: 'Min TVL (USD)',
+		name: 'minTvlUsd',
+		type: 'number',
+		default: 0,
+		description: 'Drop farms with less value staked',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getYieldFarms'],
+			},
+		},
+	},
+	// Fee Tier
+	{
+		displayName: 'Fee Tier',
+		name: 'feeTier',
+		type: 'options',
+		default: 'auto',
+		options: [
+			{ name: 'Auto (Best Route)', value: 'auto', description: 'Search all fee tiers, directly and via WETH, USDC or ARB' },
+			{ name: '0.01%', value: '100' },
+			{ name: '0.05%', value: '500' },
+			{ name: '0.3%', value: '3000' },
+			{ name: '1%', value: '10000' },
+		],
+		description: 'Uniswap V3 pool fee tier, or automatic multi-hop route discovery',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getSwapQuote', 'executeSwap', 'approveAndSwap', 'conditionalSwap'],
+				dex: ['uniswapV3'],
+			},
+			hide: {
+				quoteMode: ['best'],
+			},
+		},
+	},
+	// Position Owner
+	{
+		displayName: 'Owner Address',
+		name: 'positionOwner',
+		type: 'string',
+		default: '',
+		placeholder: '0x... (leave empty for the credential wallet)',
+		description: 'Address whose Uniswap V3 positions to list',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['listPositions'],
+			},
+		},
+	},
+	// Include Closed Positions
+	{
+		displayName: 'Include Closed Positions',
+		name: 'includeClosed',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to include positions with no liquidity and no uncollected fees',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['listPositions'],
+			},
+		},
+	},
+	// Position Token ID
+	{
+		displayName: 'Position Token ID',
+		name: 'positionTokenId',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '123456',
+		description: 'Token ID of the Uniswap V3 position NFT',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['getPosition', 'increaseLiquidity', 'decreaseLiquidity', 'collectFees', 'burnPosition'],
+			},
+		},
+	},
+	// Mint: Token A
+	{
+		displayName: 'Token A Address',
+		name: 'tokenA',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'First token of the pool (wrapped tokens only, e.g. WETH)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	// Mint: Token B
+	{
+		displayName: 'Token B Address',
+		name: 'tokenB',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Second token of the pool (wrapped tokens only, e.g. WETH)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	// Mint: Fee Tier
+	{
+		displayName: 'Pool Fee Tier',
+		name: 'positionFeeTier',
+		type: 'options',
+		default: '3000',
+		options: [
+			{ name: '0.01%', value: '100' },
+			{ name: '0.05%', value: '500' },
+			{ name: '0.3%', value: '3000' },
+			{ name: '1%', value: '10000' },
+		],
+		description: 'Fee tier of the pool to provide liquidity to',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	// Mint: Price Range
+	{
+		displayName: 'Min Price',
+		name: 'priceLower',
+		type: 'number',
+		required: true,
+		default: 0,
+		typeOptions: {
+			numberPrecision: 10,
+		},
+		description: 'Lower bound of the range, as the price of Token A in Token B',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Price',
+		name: 'priceUpper',
+		type: 'number',
+		required: true,
+		default: 0,
+		typeOptions: {
+			numberPrecision: 10,
+		},
+		description: 'Upper bound of the range, as the price of Token A in Token B',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	// Mint: Amounts
+	{
+		displayName: 'Amount A',
+		name: 'amountA',
+		type: 'string',
+		default: '',
+		placeholder: '1.0',
+		description: 'Maximum amount of Token A to deposit (in token units, not wei)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount B',
+		name: 'amountB',
+		type: 'string',
+		default: '',
+		placeholder: '1000.0',
+		description: 'Maximum amount of Token B to deposit (in token units, not wei)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['mintPosition'],
+			},
+		},
+	},
+	// Increase: Amounts
+	{
+		displayName: 'Amount Token0',
+		name: 'amount0',
+		type: 'string',
+		default: '',
+		placeholder: '1.0',
+		description: "Maximum amount of the position's token0 to add (in token units, not wei)",
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['increaseLiquidity'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount Token1',
+		name: 'amount1',
+		type: 'string',
+		default: '',
+		placeholder: '1000.0',
+		description: "Maximum amount of the position's token1 to add (in token units, not wei)",
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['increaseLiquidity'],
+			},
+		},
+	},
+	// Decrease: Percentage
+	{
+		displayName: 'Liquidity to Remove (%)',
+		name: 'liquidityPercent',
+		type: 'number',
+		default: 100,
+		typeOptions: {
+			minValue: 0.01,
+			maxValue: 100,
+		},
+		description: 'Share of the position liquidity to remove',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['decreaseLiquidity'],
+			},
+		},
+	},
+	{
+		displayName: 'Collect Tokens',
+		name: 'collectTokens',
+		type: 'boolean',
+		default: true,
+		description: 'Whether to collect the removed tokens and fees to the wallet in the same transaction',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['decreaseLiquidity'],
+			},
+		},
+	},
+	// Analyze: Position Source
+	{
+		displayName: 'Position Source',
+		name: 'lpSource',
+		type: 'options',
+		default: 'tokenId',
+		options: [
+			{
+				name: 'Position NFT',
+				value: 'tokenId',
+				description: 'Analyze an existing position, with deposits and fees read from its history',
+			},
+			{
+				name: 'Range and Deposit',
+				value: 'manual',
+				description: 'Analyze a position described by its range, deposit amounts and entry price',
+			},
+		],
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+			},
+		},
+	},
+	// Analyze: Position Token ID
+	{
+		displayName: 'Position Token ID',
+		name: 'positionTokenId',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '123456',
+		description: 'Token ID of the Uniswap V3 position NFT',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['tokenId'],
+			},
+		},
+	},
+	// Analyze: Range and Deposit
+	{
+		displayName: 'Token A Address',
+		name: 'tokenA',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'First token of the pool (wrapped tokens only, e.g. WETH)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Token B Address',
+		name: 'tokenB',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Second token of the pool (wrapped tokens only, e.g. WETH)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Pool Fee Tier',
+		name: 'positionFeeTier',
+		type: 'options',
+		default: '3000',
+		options: [
+			{ name: '0.01%', value: '100' },
+			{ name: '0.05%', value: '500' },
+			{ name: '0.3%', value: '3000' },
+			{ name: '1%', value: '10000' },
+		],
+		description: 'Fee tier of the pool the position is in',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Min Price',
+		name: 'priceLower',
+		type: 'number',
+		required: true,
+		default: 0,
+		typeOptions: {
+			numberPrecision: 10,
+		},
+		description: 'Lower bound of the range, as the price of Token A in Token B',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Price',
+		name: 'priceUpper',
+		type: 'number',
+		required: true,
+		default: 0,
+		typeOptions: {
+			numberPrecision: 10,
+		},
+		description: 'Upper bound of the range, as the price of Token A in Token B',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Entry Price',
+		name: 'entryPrice',
+		type: 'number',
+		required: true,
+		default: 0,
+		typeOptions: {
+			numberPrecision: 10,
+		},
+		description: 'Pool price when the deposit was made, as the price of Token A in Token B',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount A',
+		name: 'amountA',
+		type: 'string',
+		default: '',
+		placeholder: '1.0',
+		description: 'Amount of Token A deposited (in token units, not wei)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount B',
+		name: 'amountB',
+		type: 'string',
+		default: '',
+		placeholder: '1000.0',
+		description: 'Amount of Token B deposited (in token units, not wei)',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+				lpSource: ['manual'],
+			},
+		},
+	},
+	// Analyze: Range Alert
+	{
+		displayName: 'Range Alert Threshold (%)',
+		name: 'rangeAlertThreshold',
+		type: 'number',
+		default: 5,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'Flag the position as near its range edge when the price is within this distance of either bound',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: ['analyzeLpPosition'],
+			},
+		},
+	},
+	// Wait for Confirmation
+	{
+		displayName: 'Wait for Confirmation',
+		name: 'waitForConfirmation',
+		type: 'boolean',
+		default: true,
+		description: 'Whether to wait for the transaction to be confirmed',
+		displayOptions: {
+			show: {
+				resource: ['defi'],
+				operation: [
+					'executeSwap',
+					'approveAndSwap',
+					'conditionalSwap',
+					'mintPosition',
+					'increaseLiquidity',
+					'decreaseLiquidity',
+					'collectFees',
+					'burnPosition',
+				],
+			},
+		},
+	},
+];
+
+// Chainlink Feed ABI
+const CHAINLINK_FEED_ABI = [
+	'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+	'function decimals() external view returns (uint8)',
+	'function description() external view returns (string)',
+];
+
+// Uniswap V3 Pool ABI
+const UNISWAP_V3_POOL_ABI = [
+	'function token0() external view returns (address)',
+	'function token1() external view returns (address)',
+	'function fee() external view returns (uint24)',
+	'function liquidity() external view returns (uint128)',
+	'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+];
+
+// Uniswap V3 Factory ABI
+const UNISWAP_V3_FACTORY_ABI = [
+	'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+];
+
+/**
+ * Human-readable route, e.g. ARB -(0.05%)-> WETH -(0.05%)-> USDC
+ */
+function describeRoute(quote: SwapQuote): string {
+	const symbol = (address: string) => getTokenByAddress('arbitrumOne', address)?.symbol ?? address;
+	return quote.route.reduce((text, token, i) => {
+		if (i === 0) return symbol(token);
+		const fee = quote.routeFees?.[i - 1];
+		return `${text} ${fee !== undefined ? `-(${fee / 10000}%)->` : '->'} ${symbol(token)}`;
+	}, '');
+}
+
+/**
+ * Read the exact output amount when Swap Type is Exact Output (Uniswap V3 only)
+ */
+function getExactAmountOut(this: IExecuteFunctions, index: number, dex: string): string | undefined {
+	if (dex !== 'uniswapV3') {
+		return undefined;
+	}
+	const swapType = this.getNodeParameter('swapType', index, 'exactInput') as string;
+	return swapType === 'exactOutput' ? this.getNodeParameter('amountOut', index) as string : undefined;
+}
+
+/**
+ * Apply slippage to an exact-output quote to get the most tokenIn the swap may spend
+ */
+function getAmountInMaximum(amountIn: bigint, slippage: number): bigint {
+	return (amountIn * BigInt(Math.floor((100 + slippage) * 100))) / BigInt(10000);
+}
+
+/** DEXes whose routers can be called directly for swaps */
+const SWAP_DEXES = ['uniswapV3', 'sushiswap', 'camelot', 'camelotV3'];
+
+/** Tokens whitelisted in the GMX V1 vault */
+const GMX_VAULT_TOKENS = ['WETH', 'WBTC', 'USDC', 'USDC.e', 'USDT', 'DAI', 'FRAX', 'LINK', 'UNI'];
+
+/**
+ * Split a comma-separated address list
+ */
+function parseAddressList(value: string): string[] {
+	return value.split(',').map((address) => address.trim()).filter((address) => address.length > 0);
+}
+
+export async function execute(
+	this: IExecuteFunctions,
+	index: number,
 ): Promise<INodeExecutionData[]> {
 	const operation = this.getNodeParameter('operation', index) as string;
 
-	let result: Record<string, unknown>;
+	let result: Record<string, unknown>;
+
+	switch (operation) {
+		case 'getTokenPrice': {
+			const token = this.getNodeParameter('token', index) as string;
+			const customFeedAddress = token === 'custom'
+				? this.getNodeParameter('customFeedAddress', index) as string
+				: undefined;
+			result = await getTokenPrice.call(
+				this,
+				token,
+				customFeedAddress,
+				this.getNodeParameter('maxPriceAge', index, 0) as number,
+				this.getNodeParameter('sequencerGracePeriod', index, SEQUENCER_GRACE_PERIOD) as number,
+				this.getNodeParameter('unsafePriceAction', index, 'flag') as string,
+			);
+			break;
+		}
+
+		case 'getSwapQuote': {
+			const quoteMode = this.getNodeParameter('quoteMode', index, 'single') as string;
+			const dex = quoteMode === 'best' ? 'best' : this.getNodeParameter('dex', index) as string;
+			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
+			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
+			const feeTier = dex === 'uniswapV3'
+				? this.getNodeParameter('feeTier', index) as string
+				: '3000';
+			const amountOut = getExactAmountOut.call(this, index, dex);
+			const amountIn = amountOut ? '' : this.getNodeParameter('amountIn', index) as string;
+			result = await getSwapQuote.call(this, dex, tokenIn, tokenOut, amountIn, feeTier, amountOut);
+			break;
+		}
+
+		case 'executeSwap': {
+			const dex = this.getNodeParameter('dex', index) as string;
+			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
+			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
+			const amountOut = getExactAmountOut.call(this, index, dex);
+			const amountIn = amountOut ? '' : this.getNodeParameter('amountIn', index) as string;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const feeTier = dex === 'uniswapV3'
+				? this.getNodeParameter('feeTier', index) as string
+				: '3000';
+			const transferTax = ['sushiswap', 'camelot', 'camelotV3'].includes(dex)
+				? this.getNodeParameter('transferTax', index, 0) as number
+				: 0;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await executeSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, transferTax, waitForConfirmation, amountOut);
+			break;
+		}
+
+		case 'getLiquidityPools': {
+			const mode = this.getNodeParameter('poolDiscoveryMode', index, 'pair') as string;
+			const dexes = this.getNodeParameter('poolDexes', index, []) as SwapDex[];
+			if (dexes.length === 0) {
+				throw new NodeOperationError(this.getNode(), 'Select at least one DEX');
+			}
+			if (mode === 'created') {
+				const fromBlock = this.getNodeParameter('fromBlock', index) as number;
+				const toBlock = this.getNodeParameter('toBlock', index, 0) as number;
+				const limit = this.getNodeParameter('poolLimit', index, 50) as number;
+				result = await getCreatedLiquidityPools.call(this, dexes, fromBlock, toBlock, limit);
+				break;
+			}
+			const tokenA = this.getNodeParameter('tokenA', index) as string;
+			const tokenB = this.getNodeParameter('tokenB', index) as string;
+			if (!validateAddress(tokenA) || !validateAddress(tokenB)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid token address');
+			}
+			const includeEmpty = this.getNodeParameter('includeEmptyPools', index, false) as boolean;
+			result = await getLiquidityPools.call(this, tokenA, tokenB, dexes, includeEmpty);
+			break;
+		}
+
+		case 'getPoolInfo': {
+			const dex = this.getNodeParameter('dex', index) as string;
+			const poolAddress = this.getNodeParameter('poolAddress', index) as string;
+			const isBalancerPoolId = dex === 'balancer' && ethers.isHexString(poolAddress, 32);
+			if (!isBalancerPoolId && !validateAddress(poolAddress)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid pool address');
+			}
+			const quoteAmount = this.getNodeParameter('curveQuoteAmount', index, '1') as string;
+			result = await getPoolInfo.call(this, dex, poolAddress, quoteAmount);
+			break;
+		}
+
+		case 'getTwap': {
+			const poolAddress = this.getNodeParameter('poolAddress', index) as string;
+			if (!validateAddress(poolAddress)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid pool address');
+			}
+			const windowSeconds = this.getNodeParameter('twapWindow', index) as number;
+			result = await getTwap.call(this, poolAddress, windowSeconds);
+			break;
+		}
+
+		case 'getTvl': {
+			const protocol = this.getNodeParameter('protocol', index) as string;
+			const poolAddress = protocol === 'custom'
+				? this.getNodeParameter('poolAddress', index) as string
+				: undefined;
+			if (poolAddress !== undefined && !validateAddress(poolAddress)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid pool address');
+			}
+			const holders = protocol === 'contracts'
+				? parseAddressList(this.getNodeParameter('tvlContracts', index) as string)
+				: [];
+			const tokens = protocol === 'custom'
+				? []
+				: parseAddressList(this.getNodeParameter('tvlTokens', index, '') as string);
+			const invalid = [...holders, ...tokens].find((address) => !validateAddress(address));
+			if (invalid) {
+				throw new NodeOperationError(this.getNode(), `Invalid address: ${invalid}`);
+			}
+			if (protocol === 'contracts' && holders.length === 0) {
+				throw new NodeOperationError(this.getNode(), 'At least one contract address is required');
+			}
+			result = await getTvl.call(this, protocol, poolAddress, holders, tokens);
+			break;
+		}
+
+		case 'getYieldFarms': {
+			const sources = this.getNodeParameter('farmSources', index) as string[];
+			if (sources.length === 0) {
+				throw new NodeOperationError(this.getNode(), 'Select at least one source');
+			}
+			const nitroPools = sources.includes('camelotNitro')
+				? parseAddressList(this.getNodeParameter('nitroPools', index, '') as string)
+				: [];
+			const pendleMarkets = sources.includes('pendle')
+				? parseAddressList(this.getNodeParameter('pendleMarkets', index) as string)
+				: [];
+			const invalid = [...nitroPools, ...pendleMarkets].find((address) => !validateAddress(address));
+			if (invalid) {
+				throw new NodeOperationError(this.getNode(), `Invalid address: ${invalid}`);
+			}
+			result = await getYieldFarms.call(this, sources, {
+				nitroPools,
+				nitroPoolLimit: sources.includes('camelotNitro')
+					? this.getNodeParameter('nitroPoolLimit', index, 20) as number
+					: 0,
+				pendleMarkets,
+				sortBy: this.getNodeParameter('farmSortBy', index, 'apr') as string,
+				minApr: this.getNodeParameter('minApr', index, 0) as number,
+				minTvlUsd: this.getNodeParameter('minTvlUsd', index, 0) as number,
+			});
+			break;
+		}
+
+		case 'approveAndSwap': {
+			const dex = this.getNodeParameter('dex', index) as string;
+			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
+			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
+			const amountOut = getExactAmountOut.call(this, index, dex);
+			const amountIn = amountOut ? '' : this.getNodeParameter('amountIn', index) as string;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const feeTier = dex === 'uniswapV3'
+				? this.getNodeParameter('feeTier', index) as string
+				: '3000';
+			const transferTax = ['sushiswap', 'camelot', 'camelotV3'].includes(dex)
+				? this.getNodeParameter('transferTax', index, 0) as number
+				: 0;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await approveAndSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, transferTax, waitForConfirmation, amountOut);
+			break;
+		}
+
+		case 'conditionalSwap': {
+			const dex = this.getNodeParameter('dex', index) as string;
+			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
+			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
+			const amountIn = this.getNodeParameter('amountIn', index) as string;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const feeTier = dex === 'uniswapV3'
+				? this.getNodeParameter('feeTier', index) as string
+				: '3000';
+			const transferTax = ['sushiswap', 'camelot', 'camelotV3'].includes(dex)
+				? this.getNodeParameter('transferTax', index, 0) as number
+				: 0;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			const source = this.getNodeParameter('conditionPriceSource', index) as SwapCondition['source'];
+			const condition: SwapCondition = {
+				source,
+				direction: this.getNodeParameter('conditionDirection', index) as SwapCondition['direction'],
+				triggerPrice: this.getNodeParameter('triggerPrice', index) as number,
+				maxDeviation: this.getNodeParameter('maxQuoteDeviation', index, 1) as number,
+				pool: source === 'uniswapV3Twap' ? this.getNodeParameter('conditionPool', index) as string : undefined,
+				twapWindow: this.getNodeParameter('conditionTwapWindow', index, 300) as number,
+				maxPriceAge: this.getNodeParameter('maxPriceAge', index, 0) as number,
+				gracePeriod: this.getNodeParameter('sequencerGracePeriod', index, SEQUENCER_GRACE_PERIOD) as number,
+			};
+			result = await conditionalSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, transferTax, waitForConfirmation, condition);
+			break;
+		}
+
+		case 'listPositions': {
+			const owner = this.getNodeParameter('positionOwner', index, '') as string;
+			const includeClosed = this.getNodeParameter('includeClosed', index, false) as boolean;
+			result = await listPositions.call(this, owner, includeClosed);
+			break;
+		}
+
+		case 'getPosition': {
+			const tokenId = this.getNodeParameter('positionTokenId', index) as string;
+			result = await getPosition.call(this, tokenId);
+			break;
+		}
+
+		case 'analyzeLpPosition': {
+			const lpSource = this.getNodeParameter('lpSource', index) as string;
+			const alertThreshold = this.getNodeParameter('rangeAlertThreshold', index, 5) as number;
+			if (lpSource === 'tokenId') {
+				const tokenId = this.getNodeParameter('positionTokenId', index) as string;
+				result = await analyzeLpPosition.call(this, tokenId, alertThreshold);
+				break;
+			}
+			const tokenA = this.getNodeParameter('tokenA', index) as string;
+			const tokenB = this.getNodeParameter('tokenB', index) as string;
+			if (!validateAddress(tokenA) || !validateAddress(tokenB)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid token address');
+			}
+			const feeTier = parseInt(this.getNodeParameter('positionFeeTier', index) as string);
+			const priceLower = this.getNodeParameter('priceLower', index) as number;
+			const priceUpper = this.getNodeParameter('priceUpper', index) as number;
+			const entryPrice = this.getNodeParameter('entryPrice', index) as number;
+			const amountA = this.getNodeParameter('amountA', index, '') as string;
+			const amountB = this.getNodeParameter('amountB', index, '') as string;
+			result = await analyzeRangePosition.call(
+				this, tokenA, tokenB, feeTier, priceLower, priceUpper, entryPrice, amountA, amountB, alertThreshold,
+			);
+			break;
+		}
+
+		case 'mintPosition': {
+			const tokenA = this.getNodeParameter('tokenA', index) as string;
+			const tokenB = this.getNodeParameter('tokenB', index) as string;
+			if (!validateAddress(tokenA) || !validateAddress(tokenB)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid token address');
+			}
+			const feeTier = parseInt(this.getNodeParameter('positionFeeTier', index) as string);
+			const priceLower = this.getNodeParameter('priceLower', index) as number;
+			const priceUpper = this.getNodeParameter('priceUpper', index) as number;
+			const amountA = this.getNodeParameter('amountA', index, '') as string;
+			const amountB = this.getNodeParameter('amountB', index, '') as string;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await mintPosition.call(this, tokenA, tokenB, feeTier, priceLower, priceUpper, amountA, amountB, slippage, waitForConfirmation);
+			break;
+		}
+
+		case 'increaseLiquidity': {
+			const tokenId = this.getNodeParameter('positionTokenId', index) as string;
+			const amount0 = this.getNodeParameter('amount0', index, '') as string;
+			const amount1 = this.getNodeParameter('amount1', index, '') as string;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await increaseLiquidity.call(this, tokenId, amount0, amount1, slippage, waitForConfirmation);
+			break;
+		}
+
+		case 'decreaseLiquidity': {
+			const tokenId = this.getNodeParameter('positionTokenId', index) as string;
+			const liquidityPercent = this.getNodeParameter('liquidityPercent', index) as number;
+			const collectTokens = this.getNodeParameter('collectTokens', index, true) as boolean;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await decreaseLiquidity.call(this, tokenId, liquidityPercent, collectTokens, slippage, waitForConfirmation);
+			break;
+		}
+
+		case 'collectFees': {
+			const tokenId = this.getNodeParameter('positionTokenId', index) as string;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await collectFees.call(this, tokenId, waitForConfirmation);
+			break;
+		}
+
+		case 'burnPosition': {
+			const tokenId = this.getNodeParameter('positionTokenId', index) as string;
+			const slippage = this.getNodeParameter('slippage', index) as number;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await burnPosition.call(this, tokenId, slippage, waitForConfirmation);
+			break;
+		}
+
+		default:
+			throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+	}
+
+	return [{ json: result as IDataObject }];
+}
+
+async function getTokenPrice(
+	this: IExecuteFunctions,
+	token: string,
+	customFeedAddress: string | undefined,
+	maxPriceAge: number,
+	gracePeriod: number,
+	unsafePriceAction: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	// Get feed address
+	let feedAddress: string;
+	if (token === 'custom' && customFeedAddress) {
+		if (!validateAddress(customFeedAddress)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid custom feed address');
+		}
+		feedAddress = customFeedAddress;
+	} else {
+		feedAddress = getChainlinkFeedAddress(network, token) ?? getChainlinkFeedAddress('arbitrumOne', token);
+		if (!feedAddress) {
+			throw new NodeOperationError(this.getNode(), `No Chainlink feed available for ${token} on ${networkConfig.name}`);
+		}
+	}
+
+	const feed = new ethers.Contract(feedAddress, CHAINLINK_FEED_ABI, provider);
+
+	const [roundData, decimals, description] = await Promise.all([
+		feed.latestRoundData(),
+		feed.decimals(),
+		feed.description(),
+	]);
+
+	const price = Number(roundData.answer) / Math.pow(10, decimals);
+	const updatedAt = new Date(Number(roundData.updatedAt) * 1000);
+
+	const safety = await checkOracleSafety(
+		provider,
+		network,
+		feedAddress,
+		Number(roundData.updatedAt),
+		maxPriceAge,
+		gracePeriod,
+	);
+	if (roundData.answer <= 0n) {
+		safety.safe = false;
+		safety.warnings.push('Feed returned a non-positive answer');
+	}
+	if (!safety.safe && unsafePriceAction === 'reject') {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Unsafe ${token} price from ${feedAddress}: ${safety.warnings.join('; ')}`,
+		);
+	}
+
+	return {
+		token,
+		network: networkConfig.name,
+		feedAddress,
+		description,
+		price: price.toFixed(decimals > 8 ? 18 : 8),
+		priceRaw: roundData.answer.toString(),
+		decimals: Number(decimals),
+		roundId: roundData.roundId.toString(),
+		updatedAt: updatedAt.toISOString(),
+		timestamp: Number(roundData.updatedAt),
+		source: 'Chainlink Oracle',
+		...safety,
+	};
+}
+
+async function getSwapQuote(
+	this: IExecuteFunctions,
+	dex: string,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: string,
+	feeTier: string,
+	amountOut?: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	// Handle ETH address
+	const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+	const WETH_ADDRESS = ARBITRUM_ONE_TOKENS.WETH.address;
+
+	const actualTokenIn = tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase() ? WETH_ADDRESS : tokenIn;
+	const actualTokenOut = tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase() ? WETH_ADDRESS : tokenOut;
+
+	// Get token decimals
+	const erc20Abi = ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'];
+	const tokenInContract = new ethers.Contract(actualTokenIn, erc20Abi, provider);
+	const tokenOutContract = new ethers.Contract(actualTokenOut, erc20Abi, provider);
+
+	let tokenInDecimals = 18;
+	let tokenOutDecimals = 18;
+	let tokenInSymbol = 'Unknown';
+	let tokenOutSymbol = 'Unknown';
+
+	try {
+		[tokenInDecimals, tokenOutDecimals, tokenInSymbol, tokenOutSymbol] = await Promise.all([
+			tokenInContract.decimals(),
+			tokenOutContract.decimals(),
+			tokenInContract.symbol(),
+			tokenOutContract.symbol(),
+		]);
+	} catch (error) {
+		// Use defaults
+	}
+
+	const formatQuote = async (q: SwapQuote): Promise<Record<string, unknown>> => {
+		const amountInFormatted = ethers.formatUnits(q.amountIn, tokenInDecimals);
+		const amountOutFormatted = ethers.formatUnits(q.amountOut, tokenOutDecimals);
+		// Not every venue has a pool mid-price (e.g. GMX), so impact is best-effort
+		const impact = await getPriceImpact(provider, q).catch(() => undefined);
+		return {
+			dex: q.dex,
+			dexName: q.dexName,
+			amountIn: amountInFormatted,
+			amountInWei: q.amountIn.toString(),
+			amountOut: amountOutFormatted,
+			amountOutWei: q.amountOut.toString(),
+			rate: (parseFloat(amountOutFormatted) / parseFloat(amountInFormatted)).toFixed(8),
+			midPrice: impact ? (impact.midPrice * Math.pow(10, tokenInDecimals - tokenOutDecimals)).toFixed(8) : null,
+			priceImpact: impact ? Number(impact.priceImpact.toFixed(4)) : null,
+			fee: `${q.feePercent}%`,
+			feeTier: q.feeTier,
+			pool: q.pool,
+			route: q.route,
+			routeDescription: describeRoute(q),
+			gasEstimate: q.gasEstimate?.toString(),
+		};
+	};
+
+	const tokenInfo = (amountWeiIn: bigint, amountWeiOut?: bigint) => ({
+		tokenIn: {
+			address: tokenIn,
+			symbol: tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase() ? 'ETH' : tokenInSymbol,
+			decimals: tokenInDecimals,
+			amount: ethers.formatUnits(amountWeiIn, tokenInDecimals),
+			amountWei: amountWeiIn.toString(),
+		},
+		tokenOut: {
+			address: tokenOut,
+			symbol: tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase() ? 'ETH' : tokenOutSymbol,
+			decimals: tokenOutDecimals,
+			...(amountWeiOut !== undefined && {
+				amount: ethers.formatUnits(amountWeiOut, tokenOutDecimals),
+				amountWei: amountWeiOut.toString(),
+			}),
+		},
+	});
+
+	if (amountOut) {
+		const amountOutWei = ethers.parseUnits(amountOut, tokenOutDecimals);
+		let q: SwapQuote;
+		try {
+			q = await quoteUniswapV3ExactOutput(
+				provider,
+				actualTokenIn,
+				actualTokenOut,
+				amountOutWei,
+				feeTier === 'auto' ? undefined : parseInt(feeTier),
+			);
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Quote failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+		return {
+			network: networkConfig.name,
+			...tokenInfo(q.amountIn, amountOutWei),
+			mode: 'single',
+			swapType: 'exactOutput',
+			...(await formatQuote(q)),
+		};
+	}
+
+	const amountInWei = ethers.parseUnits(amountIn, tokenInDecimals);
+
+	let quote: Record<string, unknown>;
+
+	if (dex === 'best') {
+		const { quotes, errors } = await getBestSwapQuote(provider, actualTokenIn, actualTokenOut, amountInWei);
+		if (quotes.length === 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`No DEX returned a quote for this pair: ${errors.map((e) => `${DEX_NAMES[e.dex]}: ${e.error}`).join('; ')}`,
+			);
+		}
+		const ranked = await Promise.all(quotes.map(formatQuote));
+		quote = {
+			mode: 'best',
+			bestQuote: ranked[0],
+			quotes: ranked,
+			errors: errors.map((e) => ({ dex: e.dex, dexName: DEX_NAMES[e.dex], feeTier: e.feeTier, error: e.error })),
+		};
+	} else if (dex === 'oneInch') {
+		quote = {
+			dex,
+			note: 'The 1inch aggregator has no on-chain quoter. Use the 1inch API or select Best Quote to compare on-chain DEXes.',
+			tokenIn: actualTokenIn,
+			tokenOut: actualTokenOut,
+			amountIn: amountIn,
+		};
+	} else {
+		try {
+			const q = await getSwapQuoteForDex(
+				provider,
+				dex as QuoteDex,
+				actualTokenIn,
+				actualTokenOut,
+				amountInWei,
+				feeTier === 'auto' ? undefined : parseInt(feeTier),
+			);
+			quote = { mode: 'single', swapType: 'exactInput', ...(await formatQuote(q)) };
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Quote failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+	}
+
+	return {
+		network: networkConfig.name,
+		...tokenInfo(amountInWei),
+		...quote,
+	};
+}
+
+async function executeSwap(
+	this: IExecuteFunctions,
+	dex: string,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: string,
+	slippage: number,
+	feeTier: string,
+	transferTax: number,
+	waitForConfirmation: boolean,
+	amountOut?: string,
+	amountOutFloor?: bigint,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	if (!SWAP_DEXES.includes(dex)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${dex} execution not yet implemented. Use Uniswap V3, SushiSwap or Camelot.`,
+		);
+	}
+
+	const privateKey = credentials.privateKey as string;
+	if (!privateKey) {
+		throw new NodeOperationError(this.getNode(), 'Private key required for swap execution');
+	}
+
+	const signer = new ethers.Wallet(privateKey, provider);
+	const signerAddress = await signer.getAddress();
+
+	// Handle ETH address
+	const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+	const WETH_ADDRESS = ARBITRUM_ONE_TOKENS.WETH.address;
+	const isETHIn = tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase();
+	const isETHOut = tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase();
+
+	const actualTokenIn = isETHIn ? WETH_ADDRESS : tokenIn;
+	const actualTokenOut = isETHOut ? WETH_ADDRESS : tokenOut;
+
+	// Get token decimals
+	const erc20Abi = ['function decimals() view returns (uint8)', 'function balanceOf(address) view returns (uint256)'];
+	const tokenInContract = new ethers.Contract(actualTokenIn, erc20Abi, provider);
+	const tokenOutContract = new ethers.Contract(actualTokenOut, erc20Abi, provider);
+
+	let tokenInDecimals = 18;
+	let tokenOutDecimals = 18;
+	try {
+		[tokenInDecimals, tokenOutDecimals] = await Promise.all([
+			tokenInContract.decimals(),
+			tokenOutContract.decimals(),
+		]);
+	} catch (error) {
+		// Use defaults
+	}
+
+	if (amountOut) {
+		const amountOutWei = ethers.parseUnits(amountOut, tokenOutDecimals);
+		let quote: SwapQuote;
+		try {
+			quote = await quoteUniswapV3ExactOutput(
+				provider,
+				actualTokenIn,
+				actualTokenOut,
+				amountOutWei,
+				feeTier === 'auto' ? undefined : parseInt(feeTier),
+			);
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Failed to get quote for swap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+
+		const amountInMaximum = getAmountInMaximum(quote.amountIn, slippage);
+		const deadline = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
+
+		try {
+			const tx = await submitExactOutputSwap(signer, {
+				tokenIn: actualTokenIn,
+				tokenOut: actualTokenOut,
+				amountOut: amountOutWei,
+				amountInMaximum,
+				recipient: signerAddress,
+				deadline,
+				feeTier: quote.feeTier,
+				ethIn: isETHIn,
+				ethOut: isETHOut,
+			});
+
+			const result: Record<string, unknown> = {
+				dex: quote.dexName,
+				network: networkConfig.name,
+				transactionHash: tx.hash,
+				router: getSwapRouterAddress(dex),
+				pool: quote.pool,
+				swapType: 'exactOutput',
+				tokenIn,
+				tokenOut,
+				amountOut,
+				expectedAmountIn: ethers.formatUnits(quote.amountIn, tokenInDecimals),
+				amountInMaximum: ethers.formatUnits(amountInMaximum, tokenInDecimals),
+				slippage: `${slippage}%`,
+				feeTier: `${quote.feeTier / 10000}%`,
+				deadline: new Date(deadline * 1000).toISOString(),
+				status: 'Submitted',
+			};
+
+			if (waitForConfirmation) {
+				const receipt = await tx.wait();
+				result.status = receipt?.status === 1 ? 'Success' : 'Failed';
+				result.blockNumber = receipt?.blockNumber;
+				result.gasUsed = receipt?.gasUsed.toString();
+				result.effectiveGasPrice = receipt?.gasPrice?.toString();
+			}
+
+			return result;
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Swap failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+			);
+		}
+	}
+
+	const amountInWei = ethers.parseUnits(amountIn, tokenInDecimals);
+
+	// Get quote first
+	let quote: SwapQuote;
+	try {
+		quote = await getSwapQuoteForDex(
+			provider,
+			dex as SwapDex,
+			actualTokenIn,
+			actualTokenOut,
+			amountInWei,
+			feeTier === 'auto' ? undefined : parseInt(feeTier),
+		);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to get quote for swap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+
+	// Fee-on-transfer tokens deliver less than the pool quote; deduct the tax before slippage
+	const taxFactor = BigInt(Math.floor((100 - transferTax) * 100));
+	const expectedAmountOut = (quote.amountOut * taxFactor) / BigInt(10000);
+
+	// Calculate minimum amount out with slippage, never below a floor set by the caller
+	const slippageFactor = BigInt(Math.floor((100 - slippage) * 100));
+	const slippageMinimum = (expectedAmountOut * slippageFactor) / BigInt(10000);
+	const amountOutMinimum = amountOutFloor !== undefined && amountOutFloor > slippageMinimum
+		? amountOutFloor
+		: slippageMinimum;
+
+	const deadline = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
+
+	const balanceBefore: bigint = isETHOut
+		? await provider.getBalance(signerAddress)
+		: await tokenOutContract.balanceOf(signerAddress);
+
+	try {
+		const tx = await submitSwap(signer, dex as SwapDex, {
+			tokenIn: actualTokenIn,
+			tokenOut: actualTokenOut,
+			amountIn: amountInWei,
+			amountOutMinimum,
+			recipient: signerAddress,
+			deadline,
+			ethIn: isETHIn,
+			ethOut: isETHOut,
+			feeOnTransfer: transferTax > 0,
+			feeTier: quote.feeTier,
+			// Multi-hop routes go through exactInput with the quoted path
+			path: quote.routeFees?.length > 1 ? quote.path : undefined,
+		});
+
+		const result: Record<string, unknown> = {
+			dex: quote.dexName,
+			network: networkConfig.name,
+			transactionHash: tx.hash,
+			router: getSwapRouterAddress(dex),
+			pool: quote.pool,
+			swapType: 'exactInput',
+			tokenIn,
+			tokenOut,
+			amountIn,
+			expectedAmountOut: ethers.formatUnits(expectedAmountOut, tokenOutDecimals),
+			amountOutMinimum: ethers.formatUnits(amountOutMinimum, tokenOutDecimals),
+			slippage: `${slippage}%`,
+			fee: `${quote.feePercent}%`,
+			deadline: new Date(deadline * 1000).toISOString(),
+			status: 'Submitted',
+		};
+		if (quote.feeTier) {
+			result.feeTier = `${quote.feeTier / 10000}%`;
+		}
+		if (quote.routeFees) {
+			result.route = quote.route;
+			result.routeDescription = describeRoute(quote);
+		}
+		if (transferTax > 0) {
+			result.transferTax = `${transferTax}%`;
+		}
+
+		if (waitForConfirmation) {
+			const receipt = await tx.wait();
+			result.status = receipt?.status === 1 ? 'Success' : 'Failed';
+			result.blockNumber = receipt?.blockNumber;
+			result.gasUsed = receipt?.gasUsed.toString();
+			result.effectiveGasPrice = receipt?.gasPrice?.toString();
+
+			if (receipt?.status === 1) {
+				// Measure what actually arrived, which differs from the quote for taxed tokens
+				const balanceAfter: bigint = isETHOut
+					? await provider.getBalance(signerAddress, receipt.blockNumber)
+					: await tokenOutContract.balanceOf(signerAddress, { blockTag: receipt.blockNumber });
+				const received = balanceAfter - balanceBefore + (isETHOut ? receipt.fee : BigInt(0));
+				result.amountOutReceived = ethers.formatUnits(received, tokenOutDecimals);
+			}
+		}
+
+		return result;
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Swap failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+		);
+	}
+}
+
+async function getLiquidityPools(
+	this: IExecuteFunctions,
+	tokenA: string,
+	tokenB: string,
+	dexes: SwapDex[],
+	includeEmpty: boolean,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	try {
+		const aIsToken0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+		const found = await findPairPools(provider, tokenA, tokenB, dexes);
+		const [reserves, token0, token1] = await Promise.all([
+			getPoolReserves(provider, found),
+			getTokenMetadata(provider, aIsToken0 ? tokenA : tokenB),
+			getTokenMetadata(provider, aIsToken0 ? tokenB : tokenA),
+		]);
+
+		// Unpriceable tokens leave tvlUsd null rather than failing the lookup
+		const priceOf = (token: { address: string; decimals: number }) =>
+			getTokenUsdPrice(provider, network, token.address, token.decimals)
+				.then((price) => price.priceUsd)
+				.catch(() => null);
+		const [price0, price1] = found.length > 0
+			? await Promise.all([priceOf(token0), priceOf(token1)])
+			: [null, null];
+
+		const pools = found
+			.map((pool, i) => {
+				const reserve0 = Number(ethers.formatUnits(reserves[i].reserve0, token0.decimals));
+				const reserve1 = Number(ethers.formatUnits(reserves[i].reserve1, token1.decimals));
+				return {
+					dex: pool.dexName,
+					pool: pool.pool,
+					fee: pool.feeTier !== undefined ? `${pool.feeTier / 10000}%` : undefined,
+					reserve0: ethers.formatUnits(reserves[i].reserve0, token0.decimals),
+					reserve1: ethers.formatUnits(reserves[i].reserve1, token1.decimals),
+					tvlUsd: price0 !== null && price1 !== null ? reserve0 * price0 + reserve1 * price1 : null,
+					empty: reserves[i].reserve0 === BigInt(0) && reserves[i].reserve1 === BigInt(0),
+				};
+			})
+			.filter((pool) => includeEmpty || !pool.empty)
+			.sort((a, b) => (b.tvlUsd ?? 0) - (a.tvlUsd ?? 0));
+
+		return {
+			network: networkConfig.name,
+			token0,
+			token1,
+			dexes,
+			count: pools.length,
+			pools,
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to find pools: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
+
+async function getCreatedLiquidityPools(
+	this: IExecuteFunctions,
+	dexes: SwapDex[],
+	fromBlock: number,
+	toBlock: number,
+	limit: number,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	if (toBlock > 0 && toBlock < fromBlock) {
+		throw new NodeOperationError(this.getNode(), 'To Block must not be before From Block');
+	}
+
+	try {
+		const found = await getCreatedPools(provider, dexes, fromBlock, toBlock > 0 ? toBlock : 'latest', limit);
+		const tokenAddresses = [...new Set(found.flatMap((pool) => [pool.token0, pool.token1]))];
+		const [reserves, metadata] = await Promise.all([
+			getPoolReserves(provider, found),
+			Promise.all(tokenAddresses.map((address) => getTokenMetadata(provider, address)
+				.catch(() => ({ address, symbol: 'Unknown', decimals: 18 })))),
+		]);
+		const tokens = new Map(metadata.map((meta) => [meta.address, meta]));
+
+		const pools = found.map((pool, i) => {
+			const token0 = tokens.get(pool.token0) as { address: string; symbol: string; decimals: number };
+			const token1 = tokens.get(pool.token1) as { address: string; symbol: string; decimals: number };
+			return {
+				dex: pool.dexName,
+				pool: pool.pool,
+				createdAtBlock: pool.createdAtBlock,
+				fee: pool.feeTier !== undefined ? `${pool.feeTier / 10000}%` : undefined,
+				token0,
+				token1,
+				reserve0: ethers.formatUnits(reserves[i].reserve0, token0.decimals),
+				reserve1: ethers.formatUnits(reserves[i].reserve1, token1.decimals),
+				hasLiquidity: reserves[i].reserve0 > BigInt(0) || reserves[i].reserve1 > BigInt(0),
+			};
+		});
+
+		return {
+			network: networkConfig.name,
+			fromBlock,
+			toBlock: toBlock > 0 ? toBlock : 'latest',
+			dexes,
+			count: pools.length,
+			pools,
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to read pool creation events: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
+
+async function getPoolInfo(
+	this: IExecuteFunctions,
+	dex: string,
+	poolAddress: string,
+	quoteAmount = '1',
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	if (dex === 'uniswapV3') {
+		const pool = new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, provider);
+
+		try {
+			const [token0, token1, fee, liquidity, slot0] = await Promise.all([
+				pool.token0(),
+				pool.token1(),
+				pool.fee(),
+				pool.liquidity(),
+				pool.slot0(),
+			]);
+
+			// Get token info
+			const erc20Abi = ['function symbol() view returns (string)', 'function decimals() view returns (uint8)'];
+			const token0Contract = new ethers.Contract(token0, erc20Abi, provider);
+			const token1Contract = new ethers.Contract(token1, erc20Abi, provider);
+
+			const [token0Symbol, token1Symbol, token0Decimals, token1Decimals] = await Promise.all([
+				token0Contract.symbol(),
+				token1Contract.symbol(),
+				token0Contract.decimals(),
+				token1Contract.decimals(),
+			]);
+
+			// Calculate price from sqrtPriceX96
+			const sqrtPriceX96 = slot0[0];
+			const price = (Number(sqrtPriceX96) / 2 ** 96) ** 2;
+			const adjustedPrice = price * Math.pow(10, token0Decimals - token1Decimals);
+
+			return {
+				network: networkConfig.name,
+				dex: 'Uniswap V3',
+				poolAddress,
+				token0: {
+					address: token0,
+					symbol: token0Symbol,
+					decimals: Number(token0Decimals),
+				},
+				token1: {
+					address: token1,
+					symbol: token1Symbol,
+					decimals: Number(token1Decimals),
+				},
+				fee: `${Number(fee) / 10000}%`,
+				feeRaw: Number(fee),
+				liquidity: liquidity.toString(),
+				sqrtPriceX96: sqrtPriceX96.toString(),
+				tick: Number(slot0[1]),
+				price: {
+					token0PerToken1: adjustedPrice.toFixed(8),
+					token1PerToken0: (1 / adjustedPrice).toFixed(8),
+				},
+				unlocked: slot0[6],
+			};
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Failed to get pool info: ${error instanceof Error ? error.message : 'Unknown error'}`
+			);
+		}
+	} else if (dex === 'curve' || dex === 'balancer') {
+		try {
+			const info = dex === 'curve'
+				? await getCurvePoolInfo(provider, poolAddress, quoteAmount)
+				: await getBalancerPoolInfo(provider, poolAddress);
+			return {
+				network: networkConfig.name,
+				dex: dex === 'curve' ? 'Curve' : 'Balancer',
+				poolAddress: info.pool,
+				...info,
+			};
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Failed to get pool info: ${error instanceof Error ? error.message : 'Unknown error'}`
+			);
+		}
+	} else {
+		return {
+			network: networkConfig.name,
+			dex,
+			poolAddress,
+			note: `Detailed pool info for ${dex} requires specific ABI implementation`,
+		};
+	}
+}
+
+async function getTwap(
+	this: IExecuteFunctions,
+	poolAddress: string,
+	windowSeconds: number,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
 
-	switch (operation) {
-		case 'getTokenPrice': {
-			const token = this.getNodeParameter('token', index) as string;
-			const customFeedAddress = token === 'custom'
-				? this.getNodeParameter('customFeedAddress', index) as string
-				: undefined;
-			result = await getTokenPrice.call(this, token, customFeedAddress);
-			break;
-		}
+	let twap;
+	try {
+		twap = await getUniswapV3Twap(provider, poolAddress, windowSeconds);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), (error as Error).message);
+	}
+	const [token0, token1] = await Promise.all([
+		getTokenMetadata(provider, twap.token0),
+		getTokenMetadata(provider, twap.token1),
+	]);
 
-		case 'getSwapQuote': {
-			const dex = this.getNodeParameter('dex', index) as string;
-			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
-			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
-			const amountIn = this.getNodeParameter('amountIn', index) as string;
-			const feeTier = dex === 'uniswapV3'
-				? this.getNodeParameter('feeTier', index) as string
-				: '3000';
-			result = await getSwapQuote.call(this, dex, tokenIn, tokenOut, amountIn, feeTier);
-			break;
-		}
+	return {
+		network: networkConfig.name,
+		poolAddress,
+		token0,
+		token1,
+		windowSeconds,
+		twapTick: twap.twapTick,
+		price: {
+			token0InToken1: twap.price0In1,
+			token1InToken0: 1 / twap.price0In1,
+		},
+		spot: {
+			tick: twap.spotTick,
+			token0InToken1: twap.spotPrice0In1,
+			token1InToken0: 1 / twap.spotPrice0In1,
+		},
+		spotDeviationPercent: ((twap.spotPrice0In1 - twap.price0In1) / twap.price0In1) * 100,
+		harmonicMeanLiquidity: twap.harmonicMeanLiquidity.toString(),
+		timestamp: new Date().toISOString(),
+	};
+}
 
-		case 'executeSwap': {
-			const dex = this.getNodeParameter('dex', index) as string;
-			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
-			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
-			const amountIn = this.getNodeParameter('amountIn', index) as string;
-			const slippage = this.getNodeParameter('slippage', index) as number;
-			const feeTier = dex === 'uniswapV3'
-				? this.getNodeParameter('feeTier', index) as string
-				: '3000';
-			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
-			result = await executeSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, waitForConfirmation);
-			break;
-		}
+async function getTvl(
+	this: IExecuteFunctions,
+	protocol: string,
+	poolAddress?: string,
+	contractAddresses: string[] = [],
+	tokenAddresses: string[] = [],
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
 
-		case 'getLiquidityPools': {
-			const dex = this.getNodeParameter('dex', index) as string;
-			result = await getLiquidityPools.call(this, dex);
+	let holders: string[];
+	let tokens: string[];
+	switch (protocol) {
+		case 'gmx':
+			holders = [DEX_ROUTERS.arbitrumOne.gmxVault];
+			tokens = tokenAddresses.length > 0
+				? tokenAddresses
+				: GMX_VAULT_TOKENS.map((symbol) => ARBITRUM_ONE_TOKENS[symbol].address);
 			break;
-		}
-
-		case 'getPoolInfo': {
-			const dex = this.getNodeParameter('dex', index) as string;
-			const poolAddress = this.getNodeParameter('poolAddress', index) as string;
-			if (!validateAddress(poolAddress)) {
-				throw new NodeOperationError(this.getNode(), 'Invalid pool address');
-			}
-			result = await getPoolInfo.call(this, dex, poolAddress);
+		case 'custom': {
+			const pool = new ethers.Contract(poolAddress as string, ABIS.UniswapV3Pool, provider);
+			holders = [poolAddress as string];
+			tokens = await Promise.all([pool.token0(), pool.token1()]);
 			break;
 		}
-
-		case 'getTvl': {
-			const protocol = this.getNodeParameter('protocol', index) as string;
-			const poolAddress = protocol === 'custom'
-				? this.getNodeParameter('poolAddress', index) as string
-				: undefined;
-			result = await getTvl.call(this, protocol, poolAddress);
+		case 'contracts':
+			holders = contractAddresses;
+			tokens = tokenAddresses.length > 0
+				? tokenAddresses
+				: Object.values(ARBITRUM_ONE_TOKENS).map((token) => token.address);
 			break;
+		default:
+			throw new NodeOperationError(this.getNode(), `Unsupported TVL protocol: ${protocol}`);
+	}
+	tokens = [...new Set(tokens.map((token) => ethers.getAddress(token)))];
+
+	const blockNumber = await provider.getBlockNumber();
+	const balances = await getTokenBalances(provider, holders, tokens, blockNumber);
+
+	const breakdown: IDataObject[] = [];
+	const unpriced: IDataObject[] = [];
+	await Promise.all(tokens.map(async (address, t) => {
+		const balance = balances.reduce((sum, holderBalances) => sum + holderBalances[t], 0n);
+		// Keep zero balances for an explicit pool so both sides always show
+		if (balance === 0n && protocol !== 'custom') {
+			return;
 		}
 
-		case 'getYieldFarms': {
-			result = await getYieldFarms.call(this);
-			break;
-		}
+		const known = address === ethers.ZeroAddress
+			? ARBITRUM_ONE_TOKENS.ETH
+			: getTokenByAddress('arbitrumOne', address);
+		const { symbol, decimals } = known ?? await getTokenMetadata(provider, address);
+		const formatted = ethers.formatUnits(balance, decimals);
 
-		case 'approveAndSwap': {
-			const dex = this.getNodeParameter('dex', index) as string;
-			const tokenIn = this.getNodeParameter('tokenIn', index) as string;
-			const tokenOut = this.getNodeParameter('tokenOut', index) as string;
-			const amountIn = this.getNodeParameter('amountIn', index) as string;
-			const slippage = this.getNodeParameter('slippage', index) as number;
-			const feeTier = dex === 'uniswapV3'
-				? this.getNodeParameter('feeTier', index) as string
-				: '3000';
-			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
-			result = await approveAndSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, waitForConfirmation);
-			break;
+		try {
+			const price = await getTokenUsdPrice(provider, network, address, decimals);
+			breakdown.push({
+				token: address,
+				symbol,
+				balance: formatted,
+				priceUsd: price.priceUsd,
+				valueUsd: Number(formatted) * price.priceUsd,
+				priceSource: price.source,
+				priceReference: price.feed ?? price.pool,
+			});
+		} catch (error) {
+			unpriced.push({ token: address, symbol, balance: formatted, reason: (error as Error).message });
 		}
+	}));
 
-		default:
-			throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+	breakdown.sort((a, b) => (b.valueUsd as number) - (a.valueUsd as number));
+	const totalUsd = breakdown.reduce((sum, entry) => sum + (entry.valueUsd as number), 0);
+	for (const entry of breakdown) {
+		entry.sharePercent = totalUsd > 0 ? ((entry.valueUsd as number) / totalUsd) * 100 : 0;
 	}
 
-	return [{ json: result as IDataObject }];
+	return {
+		network: networkConfig.name,
+		protocol,
+		holders,
+		blockNumber,
+		totalUsd,
+		tokens: breakdown,
+		unpricedTokens: unpriced,
+	};
 }
 
-async function getTokenPrice(
+async function getYieldFarms(
 	this: IExecuteFunctions,
-	token: string,
-	customFeedAddress?: string,
+	sources: string[],
+	options: {
+		nitroPools: string[];
+		nitroPoolLimit: number;
+		pendleMarkets: string[];
+		sortBy: string;
+		minApr: number;
+		minTvlUsd: number;
+	},
 ): Promise<Record<string, unknown>> {
-	const provider = await getProvider.call(this);
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
 	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const getPrice = createPriceLookup(provider, network);
 
-	// Get feed address
-	let feedAddress: string;
-	if (token === 'custom' && customFeedAddress) {
-		if (!validateAddress(customFeedAddress)) {
-			throw new NodeOperationError(this.getNode(), 'Invalid custom feed address');
+	const readers: Record<string, () => Promise<YieldFarm[]>> = {
+		gmx: () => getGmxFarms(provider, getPrice),
+		camelotNitro: () => getCamelotNitroFarms(provider, getPrice, options.nitroPools, options.nitroPoolLimit),
+		pendle: () => getPendleMarketFarms(provider, getPrice, options.pendleMarkets),
+	};
+
+	// One failing source should not hide the others
+	const settled = await Promise.allSettled(sources.map((source) => readers[source]()));
+	const errors: IDataObject[] = [];
+	const farms = settled.flatMap((outcome, i) => {
+		if (outcome.status === 'fulfilled') {
+			return outcome.value;
+		}
+		errors.push({ source: sources[i], error: (outcome.reason as Error).message });
+		return [];
+	});
+
+	const filtered = farms
+		.filter((farm) => farm.apr >= options.minApr && farm.tvlUsd >= options.minTvlUsd)
+		.sort((a, b) => (options.sortBy === 'tvl' ? b.tvlUsd - a.tvlUsd : b.apr - a.apr));
+
+	return {
+		network: networkConfig.name,
+		sortBy: options.sortBy,
+		count: filtered.length,
+		farms: filtered as unknown as IDataObject[],
+		errors,
+		timestamp: new Date().toISOString(),
+	};
+}
+
+async function approveAndSwap(
+	this: IExecuteFunctions,
+	dex: string,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: string,
+	slippage: number,
+	feeTier: string,
+	transferTax: number,
+	waitForConfirmation: boolean,
+	amountOut?: string,
+	amountOutFloor?: bigint,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+
+	if (!SWAP_DEXES.includes(dex)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${dex} execution not yet implemented. Use Uniswap V3, SushiSwap or Camelot.`,
+		);
+	}
+
+	const privateKey = credentials.privateKey as string;
+	if (!privateKey) {
+		throw new NodeOperationError(this.getNode(), 'Private key required');
+	}
+
+	const signer = new ethers.Wallet(privateKey, provider);
+
+	// Handle ETH - no approval needed for ETH
+	const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+	if (tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase()) {
+		// ETH doesn't need approval, just execute swap
+		return executeSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, transferTax, waitForConfirmation, amountOut, amountOutFloor);
+	}
+
+	// The router for the selected DEX pulls tokenIn, so it is the approval target
+	const routerAddress = getSwapRouterAddress(dex);
+
+	// Get token decimals and check current allowance
+	const erc20Abi = [
+		'function decimals() view returns (uint8)',
+		'function allowance(address owner, address spender) view returns (uint256)',
+		'function approve(address spender, uint256 amount) returns (bool)',
+	];
+	const tokenContract = new ethers.Contract(tokenIn, erc20Abi, signer);
+
+	const decimals = await tokenContract.decimals();
+	let amountInWei: bigint;
+	if (amountOut) {
+		// Exact output swaps may spend up to the slippage-bounded maximum input
+		const actualTokenOut = tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase()
+			? ARBITRUM_ONE_TOKENS.WETH.address
+			: tokenOut;
+		const tokenOutDecimals = await new ethers.Contract(actualTokenOut, erc20Abi, provider).decimals();
+		try {
+			const quote = await quoteUniswapV3ExactOutput(
+				provider,
+				tokenIn,
+				actualTokenOut,
+				ethers.parseUnits(amountOut, tokenOutDecimals),
+				feeTier === 'auto' ? undefined : parseInt(feeTier),
+			);
+			amountInWei = getAmountInMaximum(quote.amountIn, slippage);
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Failed to get quote for swap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
 		}
-		feedAddress = customFeedAddress;
 	} else {
-		const feeds = CHAINLINK_FEEDS[network] || CHAINLINK_FEEDS.arbitrumOne;
-		feedAddress = feeds[token as keyof typeof feeds];
-		if (!feedAddress) {
-			throw new NodeOperationError(this.getNode(), `No Chainlink feed available for ${token} on ${networkConfig.name}`);
+		amountInWei = ethers.parseUnits(amountIn, decimals);
+	}
+	const currentAllowance = await tokenContract.allowance(await signer.getAddress(), routerAddress);
+
+	const results: Record<string, unknown> = {
+		steps: [],
+	};
+
+	// Check if approval needed
+	if (currentAllowance < amountInWei) {
+		// Approve max uint256 for convenience
+		const maxApproval = ethers.MaxUint256;
+		
+		try {
+			const approveTx = await tokenContract.approve(routerAddress, maxApproval);
+			
+			const approvalResult: Record<string, unknown> = {
+				step: 'Approval',
+				transactionHash: approveTx.hash,
+				spender: routerAddress,
+				amount: 'Unlimited',
+				status: 'Submitted',
+			};
+
+			if (waitForConfirmation) {
+				const receipt = await approveTx.wait();
+				approvalResult.status = receipt?.status === 1 ? 'Success' : 'Failed';
+				approvalResult.blockNumber = receipt?.blockNumber;
+				approvalResult.gasUsed = receipt?.gasUsed.toString();
+			}
+
+			(results.steps as unknown[]).push(approvalResult);
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+			);
+		}
+	} else {
+		(results.steps as unknown[]).push({
+			step: 'Approval',
+			status: 'Skipped - Sufficient allowance exists',
+			currentAllowance: ethers.formatUnits(currentAllowance, decimals),
+		});
+	}
+
+	// Execute swap
+	const swapResult = await executeSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, transferTax, waitForConfirmation, amountOut, amountOutFloor);
+	(results.steps as unknown[]).push({
+		step: 'Swap',
+		...swapResult,
+	});
+
+	return results;
+}
+
+/**
+ * Price condition a conditional swap re-checks when it runs
+ */
+interface SwapCondition {
+	source: 'chainlink' | 'uniswapV3Twap';
+	direction: 'above' | 'below';
+	/** Price of tokenIn in tokenOut */
+	triggerPrice: number;
+	/** Largest accepted gap between the DEX quote and the condition price, in percent */
+	maxDeviation: number;
+	pool?: string;
+	twapWindow: number;
+	maxPriceAge: number;
+	gracePeriod: number;
+}
+
+/** Fixed-point scale of the condition price when computing the minimum output */
+const CONDITION_PRICE_SCALE = BigInt(10) ** BigInt(18);
+
+/**
+ * Read the price of tokenIn in tokenOut from the condition's source
+ * An unsafe Chainlink answer returns a null price and the reason instead of throwing.
+ */
+async function readConditionPrice(
+	this: IExecuteFunctions,
+	provider: ethers.Provider,
+	network: string,
+	condition: SwapCondition,
+	tokenIn: string,
+	tokenOut: string,
+): Promise<{ price: number | null; reason?: string; details: Record<string, unknown> }> {
+	if (condition.source === 'uniswapV3Twap') {
+		const twap = await getUniswapV3Twap(provider, condition.pool as string, condition.twapWindow);
+		const inIsToken0 = twap.token0.toLowerCase() === tokenIn.toLowerCase();
+		const tokens = [twap.token0.toLowerCase(), twap.token1.toLowerCase()];
+		if (!tokens.includes(tokenIn.toLowerCase()) || !tokens.includes(tokenOut.toLowerCase())) {
+			throw new NodeOperationError(this.getNode(), 'TWAP pool does not hold both Token In and Token Out');
 		}
+		return {
+			price: inIsToken0 ? twap.price0In1 : 1 / twap.price0In1,
+			details: {
+				source: 'uniswapV3Twap',
+				pool: twap.pool,
+				windowSeconds: twap.windowSeconds,
+				spotPrice: inIsToken0 ? twap.spotPrice0In1 : 1 / twap.spotPrice0In1,
+			},
+		};
 	}
 
-	const feed = new ethers.Contract(feedAddress, CHAINLINK_FEED_ABI, provider);
-
-	const [roundData, decimals, description] = await Promise.all([
-		feed.latestRoundData(),
-		feed.decimals(),
-		feed.description(),
-	]);
-
-	const price = Number(roundData.answer) / Math.pow(10, decimals);
-	const updatedAt = new Date(Number(roundData.updatedAt) * 1000);
-
-	return {
-		token,
-		network: networkConfig.name,
-		feedAddress,
-		description,
-		price: price.toFixed(decimals > 8 ? 18 : 8),
-		priceRaw: roundData.answer.toString(),
-		decimals: Number(decimals),
-		roundId: roundData.roundId.toString(),
-		updatedAt: updatedAt.toISOString(),
-		timestamp: Number(roundData.updatedAt),
-		source: 'Chainlink Oracle',
+	const feedOf = (token: string) => {
+		const known = getTokenByAddress(network as ArbitrumNetworkId, token);
+		const feed = known ? getChainlinkFeedAddress(network, known.symbol) : undefined;
+		if (!feed) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`No Chainlink feed for ${known?.symbol ?? token}. Use the Uniswap V3 TWAP price source.`,
+			);
+		}
+		return feed;
 	};
+	const feeds = [feedOf(tokenIn), feedOf(tokenOut)];
+	const [priceIn, priceOut] = await Promise.all(feeds.map((feed) => getChainlinkUsdPrice(provider, feed)));
+	const safety = await Promise.all([priceIn, priceOut].map((price) => checkOracleSafety(
+		provider,
+		network,
+		price.feed as string,
+		price.updatedAt as number,
+		condition.maxPriceAge,
+		condition.gracePeriod,
+	)));
+
+	const details = {
+		source: 'chainlink',
+		feeds,
+		tokenInUsd: priceIn.priceUsd,
+		tokenOutUsd: priceOut.priceUsd,
+		warnings: safety.flatMap((check) => check.warnings),
+	};
+	if (safety.some((check) => !check.safe)) {
+		return { price: null, reason: `Chainlink price is unsafe: ${details.warnings.join('; ')}`, details };
+	}
+	return { price: priceIn.priceUsd / priceOut.priceUsd, details };
 }
 
-async function getSwapQuote(
+async function conditionalSwap(
 	this: IExecuteFunctions,
 	dex: string,
 	tokenIn: string,
 	tokenOut: string,
 	amountIn: string,
+	slippage: number,
 	feeTier: string,
+	transferTax: number,
+	waitForConfirmation: boolean,
+	condition: SwapCondition,
 ): Promise<Record<string, unknown>> {
-	const provider = await getProvider.call(this);
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
 	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
 
-	// Handle ETH address
+	if (!SWAP_DEXES.includes(dex)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${dex} execution not yet implemented. Use Uniswap V3, SushiSwap or Camelot.`,
+		);
+	}
+	if (!(condition.triggerPrice > 0)) {
+		throw new NodeOperationError(this.getNode(), 'Trigger Price must be greater than zero');
+	}
+	if (condition.source === 'uniswapV3Twap' && !validateAddress(condition.pool as string)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid TWAP pool address');
+	}
+
 	const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
-	const WETH_ADDRESS = ARBITRUM_ONE_TOKENS.WETH.address;
-	
-	const actualTokenIn = tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase() ? WETH_ADDRESS : tokenIn;
-	const actualTokenOut = tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase() ? WETH_ADDRESS : tokenOut;
+	const toWrapped = (token: string) => (
+		token.toLowerCase() === ETH_ADDRESS.toLowerCase() ? ARBITRUM_ONE_TOKENS.WETH.address : token
+	);
+	const actualTokenIn = toWrapped(tokenIn);
+	const actualTokenOut = toWrapped(tokenOut);
+	const [metaIn, metaOut] = await Promise.all([
+		getTokenMetadata(provider, actualTokenIn),
+		getTokenMetadata(provider, actualTokenOut),
+	]);
+	const amountInWei = ethers.parseUnits(amountIn, metaIn.decimals);
 
-	// Get token decimals
-	const erc20Abi = ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'];
-	const tokenInContract = new ethers.Contract(actualTokenIn, erc20Abi, provider);
-	const tokenOutContract = new ethers.Contract(actualTokenOut, erc20Abi, provider);
+	const side = condition.direction === 'above' ? 'at or above' : 'at or below';
+	const base = {
+		network: networkConfig.name,
+		dex,
+		tokenIn,
+		tokenOut,
+		amountIn,
+		condition: {
+			source: condition.source,
+			direction: condition.direction,
+			triggerPrice: condition.triggerPrice,
+			priceUnit: `${metaOut.symbol} per ${metaIn.symbol}`,
+		},
+	};
 
-	let tokenInDecimals = 18;
-	let tokenOutDecimals = 18;
-	let tokenInSymbol = 'Unknown';
-	let tokenOutSymbol = 'Unknown';
+	const oracle = await readConditionPrice.call(this, provider, network, condition, actualTokenIn, actualTokenOut);
+	if (oracle.price === null) {
+		return { executed: false, reason: oracle.reason, ...base, oracle: oracle.details };
+	}
+	const price = oracle.price;
+	const oracleResult = { price, ...oracle.details };
+
+	const conditionMet = condition.direction === 'above'
+		? price >= condition.triggerPrice
+		: price <= condition.triggerPrice;
+	if (!conditionMet) {
+		return {
+			executed: false,
+			reason: `Price ${price} is no longer ${side} the trigger price ${condition.triggerPrice}`,
+			...base,
+			oracle: oracleResult,
+		};
+	}
 
+	let quote: SwapQuote;
 	try {
-		[tokenInDecimals, tokenOutDecimals, tokenInSymbol, tokenOutSymbol] = await Promise.all([
-			tokenInContract.decimals(),
-			tokenOutContract.decimals(),
-			tokenInContract.symbol(),
-			tokenOutContract.symbol(),
-		]);
+		quote = await getSwapQuoteForDex(
+			provider,
+			dex as SwapDex,
+			actualTokenIn,
+			actualTokenOut,
+			amountInWei,
+			feeTier === 'auto' ? undefined : parseInt(feeTier),
+		);
 	} catch (error) {
-		// Use defaults
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to get quote for swap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
 	}
 
-	const amountInWei = ethers.parseUnits(amountIn, tokenInDecimals);
+	const expectedAmountOut = ethers.formatUnits(quote.amountOut, metaOut.decimals);
+	const quotePrice = Number(expectedAmountOut) / Number(amountIn);
+	const deviationPercent = ((quotePrice - price) / price) * 100;
+	const quoteResult = { dex: quote.dexName, expectedAmountOut, price: quotePrice, deviationPercent };
+	if (Math.abs(deviationPercent) > condition.maxDeviation) {
+		return {
+			executed: false,
+			reason: `Quote deviates ${deviationPercent.toFixed(2)}% from the ${condition.source} price, beyond the ${condition.maxDeviation}% tolerance`,
+			...base,
+			oracle: oracleResult,
+			quote: quoteResult,
+		};
+	}
 
-	let quote: Record<string, unknown>;
+	// The swap must not fill worse than the condition price less the tolerance, even if the pool moves before inclusion
+	const scaledPrice = BigInt(Math.floor(price * Number(CONDITION_PRICE_SCALE)));
+	const deviationFactor = BigInt(10000) - BigInt(Math.round(condition.maxDeviation * 100));
+	const taxFactor = BigInt(10000) - BigInt(Math.round(transferTax * 100));
+	const amountOutAtPrice = (amountInWei * scaledPrice * BigInt(10) ** BigInt(metaOut.decimals))
+		/ (CONDITION_PRICE_SCALE * BigInt(10) ** BigInt(metaIn.decimals));
+	const amountOutFloor = (amountOutAtPrice * deviationFactor * taxFactor) / BigInt(10000 * 10000);
+
+	const swap = await approveAndSwap.call(
+		this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, transferTax, waitForConfirmation, undefined, amountOutFloor,
+	);
+	return {
+		executed: true,
+		reason: `Price ${price} is ${side} the trigger price ${condition.triggerPrice} and the quote is within ${condition.maxDeviation}% of it`,
+		...base,
+		oracle: oracleResult,
+		quote: quoteResult,
+		amountOutFloor: ethers.formatUnits(amountOutFloor, metaOut.decimals),
+		swap,
+	};
+}
 
-	if (dex === 'uniswapV3') {
-		const quoterAddress = DEX_ROUTERS.arbitrumOne?.uniswapV3Quoter;
-		if (!quoterAddress) {
-			throw new NodeOperationError(this.getNode(), 'Uniswap V3 Quoter not available on this network');
-		}
+/** Max uint128, used to collect everything owed to a position */
+const MAX_UINT128 = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+interface PositionState {
+	tokenId: bigint;
+	owner: string;
+	pool: string;
+	fee: number;
+	token0: { address: string; symbol: string; decimals: number };
+	token1: { address: string; symbol: string; decimals: number };
+	tickLower: number;
+	tickUpper: number;
+	tickCurrent: number;
+	sqrtPriceX96: bigint;
+	liquidity: bigint;
+	amounts: TokenAmounts;
+	uncollectedFees: TokenAmounts;
+}
 
-		const quoter = new ethers.Contract(quoterAddress, UNISWAP_V3_QUOTER_ABI, provider);
+async function getTokenMetadata(
+	provider: ethers.Provider,
+	address: string,
+): Promise<{ address: string; symbol: string; decimals: number }> {
+	const erc20Abi = ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'];
+	const token = new ethers.Contract(address, erc20Abi, provider);
+	const [symbol, decimals] = await Promise.all([
+		token.symbol().catch(() => 'Unknown'),
+		token.decimals(),
+	]);
+	return { address, symbol, decimals: Number(decimals) };
+}
 
-		try {
-			const amountOut = await quoter.quoteExactInputSingle.staticCall(
-				actualTokenIn,
-				actualTokenOut,
-				parseInt(feeTier),
-				amountInWei,
-				0
-			);
+/**
+ * Read a position with its current token amounts and uncollected fees computed from pool ticks
+ */
+async function readPosition(provider: ethers.Provider, tokenId: bigint): Promise<PositionState> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const manager = new ethers.Contract(addresses.uniswapV3PositionManager, ABIS.UniswapV3PositionManager, provider);
+	const [position, owner] = await Promise.all([manager.positions(tokenId), manager.ownerOf(tokenId)]);
+
+	const factory = new ethers.Contract(addresses.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+	const poolAddress: string = await factory.getPool(position.token0, position.token1, position.fee);
+	const pool = new ethers.Contract(poolAddress, ABIS.UniswapV3Pool, provider);
+
+	const tickLower = Number(position.tickLower);
+	const tickUpper = Number(position.tickUpper);
+	const [slot0, feeGrowthGlobal0X128, feeGrowthGlobal1X128, lower, upper, token0, token1] = await Promise.all([
+		pool.slot0(),
+		pool.feeGrowthGlobal0X128(),
+		pool.feeGrowthGlobal1X128(),
+		pool.ticks(tickLower),
+		pool.ticks(tickUpper),
+		getTokenMetadata(provider, position.token0),
+		getTokenMetadata(provider, position.token1),
+	]);
 
-			const amountOutFormatted = ethers.formatUnits(amountOut, tokenOutDecimals);
-			const rate = parseFloat(amountOutFormatted) / parseFloat(amountIn);
+	const tickCurrent = Number(slot0.tick);
+	const growth = getFeeGrowthInside(
+		tickCurrent,
+		tickLower,
+		tickUpper,
+		lower,
+		upper,
+		feeGrowthGlobal0X128,
+		feeGrowthGlobal1X128,
+	);
 
-			quote = {
-				dex: 'Uniswap V3',
-				amountOut: amountOutFormatted,
-				amountOutWei: amountOut.toString(),
-				rate: rate.toFixed(8),
-				feeTier: `${parseInt(feeTier) / 10000}%`,
-				priceImpact: 'Calculated at execution',
-			};
-		} catch (error) {
-			throw new NodeOperationError(
-				this.getNode(),
-				`Quote failed: ${error instanceof Error ? error.message : 'Unknown error'}. Pool may not exist for this pair and fee tier.`
-			);
+	return {
+		tokenId,
+		owner,
+		pool: poolAddress,
+		fee: Number(position.fee),
+		token0,
+		token1,
+		tickLower,
+		tickUpper,
+		tickCurrent,
+		sqrtPriceX96: slot0.sqrtPriceX96,
+		liquidity: position.liquidity,
+		amounts: getAmountsForLiquidity(slot0.sqrtPriceX96, tickLower, tickUpper, position.liquidity),
+		uncollectedFees: getUncollectedFees(
+			position.liquidity,
+			growth.feeGrowthInside0X128,
+			growth.feeGrowthInside1X128,
+			position.feeGrowthInside0LastX128,
+			position.feeGrowthInside1LastX128,
+			position.tokensOwed0,
+			position.tokensOwed1,
+		),
+	};
+}
+
+function formatPosition(state: PositionState): Record<string, unknown> {
+	const { token0, token1 } = state;
+	return {
+		tokenId: state.tokenId.toString(),
+		owner: state.owner,
+		pool: state.pool,
+		fee: `${state.fee / 10000}%`,
+		token0,
+		token1,
+		tickLower: state.tickLower,
+		tickUpper: state.tickUpper,
+		tickCurrent: state.tickCurrent,
+		inRange: state.tickCurrent >= state.tickLower && state.tickCurrent < state.tickUpper,
+		priceLower: tickToPrice(state.tickLower, token0.decimals, token1.decimals),
+		priceUpper: tickToPrice(state.tickUpper, token0.decimals, token1.decimals),
+		currentPrice: sqrtPriceX96ToPrice(state.sqrtPriceX96, token0.decimals, token1.decimals),
+		priceUnit: `${token1.symbol} per ${token0.symbol}`,
+		liquidity: state.liquidity.toString(),
+		amount0: ethers.formatUnits(state.amounts.amount0, token0.decimals),
+		amount1: ethers.formatUnits(state.amounts.amount1, token1.decimals),
+		uncollectedFees: {
+			amount0: ethers.formatUnits(state.uncollectedFees.amount0, token0.decimals),
+			amount1: ethers.formatUnits(state.uncollectedFees.amount1, token1.decimals),
+		},
+	};
+}
+
+/**
+ * Approve the spender for amount when the current allowance is lower; waits so the next call can spend it
+ */
+async function approveIfNeeded(
+	signer: ethers.Wallet,
+	token: string,
+	spender: string,
+	amount: bigint,
+): Promise<Record<string, unknown> | undefined> {
+	if (amount === BigInt(0)) {
+		return undefined;
+	}
+	const tokenContract = new ethers.Contract(token, ABIS.ERC20, signer);
+	const allowance: bigint = await tokenContract.allowance(await signer.getAddress(), spender);
+	if (allowance >= amount) {
+		return undefined;
+	}
+	const tx = await tokenContract.approve(spender, amount);
+	const receipt = await tx.wait();
+	return {
+		token,
+		spender,
+		transactionHash: tx.hash,
+		status: receipt?.status === 1 ? 'Success' : 'Failed',
+	};
+}
+
+/**
+ * Wait for a position manager transaction when requested and decode its liquidity events
+ */
+async function finalizePositionTx(
+	tx: ethers.ContractTransactionResponse,
+	waitForConfirmation: boolean,
+	state: Pick<PositionState, 'token0' | 'token1'>,
+): Promise<Record<string, unknown>> {
+	const result: Record<string, unknown> = {
+		transactionHash: tx.hash,
+		status: 'Submitted',
+	};
+	if (!waitForConfirmation) {
+		return result;
+	}
+
+	const receipt = await tx.wait();
+	result.status = receipt?.status === 1 ? 'Success' : 'Failed';
+	result.blockNumber = receipt?.blockNumber;
+	result.gasUsed = receipt?.gasUsed.toString();
+
+	const manager = new ethers.Interface(ABIS.UniswapV3PositionManager);
+	const format = (amount0: bigint, amount1: bigint) => ({
+		amount0: ethers.formatUnits(amount0, state.token0.decimals),
+		amount1: ethers.formatUnits(amount1, state.token1.decimals),
+	});
+	for (const log of receipt?.logs ?? []) {
+		if (log.address.toLowerCase() !== DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager.toLowerCase()) continue;
+		const parsed = manager.parseLog(log);
+		if (!parsed) continue;
+		switch (parsed.name) {
+			case 'IncreaseLiquidity':
+				result.tokenId = parsed.args.tokenId.toString();
+				result.liquidityAdded = parsed.args.liquidity.toString();
+				result.deposited = format(parsed.args.amount0, parsed.args.amount1);
+				break;
+			case 'DecreaseLiquidity':
+				result.liquidityRemoved = parsed.args.liquidity.toString();
+				result.withdrawn = format(parsed.args.amount0, parsed.args.amount1);
+				break;
+			case 'Collect':
+				result.collected = format(parsed.args.amount0, parsed.args.amount1);
+				break;
 		}
-	} else {
-		// For other DEXes, provide a placeholder
-		quote = {
-			dex,
-			note: `Direct ${dex} integration requires additional implementation. Consider using Uniswap V3 or the 1inch aggregator API.`,
-			tokenIn: actualTokenIn,
-			tokenOut: actualTokenOut,
-			amountIn: amountIn,
-		};
 	}
+	return result;
+}
+
+function getPositionSigner(
+	this: IExecuteFunctions,
+	credentials: IDataObject,
+	provider: ethers.Provider,
+): ethers.Wallet {
+	const privateKey = credentials.privateKey as string;
+	if (!privateKey) {
+		throw new NodeOperationError(this.getNode(), 'Private key required to manage liquidity positions');
+	}
+	return new ethers.Wallet(privateKey, provider);
+}
+
+function parseTokenId(this: IExecuteFunctions, tokenId: string): bigint {
+	try {
+		return BigInt(tokenId.trim());
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Invalid position token ID: ${tokenId}`);
+	}
+}
 
+/**
+ * Ticks of a price range given as Token A in Token B, inverted when B is the pool's token0
+ */
+function rangeToTicks(
+	aIsToken0: boolean,
+	priceLower: number,
+	priceUpper: number,
+	token0: { decimals: number },
+	token1: { decimals: number },
+	feeTier: number,
+): { tickLower: number; tickUpper: number } {
+	const tickSpacing = TICK_SPACINGS[feeTier];
 	return {
-		network: networkConfig.name,
-		tokenIn: {
-			address: tokenIn,
-			symbol: tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase() ? 'ETH' : tokenInSymbol,
-			decimals: tokenInDecimals,
-			amount: amountIn,
-			amountWei: amountInWei.toString(),
-		},
-		tokenOut: {
-			address: tokenOut,
-			symbol: tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase() ? 'ETH' : tokenOutSymbol,
-			decimals: tokenOutDecimals,
-		},
-		...quote,
+		tickLower: aIsToken0
+			? priceToTick(priceLower, token0.decimals, token1.decimals, tickSpacing)
+			: priceToTick(1 / priceUpper, token0.decimals, token1.decimals, tickSpacing),
+		tickUpper: aIsToken0
+			? priceToTick(priceUpper, token0.decimals, token1.decimals, tickSpacing)
+			: priceToTick(1 / priceLower, token0.decimals, token1.decimals, tickSpacing),
 	};
 }
 
-async function executeSwap(
+/** Apply slippage to an expected amount to get the minimum accepted */
+function withSlippage(amount: bigint, slippage: number): bigint {
+	return (amount * BigInt(Math.floor((100 - slippage) * 100))) / BigInt(10000);
+}
+
+async function listPositions(
 	this: IExecuteFunctions,
-	dex: string,
-	tokenIn: string,
-	tokenOut: string,
-	amountIn: string,
-	slippage: number,
-	feeTier: string,
-	waitForConfirmation: boolean,
+	owner: string,
+	includeClosed: boolean,
 ): Promise<Record<string, unknown>> {
-	const provider = await getProvider.call(this);
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
 	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
 
-	const privateKey = credentials.privateKey as string;
-	if (!privateKey) {
-		throw new NodeOperationError(this.getNode(), 'Private key required for swap execution');
+	if (!owner) {
+		owner = await getPositionSigner.call(this, credentials, provider).getAddress();
+	} else if (!validateAddress(owner)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid owner address');
 	}
 
-	const signer = new ethers.Wallet(privateKey, provider);
-	const signerAddress = await signer.getAddress();
+	const manager = new ethers.Contract(
+		DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager,
+		ABIS.UniswapV3PositionManager,
+		provider,
+	);
+	const balance = Number(await manager.balanceOf(owner));
+	const tokenIds: bigint[] = await Promise.all(
+		Array.from({ length: balance }, (_, i) => manager.tokenOfOwnerByIndex(owner, i)),
+	);
+	const states = await Promise.all(tokenIds.map((tokenId) => readPosition(provider, tokenId)));
+
+	const positions = states
+		.filter((state) => includeClosed
+			|| state.liquidity > BigInt(0)
+			|| state.uncollectedFees.amount0 > BigInt(0)
+			|| state.uncollectedFees.amount1 > BigInt(0))
+		.map(formatPosition);
 
-	// Handle ETH address
-	const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
-	const WETH_ADDRESS = ARBITRUM_ONE_TOKENS.WETH.address;
-	const isETHIn = tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase();
-	
-	const actualTokenIn = isETHIn ? WETH_ADDRESS : tokenIn;
-	const actualTokenOut = tokenOut.toLowerCase() === ETH_ADDRESS.toLowerCase() ? WETH_ADDRESS : tokenOut;
+	return {
+		network: networkConfig.name,
+		owner,
+		totalPositions: balance,
+		count: positions.length,
+		positions,
+	};
+}
 
-	// Get token decimals
-	const erc20Abi = ['function decimals() view returns (uint8)'];
-	const tokenInContract = new ethers.Contract(actualTokenIn, erc20Abi, provider);
-	const tokenOutContract = new ethers.Contract(actualTokenOut, erc20Abi, provider);
+async function getPosition(
+	this: IExecuteFunctions,
+	tokenId: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
 
-	let tokenInDecimals = 18;
-	let tokenOutDecimals = 18;
 	try {
-		[tokenInDecimals, tokenOutDecimals] = await Promise.all([
-			tokenInContract.decimals(),
-			tokenOutContract.decimals(),
-		]);
+		const state = await readPosition(provider, parseTokenId.call(this, tokenId));
+		return {
+			network: networkConfig.name,
+			...formatPosition(state),
+		};
 	} catch (error) {
-		// Use defaults
+		if (error instanceof NodeOperationError) throw error;
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to get position: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
 	}
+}
 
-	const amountInWei = ethers.parseUnits(amountIn, tokenInDecimals);
+async function mintPosition(
+	this: IExecuteFunctions,
+	tokenA: string,
+	tokenB: string,
+	feeTier: number,
+	priceLower: number,
+	priceUpper: number,
+	amountA: string,
+	amountB: string,
+	slippage: number,
+	waitForConfirmation: boolean,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const signer = getPositionSigner.call(this, credentials, provider);
+	const addresses = DEX_ROUTERS.arbitrumOne;
 
-	if (dex === 'uniswapV3') {
-		// Get quote first
-		const quoterAddress = DEX_ROUTERS.arbitrumOne?.uniswapV3Quoter;
-		const routerAddress = DEX_ROUTERS.arbitrumOne?.uniswapV3Router;
-		
-		if (!quoterAddress || !routerAddress) {
-			throw new NodeOperationError(this.getNode(), 'Uniswap V3 not available on this network');
-		}
+	if (!(priceLower > 0) || !(priceUpper > priceLower)) {
+		throw new NodeOperationError(this.getNode(), 'Max Price must be greater than Min Price, and both above zero');
+	}
 
-		const quoter = new ethers.Contract(quoterAddress, UNISWAP_V3_QUOTER_ABI, provider);
-		const router = new ethers.Contract(routerAddress, UNISWAP_V3_ROUTER_ABI, signer);
+	const factory = new ethers.Contract(addresses.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+	const poolAddress: string = await factory.getPool(tokenA, tokenB, feeTier);
+	if (poolAddress === ethers.ZeroAddress) {
+		throw new NodeOperationError(this.getNode(), `No Uniswap V3 pool exists for this pair at ${feeTier / 10000}% fee tier`);
+	}
 
-		// Get quote
-		let expectedAmountOut: bigint;
-		try {
-			expectedAmountOut = await quoter.quoteExactInputSingle.staticCall(
-				actualTokenIn,
-				actualTokenOut,
-				parseInt(feeTier),
-				amountInWei,
-				0
-			);
-		} catch (error) {
-			throw new NodeOperationError(this.getNode(), 'Failed to get quote for swap');
-		}
+	// Pools order tokens by address; prices given as A in B are inverted when B is token0
+	const aIsToken0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+	const [metaA, metaB] = await Promise.all([getTokenMetadata(provider, tokenA), getTokenMetadata(provider, tokenB)]);
+	const token0 = aIsToken0 ? metaA : metaB;
+	const token1 = aIsToken0 ? metaB : metaA;
+	const amountAWei = amountA ? ethers.parseUnits(amountA, metaA.decimals) : BigInt(0);
+	const amountBWei = amountB ? ethers.parseUnits(amountB, metaB.decimals) : BigInt(0);
+	const amount0Desired = aIsToken0 ? amountAWei : amountBWei;
+	const amount1Desired = aIsToken0 ? amountBWei : amountAWei;
+
+	const { tickLower, tickUpper } = rangeToTicks(aIsToken0, priceLower, priceUpper, token0, token1, feeTier);
+	if (tickLower >= tickUpper) {
+		throw new NodeOperationError(this.getNode(), 'Price range is narrower than one tick spacing for this fee tier');
+	}
 
-		// Calculate minimum amount out with slippage
-		const slippageFactor = BigInt(Math.floor((100 - slippage) * 100));
-		const amountOutMinimum = (expectedAmountOut * slippageFactor) / BigInt(10000);
+	const pool = new ethers.Contract(poolAddress, ABIS.UniswapV3Pool, provider);
+	const { sqrtPriceX96 } = await pool.slot0();
+	const liquidity = getLiquidityForAmounts(sqrtPriceX96, tickLower, tickUpper, amount0Desired, amount1Desired);
+	if (liquidity === BigInt(0)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Deposit amounts produce no liquidity. A range entirely above or below the current price needs only one token.',
+		);
+	}
+	const expected = getAmountsForLiquidity(sqrtPriceX96, tickLower, tickUpper, liquidity);
 
-		// Prepare swap params
-		const deadline = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
-		const params = {
-			tokenIn: actualTokenIn,
-			tokenOut: actualTokenOut,
-			fee: parseInt(feeTier),
-			recipient: signerAddress,
+	const approvals = (await Promise.all([
+		approveIfNeeded(signer, token0.address, addresses.uniswapV3PositionManager, amount0Desired),
+		approveIfNeeded(signer, token1.address, addresses.uniswapV3PositionManager, amount1Desired),
+	])).filter(Boolean);
+
+	const manager = new ethers.Contract(addresses.uniswapV3PositionManager, ABIS.UniswapV3PositionManager, signer);
+	const deadline = Math.floor(Date.now() / 1000) + 1800; // 30 minutes
+
+	try {
+		const tx = await manager.mint({
+			token0: token0.address,
+			token1: token1.address,
+			fee: feeTier,
+			tickLower,
+			tickUpper,
+			amount0Desired,
+			amount1Desired,
+			amount0Min: withSlippage(expected.amount0, slippage),
+			amount1Min: withSlippage(expected.amount1, slippage),
+			recipient: await signer.getAddress(),
 			deadline,
-			amountIn: amountInWei,
-			amountOutMinimum,
-			sqrtPriceLimitX96: 0,
-		};
+		});
 
-		try {
-			const tx = await router.exactInputSingle(params, {
-				value: isETHIn ? amountInWei : 0,
-			});
+		return {
+			network: networkConfig.name,
+			operation: 'mint',
+			pool: poolAddress,
+			fee: `${feeTier / 10000}%`,
+			token0,
+			token1,
+			tickLower,
+			tickUpper,
+			priceLower: tickToPrice(tickLower, token0.decimals, token1.decimals),
+			priceUpper: tickToPrice(tickUpper, token0.decimals, token1.decimals),
+			priceUnit: `${token1.symbol} per ${token0.symbol}`,
+			expectedDeposit: {
+				amount0: ethers.formatUnits(expected.amount0, token0.decimals),
+				amount1: ethers.formatUnits(expected.amount1, token1.decimals),
+			},
+			approvals,
+			...(await finalizePositionTx(tx, waitForConfirmation, { token0, token1 })),
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Mint failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
 
-			const result: Record<string, unknown> = {
-				dex: 'Uniswap V3',
-				network: networkConfig.name,
-				transactionHash: tx.hash,
-				tokenIn,
-				tokenOut,
-				amountIn,
-				expectedAmountOut: ethers.formatUnits(expectedAmountOut, tokenOutDecimals),
-				amountOutMinimum: ethers.formatUnits(amountOutMinimum, tokenOutDecimals),
-				slippage: `${slippage}%`,
-				feeTier: `${parseInt(feeTier) / 10000}%`,
-				deadline: new Date(deadline * 1000).toISOString(),
-				status: 'Submitted',
-			};
+/**
+ * A position's principal now and when deposited, both in pool token order
+ */
+interface LpSnapshot {
+	pool: string;
+	fee: number;
+	token0: { address: string; symbol: string; decimals: number };
+	token1: { address: string; symbol: string; decimals: number };
+	tickLower: number;
+	tickUpper: number;
+	tickCurrent: number;
+	sqrtPriceX96: bigint;
+	liquidity: bigint;
+	/** Principal at the current price */
+	current: TokenAmounts;
+	/** Net amounts deposited: what holding instead would have kept */
+	deposited: TokenAmounts;
+	/** Fees earned, collected or not; undefined when unknown */
+	fees?: TokenAmounts;
+}
 
-			if (waitForConfirmation) {
-				const receipt = await tx.wait();
-				result.status = receipt?.status === 1 ? 'Success' : 'Failed';
-				result.blockNumber = receipt?.blockNumber;
-				result.gasUsed = receipt?.gasUsed.toString();
-				result.effectiveGasPrice = receipt?.gasPrice?.toString();
+/**
+ * First block a position exists at, by binary search over historical positions() calls
+ * Falls back to block 0 when the RPC cannot serve old state.
+ */
+async function findPositionMintBlock(manager: ethers.Contract, tokenId: bigint, latestBlock: number): Promise<number> {
+	let low = 0;
+	let high = latestBlock;
+	while (low < high) {
+		const mid = Math.floor((low + high) / 2);
+		try {
+			await manager.positions(tokenId, { blockTag: mid });
+			high = mid;
+		} catch (error) {
+			// Unminted positions revert; before the manager was deployed the call returns no data
+			if (!ethers.isError(error, 'CALL_EXCEPTION') && !ethers.isError(error, 'BAD_DATA')) {
+				return 0;
 			}
+			low = mid + 1;
+		}
+	}
+	return low;
+}
 
-			return result;
-		} catch (error) {
-			throw new NodeOperationError(
-				this.getNode(),
-				`Swap failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-			);
+/**
+ * Sum the amounts of a position's IncreaseLiquidity, DecreaseLiquidity and Collect events
+ * Logs are read from the mint block on, in chunks the RPC accepts.
+ */
+async function readPositionHistory(
+	provider: ethers.Provider,
+	tokenId: bigint,
+): Promise<{ increased: TokenAmounts; decreased: TokenAmounts; collected: TokenAmounts }> {
+	const manager = new ethers.Contract(
+		DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager,
+		ABIS.UniswapV3PositionManager,
+		provider,
+	);
+	const events = ['IncreaseLiquidity', 'DecreaseLiquidity', 'Collect'];
+	const topics = events.map((name) => manager.interface.getEvent(name)!.topicHash);
+
+	const latestBlock = await provider.getBlockNumber();
+	const mintBlock = await findPositionMintBlock(manager, tokenId, latestBlock);
+	// Try the whole range first; RPCs that cap it get halved chunks
+	const logs = await getLogsChunked(
+		provider,
+		{ address: DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager, topics: [topics, ethers.toBeHex(tokenId, 32)] },
+		mintBlock,
+		latestBlock,
+		latestBlock - mintBlock + 1,
+	);
+
+	const totals = events.map(() => ({ amount0: BigInt(0), amount1: BigInt(0) }));
+	for (const log of logs) {
+		const parsed = manager.interface.parseLog(log);
+		if (!parsed) {
+			continue;
 		}
-	} else {
-		throw new NodeOperationError(this.getNode(), `${dex} execution not yet implemented. Use Uniswap V3.`);
+		const total = totals[events.indexOf(parsed.name)];
+		total.amount0 += parsed.args.amount0;
+		total.amount1 += parsed.args.amount1;
 	}
+	const [increased, decreased, collected] = totals;
+	return { increased, decreased, collected };
 }
 
-async function getLiquidityPools(
-	this: IExecuteFunctions,
-	dex: string,
+/**
+ * Value a position against holding its deposit, both in token1 and in USD when token1 can be priced
+ */
+async function buildLpAnalysis(
+	provider: ethers.Provider,
+	network: string,
+	snapshot: LpSnapshot,
+	alertThreshold: number,
 ): Promise<Record<string, unknown>> {
-	const credentials = await this.getCredentials('arbitrumRpc');
-	const network = credentials.network as string;
-	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const { token0, token1 } = snapshot;
+	const price = sqrtPriceX96ToPrice(snapshot.sqrtPriceX96, token0.decimals, token1.decimals);
+	const priceLower = tickToPrice(snapshot.tickLower, token0.decimals, token1.decimals);
+	const priceUpper = tickToPrice(snapshot.tickUpper, token0.decimals, token1.decimals);
+
+	const format = (amounts: TokenAmounts) => ({
+		amount0: ethers.formatUnits(amounts.amount0, token0.decimals),
+		amount1: ethers.formatUnits(amounts.amount1, token1.decimals),
+	});
+	const {
+		hodlValue,
+		positionValue,
+		feesValue,
+		impermanentLoss,
+		impermanentLossPercent,
+		netPnl,
+		netPnlPercent,
+	} = getLpValuation(price, token0.decimals, token1.decimals, snapshot.deposited, snapshot.current, snapshot.fees);
+
+	let rangeStatus = 'inRange';
+	if (snapshot.tickCurrent < snapshot.tickLower) {
+		rangeStatus = 'belowRange';
+	} else if (snapshot.tickCurrent >= snapshot.tickUpper) {
+		rangeStatus = 'aboveRange';
+	}
+	const inRange = rangeStatus === 'inRange';
+	const distanceToLowerPercent = ((price - priceLower) / price) * 100;
+	const distanceToUpperPercent = ((priceUpper - price) / price) * 100;
+	const nearEdge = inRange && Math.min(distanceToLowerPercent, distanceToUpperPercent) <= alertThreshold;
 
-	// Common pool pairs on Arbitrum
-	const commonPairs = [
-		{ token0: 'WETH', token1: 'USDC', description: 'ETH/USDC' },
-		{ token0: 'WETH', token1: 'USDT', description: 'ETH/USDT' },
-		{ token0: 'WETH', token1: 'ARB', description: 'ETH/ARB' },
-		{ token0: 'USDC', token1: 'USDT', description: 'USDC/USDT' },
-		{ token0: 'WETH', token1: 'WBTC', description: 'ETH/BTC' },
-		{ token0: 'ARB', token1: 'USDC', description: 'ARB/USDC' },
-		{ token0: 'WETH', token1: 'GMX', description: 'ETH/GMX' },
-		{ token0: 'WETH', token1: 'MAGIC', description: 'ETH/MAGIC' },
-	];
+	let token1Usd: number | null = null;
+	try {
+		token1Usd = (await getTokenUsdPrice(provider, network, token1.address, token1.decimals)).priceUsd;
+	} catch (error) {
+		// Token1 has no Chainlink feed or liquid pool; values stay in token1
+	}
+	const toUsd = (value: number) => (token1Usd === null ? null : value * token1Usd);
 
 	return {
-		network: networkConfig.name,
-		dex,
-		commonPools: commonPairs,
-		routers: DEX_ROUTERS[network] || DEX_ROUTERS.arbitrumOne,
-		note: 'Use Get Pool Info operation with specific pool address for detailed information',
-		resources: {
-			uniswapV3: 'https://info.uniswap.org/#/arbitrum/pools',
-			sushiswap: 'https://www.sushi.com/pool?chainId=42161',
-			camelot: 'https://info.camelot.exchange/',
+		pool: snapshot.pool,
+		fee: `${snapshot.fee / 10000}%`,
+		token0,
+		token1,
+		valueUnit: token1.symbol,
+		priceUnit: `${token1.symbol} per ${token0.symbol}`,
+		currentPrice: price,
+		priceLower,
+		priceUpper,
+		range: {
+			status: rangeStatus,
+			inRange,
+			distanceToLowerPercent,
+			distanceToUpperPercent,
+			alertThresholdPercent: alertThreshold,
+			nearEdge,
+			rebalanceSuggested: !inRange || nearEdge,
+		},
+		liquidity: snapshot.liquidity.toString(),
+		deposited: format(snapshot.deposited),
+		current: format(snapshot.current),
+		fees: snapshot.fees ? format(snapshot.fees) : null,
+		hodlValue,
+		positionValue,
+		feesValue: snapshot.fees ? feesValue : null,
+		impermanentLoss,
+		impermanentLossPercent,
+		netPnl,
+		netPnlPercent,
+		usd: {
+			token1Price: token1Usd,
+			hodlValue: toUsd(hodlValue),
+			positionValue: toUsd(positionValue),
+			feesValue: snapshot.fees ? toUsd(feesValue) : null,
+			impermanentLoss: toUsd(impermanentLoss),
+			netPnl: toUsd(netPnl),
 		},
 	};
 }
 
-async function getPoolInfo(
+async function analyzeLpPosition(
 	this: IExecuteFunctions,
-	dex: string,
-	poolAddress: string,
+	tokenId: string,
+	alertThreshold: number,
 ): Promise<Record<string, unknown>> {
-	const provider = await getProvider.call(this);
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
 	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const id = parseTokenId.call(this, tokenId);
 
-	if (dex === 'uniswapV3') {
-		const pool = new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, provider);
-
-		try {
-			const [token0, token1, fee, liquidity, slot0] = await Promise.all([
-				pool.token0(),
-				pool.token1(),
-				pool.fee(),
-				pool.liquidity(),
-				pool.slot0(),
-			]);
-
-			// Get token info
-			const erc20Abi = ['function symbol() view returns (string)', 'function decimals() view returns (uint8)'];
-			const token0Contract = new ethers.Contract(token0, erc20Abi, provider);
-			const token1Contract = new ethers.Contract(token1, erc20Abi, provider);
+	let state: PositionState;
+	let history: Awaited<ReturnType<typeof readPositionHistory>>;
+	try {
+		[state, history] = await Promise.all([readPosition(provider, id), readPositionHistory(provider, id)]);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to read position history: ${error instanceof Error ? error.message : 'Unknown error'}. `
+				+ 'If the RPC limits log queries, use the Range and Deposit source with the deposit amounts.',
+		);
+	}
 
-			const [token0Symbol, token1Symbol, token0Decimals, token1Decimals] = await Promise.all([
-				token0Contract.symbol(),
-				token1Contract.symbol(),
-				token0Contract.decimals(),
-				token1Contract.decimals(),
-			]);
+	// Withdrawn principal sits in tokensOwed until collected, so fees are everything
+	// collected or still owed beyond the principal taken out
+	const { increased, decreased, collected } = history;
+	const earned = (collectedAmount: bigint, owed: bigint, withdrawn: bigint) => {
+		const fees = collectedAmount + owed - withdrawn;
+		return fees > BigInt(0) ? fees : BigInt(0);
+	};
 
-			// Calculate price from sqrtPriceX96
-			const sqrtPriceX96 = slot0[0];
-			const price = (Number(sqrtPriceX96) / 2 ** 96) ** 2;
-			const adjustedPrice = price * Math.pow(10, token0Decimals - token1Decimals);
+	const analysis = await buildLpAnalysis(provider, network, {
+		...state,
+		current: state.amounts,
+		deposited: {
+			amount0: increased.amount0 - decreased.amount0,
+			amount1: increased.amount1 - decreased.amount1,
+		},
+		fees: {
+			amount0: earned(collected.amount0, state.uncollectedFees.amount0, decreased.amount0),
+			amount1: earned(collected.amount1, state.uncollectedFees.amount1, decreased.amount1),
+		},
+	}, alertThreshold);
 
-			return {
-				network: networkConfig.name,
-				dex: 'Uniswap V3',
-				poolAddress,
-				token0: {
-					address: token0,
-					symbol: token0Symbol,
-					decimals: Number(token0Decimals),
-				},
-				token1: {
-					address: token1,
-					symbol: token1Symbol,
-					decimals: Number(token1Decimals),
-				},
-				fee: `${Number(fee) / 10000}%`,
-				feeRaw: Number(fee),
-				liquidity: liquidity.toString(),
-				sqrtPriceX96: sqrtPriceX96.toString(),
-				tick: Number(slot0[1]),
-				price: {
-					token0PerToken1: adjustedPrice.toFixed(8),
-					token1PerToken0: (1 / adjustedPrice).toFixed(8),
-				},
-				unlocked: slot0[6],
-			};
-		} catch (error) {
-			throw new NodeOperationError(
-				this.getNode(),
-				`Failed to get pool info: ${error instanceof Error ? error.message : 'Unknown error'}`
-			);
-		}
-	} else {
-		return {
-			network: networkConfig.name,
-			dex,
-			poolAddress,
-			note: `Detailed pool info for ${dex} requires specific ABI implementation`,
-		};
-	}
+	return {
+		network: networkConfig.name,
+		source: 'tokenId',
+		tokenId: state.tokenId.toString(),
+		owner: state.owner,
+		...analysis,
+		uncollectedFees: {
+			amount0: ethers.formatUnits(state.uncollectedFees.amount0, state.token0.decimals),
+			amount1: ethers.formatUnits(state.uncollectedFees.amount1, state.token1.decimals),
+		},
+	};
 }
 
-async function getTvl(
+async function analyzeRangePosition(
 	this: IExecuteFunctions,
-	protocol: string,
-	poolAddress?: string,
+	tokenA: string,
+	tokenB: string,
+	feeTier: number,
+	priceLower: number,
+	priceUpper: number,
+	entryPrice: number,
+	amountA: string,
+	amountB: string,
+	alertThreshold: number,
 ): Promise<Record<string, unknown>> {
-	const provider = await getProvider.call(this);
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
 	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
 
-	// For accurate TVL, typically need to query DeFiLlama API or similar
-	// Here we provide structure and note about data sources
+	if (!(priceLower > 0) || !(priceUpper > priceLower)) {
+		throw new NodeOperationError(this.getNode(), 'Max Price must be greater than Min Price, and both above zero');
+	}
+	if (!(entryPrice > 0)) {
+		throw new NodeOperationError(this.getNode(), 'Entry Price must be greater than zero');
+	}
+
+	const factory = new ethers.Contract(DEX_ROUTERS.arbitrumOne.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+	const poolAddress: string = await factory.getPool(tokenA, tokenB, feeTier);
+	if (poolAddress === ethers.ZeroAddress) {
+		throw new NodeOperationError(this.getNode(), `No Uniswap V3 pool exists for this pair at ${feeTier / 10000}% fee tier`);
+	}
+
+	const aIsToken0 = tokenA.toLowerCase() < tokenB.toLowerCase();
+	const [metaA, metaB] = await Promise.all([getTokenMetadata(provider, tokenA), getTokenMetadata(provider, tokenB)]);
+	const token0 = aIsToken0 ? metaA : metaB;
+	const token1 = aIsToken0 ? metaB : metaA;
+	const amountAWei = amountA ? ethers.parseUnits(amountA, metaA.decimals) : BigInt(0);
+	const amountBWei = amountB ? ethers.parseUnits(amountB, metaB.decimals) : BigInt(0);
+	const { tickLower, tickUpper } = rangeToTicks(aIsToken0, priceLower, priceUpper, token0, token1, feeTier);
+	if (tickLower >= tickUpper) {
+		throw new NodeOperationError(this.getNode(), 'Price range is narrower than one tick spacing for this fee tier');
+	}
+
+	// Rebuild the liquidity the deposit minted at the entry price, then value it at today's price
+	const entryTick = priceToTick(aIsToken0 ? entryPrice : 1 / entryPrice, token0.decimals, token1.decimals, 1);
+	const entrySqrtPriceX96 = getSqrtRatioAtTick(entryTick);
+	const liquidity = getLiquidityForAmounts(
+		entrySqrtPriceX96,
+		tickLower,
+		tickUpper,
+		aIsToken0 ? amountAWei : amountBWei,
+		aIsToken0 ? amountBWei : amountAWei,
+	);
+	if (liquidity === BigInt(0)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Deposit amounts produce no liquidity at the entry price. A range entirely above or below it needs only one token.',
+		);
+	}
+
+	const pool = new ethers.Contract(poolAddress, ABIS.UniswapV3Pool, provider);
+	const slot0 = await pool.slot0();
+	const analysis = await buildLpAnalysis(provider, network, {
+		pool: poolAddress,
+		fee: feeTier,
+		token0,
+		token1,
+		tickLower,
+		tickUpper,
+		tickCurrent: Number(slot0.tick),
+		sqrtPriceX96: slot0.sqrtPriceX96,
+		liquidity,
+		current: getAmountsForLiquidity(slot0.sqrtPriceX96, tickLower, tickUpper, liquidity),
+		deposited: getAmountsForLiquidity(entrySqrtPriceX96, tickLower, tickUpper, liquidity),
+	}, alertThreshold);
 
 	return {
 		network: networkConfig.name,
-		protocol,
-		poolAddress: poolAddress || 'N/A',
-		note: 'For accurate TVL data, consider integrating with DeFiLlama API (https://defillama.com/docs/api)',
-		tvlSources: {
-			defillama: `https://api.llama.fi/protocol/${protocol.toLowerCase()}`,
-			debank: 'https://openapi.debank.com/',
-		},
-		topProtocols: [
-			{ name: 'GMX', category: 'Derivatives', website: 'https://gmx.io' },
-			{ name: 'Uniswap', category: 'DEX', website: 'https://app.uniswap.org' },
-			{ name: 'Aave', category: 'Lending', website: 'https://aave.com' },
-			{ name: 'Radiant', category: 'Lending', website: 'https://radiant.capital' },
-			{ name: 'Pendle', category: 'Yield', website: 'https://pendle.finance' },
-			{ name: 'Camelot', category: 'DEX', website: 'https://camelot.exchange' },
-		],
+		source: 'manual',
+		entryPrice: sqrtPriceX96ToPrice(entrySqrtPriceX96, token0.decimals, token1.decimals),
+		...analysis,
+		note: 'Fees are not included: a position described by range and deposit has no on-chain fee history',
 	};
 }
 
-async function getYieldFarms(
+async function increaseLiquidity(
 	this: IExecuteFunctions,
+	tokenId: string,
+	amount0: string,
+	amount1: string,
+	slippage: number,
+	waitForConfirmation: boolean,
 ): Promise<Record<string, unknown>> {
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
 	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const signer = getPositionSigner.call(this, credentials, provider);
+	const managerAddress = DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager;
+
+	const state = await readPosition(provider, parseTokenId.call(this, tokenId));
+	const amount0Desired = amount0 ? ethers.parseUnits(amount0, state.token0.decimals) : BigInt(0);
+	const amount1Desired = amount1 ? ethers.parseUnits(amount1, state.token1.decimals) : BigInt(0);
+
+	const liquidity = getLiquidityForAmounts(
+		state.sqrtPriceX96,
+		state.tickLower,
+		state.tickUpper,
+		amount0Desired,
+		amount1Desired,
+	);
+	if (liquidity === BigInt(0)) {
+		throw new NodeOperationError(this.getNode(), 'Deposit amounts produce no liquidity at the current price');
+	}
+	const expected = getAmountsForLiquidity(state.sqrtPriceX96, state.tickLower, state.tickUpper, liquidity);
 
-	return {
-		network: networkConfig.name,
-		note: 'Yield farm data requires real-time APY calculations. Consider integrating with yield aggregator APIs.',
-		popularFarms: [
-			{
-				protocol: 'GMX',
-				type: 'Perpetual Trading',
-				tokens: ['GLP', 'GMX'],
-				description: 'Earn fees from leveraged trading',
-			},
-			{
-				protocol: 'Camelot',
-				type: 'DEX LP',
-				tokens: ['Various LP tokens'],
-				description: 'Liquidity provider rewards with xGRAIL',
-			},
-			{
-				protocol: 'Radiant',
-				type: 'Lending',
-				tokens: ['Various'],
-				description: 'Lending and borrowing rewards',
-			},
-			{
-				protocol: 'Pendle',
-				type: 'Yield Trading',
-				tokens: ['PT/YT tokens'],
-				description: 'Fixed and variable yield strategies',
-			},
-			{
-				protocol: 'Silo',
-				type: 'Isolated Lending',
-				tokens: ['Various'],
-				description: 'Isolated lending markets',
+	const approvals = (await Promise.all([
+		approveIfNeeded(signer, state.token0.address, managerAddress, amount0Desired),
+		approveIfNeeded(signer, state.token1.address, managerAddress, amount1Desired),
+	])).filter(Boolean);
+
+	const manager = new ethers.Contract(managerAddress, ABIS.UniswapV3PositionManager, signer);
+	try {
+		const tx = await manager.increaseLiquidity({
+			tokenId: state.tokenId,
+			amount0Desired,
+			amount1Desired,
+			amount0Min: withSlippage(expected.amount0, slippage),
+			amount1Min: withSlippage(expected.amount1, slippage),
+			deadline: Math.floor(Date.now() / 1000) + 1800,
+		});
+
+		return {
+			network: networkConfig.name,
+			operation: 'increaseLiquidity',
+			tokenId: state.tokenId.toString(),
+			expectedDeposit: {
+				amount0: ethers.formatUnits(expected.amount0, state.token0.decimals),
+				amount1: ethers.formatUnits(expected.amount1, state.token1.decimals),
 			},
-		],
-		resources: {
-			defillama: 'https://defillama.com/chain/Arbitrum',
-			defiLlamaYields: 'https://defillama.com/yields?chain=Arbitrum',
-		},
-	};
+			approvals,
+			...(await finalizePositionTx(tx, waitForConfirmation, state)),
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Increase liquidity failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
 }
 
-async function approveAndSwap(
+/**
+ * Encode decreaseLiquidity for a share of the position, with minimums from the current price
+ */
+function encodeDecrease(
+	manager: ethers.Contract,
+	state: PositionState,
+	liquidity: bigint,
+	slippage: number,
+): string {
+	const expected = getAmountsForLiquidity(state.sqrtPriceX96, state.tickLower, state.tickUpper, liquidity);
+	return manager.interface.encodeFunctionData('decreaseLiquidity', [{
+		tokenId: state.tokenId,
+		liquidity,
+		amount0Min: withSlippage(expected.amount0, slippage),
+		amount1Min: withSlippage(expected.amount1, slippage),
+		deadline: Math.floor(Date.now() / 1000) + 1800,
+	}]);
+}
+
+function encodeCollectAll(manager: ethers.Contract, state: PositionState, recipient: string): string {
+	return manager.interface.encodeFunctionData('collect', [{
+		tokenId: state.tokenId,
+		recipient,
+		amount0Max: MAX_UINT128,
+		amount1Max: MAX_UINT128,
+	}]);
+}
+
+async function decreaseLiquidity(
 	this: IExecuteFunctions,
-	dex: string,
-	tokenIn: string,
-	tokenOut: string,
-	amountIn: string,
+	tokenId: string,
+	liquidityPercent: number,
+	collectTokens: boolean,
 	slippage: number,
-	feeTier: string,
 	waitForConfirmation: boolean,
 ): Promise<Record<string, unknown>> {
-	const provider = await getProvider.call(this);
 	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
 	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const signer = getPositionSigner.call(this, credentials, provider);
+	const signerAddress = await signer.getAddress();
 
-	const privateKey = credentials.privateKey as string;
-	if (!privateKey) {
-		throw new NodeOperationError(this.getNode(), 'Private key required');
+	const state = await readPosition(provider, parseTokenId.call(this, tokenId));
+	if (state.owner.toLowerCase() !== signerAddress.toLowerCase()) {
+		throw new NodeOperationError(this.getNode(), `Position ${tokenId} is owned by ${state.owner}, not the credential wallet`);
 	}
-
-	const signer = new ethers.Wallet(privateKey, provider);
-
-	// Handle ETH - no approval needed for ETH
-	const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
-	if (tokenIn.toLowerCase() === ETH_ADDRESS.toLowerCase()) {
-		// ETH doesn't need approval, just execute swap
-		return executeSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, waitForConfirmation);
+	if (state.liquidity === BigInt(0)) {
+		throw new NodeOperationError(this.getNode(), `Position ${tokenId} has no liquidity to remove`);
 	}
 
-	// Get router address for approval
-	const routerAddress = DEX_ROUTERS[network]?.uniswapV3Router || DEX_ROUTERS.arbitrumOne?.uniswapV3Router;
-	if (!routerAddress) {
-		throw new NodeOperationError(this.getNode(), 'Router address not found');
+	const liquidity = (state.liquidity * BigInt(Math.round(liquidityPercent * 100))) / BigInt(10000);
+	const manager = new ethers.Contract(
+		DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager,
+		ABIS.UniswapV3PositionManager,
+		signer,
+	);
+	const calls = [encodeDecrease(manager, state, liquidity, slippage)];
+	if (collectTokens) {
+		calls.push(encodeCollectAll(manager, state, signerAddress));
 	}
 
-	// Get token decimals and check current allowance
-	const erc20Abi = [
-		'function decimals() view returns (uint8)',
-		'function allowance(address owner, address spender) view returns (uint256)',
-		'function approve(address spender, uint256 amount) returns (bool)',
-	];
-	const tokenContract = new ethers.Contract(tokenIn, erc20Abi, signer);
+	try {
+		const tx = await manager.multicall(calls);
+		return {
+			network: networkConfig.name,
+			operation: 'decreaseLiquidity',
+			tokenId: state.tokenId.toString(),
+			liquidityPercent,
+			...(!collectTokens && { note: 'Withdrawn tokens remain owed to the position until collected' }),
+			...(await finalizePositionTx(tx, waitForConfirmation, state)),
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Decrease liquidity failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
 
-	const decimals = await tokenContract.decimals();
-	const amountInWei = ethers.parseUnits(amountIn, decimals);
-	const currentAllowance = await tokenContract.allowance(await signer.getAddress(), routerAddress);
+async function collectFees(
+	this: IExecuteFunctions,
+	tokenId: string,
+	waitForConfirmation: boolean,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const signer = getPositionSigner.call(this, credentials, provider);
+	const signerAddress = await signer.getAddress();
 
-	const results: Record<string, unknown> = {
-		steps: [],
-	};
+	const state = await readPosition(provider, parseTokenId.call(this, tokenId));
+	if (state.owner.toLowerCase() !== signerAddress.toLowerCase()) {
+		throw new NodeOperationError(this.getNode(), `Position ${tokenId} is owned by ${state.owner}, not the credential wallet`);
+	}
 
-	// Check if approval needed
-	if (currentAllowance < amountInWei) {
-		// Approve max uint256 for convenience
-		const maxApproval = ethers.MaxUint256;
-		
-		try {
-			const approveTx = await tokenContract.approve(routerAddress, maxApproval);
-			
-			const approvalResult: Record<string, unknown> = {
-				step: 'Approval',
-				transactionHash: approveTx.hash,
-				spender: routerAddress,
-				amount: 'Unlimited',
-				status: 'Submitted',
-			};
+	const manager = new ethers.Contract(
+		DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager,
+		ABIS.UniswapV3PositionManager,
+		signer,
+	);
+	try {
+		const tx = await manager.collect({
+			tokenId: state.tokenId,
+			recipient: signerAddress,
+			amount0Max: MAX_UINT128,
+			amount1Max: MAX_UINT128,
+		});
+		return {
+			network: networkConfig.name,
+			operation: 'collect',
+			tokenId: state.tokenId.toString(),
+			expectedFees: formatPosition(state).uncollectedFees,
+			...(await finalizePositionTx(tx, waitForConfirmation, state)),
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Collect failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
 
-			if (waitForConfirmation) {
-				const receipt = await approveTx.wait();
-				approvalResult.status = receipt?.status === 1 ? 'Success' : 'Failed';
-				approvalResult.blockNumber = receipt?.blockNumber;
-				approvalResult.gasUsed = receipt?.gasUsed.toString();
-			}
+async function burnPosition(
+	this: IExecuteFunctions,
+	tokenId: string,
+	slippage: number,
+	waitForConfirmation: boolean,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const signer = getPositionSigner.call(this, credentials, provider);
+	const signerAddress = await signer.getAddress();
 
-			(results.steps as unknown[]).push(approvalResult);
-		} catch (error) {
-			throw new NodeOperationError(
-				this.getNode(),
-				`Approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-			);
-		}
-	} else {
-		(results.steps as unknown[]).push({
-			step: 'Approval',
-			status: 'Skipped - Sufficient allowance exists',
-			currentAllowance: ethers.formatUnits(currentAllowance, decimals),
-		});
+	const state = await readPosition(provider, parseTokenId.call(this, tokenId));
+	if (state.owner.toLowerCase() !== signerAddress.toLowerCase()) {
+		throw new NodeOperationError(this.getNode(), `Position ${tokenId} is owned by ${state.owner}, not the credential wallet`);
 	}
 
-	// Execute swap
-	const swapResult = await executeSwap.call(this, dex, tokenIn, tokenOut, amountIn, slippage, feeTier, waitForConfirmation);
-	(results.steps as unknown[]).push({
-		step: 'Swap',
-		...swapResult,
-	});
+	// The manager only burns empty positions, so withdraw and collect everything first
+	const manager = new ethers.Contract(
+		DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager,
+		ABIS.UniswapV3PositionManager,
+		signer,
+	);
+	const calls: string[] = [];
+	if (state.liquidity > BigInt(0)) {
+		calls.push(encodeDecrease(manager, state, state.liquidity, slippage));
+	}
+	calls.push(encodeCollectAll(manager, state, signerAddress));
+	calls.push(manager.interface.encodeFunctionData('burn', [state.tokenId]));
 
-	return results;
+	try {
+		const tx = await manager.multicall(calls);
+		return {
+			network: networkConfig.name,
+			operation: 'burn',
+			tokenId: state.tokenId.toString(),
+			...(await finalizePositionTx(tx, waitForConfirmation, state)),
+		};
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Burn failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
 }
 
 export const defi = { operations, fields, execute };
@@ -0,0 +1,406 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeProperties,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { getProvider, validateAddress } from '../../transport/provider';
+import { ARBITRUM_NETWORKS, GMX_V2_CONTRACTS, ABIS, getTokenByAddress } from '../../constants';
+import {
+	getGmxAccountPositions,
+	getGmxBorrowingRate,
+	getGmxFundingRates,
+	getGmxLiquidationPrice,
+	getGmxMarketState,
+	getGmxMarkets,
+	getGmxMarketsByToken,
+	gmxRateToPercent,
+	GMX_PRECISION_DECIMALS,
+} from '../../utils/gmxUtils';
+import type { GmxMarket } from '../../utils/gmxUtils';
+import { createPriceLookup } from '../../utils/yieldUtils';
+import type { PriceLookup } from '../../utils/yieldUtils';
+import { ethers } from 'ethers';
+
+export const operations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['gmx'],
+			},
+		},
+		options: [
+			{
+				name: 'List Positions',
+				value: 'listPositions',
+				description: 'List open GMX V2 positions of an account with PnL and liquidation price',
+				action: 'List positions',
+			},
+			{
+				name: 'List Markets',
+				value: 'listMarkets',
+				description: 'List GMX V2 markets with open interest and funding/borrowing rates',
+				action: 'List markets',
+			},
+		],
+		default: 'listPositions',
+	},
+];
+
+export const fields: INodeProperties[] = [
+	// Account Address
+	{
+		displayName: 'Account Address',
+		name: 'accountAddress',
+		type: 'string',
+		default: '',
+		placeholder: '0x... (leave empty for the credential wallet)',
+		description: 'Trader account to list positions for',
+		displayOptions: {
+			show: {
+				resource: ['gmx'],
+				operation: ['listPositions'],
+			},
+		},
+	},
+	// Market Filter
+	{
+		displayName: 'Market Addresses',
+		name: 'marketAddresses',
+		type: 'string',
+		default: '',
+		placeholder: '0x..., 0x... (leave empty for all markets)',
+		description: 'Comma-separated GM market tokens to return',
+		displayOptions: {
+			show: {
+				resource: ['gmx'],
+				operation: ['listMarkets'],
+			},
+		},
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		default: 100,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Max number of results to return',
+		displayOptions: {
+			show: {
+				resource: ['gmx'],
+				operation: ['listMarkets'],
+			},
+		},
+	},
+];
+
+export async function execute(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', index) as string;
+
+	let result: Record<string, unknown>;
+
+	switch (operation) {
+		case 'listPositions': {
+			const accountAddress = this.getNodeParameter('accountAddress', index, '') as string;
+			result = await listPositions.call(this, accountAddress);
+			break;
+		}
+
+		case 'listMarkets': {
+			const marketAddresses = (this.getNodeParameter('marketAddresses', index, '') as string)
+				.split(',')
+				.map((address) => address.trim())
+				.filter((address) => address.length > 0);
+			const invalid = marketAddresses.find((address) => !validateAddress(address));
+			if (invalid) {
+				throw new NodeOperationError(this.getNode(), `Invalid market address: ${invalid}`);
+			}
+			const limit = this.getNodeParameter('limit', index, 100) as number;
+			result = await listMarkets.call(this, marketAddresses, limit);
+			break;
+		}
+
+		default:
+			throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+	}
+
+	return [{ json: result as IDataObject }];
+}
+
+function getGmxContracts(this: IExecuteFunctions, network: string) {
+	const contracts = GMX_V2_CONTRACTS[network];
+	if (!contracts) {
+		throw new NodeOperationError(this.getNode(), `GMX V2 is not deployed on network: ${network}`);
+	}
+	return contracts;
+}
+
+interface TokenMeta {
+	symbol: string;
+	/** null for synthetic index tokens, which have no contract */
+	decimals: number | null;
+}
+
+/**
+ * Symbol and decimals of a token, memoized per run
+ */
+function createTokenLookup(provider: ethers.Provider): (address: string) => Promise<TokenMeta> {
+	const cache = new Map<string, Promise<TokenMeta>>();
+	return (address: string) => {
+		const key = address.toLowerCase();
+		if (!cache.has(key)) {
+			const known = getTokenByAddress('arbitrumOne', address);
+			const token = new ethers.Contract(address, ABIS.ERC20, provider);
+			cache.set(key, known
+				? Promise.resolve({ symbol: known.symbol, decimals: known.decimals })
+				: Promise.all([token.symbol(), token.decimals()])
+					.then(([symbol, decimals]) => ({ symbol, decimals: Number(decimals) }))
+					.catch(() => ({ symbol: `${address.slice(0, 6)}…${address.slice(-4)}`, decimals: null })));
+		}
+		return cache.get(key) as Promise<TokenMeta>;
+	};
+}
+
+/**
+ * USD price or null when the token has no Chainlink feed or Uniswap V3 pool
+ */
+async function tryPrice(getPrice: PriceLookup, address: string, decimals: number | null): Promise<number | null> {
+	if (decimals === null) {
+		return null;
+	}
+	try {
+		return await getPrice(address, decimals);
+	} catch (error) {
+		return null;
+	}
+}
+
+function marketName(index: TokenMeta, long: TokenMeta, short: TokenMeta, swapOnly: boolean): string {
+	const pool = `[${long.symbol}-${short.symbol}]`;
+	return swapOnly ? `SWAP-ONLY ${pool}` : `${index.symbol}/USD ${pool}`;
+}
+
+async function listPositions(
+	this: IExecuteFunctions,
+	accountAddress: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const { dataStore } = getGmxContracts.call(this, network);
+
+	if (!accountAddress) {
+		const privateKey = credentials.privateKey as string;
+		if (!privateKey) {
+			throw new NodeOperationError(this.getNode(), 'Account address or private key required');
+		}
+		accountAddress = new ethers.Wallet(privateKey).address;
+	} else if (!validateAddress(accountAddress)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid account address');
+	}
+
+	const positions = await getGmxAccountPositions(provider, dataStore, accountAddress);
+	const marketTokens = [...new Set(positions.map((position) => position.market))];
+	const markets = await getGmxMarketsByToken(provider, dataStore, marketTokens);
+	const marketByToken = new Map(markets.map((market) => [market.marketToken.toLowerCase(), market]));
+	const states = new Map(await Promise.all(markets.map(async (market) => (
+		[market.marketToken.toLowerCase(), await getGmxMarketState(provider, dataStore, market)] as const
+	))));
+
+	const getToken = createTokenLookup(provider);
+	const getPrice = createPriceLookup(provider, network);
+
+	const results = await Promise.all(positions.map(async (position) => {
+		const market = marketByToken.get(position.market.toLowerCase()) as GmxMarket;
+		const state = states.get(position.market.toLowerCase());
+		const [indexToken, longToken, shortToken, collateralToken] = await Promise.all([
+			getToken(market.indexToken),
+			getToken(market.longToken),
+			getToken(market.shortToken),
+			getToken(position.collateralToken),
+		]);
+		const [markPrice, collateralPrice] = await Promise.all([
+			tryPrice(getPrice, market.indexToken, indexToken.decimals),
+			tryPrice(getPrice, position.collateralToken, collateralToken.decimals),
+		]);
+
+		const sizeUsd = Number(ethers.formatUnits(position.sizeInUsd, GMX_PRECISION_DECIMALS));
+		const sizeTokens = indexToken.decimals !== null
+			? Number(ethers.formatUnits(position.sizeInTokens, indexToken.decimals))
+			: null;
+		const collateralTokens = Number(ethers.formatUnits(position.collateralAmount, collateralToken.decimals ?? 18));
+		const collateralUsd = collateralPrice !== null ? collateralTokens * collateralPrice : null;
+		const entryPrice = sizeTokens ? sizeUsd / sizeTokens : null;
+
+		let pnlUsd: number | null = null;
+		if (markPrice !== null && sizeTokens !== null) {
+			const valueUsd = sizeTokens * markPrice;
+			pnlUsd = position.isLong ? valueUsd - sizeUsd : sizeUsd - valueUsd;
+		}
+
+		const liquidationPrice = state && sizeTokens !== null && collateralPrice !== null
+			? getGmxLiquidationPrice({
+				isLong: position.isLong,
+				sizeUsd,
+				sizeTokens,
+				collateralTokens,
+				collateralPriceUsd: collateralPrice,
+				collateralIsIndexToken: position.collateralToken.toLowerCase() === market.indexToken.toLowerCase(),
+				minCollateralFactor: state.minCollateralFactor,
+				minCollateralUsd: state.minCollateralUsd,
+			})
+			: null;
+
+		return {
+			key: position.key,
+			market: position.market,
+			marketName: marketName(indexToken, longToken, shortToken, false),
+			side: position.isLong ? 'long' : 'short',
+			collateralToken: position.collateralToken,
+			collateralSymbol: collateralToken.symbol,
+			sizeUsd,
+			sizeInTokens: sizeTokens,
+			collateralAmount: collateralTokens,
+			collateralUsd,
+			leverage: collateralUsd ? sizeUsd / collateralUsd : null,
+			entryPrice,
+			markPrice,
+			pnlUsd,
+			pnlPercent: pnlUsd !== null && collateralUsd ? (pnlUsd / collateralUsd) * 100 : null,
+			liquidationPrice,
+			distanceToLiquidationPercent: liquidationPrice !== null && markPrice
+				? (Math.abs(markPrice - liquidationPrice) / markPrice) * 100
+				: null,
+		};
+	}));
+
+	return {
+		network: networkConfig.name,
+		protocol: 'GMX V2',
+		account: accountAddress,
+		count: results.length,
+		positions: results,
+		note: 'Mark prices come from Chainlink feeds or Uniswap V3 pools. PnL and liquidation price exclude pending fees and price impact.',
+	};
+}
+
+async function listMarkets(
+	this: IExecuteFunctions,
+	marketAddresses: string[],
+	limit: number,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const { dataStore } = getGmxContracts.call(this, network);
+
+	let markets: GmxMarket[];
+	try {
+		markets = marketAddresses.length > 0
+			? await getGmxMarketsByToken(provider, dataStore, marketAddresses)
+			: await getGmxMarkets(provider, dataStore, 0, limit);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), (error as Error).message);
+	}
+
+	const getToken = createTokenLookup(provider);
+	const getPrice = createPriceLookup(provider, network);
+
+	const results = await Promise.all(markets.map(async (market) => {
+		const swapOnly = market.indexToken === ethers.ZeroAddress;
+		const [state, indexToken, longToken, shortToken] = await Promise.all([
+			getGmxMarketState(provider, dataStore, market),
+			swapOnly ? Promise.resolve({ symbol: '', decimals: null }) : getToken(market.indexToken),
+			getToken(market.longToken),
+			getToken(market.shortToken),
+		]);
+		const [indexPrice, longPrice, shortPrice] = await Promise.all([
+			swapOnly ? Promise.resolve(null) : tryPrice(getPrice, market.indexToken, indexToken.decimals),
+			tryPrice(getPrice, market.longToken, longToken.decimals),
+			tryPrice(getPrice, market.shortToken, shortToken.decimals),
+		]);
+
+		const longPoolTokens = Number(ethers.formatUnits(state.longPoolAmount, longToken.decimals ?? 18));
+		const shortPoolTokens = Number(ethers.formatUnits(state.shortPoolAmount, shortToken.decimals ?? 18));
+		const longPoolUsd = longPrice !== null ? longPoolTokens * longPrice : null;
+		const shortPoolUsd = shortPrice !== null ? shortPoolTokens * shortPrice : null;
+
+		const entry: IDataObject = {
+			marketToken: market.marketToken,
+			name: marketName(indexToken, longToken, shortToken, swapOnly),
+			indexToken: market.indexToken,
+			longToken: market.longToken,
+			shortToken: market.shortToken,
+			isDisabled: state.isDisabled,
+			swapOnly,
+			indexPriceUsd: indexPrice,
+			pool: {
+				longTokenAmount: longPoolTokens,
+				shortTokenAmount: shortPoolTokens,
+				longUsd: longPoolUsd,
+				shortUsd: shortPoolUsd,
+			},
+		};
+		if (swapOnly) {
+			return entry;
+		}
+
+		entry.openInterest = {
+			longUsd: state.openInterestLongUsd,
+			shortUsd: state.openInterestShortUsd,
+			totalUsd: state.openInterestLongUsd + state.openInterestShortUsd,
+		};
+
+		const funding = getGmxFundingRates(state);
+		const longFunding = gmxRateToPercent(funding.longRatePerSecond);
+		const shortFunding = gmxRateToPercent(funding.shortRatePerSecond);
+		entry.funding = {
+			longsPayShorts: funding.longsPayShorts,
+			longHourlyPercent: longFunding.hourly,
+			shortHourlyPercent: shortFunding.hourly,
+			longAnnualPercent: longFunding.annual,
+			shortAnnualPercent: shortFunding.annual,
+		};
+
+		// Longs reserve index tokens at the current price, shorts reserve their USD size
+		const longReservedUsd = indexPrice !== null && indexToken.decimals !== null
+			? Number(ethers.formatUnits(state.openInterestLongInTokens, indexToken.decimals)) * indexPrice
+			: null;
+		const longBorrowing = longReservedUsd !== null && longPoolUsd !== null
+			? gmxRateToPercent(getGmxBorrowingRate(state, true, longReservedUsd, longPoolUsd))
+			: null;
+		const shortBorrowing = shortPoolUsd !== null
+			? gmxRateToPercent(getGmxBorrowingRate(state, false, state.openInterestShortUsd, shortPoolUsd))
+			: null;
+		entry.borrowing = {
+			longHourlyPercent: longBorrowing?.hourly ?? null,
+			shortHourlyPercent: shortBorrowing?.hourly ?? null,
+			longAnnualPercent: longBorrowing?.annual ?? null,
+			shortAnnualPercent: shortBorrowing?.annual ?? null,
+		};
+
+		return entry;
+	}));
+
+	return {
+		network: networkConfig.name,
+		protocol: 'GMX V2',
+		count: results.length,
+		markets: results,
+		timestamp: new Date().toISOString(),
+	};
+}
+
+export const gmx = { operations, fields, execute };
@@ -13,4 +13,7 @@ export { l2tol1 } from './l2tol1';
 export { nova } from './nova';
 export { stylus } from './stylus';
 export { defi } from './defi';
+export { gmx } from './gmx';
+export { lending } from './lending';
+export { pendle } from './pendle';
 export { utility } from './utility';
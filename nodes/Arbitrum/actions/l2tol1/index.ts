@@ -7,9 +7,15 @@ import type {
 import { NodeOperationError } from 'n8n-workflow';
 import { ethers } from 'ethers';
 import { createProvider, createL1Provider, validateAddress } from '../../transport/provider';
-import { getL2ToL1MessageStatus } from '../../transport/arbitrumSdk';
+import {
+	getL2ToL1MessageStatus,
+	getOutboxProofs,
+	executeOutboxTransaction,
+	type OutboxProof,
+} from '../../transport/arbitrumSdk';
 import { BRIDGE_CONTRACTS, L2_TO_L1_MESSAGE_STATUS } from '../../constants/bridges';
 import { NETWORK_CONFIGS } from '../../constants/networks';
+import type { ArbitrumNetworkId } from '../../constants/networks';
 
 // L2 to L1 resource operations
 export const operations: INodeProperties[] = [
@@ -42,6 +48,12 @@ export const operations: INodeProperties[] = [
 				description: 'Execute an L2 to L1 message on L1',
 				action: 'Execute outbox message',
 			},
+			{
+				name: 'Claim Withdrawal',
+				value: 'claimWithdrawal',
+				description: 'Prove and execute a confirmed withdrawal on L1 from its L2 transaction hash',
+				action: 'Claim withdrawal on L1',
+			},
 			{
 				name: 'Get Message Status',
 				value: 'getMessageStatus',
@@ -125,7 +137,7 @@ export const fields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['l2tol1'],
-				operation: ['getOutboxProof', 'getMessageStatus', 'getChallengePeriodEnd', 'getBatchNumber', 'getL1ConfirmationStatus'],
+				operation: ['getOutboxProof', 'claimWithdrawal', 'getMessageStatus', 'getChallengePeriodEnd', 'getBatchNumber', 'getL1ConfirmationStatus'],
 			},
 		},
 		default: '',
@@ -159,7 +171,7 @@ export const fields: INodeProperties[] = [
 			},
 		},
 		default: '',
-		placeholder: '{"proof": [...], "leaf": ..., "index": ...}',
+		placeholder: '{"proof": [...], "index": ..., "l2Sender": ..., "to": ...}',
 		description: 'The proof data from getOutboxProof (JSON format)',
 	},
 	// Options
@@ -172,7 +184,7 @@ export const fields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['l2tol1'],
-				operation: ['sendL2ToL1Tx', 'executeOutboxMessage'],
+				operation: ['sendL2ToL1Tx', 'executeOutboxMessage', 'claimWithdrawal'],
 			},
 		},
 		options: [
@@ -306,65 +318,21 @@ export async function execute(
 		const l2TxHash = this.getNodeParameter('l2TxHash', index) as string;
 
 		try {
-			// Get the L2 transaction receipt
-			const receipt = await provider.getTransactionReceipt(l2TxHash);
-			if (!receipt) {
-				throw new NodeOperationError(this.getNode(), 'Transaction not found');
-			}
-
-			// Parse L2ToL1Tx event
-			const arbSysInterface = new ethers.Interface([
-				'event L2ToL1Tx(address caller, address indexed destination, uint256 indexed hash, uint256 indexed position, uint256 arbBlockNum, uint256 ethBlockNum, uint256 timestamp, uint256 callvalue, bytes data)',
-			]);
-
-			let l2ToL1Event = null;
-			for (const log of receipt.logs) {
-				try {
-					if (log.address.toLowerCase() === '0x0000000000000000000000000000000000000064') {
-						const parsed = arbSysInterface.parseLog({ topics: log.topics as string[], data: log.data });
-						if (parsed?.name === 'L2ToL1Tx') {
-							l2ToL1Event = parsed;
-							break;
-						}
-					}
-				} catch {
-					continue;
-				}
+			const l1 = await createL1Provider(credentials);
+			if (!l1) {
+				throw new NodeOperationError(this.getNode(), 'L1 RPC URL required for outbox proofs');
 			}
 
-			if (!l2ToL1Event) {
+			const proofs = await getOutboxProofs(l2TxHash, provider, l1.provider);
+			if (proofs.length === 0) {
 				throw new NodeOperationError(this.getNode(), 'No L2ToL1Tx event found in transaction');
 			}
 
-			// Get the NodeInterface to retrieve proof
-			const nodeInterface = new ethers.Contract(
-				'0x00000000000000000000000000000000000000C8',
-				[
-					'function constructOutboxProof(uint64 size, uint64 leaf) view returns (bytes32 send, bytes32 root, bytes32[] memory proof)',
-				],
-				provider,
-			);
-
-			const position = l2ToL1Event.args.position;
-
-			// Note: Getting the actual proof requires knowing the send count
-			// This is a simplified version - in production, you'd use the Arbitrum SDK
-
+			// First message is surfaced at top level, the full list under messages
 			result = {
 				l2TxHash,
-				l2BlockNumber: receipt.blockNumber,
-				caller: l2ToL1Event.args.caller,
-				destination: l2ToL1Event.args.destination,
-				hash: l2ToL1Event.args.hash.toString(),
-				position: position.toString(),
-				arbBlockNum: l2ToL1Event.args.arbBlockNum.toString(),
-				ethBlockNum: l2ToL1Event.args.ethBlockNum.toString(),
-				timestamp: l2ToL1Event.args.timestamp.toString(),
-				timestampDate: new Date(Number(l2ToL1Event.args.timestamp) * 1000).toISOString(),
-				value: l2ToL1Event.args.callvalue.toString(),
-				valueEther: ethers.formatEther(l2ToL1Event.args.callvalue),
-				data: l2ToL1Event.args.data,
-				note: 'Use Arbitrum SDK getOutboxProof() for complete proof generation',
+				...formatOutboxProof(proofs[0]),
+				messages: proofs.map(formatOutboxProof),
 			};
 		} catch (error) {
 			throw new NodeOperationError(this.getNode(), `Failed to get outbox proof: ${error}`);
@@ -407,7 +375,7 @@ export async function execute(
 
 			const tx = await outbox.executeTransaction(
 				proofData.proof,
-				proofData.index || messageIndex,
+				proofData.index ?? messageIndex,
 				proofData.l2Sender,
 				proofData.to,
 				proofData.l2Block,
@@ -443,6 +411,78 @@ export async function execute(
 		}
 	}
 
+	if (operation === 'claimWithdrawal') {
+		const l2TxHash = this.getNodeParameter('l2TxHash', index) as string;
+		const options = this.getNodeParameter('options', index, {}) as IDataObject;
+
+		const l1 = await createL1Provider(credentials);
+		if (!l1) {
+			throw new NodeOperationError(this.getNode(), 'L1 RPC URL required for claiming withdrawals');
+		}
+		if (!l1.signer && !credentials.privateKey) {
+			throw new NodeOperationError(this.getNode(), 'L1 private key or private key required for claiming withdrawals');
+		}
+
+		const proofs = await getOutboxProofs(l2TxHash, provider, l1.provider);
+		if (proofs.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'No L2ToL1Tx event found in transaction');
+		}
+
+		const claimable = proofs.filter((proof) => !proof.executed);
+		if (claimable.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'Withdrawal has already been claimed on L1');
+		}
+		if (claimable.some((proof) => !proof.confirmed)) {
+			const networkConfig = NETWORK_CONFIGS[network] || NETWORK_CONFIGS.arbitrumOne;
+			const challengeEnd = Number(claimable[0].l2Timestamp) + (networkConfig.challengePeriod || 604800);
+			throw new NodeOperationError(
+				this.getNode(),
+				`Withdrawal is not confirmed on L1 yet. Challenge period ends around ${new Date(challengeEnd * 1000).toISOString()}`,
+			);
+		}
+
+		try {
+			const wallet = l1.signer ?? new ethers.Wallet(credentials.privateKey as string, l1.provider);
+			const txOptions: IDataObject = {};
+			if (options.gasLimit && (options.gasLimit as number) > 0) {
+				txOptions.gasLimit = options.gasLimit;
+			}
+
+			const claims: IDataObject[] = [];
+			for (const proof of claimable) {
+				const tx = await executeOutboxTransaction(proof, wallet, network as ArbitrumNetworkId, txOptions);
+
+				if (options.waitForConfirmation !== false) {
+					const confirmations = (options.confirmations as number) || 1;
+					const receipt = await tx.wait(confirmations);
+					claims.push({
+						position: proof.position.toString(),
+						transactionHash: receipt.hash,
+						blockNumber: receipt.blockNumber,
+						gasUsed: receipt.gasUsed.toString(),
+						status: receipt.status === 1 ? 'SUCCESS' : 'FAILED',
+					});
+				} else {
+					claims.push({
+						position: proof.position.toString(),
+						transactionHash: tx.hash,
+						status: 'PENDING',
+					});
+				}
+			}
+
+			result = {
+				l2TxHash,
+				claimed: claims.every((claim) => claim.status !== 'FAILED'),
+				transactionHash: claims[0].transactionHash,
+				claims,
+				l1Network: 'Ethereum',
+			};
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Failed to claim withdrawal: ${error}`);
+		}
+	}
+
 	if (operation === 'getMessageStatus') {
 		const l2TxHash = this.getNodeParameter('l2TxHash', index) as string;
 
@@ -601,7 +641,41 @@ export async function execute(
 	];
 }
 
-// Helper function
+// Helper functions
+function formatOutboxProof(proof: OutboxProof): IDataObject {
+	return {
+		position: proof.position.toString(),
+		caller: proof.l2Sender,
+		destination: proof.to,
+		arbBlockNum: proof.l2Block.toString(),
+		ethBlockNum: proof.l1Block.toString(),
+		timestamp: proof.l2Timestamp.toString(),
+		timestampDate: new Date(Number(proof.l2Timestamp) * 1000).toISOString(),
+		value: proof.value.toString(),
+		valueEther: ethers.formatEther(proof.value),
+		data: proof.data,
+		sendCount: proof.sendCount?.toString() ?? null,
+		isConfirmed: proof.confirmed,
+		isExecuted: proof.executed,
+		canExecute: proof.confirmed && !proof.executed,
+		root: proof.root ?? null,
+		// Ready to pass to Execute Outbox Message as Proof Data
+		proofData: proof.confirmed && !proof.executed
+			? {
+				proof: proof.proof,
+				index: proof.position.toString(),
+				l2Sender: proof.l2Sender,
+				to: proof.to,
+				l2Block: proof.l2Block.toString(),
+				l1Block: proof.l1Block.toString(),
+				l2Timestamp: proof.l2Timestamp.toString(),
+				value: proof.value.toString(),
+				data: proof.data,
+			}
+			: null,
+	};
+}
+
 function getMessageStatusDescription(status: string): string {
 	switch (status) {
 		case 'UNCONFIRMED':
@@ -0,0 +1,479 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeProperties,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { getProvider, validateAddress } from '../../transport/provider';
+import { ARBITRUM_NETWORKS, AAVE_V3_CONTRACTS, ABIS } from '../../constants';
+import {
+	decodeReserveConfiguration,
+	getHealthStatus,
+	rayRateToApr,
+	rayRateToApy,
+	VARIABLE_RATE_MODE,
+} from '../../utils/lendingUtils';
+import { ethers } from 'ethers';
+
+export const operations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+			},
+		},
+		options: [
+			{
+				name: 'Get Account Data',
+				value: 'getAccountData',
+				description: 'Get health factor, LTV and collateral/debt totals for an Aave V3 account',
+				action: 'Get account data',
+			},
+			{
+				name: 'Get Reserves',
+				value: 'getReserves',
+				description: 'List Aave V3 reserves with supply and borrow APYs',
+				action: 'Get reserves',
+			},
+			{
+				name: 'Supply',
+				value: 'supply',
+				description: 'Supply an asset to Aave V3',
+				action: 'Supply asset',
+			},
+			{
+				name: 'Withdraw',
+				value: 'withdraw',
+				description: 'Withdraw a supplied asset from Aave V3',
+				action: 'Withdraw asset',
+			},
+			{
+				name: 'Borrow',
+				value: 'borrow',
+				description: 'Borrow an asset from Aave V3 at the variable rate',
+				action: 'Borrow asset',
+			},
+			{
+				name: 'Repay',
+				value: 'repay',
+				description: 'Repay a variable-rate Aave V3 debt',
+				action: 'Repay debt',
+			},
+		],
+		default: 'getAccountData',
+	},
+];
+
+export const fields: INodeProperties[] = [
+	// Account Address
+	{
+		displayName: 'Account Address',
+		name: 'accountAddress',
+		type: 'string',
+		default: '',
+		placeholder: '0x... (leave empty for the credential wallet)',
+		description: 'Aave account to inspect',
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+				operation: ['getAccountData'],
+			},
+		},
+	},
+	// Asset Filter
+	{
+		displayName: 'Asset Address',
+		name: 'assetFilter',
+		type: 'string',
+		default: '',
+		placeholder: '0x... (leave empty for all reserves)',
+		description: 'Only return the reserve for this asset',
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+				operation: ['getReserves'],
+			},
+		},
+	},
+	// Asset
+	{
+		displayName: 'Asset Address',
+		name: 'asset',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x... (use WETH for ETH)',
+		description: 'Address of the reserve asset',
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+				operation: ['supply', 'withdraw', 'borrow', 'repay'],
+			},
+		},
+	},
+	// Amount
+	{
+		displayName: 'Amount',
+		name: 'amount',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '100.0',
+		description: 'Amount in token units (not wei)',
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+				operation: ['supply', 'borrow'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount',
+		name: 'amount',
+		type: 'string',
+		required: true,
+		default: 'max',
+		placeholder: '100.0 or max',
+		description: 'Amount in token units (not wei), or "max" for the full balance',
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+				operation: ['withdraw', 'repay'],
+			},
+		},
+	},
+	// Wait for Confirmation
+	{
+		displayName: 'Wait for Confirmation',
+		name: 'waitForConfirmation',
+		type: 'boolean',
+		default: true,
+		description: 'Whether to wait for the transaction to be confirmed',
+		displayOptions: {
+			show: {
+				resource: ['lending'],
+				operation: ['supply', 'withdraw', 'borrow', 'repay'],
+			},
+		},
+	},
+];
+
+/** Aave market base currency (USD) uses 8 decimals */
+const BASE_CURRENCY_DECIMALS = 8;
+
+export async function execute(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', index) as string;
+
+	let result: Record<string, unknown>;
+
+	switch (operation) {
+		case 'getAccountData': {
+			const accountAddress = this.getNodeParameter('accountAddress', index, '') as string;
+			result = await getAccountData.call(this, accountAddress);
+			break;
+		}
+
+		case 'getReserves': {
+			const assetFilter = this.getNodeParameter('assetFilter', index, '') as string;
+			result = await getReserves.call(this, assetFilter);
+			break;
+		}
+
+		case 'supply':
+		case 'withdraw':
+		case 'borrow':
+		case 'repay': {
+			const asset = this.getNodeParameter('asset', index) as string;
+			if (!validateAddress(asset)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid asset address');
+			}
+			const amount = this.getNodeParameter('amount', index) as string;
+			const waitForConfirmation = this.getNodeParameter('waitForConfirmation', index) as boolean;
+			result = await executeLendingAction.call(this, operation, asset, amount, waitForConfirmation);
+			break;
+		}
+
+		default:
+			throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+	}
+
+	return [{ json: result as IDataObject }];
+}
+
+function getAaveContracts(this: IExecuteFunctions, network: string) {
+	const contracts = AAVE_V3_CONTRACTS[network];
+	if (!contracts) {
+		throw new NodeOperationError(this.getNode(), `Aave V3 is not configured for network: ${network}`);
+	}
+	return contracts;
+}
+
+function formatBase(value: bigint): number {
+	return Number(ethers.formatUnits(value, BASE_CURRENCY_DECIMALS));
+}
+
+async function getAccountData(
+	this: IExecuteFunctions,
+	accountAddress: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const contracts = getAaveContracts.call(this, network);
+
+	if (!accountAddress) {
+		const privateKey = credentials.privateKey as string;
+		if (!privateKey) {
+			throw new NodeOperationError(this.getNode(), 'Account address or private key required');
+		}
+		accountAddress = new ethers.Wallet(privateKey).address;
+	} else if (!validateAddress(accountAddress)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid account address');
+	}
+
+	const pool = new ethers.Contract(contracts.pool, ABIS.AaveV3Pool, provider);
+	const data = await pool.getUserAccountData(accountAddress);
+
+	// With no debt Aave reports the max uint256 health factor; it stays a (very large) number so comparisons keep working
+	const healthFactor = Number(ethers.formatUnits(data.healthFactor, 18));
+	const hasDebt = data.totalDebtBase > BigInt(0);
+	const healthStatus = getHealthStatus(data.healthFactor, data.totalDebtBase);
+
+	return {
+		network: networkConfig.name,
+		protocol: 'Aave V3',
+		account: accountAddress,
+		healthFactor,
+		healthStatus,
+		hasDebt,
+		totalCollateralUsd: formatBase(data.totalCollateralBase),
+		totalDebtUsd: formatBase(data.totalDebtBase),
+		availableBorrowsUsd: formatBase(data.availableBorrowsBase),
+		ltv: Number(data.ltv) / 100,
+		currentLiquidationThreshold: Number(data.currentLiquidationThreshold) / 100,
+		currentLtv: hasDebt && data.totalCollateralBase > BigInt(0)
+			? Number((data.totalDebtBase * BigInt(1000000)) / data.totalCollateralBase) / 10000
+			: 0,
+	};
+}
+
+async function getReserveAddresses(
+	provider: ethers.Provider,
+	contracts: (typeof AAVE_V3_CONTRACTS)[string],
+): Promise<string[]> {
+	const uiProvider = new ethers.Contract(contracts.uiPoolDataProvider, ABIS.AaveUiPoolDataProvider, provider);
+	try {
+		return [...await uiProvider.getReservesList(contracts.poolAddressesProvider)];
+	} catch (error) {
+		// Periphery deployments get replaced over time; the Pool itself always knows its reserves
+		const pool = new ethers.Contract(contracts.pool, ABIS.AaveV3Pool, provider);
+		return [...await pool.getReservesList()];
+	}
+}
+
+async function getReserves(
+	this: IExecuteFunctions,
+	assetFilter: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const contracts = getAaveContracts.call(this, network);
+
+	let assets = await getReserveAddresses(provider, contracts);
+	if (assetFilter) {
+		assets = assets.filter((asset) => asset.toLowerCase() === assetFilter.toLowerCase());
+		if (assets.length === 0) {
+			throw new NodeOperationError(this.getNode(), `${assetFilter} is not an Aave V3 reserve`);
+		}
+	}
+
+	const pool = new ethers.Contract(contracts.pool, ABIS.AaveV3Pool, provider);
+	const oracle = new ethers.Contract(contracts.oracle, ABIS.AaveOracle, provider);
+	const prices: bigint[] = await oracle.getAssetsPrices(assets);
+
+	const reserves = await Promise.all(assets.map(async (asset, i) => {
+		const data = await pool.getReserveData(asset);
+		const config = decodeReserveConfiguration(data.configuration);
+		const token = new ethers.Contract(asset, ABIS.ERC20, provider);
+		const aToken = new ethers.Contract(data.aTokenAddress, ABIS.ERC20, provider);
+		const debtToken = new ethers.Contract(data.variableDebtTokenAddress, ABIS.ERC20, provider);
+		const [symbol, totalSupplied, totalBorrowed, availableLiquidity] = await Promise.all([
+			token.symbol().catch(() => 'Unknown'),
+			aToken.totalSupply(),
+			debtToken.totalSupply(),
+			token.balanceOf(data.aTokenAddress),
+		]);
+		const price = formatBase(prices[i]);
+		const supplied = Number(ethers.formatUnits(totalSupplied, config.decimals));
+		const borrowed = Number(ethers.formatUnits(totalBorrowed, config.decimals));
+
+		return {
+			asset,
+			symbol,
+			decimals: config.decimals,
+			priceUsd: price,
+			supplyApy: rayRateToApy(data.currentLiquidityRate),
+			supplyApr: rayRateToApr(data.currentLiquidityRate),
+			variableBorrowApy: rayRateToApy(data.currentVariableBorrowRate),
+			variableBorrowApr: rayRateToApr(data.currentVariableBorrowRate),
+			totalSupplied: supplied,
+			totalBorrowed: borrowed,
+			availableLiquidity: Number(ethers.formatUnits(availableLiquidity, config.decimals)),
+			totalSuppliedUsd: supplied * price,
+			totalBorrowedUsd: borrowed * price,
+			utilization: supplied > 0 ? (borrowed / supplied) * 100 : 0,
+			ltv: config.ltv / 100,
+			liquidationThreshold: config.liquidationThreshold / 100,
+			liquidationBonus: config.liquidationBonus > 0 ? config.liquidationBonus / 100 - 100 : 0,
+			reserveFactor: config.reserveFactor / 100,
+			supplyCap: config.supplyCap.toString(),
+			borrowCap: config.borrowCap.toString(),
+			usageAsCollateralEnabled: config.liquidationThreshold > 0,
+			borrowingEnabled: config.borrowingEnabled,
+			isActive: config.isActive,
+			isFrozen: config.isFrozen,
+			isPaused: config.isPaused,
+			aTokenAddress: data.aTokenAddress,
+			variableDebtTokenAddress: data.variableDebtTokenAddress,
+		};
+	}));
+
+	return {
+		network: networkConfig.name,
+		protocol: 'Aave V3',
+		pool: contracts.pool,
+		count: reserves.length,
+		reserves,
+	};
+}
+
+async function executeLendingAction(
+	this: IExecuteFunctions,
+	action: string,
+	asset: string,
+	amount: string,
+	waitForConfirmation: boolean,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const contracts = getAaveContracts.call(this, network);
+
+	const privateKey = credentials.privateKey as string;
+	if (!privateKey) {
+		throw new NodeOperationError(this.getNode(), `Private key required to ${action}`);
+	}
+	const signer = new ethers.Wallet(privateKey, provider);
+	const signerAddress = await signer.getAddress();
+
+	const pool = new ethers.Contract(contracts.pool, ABIS.AaveV3Pool, signer);
+	const token = new ethers.Contract(asset, ABIS.ERC20, signer);
+	const decimals = Number(await token.decimals());
+
+	const isMax = amount.trim().toLowerCase() === 'max';
+	if (isMax && action !== 'withdraw' && action !== 'repay') {
+		throw new NodeOperationError(this.getNode(), `"max" is only supported for withdraw and repay`);
+	}
+	const amountWei = isMax ? ethers.MaxUint256 : ethers.parseUnits(amount, decimals);
+
+	const steps: Record<string, unknown>[] = [];
+
+	// Supply and repay pull the asset from the wallet, so the Pool needs an allowance
+	if (action === 'supply' || action === 'repay') {
+		let required = amountWei;
+		if (isMax) {
+			const reserve = await pool.getReserveData(asset);
+			const debtToken = new ethers.Contract(reserve.variableDebtTokenAddress, ABIS.ERC20, provider);
+			const debt: bigint = await debtToken.balanceOf(signerAddress);
+			if (debt === BigInt(0)) {
+				throw new NodeOperationError(this.getNode(), 'No variable debt to repay for this asset');
+			}
+			// Interest accrues until the repay is mined, so leave a small buffer
+			required = debt + debt / BigInt(1000) + BigInt(1);
+		}
+		const allowance: bigint = await token.allowance(signerAddress, contracts.pool);
+		if (allowance < required) {
+			const approveTx = await token.approve(contracts.pool, required);
+			const approveReceipt = await approveTx.wait();
+			steps.push({
+				step: 'Approval',
+				transactionHash: approveTx.hash,
+				spender: contracts.pool,
+				amount: ethers.formatUnits(required, decimals),
+				status: approveReceipt?.status === 1 ? 'Success' : 'Failed',
+			});
+		}
+	}
+
+	let tx: ethers.ContractTransactionResponse;
+	try {
+		switch (action) {
+			case 'supply':
+				tx = await pool.supply(asset, amountWei, signerAddress, 0);
+				break;
+			case 'withdraw':
+				tx = await pool.withdraw(asset, amountWei, signerAddress);
+				break;
+			case 'borrow':
+				tx = await pool.borrow(asset, amountWei, VARIABLE_RATE_MODE, 0, signerAddress);
+				break;
+			default:
+				tx = await pool.repay(asset, amountWei, VARIABLE_RATE_MODE, signerAddress);
+		}
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Aave ${action} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+
+	const result: Record<string, unknown> = {
+		network: networkConfig.name,
+		protocol: 'Aave V3',
+		action,
+		asset,
+		amount: isMax ? 'max' : amount,
+		account: signerAddress,
+		transactionHash: tx.hash,
+		status: 'Submitted',
+	};
+
+	if (waitForConfirmation) {
+		const receipt = await tx.wait();
+		result.status = receipt?.status === 1 ? 'Success' : 'Failed';
+		result.blockNumber = receipt?.blockNumber;
+		result.gasUsed = receipt?.gasUsed.toString();
+
+		// Report the settled amount from the Pool event (matters for "max")
+		for (const log of receipt?.logs ?? []) {
+			if (log.address.toLowerCase() !== contracts.pool.toLowerCase()) continue;
+			const parsed = pool.interface.parseLog(log);
+			if (parsed && ['Supply', 'Withdraw', 'Borrow', 'Repay'].includes(parsed.name)) {
+				result.amountSettled = ethers.formatUnits(parsed.args.amount, decimals);
+			}
+		}
+
+		const account = await pool.getUserAccountData(signerAddress);
+		result.healthFactor = Number(ethers.formatUnits(account.healthFactor, 18));
+	}
+
+	if (steps.length > 0) {
+		result.steps = steps;
+	}
+
+	return result;
+}
+
+export const lending = { operations, fields, execute };
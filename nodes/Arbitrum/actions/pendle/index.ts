@@ -0,0 +1,472 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeProperties,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { getProvider, validateAddress } from '../../transport/provider';
+import { ARBITRUM_NETWORKS, PENDLE_CONTRACTS, ABIS, getTokenByAddress } from '../../constants';
+import { getPendleMarketInfo } from '../../utils/pendleUtils';
+import type { PendleMarketInfo } from '../../utils/pendleUtils';
+import { getTokenBalances } from '../../utils/multicallUtils';
+import { createPriceLookup } from '../../utils/yieldUtils';
+import type { PriceLookup } from '../../utils/yieldUtils';
+import { ethers } from 'ethers';
+
+export const operations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+			},
+		},
+		options: [
+			{
+				name: 'Get Markets',
+				value: 'getMarkets',
+				description: 'Get implied APY, PT/YT prices, expiry and underlying asset of Pendle markets',
+				action: 'Get markets',
+			},
+			{
+				name: 'Get Positions',
+				value: 'getPositions',
+				description: 'Get PT, YT and LP balances of an account with their value',
+				action: 'Get positions',
+			},
+			{
+				name: 'Get Swap Quote',
+				value: 'getSwapQuote',
+				description: 'Quote buying or selling PT/YT through the Pendle router',
+				action: 'Get swap quote',
+			},
+		],
+		default: 'getMarkets',
+	},
+];
+
+export const fields: INodeProperties[] = [
+	// Market Addresses
+	{
+		displayName: 'Market Addresses',
+		name: 'marketAddresses',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x..., 0x...',
+		description: 'Comma-separated Pendle market (LP token) addresses',
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+				operation: ['getMarkets', 'getPositions'],
+			},
+		},
+	},
+	// Account Address
+	{
+		displayName: 'Account Address',
+		name: 'accountAddress',
+		type: 'string',
+		default: '',
+		placeholder: '0x... (leave empty for the credential wallet)',
+		description: 'Account whose PT, YT and LP balances to read',
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+				operation: ['getPositions'],
+			},
+		},
+	},
+	// Swap Quote
+	{
+		displayName: 'Market Address',
+		name: 'marketAddress',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'Pendle market to swap in',
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+				operation: ['getSwapQuote'],
+			},
+		},
+	},
+	{
+		displayName: 'Swap',
+		name: 'swapAction',
+		type: 'options',
+		default: 'buyPt',
+		options: [
+			{ name: 'Buy PT', value: 'buyPt' },
+			{ name: 'Sell PT', value: 'sellPt' },
+			{ name: 'Buy YT', value: 'buyYt' },
+			{ name: 'Sell YT', value: 'sellYt' },
+		],
+		description: 'Buying spends the token below; selling receives it',
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+				operation: ['getSwapQuote'],
+			},
+		},
+	},
+	{
+		displayName: 'Token Address',
+		name: 'tokenAddress',
+		type: 'string',
+		default: '',
+		placeholder: '0x... (leave empty for the underlying asset)',
+		description: 'Token to pay with or receive. Must be accepted by the market SY (0x000...000 for ETH).',
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+				operation: ['getSwapQuote'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount',
+		name: 'amount',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '1.0',
+		description: 'Amount to spend when buying, or PT/YT to sell, in token units (not wei)',
+		displayOptions: {
+			show: {
+				resource: ['pendle'],
+				operation: ['getSwapQuote'],
+			},
+		},
+	},
+];
+
+/** Expiry window flagged as expiring soon */
+const EXPIRING_SOON_DAYS = 7;
+
+export async function execute(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', index) as string;
+
+	let result: Record<string, unknown>;
+
+	switch (operation) {
+		case 'getMarkets': {
+			const markets = parseMarketList.call(this, this.getNodeParameter('marketAddresses', index) as string);
+			result = await getMarkets.call(this, markets);
+			break;
+		}
+
+		case 'getPositions': {
+			const markets = parseMarketList.call(this, this.getNodeParameter('marketAddresses', index) as string);
+			const accountAddress = this.getNodeParameter('accountAddress', index, '') as string;
+			result = await getPositions.call(this, markets, accountAddress);
+			break;
+		}
+
+		case 'getSwapQuote': {
+			const marketAddress = this.getNodeParameter('marketAddress', index) as string;
+			if (!validateAddress(marketAddress)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid market address');
+			}
+			const tokenAddress = this.getNodeParameter('tokenAddress', index, '') as string;
+			if (tokenAddress && !validateAddress(tokenAddress)) {
+				throw new NodeOperationError(this.getNode(), 'Invalid token address');
+			}
+			const swapAction = this.getNodeParameter('swapAction', index) as string;
+			const amount = this.getNodeParameter('amount', index) as string;
+			result = await getSwapQuote.call(this, marketAddress, swapAction, tokenAddress, amount);
+			break;
+		}
+
+		default:
+			throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+	}
+
+	return [{ json: result as IDataObject }];
+}
+
+function parseMarketList(this: IExecuteFunctions, value: string): string[] {
+	const markets = value.split(',').map((address) => address.trim()).filter((address) => address.length > 0);
+	if (markets.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'At least one market address is required');
+	}
+	const invalid = markets.find((address) => !validateAddress(address));
+	if (invalid) {
+		throw new NodeOperationError(this.getNode(), `Invalid market address: ${invalid}`);
+	}
+	return markets;
+}
+
+async function getAssetMeta(
+	provider: ethers.Provider,
+	address: string,
+): Promise<{ address: string; symbol: string }> {
+	const known = getTokenByAddress('arbitrumOne', address);
+	if (known) {
+		return { address, symbol: known.symbol };
+	}
+	const token = new ethers.Contract(address, ABIS.ERC20, provider);
+	return { address, symbol: await token.symbol().catch(() => 'Unknown') };
+}
+
+async function tryPrice(getPrice: PriceLookup, address: string, decimals: number): Promise<number | null> {
+	try {
+		return await getPrice(address, decimals);
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Market fields shared by all operations, with prices in USD when the asset can be priced
+ */
+function formatMarket(info: PendleMarketInfo, asset: IDataObject, assetPriceUsd: number | null): IDataObject {
+	const daysToExpiry = info.secondsToExpiry / 86400;
+	return {
+		market: info.market,
+		name: info.name,
+		sy: info.sy,
+		pt: info.pt,
+		yt: info.yt,
+		underlyingAsset: asset,
+		expiry: new Date(info.expiry * 1000).toISOString(),
+		expiryTimestamp: info.expiry,
+		daysToExpiry,
+		isExpired: info.isExpired,
+		expiringSoon: !info.isExpired && daysToExpiry <= EXPIRING_SOON_DAYS,
+		impliedApy: info.impliedApy,
+		ptPriceInAsset: info.ptPriceInAsset,
+		ytPriceInAsset: info.ytPriceInAsset,
+		ptPriceUsd: assetPriceUsd !== null ? info.ptPriceInAsset * assetPriceUsd : null,
+		ytPriceUsd: assetPriceUsd !== null ? info.ytPriceInAsset * assetPriceUsd : null,
+		assetPriceUsd,
+		syExchangeRate: info.syExchangeRate,
+		liquidity: {
+			totalPt: ethers.formatUnits(info.totalPt, info.decimals),
+			totalSy: ethers.formatUnits(info.totalSy, info.decimals),
+			inAsset: info.liquidityInAsset,
+			usd: assetPriceUsd !== null ? info.liquidityInAsset * assetPriceUsd : null,
+		},
+	};
+}
+
+async function readMarket(
+	this: IExecuteFunctions,
+	provider: ethers.Provider,
+	address: string,
+): Promise<PendleMarketInfo> {
+	try {
+		return await getPendleMarketInfo(provider, address);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Could not read Pendle market ${address}: ${(error as Error).message}`,
+		);
+	}
+}
+
+async function getMarkets(
+	this: IExecuteFunctions,
+	marketAddresses: string[],
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const getPrice = createPriceLookup(provider, network);
+
+	const markets = await Promise.all(marketAddresses.map(async (address) => {
+		const info = await readMarket.call(this, provider, address);
+		const [asset, assetPrice] = await Promise.all([
+			getAssetMeta(provider, info.asset),
+			tryPrice(getPrice, info.asset, info.assetDecimals),
+		]);
+		return formatMarket(info, asset, assetPrice);
+	}));
+
+	// Soonest expiry first for expiry-driven workflows
+	markets.sort((a, b) => (a.expiryTimestamp as number) - (b.expiryTimestamp as number));
+
+	return {
+		network: networkConfig.name,
+		protocol: 'Pendle V2',
+		count: markets.length,
+		markets,
+	};
+}
+
+async function getPositions(
+	this: IExecuteFunctions,
+	marketAddresses: string[],
+	accountAddress: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+	const getPrice = createPriceLookup(provider, network);
+
+	if (!accountAddress) {
+		const privateKey = credentials.privateKey as string;
+		if (!privateKey) {
+			throw new NodeOperationError(this.getNode(), 'Account address or private key required');
+		}
+		accountAddress = new ethers.Wallet(privateKey).address;
+	} else if (!validateAddress(accountAddress)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid account address');
+	}
+
+	const infos = await Promise.all(marketAddresses.map((address) => readMarket.call(this, provider, address)));
+	const tokens = infos.flatMap((info) => [info.pt, info.yt, info.market]);
+	const [balances] = await getTokenBalances(provider, [accountAddress], tokens);
+
+	let totalUsd = 0;
+	const positions = await Promise.all(infos.map(async (info, i) => {
+		const [ptBalance, ytBalance, lpBalance] = balances.slice(i * 3, i * 3 + 3);
+		const [asset, assetPrice] = await Promise.all([
+			getAssetMeta(provider, info.asset),
+			tryPrice(getPrice, info.asset, info.assetDecimals),
+		]);
+
+		const pt = Number(ethers.formatUnits(ptBalance, info.decimals));
+		const yt = Number(ethers.formatUnits(ytBalance, info.decimals));
+		const lpShare = info.lpTotalSupply > 0n ? Number(lpBalance) / Number(info.lpTotalSupply) : 0;
+		const ptValue = pt * info.ptPriceInAsset;
+		const ytValue = yt * info.ytPriceInAsset;
+		const lpValue = lpShare * info.liquidityInAsset;
+		const valueUsd = assetPrice !== null ? (ptValue + ytValue + lpValue) * assetPrice : null;
+		totalUsd += valueUsd ?? 0;
+
+		return {
+			...formatMarket(info, asset, assetPrice),
+			balances: {
+				pt: ethers.formatUnits(ptBalance, info.decimals),
+				yt: ethers.formatUnits(ytBalance, info.decimals),
+				lp: ethers.formatUnits(lpBalance, 18),
+				lpSharePercent: lpShare * 100,
+			},
+			valueInAsset: {
+				pt: ptValue,
+				yt: ytValue,
+				lp: lpValue,
+				total: ptValue + ytValue + lpValue,
+			},
+			valueUsd,
+			hasPosition: ptBalance > 0n || ytBalance > 0n || lpBalance > 0n,
+		};
+	}));
+
+	return {
+		network: networkConfig.name,
+		protocol: 'Pendle V2',
+		account: accountAddress,
+		totalValueUsd: totalUsd,
+		positions: positions.filter((position) => position.hasPosition),
+		marketsChecked: positions.length,
+	};
+}
+
+async function getSwapQuote(
+	this: IExecuteFunctions,
+	marketAddress: string,
+	swapAction: string,
+	tokenAddress: string,
+	amount: string,
+): Promise<Record<string, unknown>> {
+	const credentials = await this.getCredentials('arbitrumRpc');
+	const provider = await getProvider(credentials);
+	const network = credentials.network as string;
+	const networkConfig = ARBITRUM_NETWORKS[network] || ARBITRUM_NETWORKS.arbitrumOne;
+
+	const contracts = PENDLE_CONTRACTS[network];
+	if (!contracts) {
+		throw new NodeOperationError(this.getNode(), `Pendle is not configured for network: ${network}`);
+	}
+
+	const info = await readMarket.call(this, provider, marketAddress);
+	if (info.isExpired) {
+		throw new NodeOperationError(this.getNode(), `Market ${info.name} expired; PT redeems 1:1 and YT no longer trades`);
+	}
+
+	const isBuy = swapAction === 'buyPt' || swapAction === 'buyYt';
+	const token = tokenAddress || info.asset;
+	const sy = new ethers.Contract(info.sy, ABIS.PendleSy, provider);
+	const supported: string[] = isBuy ? await sy.getTokensIn() : await sy.getTokensOut();
+	if (!supported.some((address) => address.toLowerCase() === token.toLowerCase())) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${token} cannot be ${isBuy ? 'deposited into' : 'redeemed from'} this market's SY. Supported: ${supported.join(', ')}`,
+		);
+	}
+
+	const tokenDecimals = token === ethers.ZeroAddress
+		? 18
+		: Number(await new ethers.Contract(token, ABIS.ERC20, provider).decimals());
+	const amountIn = ethers.parseUnits(amount, isBuy ? tokenDecimals : info.decimals);
+
+	const routerStatic = new ethers.Contract(contracts.routerStatic, ABIS.PendleRouterStatic, provider);
+	let quote;
+	try {
+		switch (swapAction) {
+			case 'buyPt':
+				quote = await routerStatic.swapExactTokenForPtStatic(marketAddress, token, amountIn);
+				break;
+			case 'sellPt':
+				quote = await routerStatic.swapExactPtForTokenStatic(marketAddress, amountIn, token);
+				break;
+			case 'buyYt':
+				quote = await routerStatic.swapExactTokenForYtStatic(marketAddress, token, amountIn);
+				break;
+			case 'sellYt':
+				quote = await routerStatic.swapExactYtForTokenStatic(marketAddress, amountIn, token);
+				break;
+			default:
+				throw new NodeOperationError(this.getNode(), `Unknown swap: ${swapAction}`);
+		}
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw new NodeOperationError(this.getNode(), `Pendle quote failed: ${(error as Error).message}`);
+	}
+
+	const amountOut: bigint = quote[0];
+	const outDecimals = isBuy ? info.decimals : tokenDecimals;
+	const formattedIn = Number(ethers.formatUnits(amountIn, isBuy ? tokenDecimals : info.decimals));
+	const formattedOut = Number(ethers.formatUnits(amountOut, outDecimals));
+
+	// exchangeRateAfter is asset per PT after the trade: exp(lnImpliedRate * t / year)
+	const exchangeRateAfter = Number(ethers.formatUnits(quote.exchangeRateAfter, 18));
+	const impliedApyAfter = exchangeRateAfter > 0 && info.secondsToExpiry > 0
+		? (Math.pow(exchangeRateAfter, 31536000 / info.secondsToExpiry) - 1) * 100
+		: null;
+
+	return {
+		network: networkConfig.name,
+		protocol: 'Pendle V2',
+		market: marketAddress,
+		marketName: info.name,
+		swap: swapAction,
+		tokenIn: isBuy ? token : (swapAction === 'sellPt' ? info.pt : info.yt),
+		tokenOut: isBuy ? (swapAction === 'buyPt' ? info.pt : info.yt) : token,
+		amountIn: ethers.formatUnits(amountIn, isBuy ? tokenDecimals : info.decimals),
+		amountOut: ethers.formatUnits(amountOut, outDecimals),
+		// Token per PT/YT
+		executionPrice: isBuy ? formattedIn / formattedOut : formattedOut / formattedIn,
+		syFee: ethers.formatUnits(quote.netSyFee, info.decimals),
+		priceImpactPercent: Number(ethers.formatUnits(quote.priceImpact, 18)) * 100,
+		impliedApyBefore: info.impliedApy,
+		impliedApyAfter,
+		expiry: new Date(info.expiry * 1000).toISOString(),
+		router: contracts.router,
+	};
+}
+
+export const pendle = { operations, fields, execute };
@@ -97,6 +97,7 @@ export const ARB_SYS_ABI = [
 	'function myCallersAddressWithoutAliasing() view returns (address)',
 	'function wasMyCallersAddressAliased() view returns (bool)',
 	'function sendTxToL1(address destination, bytes data) payable returns (uint256)',
+	'function withdrawEth(address destination) payable returns (uint256)',
 	// L2 to L1 messaging
 	'function sendMerkleTreeState() view returns (uint256 size, bytes32 root, bytes32[] partials)',
 	// Events
@@ -180,6 +181,33 @@ export const L1_INBOX_ABI = [
 	'event InboxMessageDeliveredFromOrigin(uint256 indexed messageNum)',
 ] as const;
 
+/**
+ * L1 Bridge ABI (message accumulator shared by Inbox and Outbox)
+ */
+export const L1_BRIDGE_ABI = [
+	'function delayedMessageCount() view returns (uint256)',
+	'function sequencerMessageCount() view returns (uint256)',
+	'function activeOutbox() view returns (address)',
+	'function allowedDelayedInboxes(address inbox) view returns (bool)',
+	// Events
+	'event MessageDelivered(uint256 indexed messageIndex, bytes32 indexed beforeInboxAcc, address inbox, uint8 kind, address sender, bytes32 messageDataHash, uint256 baseFeeL1, uint64 timestamp)',
+] as const;
+
+/**
+ * Token Gateway ABI (shared by L1 and L2 standard/custom gateways)
+ */
+export const TOKEN_GATEWAY_ABI = [
+	'function finalizeInboundTransfer(address token, address from, address to, uint256 amount, bytes data) payable',
+	'function calculateL2TokenAddress(address l1Token) view returns (address)',
+	'function counterpartGateway() view returns (address)',
+	'function getOutboundCalldata(address token, address from, address to, uint256 amount, bytes data) view returns (bytes)',
+	// Events
+	'event DepositInitiated(address l1Token, address indexed from, address indexed to, uint256 indexed sequenceNumber, uint256 amount)',
+	'event DepositFinalized(address indexed l1Token, address indexed from, address indexed to, uint256 amount)',
+	'event WithdrawalInitiated(address l1Token, address indexed from, address indexed to, uint256 indexed l2ToL1Id, uint256 exitNum, uint256 amount)',
+	'event WithdrawalFinalized(address l1Token, address indexed from, address indexed to, uint256 indexed exitNum, uint256 amount)',
+] as const;
+
 /**
  * L1 Outbox ABI (for withdrawals)
  */
@@ -193,8 +221,10 @@ export const L1_OUTBOX_ABI = [
 	'function l2ToL1Timestamp() view returns (uint256)',
 	'function l2ToL1BatchNum() view returns (uint256)',
 	'function l2ToL1OutputId() view returns (bytes32)',
+	'function roots(bytes32 sendRoot) view returns (bytes32)',
 	// Events
 	'event OutBoxTransactionExecuted(address indexed to, address indexed l2Sender, uint256 indexed zero, uint256 transactionIndex)',
+	'event SendRootUpdated(bytes32 indexed outputRoot, bytes32 indexed l2BlockHash)',
 ] as const;
 
 /**
@@ -274,6 +304,335 @@ export const UNISWAP_V3_QUOTER_ABI = [
 	'function quoteExactOutput(bytes path, uint256 amountOut) returns (uint256 amountIn, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)',
 ] as const;
 
+/**
+ * Uniswap V3 Factory ABI
+ */
+export const UNISWAP_V3_FACTORY_ABI = [
+	'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)',
+	// Events
+	'event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)',
+] as const;
+
+/**
+ * Uniswap V3 Pool ABI (partial)
+ */
+export const UNISWAP_V3_POOL_ABI = [
+	'function factory() view returns (address)',
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function fee() view returns (uint24)',
+	'function tickSpacing() view returns (int24)',
+	'function liquidity() view returns (uint128)',
+	'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+	'function feeGrowthGlobal0X128() view returns (uint256)',
+	'function feeGrowthGlobal1X128() view returns (uint256)',
+	'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+	'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+	// Events
+	'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+] as const;
+
+/**
+ * Uniswap V3 NonfungiblePositionManager ABI
+ */
+export const UNISWAP_V3_POSITION_MANAGER_ABI = [
+	'function balanceOf(address owner) view returns (uint256)',
+	'function ownerOf(uint256 tokenId) view returns (address)',
+	'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+	'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+	'function mint(tuple(address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, address recipient, uint256 deadline) params) payable returns (uint256 tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+	'function increaseLiquidity(tuple(uint256 tokenId, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params) payable returns (uint128 liquidity, uint256 amount0, uint256 amount1)',
+	'function decreaseLiquidity(tuple(uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params) payable returns (uint256 amount0, uint256 amount1)',
+	'function collect(tuple(uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) params) payable returns (uint256 amount0, uint256 amount1)',
+	'function burn(uint256 tokenId) payable',
+	'function multicall(bytes[] data) payable returns (bytes[] results)',
+	// Events
+	'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+	'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+	'event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)',
+	'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+] as const;
+
+/**
+ * Uniswap V2 style Router ABI (SushiSwap, Camelot)
+ */
+export const UNISWAP_V2_ROUTER_ABI = [
+	'function factory() view returns (address)',
+	'function WETH() view returns (address)',
+	'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+	'function getAmountsIn(uint256 amountOut, address[] path) view returns (uint256[] amounts)',
+	'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+	'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+	'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+] as const;
+
+/**
+ * Camelot V2 Router ABI (fee-on-transfer safe swaps with referrer)
+ */
+export const CAMELOT_ROUTER_ABI = [
+	'function factory() view returns (address)',
+	'function WETH() view returns (address)',
+	'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+	'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, address referrer, uint256 deadline)',
+	'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, address referrer, uint256 deadline) payable',
+	'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, address referrer, uint256 deadline)',
+] as const;
+
+/**
+ * Uniswap V2 style Factory ABI
+ */
+export const UNISWAP_V2_FACTORY_ABI = [
+	'function getPair(address tokenA, address tokenB) view returns (address pair)',
+	'function allPairsLength() view returns (uint256)',
+	// Events
+	'event PairCreated(address indexed token0, address indexed token1, address pair, uint256)',
+] as const;
+
+/**
+ * Uniswap V2 style Pair ABI
+ */
+export const UNISWAP_V2_PAIR_ABI = [
+	'function factory() view returns (address)',
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+	'function totalSupply() view returns (uint256)',
+	// Events
+	'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+] as const;
+
+/**
+ * Camelot V2 Pair ABI (directional fees, optional stable curve)
+ */
+export const CAMELOT_PAIR_ABI = [
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint16 token0FeePercent, uint16 token1FeePercent)',
+	'function getAmountOut(uint256 amountIn, address tokenIn) view returns (uint256)',
+	'function stableSwap() view returns (bool)',
+	'function totalSupply() view returns (uint256)',
+	// Events
+	'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+] as const;
+
+/**
+ * Algebra (Camelot V3) Quoter ABI
+ */
+export const ALGEBRA_QUOTER_ABI = [
+	'function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) returns (uint256 amountOut, uint16 fee)',
+	'function quoteExactOutputSingle(address tokenIn, address tokenOut, uint256 amountOut, uint160 limitSqrtPrice) returns (uint256 amountIn, uint16 fee)',
+] as const;
+
+/**
+ * Algebra (Camelot V3) Swap Router ABI
+ */
+export const ALGEBRA_ROUTER_ABI = [
+	'function exactInputSingle(tuple(address tokenIn, address tokenOut, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 limitSqrtPrice) params) payable returns (uint256 amountOut)',
+	'function exactInputSingleSupportingFeeOnTransferTokens(tuple(address tokenIn, address tokenOut, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 limitSqrtPrice) params) returns (uint256 amountOut)',
+	'function multicall(bytes[] data) payable returns (bytes[] results)',
+	'function unwrapWNativeToken(uint256 amountMinimum, address recipient) payable',
+	'function refundNativeToken() payable',
+] as const;
+
+/**
+ * Algebra (Camelot V3) Pool ABI (partial)
+ */
+export const ALGEBRA_POOL_ABI = [
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function liquidity() view returns (uint128)',
+	'function globalState() view returns (uint160 price, int24 tick, uint16 feeZto, uint16 feeOtz, uint16 timepointIndex, uint8 communityFeeToken0, uint8 communityFeeToken1, bool unlocked)',
+] as const;
+
+/**
+ * Algebra (Camelot V3) Factory ABI
+ */
+export const ALGEBRA_FACTORY_ABI = [
+	'function poolByPair(address tokenA, address tokenB) view returns (address pool)',
+	// Events
+	'event Pool(address indexed token0, address indexed token1, address pool)',
+] as const;
+
+/**
+ * GMX Reader ABI (partial)
+ */
+export const GMX_READER_ABI = [
+	'function getAmountOut(address vault, address tokenIn, address tokenOut, uint256 amountIn) view returns (uint256 amountOutAfterFees, uint256 feeAmount)',
+	'function getMaxAmountIn(address vault, address tokenIn, address tokenOut) view returns (uint256)',
+] as const;
+
+/**
+ * GMX V1 Vault ABI (partial)
+ */
+export const GMX_VAULT_ABI = [
+	// Events
+	'event Swap(address account, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut, uint256 amountOutAfterFees, uint256 feeBasisPoints)',
+] as const;
+
+/**
+ * GMX V2 DataStore ABI (partial)
+ */
+export const GMX_DATA_STORE_ABI = [
+	'function getUint(bytes32 key) view returns (uint256)',
+	'function getInt(bytes32 key) view returns (int256)',
+	'function getAddress(bytes32 key) view returns (address)',
+	'function getBool(bytes32 key) view returns (bool)',
+	'function getAddressCount(bytes32 setKey) view returns (uint256)',
+	'function getAddressValuesAt(bytes32 setKey, uint256 start, uint256 end) view returns (address[])',
+	'function getBytes32Count(bytes32 setKey) view returns (uint256)',
+	'function getBytes32ValuesAt(bytes32 setKey, uint256 start, uint256 end) view returns (bytes32[])',
+] as const;
+
+/**
+ * GMX Reward Tracker ABI (partial)
+ */
+export const GMX_REWARD_TRACKER_ABI = [
+	'function totalSupply() view returns (uint256)',
+	'function tokensPerInterval() view returns (uint256)',
+	'function rewardToken() view returns (address)',
+] as const;
+
+/**
+ * GMX GLP Manager ABI (partial)
+ */
+export const GMX_GLP_MANAGER_ABI = [
+	'function getAumInUsdg(bool maximise) view returns (uint256)',
+] as const;
+
+/**
+ * Camelot Nitro Pool Factory ABI (partial)
+ */
+export const CAMELOT_NITRO_POOL_FACTORY_ABI = [
+	'function nitroPoolsLength() view returns (uint256)',
+	'function getNitroPool(uint256 index) view returns (address)',
+] as const;
+
+/**
+ * Camelot Nitro Pool ABI (partial)
+ */
+export const CAMELOT_NITRO_POOL_ABI = [
+	'function nftPool() view returns (address)',
+	'function rewardsToken1() view returns (address token, uint256 amount, uint256 remainingAmount, uint256 accRewardsPerShare)',
+	'function rewardsToken2() view returns (address token, uint256 amount, uint256 remainingAmount, uint256 accRewardsPerShare)',
+	'function rewardsToken1PerSecond() view returns (uint256)',
+	'function rewardsToken2PerSecond() view returns (uint256)',
+	'function totalDepositAmount() view returns (uint256)',
+	'function settings() view returns (uint256 startTime, uint256 endTime, uint256 harvestStartTime, uint256 depositEndTime, uint256 lockDurationReq, uint256 lockEndReq, uint256 depositAmountReq, bool whitelist, string description)',
+] as const;
+
+/**
+ * Camelot NFT Pool (spNFT) ABI (partial)
+ */
+export const CAMELOT_NFT_POOL_ABI = [
+	'function getPoolInfo() view returns (address lpToken, address grailToken, address xGrailToken, uint256 lastRewardTime, uint256 accRewardsPerShare, uint256 lpSupply, uint256 lpSupplyWithMultiplier, uint256 allocPoint)',
+] as const;
+
+/**
+ * Pendle Market ABI (partial)
+ */
+export const PENDLE_MARKET_ABI = [
+	'function readTokens() view returns (address SY, address PT, address YT)',
+	'function expiry() view returns (uint256)',
+	'function isExpired() view returns (bool)',
+	'function _storage() view returns (int128 totalPt, int128 totalSy, uint96 lastLnImpliedRate, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext)',
+	'function totalSupply() view returns (uint256)',
+	'function balanceOf(address account) view returns (uint256)',
+] as const;
+
+/**
+ * Pendle Standardized Yield (SY) ABI (partial)
+ */
+export const PENDLE_SY_ABI = [
+	'function exchangeRate() view returns (uint256)',
+	'function assetInfo() view returns (uint8 assetType, address assetAddress, uint8 assetDecimals)',
+	'function symbol() view returns (string)',
+	'function decimals() view returns (uint8)',
+	'function getTokensIn() view returns (address[])',
+	'function getTokensOut() view returns (address[])',
+] as const;
+
+/**
+ * Pendle RouterStatic ABI (partial)
+ * Quote functions simulate router swaps and are read with eth_call.
+ */
+export const PENDLE_ROUTER_STATIC_ABI = [
+	'function swapExactTokenForPtStatic(address market, address tokenIn, uint256 netTokenIn) view returns (uint256 netPtOut, uint256 netSyMinted, uint256 netSyFee, uint256 priceImpact, uint256 exchangeRateAfter)',
+	'function swapExactPtForTokenStatic(address market, uint256 exactPtIn, address tokenOut) view returns (uint256 netTokenOut, uint256 netSyToRedeem, uint256 netSyFee, uint256 priceImpact, uint256 exchangeRateAfter)',
+	'function swapExactTokenForYtStatic(address market, address tokenIn, uint256 netTokenIn) view returns (uint256 netYtOut, uint256 netSyMinted, uint256 netSyFee, uint256 priceImpact, uint256 exchangeRateAfter)',
+	'function swapExactYtForTokenStatic(address market, uint256 exactYtIn, address tokenOut) view returns (uint256 netTokenOut, uint256 netSyOut, uint256 netSyFee, uint256 priceImpact, uint256 exchangeRateAfter)',
+] as const;
+
+/**
+ * Curve pool ABI (partial)
+ * Stable pools index coins with int128 in get_dy, crypto pools with uint256
+ */
+export const CURVE_POOL_ABI = [
+	'function coins(uint256 i) view returns (address)',
+	'function balances(uint256 i) view returns (uint256)',
+	'function A() view returns (uint256)',
+	'function gamma() view returns (uint256)',
+	'function fee() view returns (uint256)',
+	'function admin_fee() view returns (uint256)',
+	'function get_virtual_price() view returns (uint256)',
+	'function get_dy(int128 i, int128 j, uint256 dx) view returns (uint256)',
+	'function get_dy(uint256 i, uint256 j, uint256 dx) view returns (uint256)',
+] as const;
+
+/**
+ * Balancer V2 Vault ABI (partial)
+ */
+export const BALANCER_VAULT_ABI = [
+	'function getPool(bytes32 poolId) view returns (address, uint8)',
+	'function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)',
+] as const;
+
+/**
+ * Balancer V2 pool ABI (partial; weights on weighted pools, amplification on stable pools)
+ */
+export const BALANCER_POOL_ABI = [
+	'function getPoolId() view returns (bytes32)',
+	'function name() view returns (string)',
+	'function symbol() view returns (string)',
+	'function totalSupply() view returns (uint256)',
+	'function getSwapFeePercentage() view returns (uint256)',
+	'function getNormalizedWeights() view returns (uint256[])',
+	'function getAmplificationParameter() view returns (uint256 value, bool isUpdating, uint256 precision)',
+] as const;
+
+/**
+ * Aave V3 Pool ABI (partial)
+ */
+export const AAVE_V3_POOL_ABI = [
+	'function getReservesList() view returns (address[])',
+	'function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+	'function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+	'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
+	'function withdraw(address asset, uint256 amount, address to) returns (uint256)',
+	'function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)',
+	'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) returns (uint256)',
+	// Events
+	'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+	'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+	'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+	'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+] as const;
+
+/**
+ * Aave V3 UiPoolDataProvider ABI (partial)
+ */
+export const AAVE_UI_POOL_DATA_PROVIDER_ABI = [
+	'function getReservesList(address provider) view returns (address[])',
+] as const;
+
+/**
+ * Aave V3 Oracle ABI (prices in the market base currency, USD with 8 decimals)
+ */
+export const AAVE_ORACLE_ABI = [
+	'function getAssetPrice(address asset) view returns (uint256)',
+	'function getAssetsPrices(address[] assets) view returns (uint256[])',
+	'function BASE_CURRENCY_UNIT() view returns (uint256)',
+] as const;
+
 /**
  * Chainlink Price Feed ABI
  */
@@ -317,12 +676,43 @@ export const ABIS = {
 	ArbRetryableTx: ARB_RETRYABLE_TX_ABI,
 	NodeInterface: NODE_INTERFACE_ABI,
 	L1Inbox: L1_INBOX_ABI,
+	L1Bridge: L1_BRIDGE_ABI,
 	L1Outbox: L1_OUTBOX_ABI,
+	TokenGateway: TOKEN_GATEWAY_ABI,
 	L1GatewayRouter: L1_GATEWAY_ROUTER_ABI,
 	L2GatewayRouter: L2_GATEWAY_ROUTER_ABI,
 	Multicall3: MULTICALL3_ABI,
+	AaveV3Pool: AAVE_V3_POOL_ABI,
+	AaveUiPoolDataProvider: AAVE_UI_POOL_DATA_PROVIDER_ABI,
+	AaveOracle: AAVE_ORACLE_ABI,
 	UniswapV3Router: UNISWAP_V3_ROUTER_ABI,
 	UniswapV3Quoter: UNISWAP_V3_QUOTER_ABI,
+	UniswapV3Factory: UNISWAP_V3_FACTORY_ABI,
+	UniswapV3Pool: UNISWAP_V3_POOL_ABI,
+	UniswapV3PositionManager: UNISWAP_V3_POSITION_MANAGER_ABI,
+	UniswapV2Router: UNISWAP_V2_ROUTER_ABI,
+	UniswapV2Factory: UNISWAP_V2_FACTORY_ABI,
+	UniswapV2Pair: UNISWAP_V2_PAIR_ABI,
+	CamelotPair: CAMELOT_PAIR_ABI,
+	CamelotRouter: CAMELOT_ROUTER_ABI,
+	AlgebraQuoter: ALGEBRA_QUOTER_ABI,
+	AlgebraRouter: ALGEBRA_ROUTER_ABI,
+	AlgebraPool: ALGEBRA_POOL_ABI,
+	AlgebraFactory: ALGEBRA_FACTORY_ABI,
+	GmxReader: GMX_READER_ABI,
+	GmxVault: GMX_VAULT_ABI,
+	GmxDataStore: GMX_DATA_STORE_ABI,
+	GmxRewardTracker: GMX_REWARD_TRACKER_ABI,
+	GmxGlpManager: GMX_GLP_MANAGER_ABI,
+	CamelotNitroPoolFactory: CAMELOT_NITRO_POOL_FACTORY_ABI,
+	CamelotNitroPool: CAMELOT_NITRO_POOL_ABI,
+	CamelotNftPool: CAMELOT_NFT_POOL_ABI,
+	PendleMarket: PENDLE_MARKET_ABI,
+	PendleSy: PENDLE_SY_ABI,
+	PendleRouterStatic: PENDLE_ROUTER_STATIC_ABI,
+	CurvePool: CURVE_POOL_ABI,
+	BalancerVault: BALANCER_VAULT_ABI,
+	BalancerPool: BALANCER_POOL_ABI,
 	ChainlinkFeed: CHAINLINK_FEED_ABI,
 	ArbWasm: ARB_WASM_ABI,
 } as const;
@@ -234,12 +234,30 @@ export const MESSAGE_STATUS = {
 	REDEEMED: 'REDEEMED',
 	EXPIRED: 'EXPIRED',
 
+	// L1 to L2 (ETH deposits)
+	DEPOSITED: 'DEPOSITED',
+
 	// L2 to L1 (Outbox messages)
 	UNCONFIRMED: 'UNCONFIRMED',
 	CONFIRMED: 'CONFIRMED',
 	EXECUTED: 'EXECUTED',
 } as const;
 
+/**
+ * Delayed inbox message kinds (as emitted in Bridge MessageDelivered)
+ */
+export const L1_MESSAGE_KINDS = {
+	L2_MESSAGE: 3,
+	L2_FUNDED_BY_L1: 7,
+	SUBMIT_RETRYABLE_TX: 9,
+	ETH_DEPOSIT: 12,
+} as const;
+
+/**
+ * Offset applied to L1 contract addresses when they appear as senders on L2
+ */
+export const ADDRESS_ALIAS_OFFSET = '0x1111000000000000000000000000000000001111';
+
 /**
  * Retryable ticket lifecycle status
  */
@@ -92,6 +92,7 @@ export const NETWORKS: Record<Exclude<ArbitrumNetworkId, 'custom'>, NetworkConfi
 			symbol: 'ETH',
 			decimals: 18,
 		},
+		feedUrl: 'wss://nova.arbitrum.io/feed',
 		blockTime: 0.25,
 		confirmations: 1,
 	},
@@ -113,6 +114,7 @@ export const NETWORKS: Record<Exclude<ArbitrumNetworkId, 'custom'>, NetworkConfi
 			symbol: 'ETH',
 			decimals: 18,
 		},
+		feedUrl: 'wss://sepolia-rollup.arbitrum.io/feed',
 		blockTime: 0.25,
 		confirmations: 1,
 	},
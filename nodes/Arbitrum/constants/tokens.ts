@@ -343,9 +343,14 @@ export const DEX_ROUTERS = {
 		uniswapV3Quoter: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
 		uniswapV3QuoterV2: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
 		uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+		uniswapV3PositionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
 		sushiswapRouter: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+		sushiswapFactory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
 		camelotRouter: '0xc873fEcbd354f5A56E00E710B90EF4201db2448d',
 		camelotFactory: '0x6EcCab422D763aC031210895C81787E87B43A652',
+		camelotV3Router: '0x1F721E2E82F6676FCE4eA07A5958cF098D339e18',
+		camelotV3Quoter: '0x0Fc73040b26E9bC8514fA028D998E73A254Fa76E',
+		camelotV3Factory: '0x1a3c9B1d2F0529D97f2afC5136Cc23e58f1FD35B',
 		oneInchRouter: '0x1111111254EEB25477B68fb85Ed929f73A960582',
 		gmxRouter: '0xaBBc5F99639c9B6bCb58544ddf04EFA6802F4064',
 		gmxReader: '0x22199a49A999c351eF7927602CFB187ec3cae489',
@@ -379,6 +384,33 @@ export const CHAINLINK_FEEDS = {
 	},
 } as const;
 
+/**
+ * Chainlink feed heartbeats in seconds: the longest a healthy feed goes without an update
+ */
+export const CHAINLINK_FEED_HEARTBEATS: Record<string, Record<string, number>> = {
+	arbitrumOne: {
+		'ETH/USD': 86400,
+		'BTC/USD': 86400,
+		'ARB/USD': 86400,
+		'LINK/USD': 3600,
+		'USDC/USD': 86400,
+		'USDT/USD': 86400,
+		'DAI/USD': 86400,
+		'GMX/USD': 86400,
+		'UNI/USD': 86400,
+		'SUSHI/USD': 86400,
+		'CRV/USD': 86400,
+		'FRAX/USD': 86400,
+	},
+};
+
+/**
+ * Chainlink L2 Sequencer Uptime Feeds (answer 0 = up, 1 = down)
+ */
+export const CHAINLINK_SEQUENCER_UPTIME_FEEDS: Record<string, string> = {
+	arbitrumOne: '0xFdB631F5EE196F0ed6FAa767959853A9F217697D',
+};
+
 /**
  * Common contract addresses
  */
@@ -406,3 +438,71 @@ export const COMMON_CONTRACTS = {
 		weth: '0x722E8BdD2ce80A4422E880164f2079488e115365',
 	},
 } as const;
+
+/**
+ * Aave V3 market contracts
+ */
+export const AAVE_V3_CONTRACTS: Record<string, {
+	pool: string;
+	poolAddressesProvider: string;
+	uiPoolDataProvider: string;
+	oracle: string;
+}> = {
+	arbitrumOne: {
+		pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+		poolAddressesProvider: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+		uiPoolDataProvider: '0x145dE30c929a065582da84Cf96F88460dB9745A7',
+		oracle: '0xb56c2F0B653B2e0b10C9b928C8580Ac5Df02C7C7',
+	},
+};
+
+/**
+ * GMX V2 (Synthetics) contracts
+ */
+export const GMX_V2_CONTRACTS: Record<string, {
+	dataStore: string;
+}> = {
+	arbitrumOne: {
+		dataStore: '0xFD70de6b91282D8017aA4E741e9Ae325CAb992d8',
+	},
+};
+
+/**
+ * Pendle V2 contracts
+ */
+export const PENDLE_CONTRACTS: Record<string, {
+	router: string;
+	routerStatic: string;
+}> = {
+	arbitrumOne: {
+		router: '0x888888888889758F76e7103c6CbF23ABbF58F946',
+		routerStatic: '0xAdB09F65bd90d19e3148D9ccb693F3161C6DB3E8',
+	},
+};
+
+/**
+ * Staking and reward contracts read for yield farm APRs
+ */
+export const YIELD_FARM_CONTRACTS: Record<string, {
+	gmxStakedGmxTracker: string;
+	gmxFeeGmxTracker: string;
+	gmxStakedGlpTracker: string;
+	gmxFeeGlpTracker: string;
+	gmxGlpManager: string;
+	glp: string;
+	esGmx: string;
+	xGrail: string;
+	camelotNitroPoolFactory: string;
+}> = {
+	arbitrumOne: {
+		gmxStakedGmxTracker: '0x908C4D94D34924765f1eDc22A1DD098397c59dD4',
+		gmxFeeGmxTracker: '0xd2D1162512F927a7e282Ef43a362659E4F50a215',
+		gmxStakedGlpTracker: '0x1aDDD80E6039594eE970E5872D247bf0414C8903',
+		gmxFeeGlpTracker: '0x4e971a87900b931fF39d1Aad67697F49835400b6',
+		gmxGlpManager: '0x3963FfC9dff443c2A94f21b129D429891E32ec18',
+		glp: '0x4277f8F2c384827B5273592A8Ef4Ebb47A7D1e5a',
+		esGmx: '0xf42Ae1D54fd613C9bb14810b0588FaAa09a426cA',
+		xGrail: '0x3CAaE25Ee616f2C8E13C74dA0813402eae3F496b',
+		camelotNitroPoolFactory: '0xe0a6b372Ac6AF4B37c7F3a989Fe5d5b194c24569',
+	},
+};
@@ -10,12 +10,20 @@ import {
 	Wallet,
 	Contract,
 	parseUnits,
+	type ContractTransactionResponse,
 	type TransactionReceipt,
 	ethers,
 } from 'ethers';
 import { ABIS } from '../constants/abis';
-import { getBridgeContracts } from '../constants/bridges';
+import { getBridgeContracts, BRIDGE_DEFAULTS } from '../constants/bridges';
 import type { ArbitrumNetworkId } from '../constants/networks';
+import {
+	getDepositMessagesFromReceipt,
+	getWithdrawalMessagesFromReceipt,
+	type DepositMessage,
+	type WithdrawalMessage,
+} from '../utils/bridgeUtils';
+import { getLatestLogs } from '../utils/logScanUtils';
 
 export type BridgeDirection = 'deposit' | 'withdrawal';
 
@@ -73,6 +81,45 @@ export interface WithdrawalParams {
 	l2Signer: Wallet;
 }
 
+export interface DepositResult {
+	l1TxHash: string;
+	l1TxReceipt: TransactionReceipt;
+	messageNumber?: string;
+	l2TxHash?: string;
+	retryableTicketId?: string;
+	message?: DepositMessage;
+}
+
+export interface WithdrawalResult {
+	l2TxHash: string;
+	l2TxReceipt: TransactionReceipt;
+	position?: string;
+	message?: WithdrawalMessage;
+}
+
+export interface ConfirmedSendState {
+	sendCount: bigint;
+	sendRoot: string;
+	l2BlockHash: string;
+	l1BlockNumber: number;
+}
+
+export interface OutboxProof {
+	position: bigint;
+	l2Sender: string;
+	to: string;
+	l2Block: bigint;
+	l1Block: bigint;
+	l2Timestamp: bigint;
+	value: bigint;
+	data: string;
+	sendCount?: bigint;
+	confirmed: boolean;
+	executed: boolean;
+	proof: string[];
+	root?: string;
+}
+
 export interface RetryableGasEstimate {
 	maxSubmissionCost: bigint;
 	gasLimit: bigint;
@@ -84,6 +131,11 @@ export interface RetryableGasEstimate {
 const ARBSYS_ADDRESS = '0x0000000000000000000000000000000000000064';
 const ARBRETRYABLETX_ADDRESS = '0x000000000000000000000000000000000000006E';
 const NODEINTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8';
+const SEND_ROOT_LOOKUP_CHUNK = 5000;
+const SEND_ROOT_LOOKBACK_BLOCKS = 100000;
+
+/** Latest confirmed send state per outbox, with the L1 block it was looked up at */
+const sendStateCache = new Map<string, { l1Block: number; state: Promise<ConfirmedSendState | null> }>();
 
 function getNetworkIdFromChain(chainId: bigint): ArbitrumNetworkId {
 	switch (Number(chainId)) {
@@ -119,20 +171,30 @@ export async function createErc20Bridger(l2Provider: JsonRpcProvider) {
 	const bridges = getBridgeContracts(networkId);
 
 	return {
-		async deposit(params: { amount: bigint; l1Signer: Wallet; l2Provider: JsonRpcProvider; erc20L1Address: string; destinationAddress?: string }): Promise<TransactionReceipt> {
-			const token = new Contract(params.erc20L1Address, ABIS.ERC20, params.l1Signer);
+		async deposit(params: { amount: bigint; l1Signer: Wallet; l2Provider: JsonRpcProvider; erc20L1Address: string; destinationAddress?: string; maxSubmissionCost?: bigint; gasLimit?: bigint; maxFeePerGas?: bigint }): Promise<TransactionReceipt> {
+			const l1Provider = params.l1Signer.provider as JsonRpcProvider;
 			const signerAddress = await params.l1Signer.getAddress();
-			const allowance = await token.allowance(signerAddress, bridges.l1.gateway);
+			const destination = params.destinationAddress || signerAddress;
+			const router = new Contract(bridges.l1.gatewayRouter, ABIS.L1GatewayRouter, params.l1Signer);
+			// Tokens are pulled by the token's gateway, not by the router
+			const gatewayAddress: string = await router.getGateway(params.erc20L1Address);
+			const token = new Contract(params.erc20L1Address, ABIS.ERC20, params.l1Signer);
+			const allowance = await token.allowance(signerAddress, gatewayAddress);
 			if (allowance < params.amount) {
-				const approveTx = await token.approve(bridges.l1.gateway, params.amount);
+				const approveTx = await token.approve(gatewayAddress, params.amount);
 				await approveTx.wait();
 			}
-			const router = new Contract(bridges.l1.gatewayRouter, ABIS.L1GatewayRouter, params.l1Signer);
-			const gasLimit = 300000n;
-			const maxFeePerGas = 100000000n;
-			const maxSubmissionCost = 10000000000000n;
+			const gateway = new Contract(gatewayAddress, ABIS.TokenGateway, l1Provider);
+			const [l2Gateway, outboundCalldata] = await Promise.all([
+				gateway.counterpartGateway(),
+				gateway.getOutboundCalldata(params.erc20L1Address, signerAddress, destination, params.amount, '0x'),
+			]);
+			const estimate = await estimateRetryableGas(l1Provider, params.l2Provider, l2Gateway, outboundCalldata, 0n, gatewayAddress);
+			const gasLimit = params.gasLimit ?? estimate.gasLimit;
+			const maxFeePerGas = params.maxFeePerGas ?? estimate.maxFeePerGas;
+			const maxSubmissionCost = params.maxSubmissionCost ?? (estimate.maxSubmissionCost * BigInt(Math.floor(BRIDGE_DEFAULTS.submissionCostMultiplier * 100))) / 100n;
 			const tx = await router.outboundTransfer(
-				params.erc20L1Address, params.destinationAddress || signerAddress, params.amount,
+				params.erc20L1Address, destination, params.amount,
 				gasLimit, maxFeePerGas,
 				ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'bytes'], [maxSubmissionCost, '0x']),
 				{ value: maxSubmissionCost + gasLimit * maxFeePerGas }
@@ -158,7 +220,7 @@ export async function createErc20Bridger(l2Provider: JsonRpcProvider) {
 	};
 }
 
-export async function estimateRetryableGas(l1Provider: JsonRpcProvider, l2Provider: JsonRpcProvider, to: string, calldata: string, l2CallValue: bigint = 0n): Promise<RetryableGasEstimate> {
+export async function estimateRetryableGas(l1Provider: JsonRpcProvider, l2Provider: JsonRpcProvider, to: string, calldata: string, l2CallValue: bigint = 0n, from: string = '0x0000000000000000000000000000000000000001'): Promise<RetryableGasEstimate> {
 	const block = await l1Provider.getBlock('latest');
 	const baseFee = block?.baseFeePerGas || parseUnits('30', 'gwei');
 	const calldataBytes = calldata.startsWith('0x') ? (calldata.length - 2) / 2 : calldata.length / 2;
@@ -166,7 +228,8 @@ export async function estimateRetryableGas(l1Provider: JsonRpcProvider, l2Provid
 	const nodeInterface = new Contract(NODEINTERFACE_ADDRESS, ABIS.NodeInterface, l2Provider);
 	let gasLimit: bigint;
 	try {
-		const gasEstimate = await nodeInterface.estimateRetryableTicket('0x0000000000000000000000000000000000000001', 0n, to, l2CallValue, '0x0000000000000000000000000000000000000001', '0x0000000000000000000000000000000000000001', calldata);
+		// NodeInterface aliases the L1 sender itself and only supports gas estimation
+		const gasEstimate = await nodeInterface.estimateRetryableTicket.estimateGas(from, parseUnits('1', 'ether') + l2CallValue, to, l2CallValue, from, from, calldata);
 		gasLimit = BigInt(gasEstimate.toString()) * 150n / 100n;
 	} catch { gasLimit = 300000n; }
 	const l2FeeData = await l2Provider.getFeeData();
@@ -175,34 +238,65 @@ export async function estimateRetryableGas(l1Provider: JsonRpcProvider, l2Provid
 	return { maxSubmissionCost, gasLimit, maxFeePerGas, deposit, totalCost: deposit };
 }
 
-export async function depositEth(params: DepositParams): Promise<{ l1TxHash: string; l1TxReceipt: TransactionReceipt; retryableTicketId?: string }> {
+async function toDepositResult(receipt: TransactionReceipt, l2Provider: JsonRpcProvider): Promise<DepositResult> {
+	const network = await l2Provider.getNetwork();
+	const [message] = getDepositMessagesFromReceipt(getNetworkIdFromChain(network.chainId), receipt, Number(network.chainId));
+	return {
+		l1TxHash: receipt.hash,
+		l1TxReceipt: receipt,
+		messageNumber: message?.messageNumber,
+		l2TxHash: message?.l2TxHash,
+		retryableTicketId: message?.kind === 'retryable' ? message.l2TxHash : undefined,
+		message,
+	};
+}
+
+async function toWithdrawalResult(receipt: TransactionReceipt, l2Provider: JsonRpcProvider): Promise<WithdrawalResult> {
+	const network = await l2Provider.getNetwork();
+	const [message] = getWithdrawalMessagesFromReceipt(getNetworkIdFromChain(network.chainId), receipt);
+	return { l2TxHash: receipt.hash, l2TxReceipt: receipt, position: message?.position, message };
+}
+
+async function getTokenDecimals(tokenAddress: string, provider: JsonRpcProvider | Wallet): Promise<number> {
+	const token = new Contract(tokenAddress, ABIS.ERC20, provider);
+	return Number(await token.decimals());
+}
+
+export async function depositEth(params: DepositParams): Promise<DepositResult> {
 	const amount = parseUnits(params.amount, 18);
 	const bridger = await createEthBridger(params.l2Provider);
 	const receipt = await bridger.deposit({ amount, l1Signer: params.l1Signer, l2Provider: params.l2Provider });
-	let retryableTicketId: string | undefined;
-	const inboxInterface = new ethers.Interface(ABIS.L1Inbox);
-	for (const log of receipt.logs) {
-		try {
-			const parsed = inboxInterface.parseLog({ topics: log.topics as string[], data: log.data });
-			if (parsed && parsed.name === 'InboxMessageDelivered') { retryableTicketId = parsed.args[0]?.toString(); break; }
-		} catch { /* ignored */ }
-	}
-	return { l1TxHash: receipt.hash, l1TxReceipt: receipt, retryableTicketId };
+	return toDepositResult(receipt, params.l2Provider);
 }
 
-export async function depositErc20(params: DepositParams, tokenAddress: string): Promise<{ l1TxHash: string; l1TxReceipt: TransactionReceipt; retryableTicketId?: string }> {
-	const amount = parseUnits(params.amount, 18);
+export async function depositErc20(params: DepositParams, tokenAddress: string): Promise<DepositResult> {
+	const amount = parseUnits(params.amount, await getTokenDecimals(tokenAddress, params.l1Signer));
 	const bridger = await createErc20Bridger(params.l2Provider);
-	const receipt = await bridger.deposit({ amount, l1Signer: params.l1Signer, l2Provider: params.l2Provider, erc20L1Address: tokenAddress, destinationAddress: params.destinationAddress });
-	return { l1TxHash: receipt.hash, l1TxReceipt: receipt };
+	const receipt = await bridger.deposit({
+		amount, l1Signer: params.l1Signer, l2Provider: params.l2Provider, erc20L1Address: tokenAddress, destinationAddress: params.destinationAddress,
+		maxSubmissionCost: params.maxSubmissionCost ? parseUnits(params.maxSubmissionCost, 18) : undefined,
+		gasLimit: params.gasLimit ? BigInt(params.gasLimit) : undefined,
+		maxFeePerGas: params.maxFeePerGas ? parseUnits(params.maxFeePerGas, 'gwei') : undefined,
+	});
+	return toDepositResult(receipt, params.l2Provider);
 }
 
-export async function withdrawEth(params: WithdrawalParams): Promise<{ l2TxHash: string; l2TxReceipt: TransactionReceipt }> {
+export async function withdrawEth(params: WithdrawalParams): Promise<WithdrawalResult> {
 	const amount = parseUnits(params.amount, 18);
 	const l2Provider = params.l2Signer.provider as JsonRpcProvider;
 	const bridger = await createEthBridger(l2Provider);
 	const receipt = await bridger.withdraw({ amount, l2Signer: params.l2Signer, destinationAddress: params.destinationAddress || (await params.l2Signer.getAddress()) });
-	return { l2TxHash: receipt.hash, l2TxReceipt: receipt };
+	return toWithdrawalResult(receipt, l2Provider);
+}
+
+export async function withdrawErc20(params: WithdrawalParams, l2TokenAddress: string): Promise<WithdrawalResult> {
+	const l2Provider = params.l2Signer.provider as JsonRpcProvider;
+	const bridger = await createErc20Bridger(l2Provider);
+	const erc20L1Address = await bridger.getL1ERC20Address({ erc20L2Address: l2TokenAddress, l2Provider });
+	if (erc20L1Address === ethers.ZeroAddress) throw new Error(`Cannot determine L1 address for token ${l2TokenAddress}`);
+	const amount = parseUnits(params.amount, await getTokenDecimals(l2TokenAddress, l2Provider));
+	const receipt = await bridger.withdraw({ amount, l2Signer: params.l2Signer, erc20L1Address, destinationAddress: params.destinationAddress });
+	return toWithdrawalResult(receipt, l2Provider);
 }
 
 export async function getL1ToL2MessageStatus(l1TxHash: string, l1Provider: JsonRpcProvider, l2Provider: JsonRpcProvider): Promise<RetryableTicketInfo[]> {
@@ -252,16 +346,87 @@ export async function getL2ToL1MessageStatus(l2TxHash: string, l2Provider: JsonR
 	const networkId = getNetworkIdFromChain(network.chainId);
 	const bridges = getBridgeContracts(networkId);
 	const outbox = new Contract(bridges.l1.outbox, ABIS.L1Outbox, l1Provider);
+	const sendState = await getLatestConfirmedSendState(l1Provider, l2Provider);
 	for (const withdrawalId of withdrawalIds) {
 		try {
 			const isSpent = await outbox.isSpent(withdrawalId);
 			if (isSpent) results.push({ l2TxHash, status: L2ToL1MessageStatus.EXECUTED, statusName: 'EXECUTED', canExecute: false, indexInBatch: withdrawalId });
-			else results.push({ l2TxHash, status: L2ToL1MessageStatus.CONFIRMED, statusName: 'CONFIRMED', canExecute: true, indexInBatch: withdrawalId });
+			else if (sendState && withdrawalId < sendState.sendCount) results.push({ l2TxHash, status: L2ToL1MessageStatus.CONFIRMED, statusName: 'CONFIRMED', canExecute: true, indexInBatch: withdrawalId });
+			else results.push({ l2TxHash, status: L2ToL1MessageStatus.UNCONFIRMED, statusName: 'UNCONFIRMED', canExecute: false, indexInBatch: withdrawalId });
 		} catch { results.push({ l2TxHash, status: L2ToL1MessageStatus.UNCONFIRMED, statusName: 'UNCONFIRMED', canExecute: false, indexInBatch: withdrawalId }); }
 	}
 	return results;
 }
 
+export async function getLatestConfirmedSendState(l1Provider: JsonRpcProvider, l2Provider: JsonRpcProvider): Promise<ConfirmedSendState | null> {
+	const network = await l2Provider.getNetwork();
+	const outbox = getBridgeContracts(getNetworkIdFromChain(network.chainId)).l1.outbox;
+	const latestBlock = await l1Provider.getBlockNumber();
+	// Status and claim calls of one poll or execution share a scan until the L1 head moves
+	const key = outbox.toLowerCase();
+	const cached = sendStateCache.get(key);
+	if (cached?.l1Block === latestBlock) return cached.state;
+	const state = findLatestConfirmedSendState(l1Provider, l2Provider, outbox, latestBlock);
+	sendStateCache.set(key, { l1Block: latestBlock, state });
+	state.catch(() => { if (sendStateCache.get(key)?.state === state) sendStateCache.delete(key); });
+	return state;
+}
+
+async function findLatestConfirmedSendState(l1Provider: JsonRpcProvider, l2Provider: JsonRpcProvider, outbox: string, latestBlock: number): Promise<ConfirmedSendState | null> {
+	const outboxInterface = new ethers.Interface(ABIS.L1Outbox);
+	const topic = outboxInterface.getEvent('SendRootUpdated')!.topicHash;
+	// The rollup pushes a send root into the outbox on every assertion confirmation; the newest one found wins
+	const fromBlock = Math.max(0, latestBlock - SEND_ROOT_LOOKBACK_BLOCKS + 1);
+	const logs = await getLatestLogs(l1Provider, { address: outbox, topics: [topic] }, fromBlock, latestBlock, SEND_ROOT_LOOKUP_CHUNK);
+	if (logs.length === 0) return null;
+	const latest = logs[logs.length - 1];
+	// Arbitrum nodes expose sendCount on the raw block only
+	const l2Block = await l2Provider.send('eth_getBlockByHash', [latest.topics[2], false]);
+	if (!l2Block?.sendCount) return null;
+	return { sendCount: BigInt(l2Block.sendCount), sendRoot: latest.topics[1], l2BlockHash: latest.topics[2], l1BlockNumber: latest.blockNumber };
+}
+
+export async function getOutboxProofs(l2TxHash: string, l2Provider: JsonRpcProvider, l1Provider: JsonRpcProvider): Promise<OutboxProof[]> {
+	const receipt = await l2Provider.getTransactionReceipt(l2TxHash);
+	if (!receipt) throw new Error(`Transaction ${l2TxHash} not found`);
+	const network = await l2Provider.getNetwork();
+	const networkId = getNetworkIdFromChain(network.chainId);
+	const messages = getWithdrawalMessagesFromReceipt(networkId, receipt);
+	if (messages.length === 0) return [];
+	const bridges = getBridgeContracts(networkId);
+	const outbox = new Contract(bridges.l1.outbox, ABIS.L1Outbox, l1Provider);
+	const nodeInterface = new Contract(NODEINTERFACE_ADDRESS, ABIS.NodeInterface, l2Provider);
+	const sendState = await getLatestConfirmedSendState(l1Provider, l2Provider);
+	const proofs: OutboxProof[] = [];
+	for (const message of messages) {
+		const position = BigInt(message.position);
+		const confirmed = !!sendState && position < sendState.sendCount;
+		const executed: boolean = await outbox.isSpent(position);
+		let proof: string[] = [];
+		let root: string | undefined;
+		if (confirmed && !executed) {
+			const result = await nodeInterface.constructOutboxProof(sendState.sendCount, position);
+			proof = [...result.proof];
+			root = result.root;
+		}
+		proofs.push({
+			position, l2Sender: message.caller, to: message.destination,
+			l2Block: BigInt(message.arbBlockNum), l1Block: BigInt(message.ethBlockNum), l2Timestamp: BigInt(message.timestamp),
+			value: BigInt(message.value), data: message.data,
+			sendCount: sendState?.sendCount, confirmed, executed, proof, root,
+		});
+	}
+	return proofs;
+}
+
+export async function executeOutboxTransaction(proof: OutboxProof, l1Signer: Wallet, networkId: ArbitrumNetworkId, overrides: Record<string, unknown> = {}): Promise<ContractTransactionResponse> {
+	if (!proof.confirmed) throw new Error(`L2 to L1 message ${proof.position} is not confirmed yet`);
+	if (proof.executed) throw new Error(`L2 to L1 message ${proof.position} was already executed`);
+	const bridges = getBridgeContracts(networkId);
+	const outbox = new Contract(bridges.l1.outbox, ABIS.L1Outbox, l1Signer);
+	return await outbox.executeTransaction(proof.proof, proof.position, proof.l2Sender, proof.to, proof.l2Block, proof.l1Block, proof.l2Timestamp, proof.value, proof.data, overrides);
+}
+
 export async function redeemRetryableTicket(ticketId: string, l2Signer: Wallet): Promise<{ txHash: string; receipt: TransactionReceipt }> {
 	const arbRetryableTx = new Contract(ARBRETRYABLETX_ADDRESS, ['function redeem(bytes32 ticketId) returns (bytes32)'], l2Signer);
 	const tx = await arbRetryableTx.redeem(ticketId);
@@ -0,0 +1,218 @@
+/**
+ * Arbitrum WebSocket Transport
+ *
+ * Keeps WebSocket connections open for push subscriptions: an ethers.js WebSocketProvider
+ * for JSON-RPC subscriptions, and a raw socket for the sequencer feed. Neither reconnects
+ * on its own, so a closed or failed socket is replaced after an exponential backoff, and
+ * so is a silent one where silence means a dead connection.
+ */
+
+import { WebSocketProvider, type WebSocketLike } from 'ethers';
+import WebSocket from 'ws';
+
+/** The sequencer feed broadcasts every few hundred ms, so a silent feed is a dead connection */
+const FEED_IDLE_TIMEOUT = 30000;
+
+/**
+ * Reconnect behaviour shared by all WebSocket connections
+ */
+export interface ReconnectOptions {
+	/** Called when a connection is dropped, before the next attempt is scheduled */
+	onDisconnect?: (error: Error, attempt: number, delay: number) => void;
+	/**
+	 * Reconnect when no message arrives for this many ms; 0 disables the check
+	 * Off by default for JSON-RPC, where a log subscription can be quiet for a long time;
+	 * the sequencer feed defaults to FEED_IDLE_TIMEOUT.
+	 */
+	idleTimeout?: number;
+	/** First reconnect delay in ms, doubled per failed attempt */
+	minDelay?: number;
+	/** Longest reconnect delay in ms */
+	maxDelay?: number;
+}
+
+/**
+ * Reconnecting WebSocket provider options
+ */
+export interface ReconnectingWebSocketOptions extends ReconnectOptions {
+	url: string;
+	/** Set up subscriptions on a new provider; a rejection counts as a failed connection */
+	onConnect: (provider: WebSocketProvider) => Promise<void>;
+}
+
+/**
+ * Sequencer feed connection options
+ */
+export interface SequencerFeedOptions extends ReconnectOptions {
+	url: string;
+	/** Request headers per connection attempt, e.g. the sequence number to resume from */
+	headers?: () => Record<string, string>;
+	/** Called with every text message */
+	onMessage: (data: string) => void;
+}
+
+/**
+ * Handle to a reconnecting WebSocket connection
+ */
+export interface ReconnectingWebSocket {
+	/** Settles with the first connection attempt: resolves once it is set up, rejects with its error */
+	ready: Promise<void>;
+	/** Drop the current connection and reconnect, e.g. after a processing error */
+	reconnect(error: Error): void;
+	close(): Promise<void>;
+}
+
+type ClosableWebSocket = WebSocketLike & { onclose?: null | ((...args: unknown[]) => unknown) };
+
+interface Connector<T> {
+	open(): T;
+	socket(connection: T): ClosableWebSocket;
+	/** Resolves once the connection is usable */
+	setup(connection: T): Promise<void>;
+	destroy(connection: T): Promise<void>;
+}
+
+/**
+ * Backoff before reconnect attempt `attempt` (0-based)
+ */
+export function getReconnectDelay(attempt: number, minDelay: number, maxDelay: number): number {
+	return Math.min(maxDelay, minDelay * 2 ** attempt);
+}
+
+function keepConnected<T>(options: ReconnectOptions, connector: Connector<T>): ReconnectingWebSocket {
+	const { onDisconnect, idleTimeout = 0, minDelay = 1000, maxDelay = 60000 } = options;
+
+	let current: T | undefined;
+	let connection = 0;
+	let attempt = 0;
+	let closed = false;
+	let retryTimer: NodeJS.Timeout | undefined;
+	let idleTimer: NodeJS.Timeout | undefined;
+	let settled = false;
+	let markReady: () => void = () => undefined;
+	let markFailed: (error: Error) => void = () => undefined;
+	const ready = new Promise<void>((resolve, reject) => {
+		markReady = resolve;
+		markFailed = reject;
+	});
+	// Only manual runs wait for the first attempt; later failures are retried
+	ready.catch(() => undefined);
+
+	const teardown = async () => {
+		clearTimeout(idleTimer);
+		const previous = current;
+		current = undefined;
+		if (previous) {
+			await connector.destroy(previous);
+		}
+	};
+
+	const fail = (id: number, error: Error) => {
+		// Ignore late errors of connections that were already replaced
+		if (closed || id !== connection) {
+			return;
+		}
+		connection++;
+		void teardown().catch(() => undefined);
+		if (!settled) {
+			settled = true;
+			markFailed(error);
+		}
+
+		const delay = getReconnectDelay(attempt, minDelay, maxDelay);
+		attempt++;
+		onDisconnect?.(error, attempt, delay);
+		retryTimer = setTimeout(() => void connect(), delay);
+	};
+
+	const connect = async () => {
+		if (closed) {
+			return;
+		}
+		const id = ++connection;
+		const touch = () => {
+			clearTimeout(idleTimer);
+			if (idleTimeout > 0) {
+				idleTimer = setTimeout(() => fail(id, new Error(`No WebSocket message for ${idleTimeout / 1000}s`)), idleTimeout);
+			}
+		};
+
+		try {
+			const opened = connector.open();
+			current = opened;
+
+			const socket = connector.socket(opened);
+			const handleMessage = socket.onmessage;
+			socket.onmessage = (...args: unknown[]) => {
+				touch();
+				return handleMessage?.(...args);
+			};
+			socket.onerror = (error: unknown) => fail(id, new Error(`WebSocket error: ${(error as Error)?.message ?? error}`));
+			socket.onclose = () => fail(id, new Error('WebSocket closed'));
+
+			touch();
+			await connector.setup(opened);
+			if (id === connection) {
+				attempt = 0;
+				settled = true;
+				markReady();
+			}
+		} catch (error) {
+			fail(id, error as Error);
+		}
+	};
+
+	void connect();
+
+	return {
+		ready,
+		reconnect: (error: Error) => fail(connection, error),
+		close: async () => {
+			closed = true;
+			connection++;
+			clearTimeout(retryTimer);
+			await teardown();
+		},
+	};
+}
+
+/**
+ * Open a WebSocket provider that reconnects with backoff until closed
+ */
+export function openReconnectingWebSocket(options: ReconnectingWebSocketOptions): ReconnectingWebSocket {
+	return keepConnected<WebSocketProvider>(options, {
+		open: () => new WebSocketProvider(options.url),
+		socket: (provider) => provider.websocket as ClosableWebSocket,
+		setup: (provider) => options.onConnect(provider),
+		destroy: (provider) => provider.destroy(),
+	});
+}
+
+/**
+ * Open a raw WebSocket to an Arbitrum sequencer feed that reconnects with backoff until closed
+ */
+export function openSequencerFeed(options: SequencerFeedOptions): ReconnectingWebSocket {
+	return keepConnected<WebSocket>({ ...options, idleTimeout: options.idleTimeout ?? FEED_IDLE_TIMEOUT }, {
+		open: () => {
+			const socket = new WebSocket(options.url, { headers: options.headers?.() });
+			socket.onmessage = (message: { data: unknown }) => {
+				if (typeof message.data === 'string') {
+					options.onMessage(message.data);
+				}
+			};
+			return socket;
+		},
+		socket: (socket) => socket,
+		setup: (socket) => new Promise<void>((resolve, reject) => {
+			if (socket.readyState === WebSocket.OPEN) {
+				resolve();
+				return;
+			}
+			socket.onopen = () => resolve();
+			// Listeners besides the on* handlers keepConnected installs
+			socket.once('error', (error) => reject(new Error(`WebSocket error: ${error.message}`)));
+			socket.once('close', () => reject(new Error('WebSocket closed before it opened')));
+		}),
+		destroy: async (socket) => socket.terminate(),
+	});
+}
@@ -0,0 +1,378 @@
+/**
+ * Block Event Utilities for Arbitrum
+ * Block and log events shared by the polling and WebSocket triggers
+ */
+
+import { ethers } from 'ethers';
+import type { Block, Filter, Log, Provider } from 'ethers';
+import type { IDataObject } from 'n8n-workflow';
+import {
+	createChainlinkPriceLookup,
+	decodeSwapLogs,
+	getSwapTopics,
+	getSwapUsdValue,
+	matchesSwapDex,
+} from './swapEventUtils';
+import { DEFAULT_BLOCK_CONCURRENCY, getBlocksInRange, getLogsChunked } from './logScanUtils';
+
+/** Events read from whole blocks */
+export const BLOCK_EVENTS = ['newBlock', 'addressActivity', 'largeTransaction'];
+
+/** Events read from logs */
+export const LOG_EVENTS = ['tokenTransfer', 'nftTransfer', 'contractEvent', 'largeSwap'];
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+/**
+ * Chain and provider events are read from
+ */
+export interface BlockEventSource {
+	provider: Provider;
+	/** Network id, used for token and price lookups */
+	network: string;
+	/** Display name put on every event */
+	networkName: string;
+}
+
+/**
+ * Trigger parameters used by block and log events
+ */
+export interface BlockEventParams {
+	address: string;
+	filterDirection: string;
+	tokenAddress: string;
+	collectionAddress: string;
+	contractAddress: string;
+	eventName: string;
+	abi: string;
+	threshold: number;
+	swapThresholdUsd: number;
+	dex: string;
+}
+
+/**
+ * Read block event parameters through a node's getNodeParameter
+ */
+export function readBlockEventParams(getParameter: (name: string, fallback: unknown) => unknown): BlockEventParams {
+	const param = <T>(name: string, fallback: T) => getParameter(name, fallback) as T;
+	return {
+		address: param('address', ''),
+		filterDirection: param('filterDirection', 'both'),
+		tokenAddress: param('tokenAddress', ''),
+		collectionAddress: param('collectionAddress', ''),
+		contractAddress: param('contractAddress', ''),
+		eventName: param('eventName', ''),
+		abi: param('abi', ''),
+		threshold: param('threshold', 10),
+		swapThresholdUsd: param('swapThresholdUsd', 100000),
+		dex: param('dex', 'all'),
+	};
+}
+
+function matchesDirection(params: BlockEventParams, from: string, to: string | null): boolean {
+	const address = params.address.toLowerCase();
+	const isIncoming = to?.toLowerCase() === address;
+	const isOutgoing = from.toLowerCase() === address;
+	return (
+		(params.filterDirection === 'both' && (isIncoming || isOutgoing)) ||
+		(params.filterDirection === 'incoming' && isIncoming) ||
+		(params.filterDirection === 'outgoing' && isOutgoing)
+	);
+}
+
+function parseEventAbi(params: BlockEventParams): { iface?: ethers.Interface; eventTopic?: string } {
+	if (!params.abi) {
+		return {};
+	}
+	try {
+		const iface = new ethers.Interface(JSON.parse(params.abi));
+		return { iface, eventTopic: params.eventName ? iface.getEvent(params.eventName)?.topicHash : undefined };
+	} catch (e) {
+		// Invalid ABI
+		return {};
+	}
+}
+
+/**
+ * Events of a block-based trigger event found in one block
+ * addressActivity and largeTransaction need the block fetched with its transactions.
+ */
+export function formatBlockEvents(
+	source: BlockEventSource,
+	event: string,
+	params: BlockEventParams,
+	block: Block,
+): IDataObject[] {
+	if (event === 'newBlock') {
+		return [{
+			network: source.networkName,
+			blockNumber: block.number,
+			blockHash: block.hash,
+			timestamp: block.timestamp,
+			timestampDate: new Date(Number(block.timestamp) * 1000).toISOString(),
+			gasLimit: block.gasLimit.toString(),
+			gasUsed: block.gasUsed.toString(),
+			baseFeePerGas: block.baseFeePerGas?.toString(),
+			transactionCount: block.transactions.length,
+		}];
+	}
+
+	const items: IDataObject[] = [];
+	if (event === 'addressActivity') {
+		for (const tx of block.prefetchedTransactions) {
+			if (matchesDirection(params, tx.from, tx.to)) {
+				items.push({
+					network: source.networkName,
+					type: tx.to?.toLowerCase() === params.address.toLowerCase() ? 'incoming' : 'outgoing',
+					transactionHash: tx.hash,
+					from: tx.from,
+					to: tx.to,
+					value: ethers.formatEther(tx.value),
+					valueWei: tx.value.toString(),
+					blockNumber: tx.blockNumber,
+					timestamp: block.timestamp,
+				});
+			}
+		}
+	} else if (event === 'largeTransaction') {
+		const thresholdWei = ethers.parseEther(params.threshold.toString());
+		for (const tx of block.prefetchedTransactions) {
+			if (tx.value >= thresholdWei) {
+				items.push({
+					network: source.networkName,
+					type: 'largeTransaction',
+					transactionHash: tx.hash,
+					from: tx.from,
+					to: tx.to,
+					value: ethers.formatEther(tx.value),
+					valueWei: tx.value.toString(),
+					threshold: params.threshold,
+					blockNumber: tx.blockNumber,
+					timestamp: block.timestamp,
+				});
+			}
+		}
+	}
+	return items;
+}
+
+/**
+ * getLogs / eth_subscribe filter of a log-based trigger event, without a block range
+ */
+export function getEventLogFilter(event: string, params: BlockEventParams): Filter {
+	switch (event) {
+		case 'tokenTransfer':
+			return params.tokenAddress ? { address: params.tokenAddress, topics: [TRANSFER_TOPIC] } : { topics: [TRANSFER_TOPIC] };
+		case 'nftTransfer':
+			return params.collectionAddress
+				? { address: params.collectionAddress, topics: [TRANSFER_TOPIC] }
+				: { topics: [TRANSFER_TOPIC] };
+		case 'contractEvent': {
+			const { eventTopic } = parseEventAbi(params);
+			return eventTopic ? { address: params.contractAddress, topics: [eventTopic] } : { address: params.contractAddress };
+		}
+		case 'largeSwap': {
+			const filter: Filter = { topics: [getSwapTopics(params.dex)] };
+			if (params.contractAddress) {
+				filter.address = params.contractAddress;
+			}
+			return filter;
+		}
+		default:
+			throw new Error(`Event ${event} is not read from logs`);
+	}
+}
+
+/**
+ * Turn logs matched by getEventLogFilter into trigger events, applying the filters logs cannot express
+ */
+export async function formatEventLogs(
+	source: BlockEventSource,
+	event: string,
+	params: BlockEventParams,
+	logs: Log[],
+): Promise<IDataObject[]> {
+	const { provider, network, networkName } = source;
+	const items: IDataObject[] = [];
+
+	if (event === 'tokenTransfer') {
+		for (const log of logs) {
+			// ERC-20 Transfer has 3 topics; ERC-721 puts the token ID in a fourth
+			if (log.topics.length !== 3) {
+				continue;
+			}
+			const from = '0x' + log.topics[1].slice(26);
+			const to = '0x' + log.topics[2].slice(26);
+			if (params.address && !matchesDirection(params, from, to)) {
+				continue;
+			}
+
+			// Decode amount
+			const amount = BigInt(log.data);
+
+			// Get token info
+			let symbol = 'Unknown';
+			let decimals = 18;
+			try {
+				const tokenContract = new ethers.Contract(
+					log.address,
+					['function symbol() view returns (string)', 'function decimals() view returns (uint8)'],
+					provider
+				);
+				[symbol, decimals] = await Promise.all([
+					tokenContract.symbol(),
+					tokenContract.decimals(),
+				]);
+			} catch (e) {
+				// Use defaults
+			}
+
+			items.push({
+				network: networkName,
+				type: 'ERC20Transfer',
+				tokenAddress: log.address,
+				tokenSymbol: symbol,
+				from,
+				to,
+				amount: ethers.formatUnits(amount, decimals),
+				amountWei: amount.toString(),
+				transactionHash: log.transactionHash,
+				blockNumber: log.blockNumber,
+				logIndex: log.index,
+			});
+		}
+	} else if (event === 'nftTransfer') {
+		for (const log of logs) {
+			// ERC-721 has 4 topics (event sig + 3 indexed params)
+			if (log.topics.length !== 4) {
+				continue;
+			}
+			const from = '0x' + log.topics[1].slice(26);
+			const to = '0x' + log.topics[2].slice(26);
+			const tokenId = BigInt(log.topics[3]);
+			if (params.address && !matchesDirection(params, from, to)) {
+				continue;
+			}
+
+			// Get collection info
+			let name = 'Unknown';
+			let symbol = 'Unknown';
+			try {
+				const nftContract = new ethers.Contract(
+					log.address,
+					['function name() view returns (string)', 'function symbol() view returns (string)'],
+					provider
+				);
+				[name, symbol] = await Promise.all([
+					nftContract.name(),
+					nftContract.symbol(),
+				]);
+			} catch (e) {
+				// Use defaults
+			}
+
+			items.push({
+				network: networkName,
+				type: 'ERC721Transfer',
+				collectionAddress: log.address,
+				collectionName: name,
+				collectionSymbol: symbol,
+				from,
+				to,
+				tokenId: tokenId.toString(),
+				transactionHash: log.transactionHash,
+				blockNumber: log.blockNumber,
+				logIndex: log.index,
+			});
+		}
+	} else if (event === 'contractEvent') {
+		const { iface } = parseEventAbi(params);
+		for (const log of logs) {
+			let decoded: Record<string, unknown> = {};
+
+			if (iface) {
+				try {
+					const parsed = iface.parseLog({ data: log.data, topics: log.topics as string[] });
+					if (parsed) {
+						decoded = {
+							eventName: parsed.name,
+							args: Object.fromEntries(
+								parsed.fragment.inputs.map((input, i) => [
+									input.name || `arg${i}`,
+									typeof parsed.args[i] === 'bigint'
+										? parsed.args[i].toString()
+										: parsed.args[i],
+								])
+							),
+						};
+					}
+				} catch (e) {
+					// Decoding failed
+				}
+			}
+
+			items.push({
+				network: networkName,
+				contractAddress: log.address,
+				transactionHash: log.transactionHash,
+				blockNumber: log.blockNumber,
+				logIndex: log.index,
+				topics: log.topics,
+				data: log.data,
+				...decoded,
+			});
+		}
+	} else if (event === 'largeSwap') {
+		const swaps = (await decodeSwapLogs(provider, network, logs))
+			.filter((swap) => matchesSwapDex(swap.dex, params.dex));
+		const getPrice = createChainlinkPriceLookup(provider, network);
+
+		for (const swap of swaps) {
+			const valueUsd = await getSwapUsdValue(swap, getPrice);
+			if (valueUsd === null || valueUsd < params.swapThresholdUsd) {
+				continue;
+			}
+			items.push({
+				network: networkName,
+				type: 'largeSwap',
+				dex: swap.dexName,
+				poolAddress: swap.pool,
+				sender: swap.sender,
+				recipient: swap.recipient,
+				tokenIn: { ...swap.tokenIn },
+				tokenOut: { ...swap.tokenOut },
+				amountIn: ethers.formatUnits(swap.amountIn, swap.tokenIn.decimals),
+				amountOut: ethers.formatUnits(swap.amountOut, swap.tokenOut.decimals),
+				valueUsd,
+				thresholdUsd: params.swapThresholdUsd,
+				transactionHash: swap.transactionHash,
+				blockNumber: swap.blockNumber,
+				logIndex: swap.logIndex,
+			});
+		}
+	}
+
+	return items;
+}
+
+/**
+ * All events of a block or log trigger event in a block range
+ */
+export async function scanBlockEvents(
+	source: BlockEventSource,
+	event: string,
+	params: BlockEventParams,
+	fromBlock: number,
+	toBlock: number,
+	blockConcurrency = DEFAULT_BLOCK_CONCURRENCY,
+): Promise<IDataObject[]> {
+	if (fromBlock > toBlock) {
+		return [];
+	}
+	if (BLOCK_EVENTS.includes(event)) {
+		const blocks = await getBlocksInRange(source.provider, fromBlock, toBlock, event !== 'newBlock', blockConcurrency);
+		return blocks.flatMap((block) => formatBlockEvents(source, event, params, block));
+	}
+	const logs = await getLogsChunked(source.provider, getEventLogFilter(event, params), fromBlock, toBlock);
+	return formatEventLogs(source, event, params, logs);
+}
@@ -3,10 +3,18 @@
  * Helper functions for L1 <-> L2 bridging operations
  */
 
-import { ethers, JsonRpcProvider, Signer, Contract } from 'ethers';
+import { ethers, JsonRpcProvider, Contract } from 'ethers';
+import type { Log, TransactionReceipt } from 'ethers';
 import { ABIS } from '../constants/abis';
-import { getBridgeContracts, MESSAGE_STATUS, BRIDGE_DEFAULTS } from '../constants/bridges';
+import {
+	getBridgeContracts,
+	MESSAGE_STATUS,
+	BRIDGE_DEFAULTS,
+	L1_MESSAGE_KINDS,
+	ADDRESS_ALIAS_OFFSET,
+} from '../constants/bridges';
 import type { ArbitrumNetworkId } from '../constants/networks';
+import { getLogsChunked } from './logScanUtils';
 
 /**
  * Deposit status information
@@ -38,6 +46,7 @@ export interface WithdrawalStatus {
 	timestamp?: number;
 	challengePeriodEnd?: number;
 	outboxEntry?: string;
+	position?: bigint;
 	batchNumber?: bigint;
 	indexInBatch?: bigint;
 	proof?: string[];
@@ -335,6 +344,7 @@ export async function checkWithdrawalStatus(
 	let l2ToL1Info: {
 		to: string;
 		amount: bigint;
+		position?: bigint;
 		batchNumber: bigint;
 		indexInBatch: bigint;
 	} | null = null;
@@ -350,6 +360,7 @@ export async function checkWithdrawalStatus(
 				l2ToL1Info = {
 					to: parsed.args.destination ?? parsed.args.to,
 					amount: parsed.args.callvalue ?? parsed.args.value ?? 0n,
+					position: parsed.name === 'L2ToL1Tx' ? parsed.args.position : undefined,
 					batchNumber: parsed.args.batchNumber ?? 0n,
 					indexInBatch: parsed.args.indexInBatch ?? 0n,
 				};
@@ -383,7 +394,8 @@ export async function checkWithdrawalStatus(
 	const outbox = new Contract(bridges.l1.outbox, ABIS.L1Outbox, l1Provider);
 	
 	try {
-		const isSpent = await outbox.isSpent(l2ToL1Info.indexInBatch);
+		// Nitro outboxes index spent messages by their L2ToL1Tx position
+		const isSpent = await outbox.isSpent(l2ToL1Info.position ?? l2ToL1Info.indexInBatch);
 		
 		if (isSpent) {
 			return {
@@ -392,6 +404,7 @@ export async function checkWithdrawalStatus(
 				amount: l2ToL1Info.amount.toString(),
 				from: l2Receipt.from,
 				to: l2ToL1Info.to,
+				position: l2ToL1Info.position,
 				batchNumber: l2ToL1Info.batchNumber,
 				indexInBatch: l2ToL1Info.indexInBatch,
 			};
@@ -408,6 +421,7 @@ export async function checkWithdrawalStatus(
 			from: l2Receipt.from,
 			to: l2ToL1Info.to,
 			challengePeriodEnd: challengeStatus.endTimestamp,
+			position: l2ToL1Info.position,
 			batchNumber: l2ToL1Info.batchNumber,
 			indexInBatch: l2ToL1Info.indexInBatch,
 		};
@@ -420,11 +434,20 @@ export async function checkWithdrawalStatus(
 		from: l2Receipt.from,
 		to: l2ToL1Info.to,
 		challengePeriodEnd: challengeStatus.endTimestamp,
+		position: l2ToL1Info.position,
 		batchNumber: l2ToL1Info.batchNumber,
 		indexInBatch: l2ToL1Info.indexInBatch,
 	};
 }
 
+/**
+ * Challenge period length: 7 days for mainnet, 1 hour for testnet
+ */
+function getChallengePeriodSeconds(network: ArbitrumNetworkId): number {
+	const isTestnet = network === 'arbitrumSepolia' || network === 'arbitrumGoerli';
+	return isTestnet ? 3600 : 7 * 24 * 60 * 60;
+}
+
 /**
  * Get challenge period status for a withdrawal
  */
@@ -439,11 +462,7 @@ export async function getChallengePeriodStatus(
 		throw new Error(`Block ${l2BlockNumber} not found`);
 	}
 	
-	// Challenge period is 7 days for mainnet, 1 hour for testnet
-	const isTestnet = network === 'arbitrumSepolia' || network === 'arbitrumGoerli';
-	const challengePeriodSeconds = isTestnet ? 3600 : 7 * 24 * 60 * 60;
-	
-	const endTimestamp = block.timestamp + challengePeriodSeconds;
+	const endTimestamp = block.timestamp + getChallengePeriodSeconds(network);
 	const now = Math.floor(Date.now() / 1000);
 	const remainingSeconds = Math.max(0, endTimestamp - now);
 	
@@ -474,6 +493,518 @@ function formatDuration(seconds: number): string {
 	return parts.join(' ');
 }
 
+/**
+ * Token transfer carried by a gateway finalizeInboundTransfer call
+ */
+export interface GatewayTransfer {
+	l1Token: string;
+	from: string;
+	to: string;
+	amount: string;
+}
+
+/**
+ * Deposit delivered to the L1 delayed inbox (ETH deposit or retryable ticket)
+ */
+export interface DepositMessage {
+	messageNumber: string;
+	kind: 'ethDeposit' | 'retryable';
+	l1TxHash: string;
+	l1BlockNumber: number;
+	/** Sender as recorded by the Bridge (aliased when it is a contract) */
+	sender: string;
+	destination: string;
+	/** ETH deposited (ethDeposit) or L2 call value (retryable) in wei */
+	value: string;
+	/** L2 deposit transaction hash or retryable ticket ID */
+	l2TxHash: string;
+	timestamp: number;
+	excessFeeRefundAddress?: string;
+	callValueRefundAddress?: string;
+	tokenTransfer?: GatewayTransfer;
+}
+
+/**
+ * L2 side status of a deposit message
+ */
+export interface DepositMessageStatus {
+	status: string;
+	l2TxHash: string;
+	l2BlockNumber?: number;
+	redeemTxHash?: string;
+	timeout?: number;
+}
+
+/**
+ * L1 side status of a withdrawal message
+ */
+export interface WithdrawalMessageStatus {
+	status: 'confirmed' | 'ready_to_execute' | 'executed';
+	/** Earliest time the message can be confirmed, estimated from the challenge period */
+	challengePeriodEnd: number;
+}
+
+/**
+ * L2 to L1 message emitted by ArbSys
+ */
+export interface WithdrawalMessage {
+	position: string;
+	l2TxHash: string;
+	l2BlockNumber: number;
+	caller: string;
+	destination: string;
+	value: string;
+	arbBlockNum: string;
+	ethBlockNum: string;
+	timestamp: number;
+	data: string;
+	tokenTransfer?: GatewayTransfer;
+}
+
+const ADDRESS_SPACE = 1n << 160n;
+
+/**
+ * Apply the L1 to L2 address alias used for contract senders
+ */
+export function applyL1ToL2Alias(address: string): string {
+	const aliased = (BigInt(address) + BigInt(ADDRESS_ALIAS_OFFSET)) % ADDRESS_SPACE;
+	return ethers.getAddress(ethers.toBeHex(aliased, 20));
+}
+
+/**
+ * Undo the L1 to L2 address alias
+ */
+export function undoL1ToL2Alias(address: string): string {
+	const original = (BigInt(address) - BigInt(ADDRESS_ALIAS_OFFSET) + ADDRESS_SPACE) % ADDRESS_SPACE;
+	return ethers.getAddress(ethers.toBeHex(original, 20));
+}
+
+/**
+ * Calculate the L2 transaction hash of an ETH deposit
+ */
+export function calculateEthDepositTxId(
+	l2ChainId: number,
+	messageNumber: bigint,
+	from: string,
+	to: string,
+	value: bigint,
+): string {
+	const fields = [
+		ethers.toBeArray(l2ChainId),
+		ethers.zeroPadValue(ethers.toBeArray(messageNumber), 32),
+		ethers.getAddress(from),
+		ethers.getAddress(to),
+		ethers.toBeArray(value),
+	];
+	return ethers.keccak256(ethers.concat(['0x64', ethers.encodeRlp(fields)]));
+}
+
+/**
+ * Calculate the retryable ticket ID (L2 creation transaction hash)
+ */
+export function calculateRetryableTicketId(params: {
+	l2ChainId: number;
+	messageNumber: bigint;
+	from: string;
+	l1BaseFee: bigint;
+	deposit: bigint;
+	maxFeePerGas: bigint;
+	gasLimit: bigint;
+	destination: string;
+	l2CallValue: bigint;
+	callValueRefundAddress: string;
+	maxSubmissionFee: bigint;
+	excessFeeRefundAddress: string;
+	data: string;
+}): string {
+	const fields = [
+		ethers.toBeArray(params.l2ChainId),
+		ethers.zeroPadValue(ethers.toBeArray(params.messageNumber), 32),
+		ethers.getAddress(params.from),
+		ethers.toBeArray(params.l1BaseFee),
+		ethers.toBeArray(params.deposit),
+		ethers.toBeArray(params.maxFeePerGas),
+		ethers.toBeArray(params.gasLimit),
+		params.destination === ethers.ZeroAddress ? '0x' : ethers.getAddress(params.destination),
+		ethers.toBeArray(params.l2CallValue),
+		ethers.getAddress(params.callValueRefundAddress),
+		ethers.toBeArray(params.maxSubmissionFee),
+		ethers.getAddress(params.excessFeeRefundAddress),
+		params.data,
+	];
+	return ethers.keccak256(ethers.concat(['0x69', ethers.encodeRlp(fields)]));
+}
+
+/**
+ * Decode a gateway finalizeInboundTransfer call, if the data is one
+ */
+export function decodeGatewayTransfer(data: string): GatewayTransfer | undefined {
+	try {
+		const parsed = new ethers.Interface(ABIS.TokenGateway).parseTransaction({ data });
+		if (parsed?.name !== 'finalizeInboundTransfer') return undefined;
+		return {
+			l1Token: parsed.args.token,
+			from: parsed.args.from,
+			to: parsed.args.to,
+			amount: parsed.args.amount.toString(),
+		};
+	} catch {
+		return undefined;
+	}
+}
+
+function sameAddress(a: string, b: string): boolean {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+function wordToAddress(word: bigint): string {
+	return ethers.getAddress(ethers.toBeHex(word, 20));
+}
+
+/**
+ * Get ETH deposits and retryable tickets delivered to the L1 inbox in a block range
+ * The range is scanned in chunks small enough for provider getLogs limits.
+ */
+export async function getDepositMessages(
+	network: ArbitrumNetworkId,
+	l1Provider: JsonRpcProvider,
+	l2ChainId: number,
+	fromBlock: number,
+	toBlock: number,
+): Promise<DepositMessage[]> {
+	const bridges = getBridgeContracts(network);
+	const bridgeInterface = new ethers.Interface(ABIS.L1Bridge);
+	const inboxInterface = new ethers.Interface(ABIS.L1Inbox);
+
+	const [bridgeLogs, inboxLogs] = await Promise.all([
+		getLogsChunked(
+			l1Provider,
+			{ address: bridges.l1.bridge, topics: [bridgeInterface.getEvent('MessageDelivered')!.topicHash] },
+			fromBlock,
+			toBlock,
+		),
+		getLogsChunked(
+			l1Provider,
+			{ address: bridges.l1.inbox, topics: [inboxInterface.getEvent('InboxMessageDelivered')!.topicHash] },
+			fromBlock,
+			toBlock,
+		),
+	]);
+
+	return parseDepositMessages(network, [...bridgeLogs, ...inboxLogs], l2ChainId);
+}
+
+/**
+ * Get ETH deposits and retryable tickets created by an L1 transaction
+ */
+export function getDepositMessagesFromReceipt(
+	network: ArbitrumNetworkId,
+	receipt: TransactionReceipt,
+	l2ChainId: number,
+): DepositMessage[] {
+	return parseDepositMessages(network, receipt.logs, l2ChainId);
+}
+
+function parseDepositMessages(
+	network: ArbitrumNetworkId,
+	logs: readonly Log[],
+	l2ChainId: number,
+): DepositMessage[] {
+	const bridges = getBridgeContracts(network);
+	const bridgeInterface = new ethers.Interface(ABIS.L1Bridge);
+	const inboxInterface = new ethers.Interface(ABIS.L1Inbox);
+	const messageDeliveredTopic = bridgeInterface.getEvent('MessageDelivered')!.topicHash;
+	const inboxMessageTopic = inboxInterface.getEvent('InboxMessageDelivered')!.topicHash;
+
+	// Message payloads are emitted by the Inbox, metadata by the Bridge
+	const payloads = new Map<string, string>();
+	for (const log of logs) {
+		if (!sameAddress(log.address, bridges.l1.inbox) || log.topics[0] !== inboxMessageTopic) continue;
+		const parsed = inboxInterface.parseLog({ topics: log.topics as string[], data: log.data });
+		if (parsed) payloads.set(parsed.args.messageNum.toString(), parsed.args.data);
+	}
+
+	const messages: DepositMessage[] = [];
+
+	for (const log of logs) {
+		if (!sameAddress(log.address, bridges.l1.bridge) || log.topics[0] !== messageDeliveredTopic) continue;
+		const parsed = bridgeInterface.parseLog({ topics: log.topics as string[], data: log.data });
+		if (!parsed) continue;
+
+		const messageNumber = parsed.args.messageIndex as bigint;
+		const kind = Number(parsed.args.kind);
+		const payload = payloads.get(messageNumber.toString());
+		if (!payload) continue;
+
+		const sender = ethers.getAddress(parsed.args.sender);
+		const base = {
+			messageNumber: messageNumber.toString(),
+			l1TxHash: log.transactionHash,
+			l1BlockNumber: log.blockNumber,
+			sender,
+			timestamp: Number(parsed.args.timestamp),
+		};
+
+		if (kind === L1_MESSAGE_KINDS.ETH_DEPOSIT) {
+			const destination = ethers.getAddress(ethers.dataSlice(payload, 0, 20));
+			const value = ethers.toBigInt(ethers.dataSlice(payload, 20, 52));
+			messages.push({
+				...base,
+				kind: 'ethDeposit',
+				destination,
+				value: value.toString(),
+				l2TxHash: calculateEthDepositTxId(l2ChainId, messageNumber, sender, destination, value),
+			});
+		} else if (kind === L1_MESSAGE_KINDS.SUBMIT_RETRYABLE_TX) {
+			const words = ethers.AbiCoder.defaultAbiCoder().decode(
+				Array(9).fill('uint256'),
+				ethers.dataSlice(payload, 0, 9 * 32),
+			) as unknown as bigint[];
+			const data = ethers.dataSlice(payload, 9 * 32, 9 * 32 + Number(words[8]));
+			const destination = wordToAddress(words[0]);
+			const excessFeeRefundAddress = wordToAddress(words[4]);
+			const callValueRefundAddress = wordToAddress(words[5]);
+
+			messages.push({
+				...base,
+				kind: 'retryable',
+				destination,
+				value: words[1].toString(),
+				excessFeeRefundAddress,
+				callValueRefundAddress,
+				tokenTransfer: decodeGatewayTransfer(data),
+				l2TxHash: calculateRetryableTicketId({
+					l2ChainId,
+					messageNumber,
+					from: sender,
+					l1BaseFee: parsed.args.baseFeeL1,
+					deposit: words[2],
+					maxFeePerGas: words[7],
+					gasLimit: words[6],
+					destination,
+					l2CallValue: words[1],
+					callValueRefundAddress,
+					maxSubmissionFee: words[3],
+					excessFeeRefundAddress,
+					data,
+				}),
+			});
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Check the L2 status of a deposit message
+ */
+export async function getDepositMessageStatus(
+	message: DepositMessage,
+	network: ArbitrumNetworkId,
+	l2Provider: JsonRpcProvider,
+): Promise<DepositMessageStatus> {
+	const receipt = await l2Provider.getTransactionReceipt(message.l2TxHash);
+
+	if (!receipt) {
+		return { status: MESSAGE_STATUS.NOT_YET_CREATED, l2TxHash: message.l2TxHash };
+	}
+
+	if (message.kind === 'ethDeposit') {
+		return {
+			status: MESSAGE_STATUS.DEPOSITED,
+			l2TxHash: message.l2TxHash,
+			l2BlockNumber: receipt.blockNumber,
+		};
+	}
+
+	if (receipt.status === 0) {
+		return {
+			status: MESSAGE_STATUS.CREATION_FAILED,
+			l2TxHash: message.l2TxHash,
+			l2BlockNumber: receipt.blockNumber,
+		};
+	}
+
+	const bridges = getBridgeContracts(network);
+	const retryableInterface = new ethers.Interface(ABIS.ArbRetryableTx);
+	const redeemTopic = retryableInterface.getEvent('RedeemScheduled')!.topicHash;
+
+	const findSuccessfulRedeem = async (logs: readonly { topics: readonly string[]; data: string }[]) => {
+		for (const log of logs) {
+			if (log.topics[0] !== redeemTopic || log.topics[1] !== message.l2TxHash) continue;
+			const parsed = retryableInterface.parseLog({ topics: log.topics as string[], data: log.data });
+			if (!parsed) continue;
+			const redeemReceipt = await l2Provider.getTransactionReceipt(parsed.args.retryTxHash);
+			if (redeemReceipt?.status === 1) return redeemReceipt;
+		}
+		return null;
+	};
+
+	// Auto-redeem is scheduled in the creation receipt
+	const autoRedeem = await findSuccessfulRedeem(receipt.logs);
+	if (autoRedeem) {
+		return {
+			status: MESSAGE_STATUS.REDEEMED,
+			l2TxHash: message.l2TxHash,
+			l2BlockNumber: receipt.blockNumber,
+			redeemTxHash: autoRedeem.hash,
+		};
+	}
+
+	// A ticket that still has a timeout is waiting for a manual redeem
+	const arbRetryable = new Contract(bridges.l2.arbRetryableTx, ABIS.ArbRetryableTx, l2Provider);
+	try {
+		const timeout = await arbRetryable.getTimeout(message.l2TxHash);
+		return {
+			status: MESSAGE_STATUS.FUNDS_DEPOSITED_ON_L2,
+			l2TxHash: message.l2TxHash,
+			l2BlockNumber: receipt.blockNumber,
+			timeout: Number(timeout),
+		};
+	} catch {
+		// Ticket no longer exists: redeemed manually or expired
+	}
+
+	try {
+		const redeemLogs = await l2Provider.getLogs({
+			address: bridges.l2.arbRetryableTx,
+			topics: [redeemTopic, message.l2TxHash],
+			fromBlock: receipt.blockNumber,
+			toBlock: 'latest',
+		});
+		const manualRedeem = await findSuccessfulRedeem(redeemLogs);
+		if (manualRedeem) {
+			return {
+				status: MESSAGE_STATUS.REDEEMED,
+				l2TxHash: message.l2TxHash,
+				l2BlockNumber: receipt.blockNumber,
+				redeemTxHash: manualRedeem.hash,
+			};
+		}
+	} catch {
+		// Log range too large for the provider
+	}
+
+	return {
+		status: MESSAGE_STATUS.EXPIRED,
+		l2TxHash: message.l2TxHash,
+		l2BlockNumber: receipt.blockNumber,
+	};
+}
+
+/**
+ * Get L2 to L1 messages sent through ArbSys in a block range
+ * The range is scanned in chunks small enough for provider getLogs limits.
+ */
+export async function getWithdrawalMessages(
+	network: ArbitrumNetworkId,
+	l2Provider: JsonRpcProvider,
+	fromBlock: number,
+	toBlock: number,
+): Promise<WithdrawalMessage[]> {
+	const bridges = getBridgeContracts(network);
+	const arbSysInterface = new ethers.Interface(ABIS.ArbSys);
+
+	const logs = await getLogsChunked(
+		l2Provider,
+		{ address: bridges.l2.arbSys, topics: [arbSysInterface.getEvent('L2ToL1Tx')!.topicHash] },
+		fromBlock,
+		toBlock,
+	);
+
+	return parseWithdrawalMessages(network, logs);
+}
+
+/**
+ * Get L2 to L1 messages sent by an L2 transaction
+ */
+export function getWithdrawalMessagesFromReceipt(
+	network: ArbitrumNetworkId,
+	receipt: TransactionReceipt,
+): WithdrawalMessage[] {
+	return parseWithdrawalMessages(network, receipt.logs);
+}
+
+function parseWithdrawalMessages(network: ArbitrumNetworkId, logs: readonly Log[]): WithdrawalMessage[] {
+	const bridges = getBridgeContracts(network);
+	const arbSysInterface = new ethers.Interface(ABIS.ArbSys);
+	const l2ToL1Topic = arbSysInterface.getEvent('L2ToL1Tx')!.topicHash;
+
+	const messages: WithdrawalMessage[] = [];
+
+	for (const log of logs) {
+		if (!sameAddress(log.address, bridges.l2.arbSys) || log.topics[0] !== l2ToL1Topic) continue;
+		const parsed = arbSysInterface.parseLog({ topics: log.topics as string[], data: log.data });
+		if (!parsed) continue;
+
+		messages.push({
+			position: parsed.args.position.toString(),
+			l2TxHash: log.transactionHash,
+			l2BlockNumber: log.blockNumber,
+			caller: ethers.getAddress(parsed.args.caller),
+			destination: ethers.getAddress(parsed.args.destination),
+			value: parsed.args.callvalue.toString(),
+			arbBlockNum: parsed.args.arbBlockNum.toString(),
+			ethBlockNum: parsed.args.ethBlockNum.toString(),
+			timestamp: Number(parsed.args.timestamp),
+			data: parsed.args.data,
+			tokenTransfer: decodeGatewayTransfer(parsed.args.data),
+		});
+	}
+
+	return messages;
+}
+
+/**
+ * Check the L1 status of a withdrawal message by its own outbox position
+ * The message is ready once the latest confirmed send root covers its position
+ * (position < confirmedSendCount); the challenge period end is only an estimate.
+ */
+export async function getWithdrawalMessageStatus(
+	message: WithdrawalMessage,
+	network: ArbitrumNetworkId,
+	l1Provider: JsonRpcProvider,
+	confirmedSendCount: bigint | undefined,
+): Promise<WithdrawalMessageStatus> {
+	const bridges = getBridgeContracts(network);
+	const outbox = new Contract(bridges.l1.outbox, ABIS.L1Outbox, l1Provider);
+	const position = BigInt(message.position);
+	const challengePeriodEnd = message.timestamp + getChallengePeriodSeconds(network);
+
+	if (await outbox.isSpent(position)) {
+		return { status: 'executed', challengePeriodEnd };
+	}
+	if (confirmedSendCount !== undefined && position < confirmedSendCount) {
+		return { status: 'ready_to_execute', challengePeriodEnd };
+	}
+	return { status: 'confirmed', challengePeriodEnd };
+}
+
+/**
+ * Check whether a bridge message involves an address (sender, recipient or token parties)
+ */
+export function isBridgeMessageForAddress(
+	message: DepositMessage | WithdrawalMessage,
+	address: string,
+): boolean {
+	const target = address.toLowerCase();
+	const parties: (string | undefined)[] = [message.tokenTransfer?.from, message.tokenTransfer?.to];
+
+	if ('sender' in message) {
+		parties.push(
+			message.sender,
+			undoL1ToL2Alias(message.sender),
+			message.destination,
+			message.excessFeeRefundAddress,
+			message.callValueRefundAddress,
+		);
+	} else {
+		parties.push(message.caller, message.destination);
+	}
+
+	return parties.some((party) => party?.toLowerCase() === target);
+}
+
 /**
  * Encode deposit calldata for ETH deposit
  */
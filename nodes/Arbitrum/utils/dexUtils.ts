@@ -0,0 +1,725 @@
+/**
+ * DEX Utilities for Arbitrum
+ * On-chain swap quoting and execution across Uniswap V3, SushiSwap, Camelot and GMX
+ */
+
+import { ethers, Contract } from 'ethers';
+import type { Provider, Signer, ContractTransactionResponse } from 'ethers';
+import { ABIS } from '../constants/abis';
+import { DEX_ROUTERS, ARBITRUM_ONE_TOKENS } from '../constants/tokens';
+
+/**
+ * DEXes with on-chain quote support
+ */
+export type QuoteDex = 'uniswapV3' | 'sushiswap' | 'camelot' | 'camelotV3' | 'gmx';
+
+/**
+ * Display names for quotable DEXes
+ */
+export const DEX_NAMES: Record<QuoteDex, string> = {
+	uniswapV3: 'Uniswap V3',
+	sushiswap: 'SushiSwap',
+	camelot: 'Camelot V2',
+	camelotV3: 'Camelot V3',
+	gmx: 'GMX',
+};
+
+/**
+ * Uniswap V3 fee tiers (hundredths of a bip)
+ */
+export const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+/**
+ * Intermediate tokens tried when routing Uniswap V3 swaps through two pools
+ */
+export const UNISWAP_V3_ROUTE_TOKENS = ['WETH', 'USDC', 'ARB'] as const;
+
+/**
+ * Normalized swap quote, identical in shape for every DEX
+ */
+export interface SwapQuote {
+	dex: QuoteDex;
+	dexName: string;
+	amountIn: bigint;
+	amountOut: bigint;
+	/** Swap fee charged by the pool, in percent */
+	feePercent: number;
+	pool: string;
+	route: string[];
+	/** Fee tier of each hop when the quote is a Uniswap V3 route */
+	routeFees?: number[];
+	/** Pool of each hop when the route has more than one */
+	pools?: string[];
+	/** Encoded Uniswap V3 path for exactInput */
+	path?: string;
+	feeTier?: number;
+	gasEstimate?: bigint;
+}
+
+/**
+ * Result of querying every DEX for a quote
+ */
+export interface BestQuoteResult {
+	quotes: SwapQuote[];
+	errors: Array<{ dex: QuoteDex; feeTier?: number; error: string }>;
+}
+
+/**
+ * DEXes with on-chain swap execution support
+ */
+export type SwapDex = 'uniswapV3' | 'sushiswap' | 'camelot' | 'camelotV3';
+
+/**
+ * Parameters for an exact-input swap
+ */
+export interface SwapParams {
+	tokenIn: string;
+	tokenOut: string;
+	amountIn: bigint;
+	amountOutMinimum: bigint;
+	recipient: string;
+	deadline: number;
+	/** Send native ETH and let the router wrap it */
+	ethIn: boolean;
+	/** Unwrap WETH output to native ETH for the recipient */
+	ethOut: boolean;
+	/** Use fee-on-transfer safe router entry points */
+	feeOnTransfer: boolean;
+	feeTier?: number;
+	/** Encoded multi-hop Uniswap V3 path, executed via exactInput */
+	path?: string;
+}
+
+/**
+ * Parameters for an exact-output swap (Uniswap V3)
+ */
+export interface ExactOutputSwapParams {
+	tokenIn: string;
+	tokenOut: string;
+	amountOut: bigint;
+	amountInMaximum: bigint;
+	recipient: string;
+	deadline: number;
+	feeTier: number;
+	/** Send native ETH; unspent ETH is refunded */
+	ethIn: boolean;
+	/** Unwrap WETH output to native ETH for the recipient */
+	ethOut: boolean;
+}
+
+/**
+ * Mid-price versus execution price, both in raw token units (tokenOut per tokenIn)
+ */
+export interface PriceImpact {
+	midPrice: number;
+	executionPrice: number;
+	/** Shortfall of the execution price against the mid-price in percent, pool fees included */
+	priceImpact: number;
+}
+
+/** Camelot V2 pairs express fees over 100000 */
+const CAMELOT_FEE_DENOMINATOR = 100000;
+
+/** Algebra pools express fees in millionths */
+const ALGEBRA_FEE_DENOMINATOR = 1000000;
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Quote a Uniswap V3 single-pool swap via QuoterV2
+ */
+export async function quoteUniswapV3(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+	feeTier: number,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const factory = new Contract(addresses.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+	const pool = await factory.getPool(tokenIn, tokenOut, feeTier);
+	if (pool === ethers.ZeroAddress) {
+		throw new Error(`No Uniswap V3 pool for this pair at ${feeTier / 10000}% fee tier`);
+	}
+
+	const quoter = new Contract(addresses.uniswapV3QuoterV2, ABIS.UniswapV3Quoter, provider);
+	const [amountOut, , , gasEstimate] = await quoter.quoteExactInputSingle.staticCall({
+		tokenIn,
+		tokenOut,
+		amountIn,
+		fee: feeTier,
+		sqrtPriceLimitX96: 0,
+	});
+
+	return {
+		dex: 'uniswapV3',
+		dexName: DEX_NAMES.uniswapV3,
+		amountIn,
+		amountOut,
+		feePercent: feeTier / 10000,
+		pool,
+		route: [tokenIn, tokenOut],
+		feeTier,
+		gasEstimate,
+	};
+}
+
+/**
+ * Encode a Uniswap V3 path (token, fee, token, ...)
+ */
+export function encodeUniswapV3Path(tokens: string[], fees: number[]): string {
+	if (tokens.length !== fees.length + 1) {
+		throw new Error('Path must have exactly one more token than fees');
+	}
+	const types: string[] = [];
+	const values: Array<string | number> = [];
+	tokens.forEach((token, i) => {
+		types.push('address');
+		values.push(token);
+		if (i < fees.length) {
+			types.push('uint24');
+			values.push(fees[i]);
+		}
+	});
+	return ethers.solidityPacked(types, values);
+}
+
+/**
+ * Find the best Uniswap V3 route across all fee tiers, directly or through one intermediate token
+ */
+export async function quoteUniswapV3Route(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const factory = new Contract(addresses.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+	const quoter = new Contract(addresses.uniswapV3QuoterV2, ABIS.UniswapV3Quoter, provider);
+
+	const lower = (a: string) => a.toLowerCase();
+	const intermediates = UNISWAP_V3_ROUTE_TOKENS
+		.map((symbol) => ARBITRUM_ONE_TOKENS[symbol].address)
+		.filter((a) => lower(a) !== lower(tokenIn) && lower(a) !== lower(tokenOut));
+
+	// Discover which hop/fee pools exist so only viable paths are quoted
+	const poolKey = (a: string, b: string, fee: number) => [lower(a), lower(b)].sort().join('-') + `-${fee}`;
+	const pools = new Map<string, string>();
+	const hops: Array<[string, string]> = [
+		[tokenIn, tokenOut],
+		...intermediates.flatMap((mid): Array<[string, string]> => [[tokenIn, mid], [mid, tokenOut]]),
+	];
+	await Promise.all(hops.flatMap(([a, b]) => UNISWAP_V3_FEE_TIERS.map(async (fee) => {
+		const pool: string = await factory.getPool(a, b, fee).catch(() => ethers.ZeroAddress);
+		if (pool !== ethers.ZeroAddress) {
+			pools.set(poolKey(a, b, fee), pool);
+		}
+	})));
+
+	const candidates: Array<{ tokens: string[]; fees: number[]; pools: string[] }> = [];
+	for (const fee of UNISWAP_V3_FEE_TIERS) {
+		const pool = pools.get(poolKey(tokenIn, tokenOut, fee));
+		if (pool) {
+			candidates.push({ tokens: [tokenIn, tokenOut], fees: [fee], pools: [pool] });
+		}
+	}
+	for (const mid of intermediates) {
+		for (const fee1 of UNISWAP_V3_FEE_TIERS) {
+			const pool1 = pools.get(poolKey(tokenIn, mid, fee1));
+			if (!pool1) continue;
+			for (const fee2 of UNISWAP_V3_FEE_TIERS) {
+				const pool2 = pools.get(poolKey(mid, tokenOut, fee2));
+				if (pool2) {
+					candidates.push({ tokens: [tokenIn, mid, tokenOut], fees: [fee1, fee2], pools: [pool1, pool2] });
+				}
+			}
+		}
+	}
+	if (candidates.length === 0) {
+		throw new Error('No Uniswap V3 route found directly or via WETH, USDC or ARB');
+	}
+
+	const settled = await Promise.allSettled(candidates.map(async (candidate) => {
+		const path = encodeUniswapV3Path(candidate.tokens, candidate.fees);
+		const [amountOut, , , gasEstimate] = await quoter.quoteExactInput.staticCall(path, amountIn);
+		return { ...candidate, path, amountOut: amountOut as bigint, gasEstimate: gasEstimate as bigint };
+	}));
+
+	let best: (typeof candidates)[number] & { path: string; amountOut: bigint; gasEstimate: bigint } | undefined;
+	for (const outcome of settled) {
+		if (outcome.status === 'fulfilled' && (!best || outcome.value.amountOut > best.amountOut)) {
+			best = outcome.value;
+		}
+	}
+	if (!best) {
+		throw new Error(`All ${candidates.length} Uniswap V3 routes failed to quote`);
+	}
+
+	// Fees compound across hops
+	const remaining = best.fees.reduce((acc, fee) => acc * (1 - fee / 1000000), 1);
+
+	return {
+		dex: 'uniswapV3',
+		dexName: DEX_NAMES.uniswapV3,
+		amountIn,
+		amountOut: best.amountOut,
+		feePercent: Number(((1 - remaining) * 100).toFixed(6)),
+		pool: best.pools.join(','),
+		pools: best.pools,
+		route: best.tokens,
+		routeFees: best.fees,
+		path: best.path,
+		feeTier: best.fees.length === 1 ? best.fees[0] : undefined,
+		gasEstimate: best.gasEstimate,
+	};
+}
+
+/**
+ * Quote a Uniswap V3 exact-output swap via QuoterV2, picking the cheapest fee tier when none is given
+ */
+export async function quoteUniswapV3ExactOutput(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountOut: bigint,
+	feeTier?: number,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const factory = new Contract(addresses.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+	const quoter = new Contract(addresses.uniswapV3QuoterV2, ABIS.UniswapV3Quoter, provider);
+	const tiers: number[] = feeTier ? [feeTier] : [...UNISWAP_V3_FEE_TIERS];
+
+	const settled = await Promise.allSettled(tiers.map(async (fee) => {
+		const pool: string = await factory.getPool(tokenIn, tokenOut, fee);
+		if (pool === ethers.ZeroAddress) {
+			throw new Error(`No Uniswap V3 pool for this pair at ${fee / 10000}% fee tier`);
+		}
+		const [amountIn, , , gasEstimate] = await quoter.quoteExactOutputSingle.staticCall({
+			tokenIn,
+			tokenOut,
+			amount: amountOut,
+			fee,
+			sqrtPriceLimitX96: 0,
+		});
+		return { fee, pool, amountIn: amountIn as bigint, gasEstimate: gasEstimate as bigint };
+	}));
+
+	let best: { fee: number; pool: string; amountIn: bigint; gasEstimate: bigint } | undefined;
+	let lastError: unknown;
+	for (const outcome of settled) {
+		if (outcome.status === 'rejected') {
+			lastError = outcome.reason;
+		} else if (!best || outcome.value.amountIn < best.amountIn) {
+			best = outcome.value;
+		}
+	}
+	if (!best) {
+		throw new Error(errorMessage(lastError));
+	}
+
+	return {
+		dex: 'uniswapV3',
+		dexName: DEX_NAMES.uniswapV3,
+		amountIn: best.amountIn,
+		amountOut,
+		feePercent: best.fee / 10000,
+		pool: best.pool,
+		route: [tokenIn, tokenOut],
+		feeTier: best.fee,
+		gasEstimate: best.gasEstimate,
+	};
+}
+
+/**
+ * Quote a SushiSwap (Uniswap V2 fork) swap via router getAmountsOut
+ */
+export async function quoteSushiswap(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const factory = new Contract(addresses.sushiswapFactory, ABIS.UniswapV2Factory, provider);
+	const pool = await factory.getPair(tokenIn, tokenOut);
+	if (pool === ethers.ZeroAddress) {
+		throw new Error('No SushiSwap pair for this token pair');
+	}
+
+	const router = new Contract(addresses.sushiswapRouter, ABIS.UniswapV2Router, provider);
+	const amounts: bigint[] = await router.getAmountsOut(amountIn, [tokenIn, tokenOut]);
+
+	return {
+		dex: 'sushiswap',
+		dexName: DEX_NAMES.sushiswap,
+		amountIn,
+		amountOut: amounts[amounts.length - 1],
+		feePercent: 0.3,
+		pool,
+		route: [tokenIn, tokenOut],
+	};
+}
+
+/**
+ * Quote a Camelot V2 swap using the pair's directional fee for tokenIn
+ */
+export async function quoteCamelotV2(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const factory = new Contract(addresses.camelotFactory, ABIS.UniswapV2Factory, provider);
+	const pool = await factory.getPair(tokenIn, tokenOut);
+	if (pool === ethers.ZeroAddress) {
+		throw new Error('No Camelot V2 pair for this token pair');
+	}
+
+	const pair = new Contract(pool, ABIS.CamelotPair, provider);
+	const [amountOut, token0, reserves] = await Promise.all([
+		pair.getAmountOut(amountIn, tokenIn),
+		pair.token0(),
+		pair.getReserves(),
+	]);
+	const fee = token0.toLowerCase() === tokenIn.toLowerCase()
+		? reserves.token0FeePercent
+		: reserves.token1FeePercent;
+
+	return {
+		dex: 'camelot',
+		dexName: DEX_NAMES.camelot,
+		amountIn,
+		amountOut,
+		feePercent: (Number(fee) / CAMELOT_FEE_DENOMINATOR) * 100,
+		pool,
+		route: [tokenIn, tokenOut],
+	};
+}
+
+/**
+ * Quote a Camelot V3 (Algebra) swap; the pool fee is dynamic and returned by the quoter
+ */
+export async function quoteCamelotV3(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const factory = new Contract(addresses.camelotV3Factory, ABIS.AlgebraFactory, provider);
+	const pool = await factory.poolByPair(tokenIn, tokenOut);
+	if (pool === ethers.ZeroAddress) {
+		throw new Error('No Camelot V3 pool for this token pair');
+	}
+
+	const quoter = new Contract(addresses.camelotV3Quoter, ABIS.AlgebraQuoter, provider);
+	const [amountOut, fee] = await quoter.quoteExactInputSingle.staticCall(tokenIn, tokenOut, amountIn, 0);
+
+	return {
+		dex: 'camelotV3',
+		dexName: DEX_NAMES.camelotV3,
+		amountIn,
+		amountOut,
+		feePercent: (Number(fee) / ALGEBRA_FEE_DENOMINATOR) * 100,
+		pool,
+		route: [tokenIn, tokenOut],
+	};
+}
+
+/**
+ * Quote a GMX vault swap via the GMX Reader (amount out after fees)
+ */
+export async function quoteGmx(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+): Promise<SwapQuote> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const reader = new Contract(addresses.gmxReader, ABIS.GmxReader, provider);
+	const [amountOut, feeAmount] = await reader.getAmountOut(addresses.gmxVault, tokenIn, tokenOut, amountIn);
+	if (amountOut === 0n) {
+		throw new Error('GMX vault cannot fill this swap');
+	}
+
+	// feeAmount is denominated in tokenOut; express it relative to the gross output
+	const gross = amountOut + feeAmount;
+
+	return {
+		dex: 'gmx',
+		dexName: DEX_NAMES.gmx,
+		amountIn,
+		amountOut,
+		feePercent: gross > 0n ? Number((feeAmount * 1000000n) / gross) / 10000 : 0,
+		pool: addresses.gmxVault,
+		route: [tokenIn, tokenOut],
+	};
+}
+
+/**
+ * Mid-price of one pool hop in raw units of tokenOut per tokenIn
+ */
+async function getPoolMidPrice(
+	provider: Provider,
+	dex: QuoteDex,
+	pool: string,
+	tokenIn: string,
+	tokenOut: string,
+): Promise<number> {
+	// Pools order tokens by address, so token0 is the lower one
+	const zeroForOne = tokenIn.toLowerCase() < tokenOut.toLowerCase();
+	let price1Per0: number;
+
+	if (dex === 'uniswapV3' || dex === 'camelotV3') {
+		const sqrtPriceX96: bigint = dex === 'uniswapV3'
+			? (await new Contract(pool, ABIS.UniswapV3Pool, provider).slot0()).sqrtPriceX96
+			: (await new Contract(pool, ABIS.AlgebraPool, provider).globalState()).price;
+		price1Per0 = (Number(sqrtPriceX96) / 2 ** 96) ** 2;
+	} else if (dex === 'sushiswap' || dex === 'camelot') {
+		const pair = new Contract(pool, dex === 'camelot' ? ABIS.CamelotPair : ABIS.UniswapV2Pair, provider);
+		if (dex === 'camelot' && await pair.stableSwap()) {
+			throw new Error('Mid-price is not available for Camelot stable pairs');
+		}
+		const reserves = await pair.getReserves();
+		price1Per0 = Number(reserves[1]) / Number(reserves[0]);
+	} else {
+		throw new Error('GMX swaps execute at oracle prices and have no pool mid-price');
+	}
+
+	if (!price1Per0) {
+		throw new Error('Pool has no liquidity');
+	}
+	return zeroForOne ? price1Per0 : 1 / price1Per0;
+}
+
+/**
+ * Compare a quote's execution price with the current pool mid-price along its route
+ */
+export async function getPriceImpact(provider: Provider, quote: SwapQuote): Promise<PriceImpact> {
+	const pools = quote.pools ?? [quote.pool];
+	const prices = await Promise.all(
+		pools.map((pool, i) => getPoolMidPrice(provider, quote.dex, pool, quote.route[i], quote.route[i + 1])),
+	);
+	const midPrice = prices.reduce((acc, price) => acc * price, 1);
+	const executionPrice = Number(quote.amountOut) / Number(quote.amountIn);
+
+	return {
+		midPrice,
+		executionPrice,
+		priceImpact: Math.max(0, (1 - executionPrice / midPrice) * 100),
+	};
+}
+
+/**
+ * Quote a swap on a single DEX
+ * For Uniswap V3, omitting the fee tier enables automatic route discovery.
+ */
+export async function getSwapQuoteForDex(
+	provider: Provider,
+	dex: QuoteDex,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+	feeTier?: number,
+): Promise<SwapQuote> {
+	switch (dex) {
+		case 'uniswapV3':
+			// Without a fixed fee tier, search all tiers and intermediate tokens
+			return feeTier
+				? quoteUniswapV3(provider, tokenIn, tokenOut, amountIn, feeTier)
+				: quoteUniswapV3Route(provider, tokenIn, tokenOut, amountIn);
+		case 'sushiswap':
+			return quoteSushiswap(provider, tokenIn, tokenOut, amountIn);
+		case 'camelot':
+			return quoteCamelotV2(provider, tokenIn, tokenOut, amountIn);
+		case 'camelotV3':
+			return quoteCamelotV3(provider, tokenIn, tokenOut, amountIn);
+		case 'gmx':
+			return quoteGmx(provider, tokenIn, tokenOut, amountIn);
+		default:
+			throw new Error(`Quotes are not supported for DEX: ${dex}`);
+	}
+}
+
+/**
+ * Query every supported DEX (with Uniswap V3 route discovery) and rank quotes by output amount
+ */
+export async function getBestSwapQuote(
+	provider: Provider,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: bigint,
+): Promise<BestQuoteResult> {
+	const requests: Array<{ dex: QuoteDex; feeTier?: number }> = [
+		{ dex: 'uniswapV3' },
+		{ dex: 'sushiswap' },
+		{ dex: 'camelot' },
+		{ dex: 'camelotV3' },
+		{ dex: 'gmx' },
+	];
+
+	const settled = await Promise.allSettled(
+		requests.map((r) => getSwapQuoteForDex(provider, r.dex, tokenIn, tokenOut, amountIn, r.feeTier)),
+	);
+
+	const quotes: SwapQuote[] = [];
+	const errors: BestQuoteResult['errors'] = [];
+	settled.forEach((outcome, i) => {
+		if (outcome.status === 'fulfilled') {
+			quotes.push(outcome.value);
+		} else {
+			errors.push({ ...requests[i], error: errorMessage(outcome.reason) });
+		}
+	});
+
+	quotes.sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0));
+
+	return { quotes, errors };
+}
+
+/**
+ * Get the router that pulls tokenIn for a DEX (the ERC-20 approval target)
+ */
+export function getSwapRouterAddress(dex: string): string {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	switch (dex) {
+		case 'uniswapV3':
+			return addresses.uniswapV3Router;
+		case 'sushiswap':
+			return addresses.sushiswapRouter;
+		case 'camelot':
+			return addresses.camelotRouter;
+		case 'camelotV3':
+			return addresses.camelotV3Router;
+		default:
+			throw new Error(`Swap execution is not supported for DEX: ${dex}`);
+	}
+}
+
+/**
+ * Submit an exact-input swap to the DEX router
+ * V2 routers always use their fee-on-transfer safe entry points, which also work for standard tokens.
+ */
+export async function submitSwap(
+	signer: Signer,
+	dex: SwapDex,
+	params: SwapParams,
+): Promise<ContractTransactionResponse> {
+	const routerAddress = getSwapRouterAddress(dex);
+	const { tokenIn, tokenOut, amountIn, amountOutMinimum, recipient, deadline, ethIn, ethOut } = params;
+	const value = ethIn ? amountIn : 0n;
+
+	if (dex === 'sushiswap' || dex === 'camelot') {
+		const isCamelot = dex === 'camelot';
+		const router = new Contract(routerAddress, isCamelot ? ABIS.CamelotRouter : ABIS.UniswapV2Router, signer);
+		const path = [tokenIn, tokenOut];
+		// Camelot routers take a referrer before the deadline
+		const tail = isCamelot ? [recipient, ethers.ZeroAddress, deadline] : [recipient, deadline];
+
+		if (ethIn) {
+			return router.swapExactETHForTokensSupportingFeeOnTransferTokens(amountOutMinimum, path, ...tail, { value });
+		}
+		if (ethOut) {
+			return router.swapExactTokensForETHSupportingFeeOnTransferTokens(amountIn, amountOutMinimum, path, ...tail);
+		}
+		return router.swapExactTokensForTokensSupportingFeeOnTransferTokens(amountIn, amountOutMinimum, path, ...tail);
+	}
+
+	if (dex === 'camelotV3') {
+		const router = new Contract(routerAddress, ABIS.AlgebraRouter, signer);
+		const swap = {
+			tokenIn,
+			tokenOut,
+			recipient: ethOut ? routerAddress : recipient,
+			deadline,
+			amountIn,
+			amountOutMinimum,
+			limitSqrtPrice: 0,
+		};
+		if (params.feeOnTransfer && !ethIn && !ethOut) {
+			return router.exactInputSingleSupportingFeeOnTransferTokens(swap);
+		}
+		if (ethOut) {
+			return router.multicall([
+				router.interface.encodeFunctionData('exactInputSingle', [swap]),
+				router.interface.encodeFunctionData('unwrapWNativeToken', [amountOutMinimum, recipient]),
+			], { value });
+		}
+		return router.exactInputSingle(swap, { value });
+	}
+
+	// Uniswap V3 has no fee-on-transfer support; output is unwrapped via the router when ETH is requested
+	const router = new Contract(routerAddress, ABIS.UniswapV3Router, signer);
+	if (params.path) {
+		const swap = {
+			path: params.path,
+			recipient: ethOut ? routerAddress : recipient,
+			deadline,
+			amountIn,
+			amountOutMinimum,
+		};
+		if (ethOut) {
+			return router.multicall([
+				router.interface.encodeFunctionData('exactInput', [swap]),
+				router.interface.encodeFunctionData('unwrapWETH9', [amountOutMinimum, recipient]),
+			], { value });
+		}
+		return router.exactInput(swap, { value });
+	}
+	const swap = {
+		tokenIn,
+		tokenOut,
+		fee: params.feeTier ?? 3000,
+		recipient: ethOut ? routerAddress : recipient,
+		deadline,
+		amountIn,
+		amountOutMinimum,
+		sqrtPriceLimitX96: 0,
+	};
+	if (ethOut) {
+		return router.multicall([
+			router.interface.encodeFunctionData('exactInputSingle', [swap]),
+			router.interface.encodeFunctionData('unwrapWETH9', [amountOutMinimum, recipient]),
+		], { value });
+	}
+	return router.exactInputSingle(swap, { value });
+}
+
+/**
+ * Submit an exact-output Uniswap V3 swap, refunding unspent ETH and unwrapping WETH output when requested
+ */
+export async function submitExactOutputSwap(
+	signer: Signer,
+	params: ExactOutputSwapParams,
+): Promise<ContractTransactionResponse> {
+	const routerAddress = getSwapRouterAddress('uniswapV3');
+	const router = new Contract(routerAddress, ABIS.UniswapV3Router, signer);
+	const { ethIn, ethOut, recipient, amountOut } = params;
+	const swap = {
+		tokenIn: params.tokenIn,
+		tokenOut: params.tokenOut,
+		fee: params.feeTier,
+		recipient: ethOut ? routerAddress : recipient,
+		deadline: params.deadline,
+		amountOut,
+		amountInMaximum: params.amountInMaximum,
+		sqrtPriceLimitX96: 0,
+	};
+	const value = ethIn ? params.amountInMaximum : 0n;
+
+	if (!ethIn && !ethOut) {
+		return router.exactOutputSingle(swap);
+	}
+
+	const calls = [router.interface.encodeFunctionData('exactOutputSingle', [swap])];
+	if (ethIn) {
+		calls.push(router.interface.encodeFunctionData('refundETH', []));
+	}
+	if (ethOut) {
+		calls.push(router.interface.encodeFunctionData('unwrapWETH9', [amountOut, recipient]));
+	}
+	return router.multicall(calls, { value });
+}
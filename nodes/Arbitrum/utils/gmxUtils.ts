@@ -0,0 +1,395 @@
+/**
+ * GMX V2 Utilities for Arbitrum
+ * DataStore key derivation, batched state reads and position/market math
+ *
+ * Markets and positions are read straight from DataStore keys, which stay stable across
+ * Reader upgrades (each Reader release changes its returned struct layouts).
+ */
+
+import { ethers, AbiCoder, Interface } from 'ethers';
+import type { Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+import { aggregateReads } from './multicallUtils';
+
+/** GMX USD amounts and factors use 30 decimals */
+export const GMX_PRECISION_DECIMALS = 30;
+
+const SECONDS_PER_HOUR = 3600;
+const SECONDS_PER_YEAR = 31536000;
+
+const coder = AbiCoder.defaultAbiCoder();
+const dataStoreInterface = new Interface(ABIS.GmxDataStore);
+
+/**
+ * Keys.sol style key: keccak256(abi.encode(name)) optionally combined with arguments
+ */
+export function gmxKey(name: string, types: string[] = [], values: unknown[] = []): string {
+	const base = ethers.keccak256(coder.encode(['string'], [name]));
+	return types.length === 0 ? base : ethers.keccak256(coder.encode(['bytes32', ...types], [base, ...values]));
+}
+
+/**
+ * Key of one field of a stored record (MarketStoreUtils, PositionStoreUtils)
+ */
+function recordFieldKey(recordType: 'address' | 'bytes32', recordKey: string, field: string): string {
+	return ethers.keccak256(coder.encode([recordType, 'bytes32'], [recordKey, gmxKey(field)]));
+}
+
+type DataStoreGetter = 'getUint' | 'getInt' | 'getAddress' | 'getBool';
+
+/**
+ * Read many DataStore values in one multicall; reverted reads come back undefined
+ */
+async function readDataStore(
+	provider: Provider,
+	dataStore: string,
+	reads: Array<[DataStoreGetter, string]>,
+): Promise<unknown[]> {
+	const results = await aggregateReads(provider, reads.map(([getter, key]) => ({
+		target: dataStore,
+		callData: dataStoreInterface.encodeFunctionData(getter, [key]),
+	})));
+	return results.map((data, i) => (
+		data === null ? undefined : dataStoreInterface.decodeFunctionResult(reads[i][0], data)[0]
+	));
+}
+
+function toNumber(value: bigint, decimals = GMX_PRECISION_DECIMALS): number {
+	return Number(ethers.formatUnits(value, decimals));
+}
+
+/**
+ * Tokens making up a GMX V2 market
+ */
+export interface GmxMarket {
+	marketToken: string;
+	indexToken: string;
+	longToken: string;
+	shortToken: string;
+}
+
+/**
+ * Stored state of a GMX V2 position
+ */
+export interface GmxPosition {
+	key: string;
+	account: string;
+	market: string;
+	collateralToken: string;
+	isLong: boolean;
+	/** USD, 30 decimals */
+	sizeInUsd: bigint;
+	/** Index token units */
+	sizeInTokens: bigint;
+	/** Collateral token units */
+	collateralAmount: bigint;
+}
+
+/**
+ * Market state needed for open interest, funding and borrowing
+ */
+export interface GmxMarketState {
+	openInterestLongUsd: number;
+	openInterestShortUsd: number;
+	/** Long open interest in index token units */
+	openInterestLongInTokens: bigint;
+	longPoolAmount: bigint;
+	shortPoolAmount: bigint;
+	fundingFactor: number;
+	fundingExponentFactor: number;
+	fundingIncreaseFactorPerSecond: number;
+	maxFundingFactorPerSecond: number;
+	savedFundingFactorPerSecond: number;
+	borrowingFactor: { long: number; short: number };
+	borrowingExponentFactor: { long: number; short: number };
+	optimalUsageFactor: { long: number; short: number };
+	baseBorrowingFactor: { long: number; short: number };
+	aboveOptimalUsageBorrowingFactor: { long: number; short: number };
+	minCollateralFactor: number;
+	minCollateralUsd: number;
+	isDisabled: boolean;
+}
+
+/**
+ * List markets from the DataStore market list
+ */
+export async function getGmxMarkets(
+	provider: Provider,
+	dataStore: string,
+	start = 0,
+	limit = 100,
+): Promise<GmxMarket[]> {
+	const store = new ethers.Contract(dataStore, ABIS.GmxDataStore, provider);
+	const listKey = gmxKey('MARKET_LIST');
+	const count = Number(await store.getAddressCount(listKey));
+	if (start >= count) {
+		return [];
+	}
+	const marketTokens: string[] = [...await store.getAddressValuesAt(listKey, start, Math.min(count, start + limit))];
+	return getGmxMarketsByToken(provider, dataStore, marketTokens);
+}
+
+/**
+ * Read index, long and short tokens of the given market tokens
+ */
+export async function getGmxMarketsByToken(
+	provider: Provider,
+	dataStore: string,
+	marketTokens: string[],
+): Promise<GmxMarket[]> {
+	const fields = ['INDEX_TOKEN', 'LONG_TOKEN', 'SHORT_TOKEN'];
+	const values = await readDataStore(provider, dataStore, marketTokens.flatMap((market) => (
+		fields.map((field) => ['getAddress', recordFieldKey('address', market, field)] as [DataStoreGetter, string])
+	)));
+
+	return marketTokens.map((marketToken, i) => {
+		const [indexToken, longToken, shortToken] = values.slice(i * 3, i * 3 + 3) as string[];
+		if (!longToken || longToken === ethers.ZeroAddress) {
+			throw new Error(`Not a GMX V2 market: ${marketToken}`);
+		}
+		return { marketToken, indexToken, longToken, shortToken };
+	});
+}
+
+/**
+ * Read an account's open positions from its DataStore position list
+ */
+export async function getGmxAccountPositions(
+	provider: Provider,
+	dataStore: string,
+	account: string,
+): Promise<GmxPosition[]> {
+	const store = new ethers.Contract(dataStore, ABIS.GmxDataStore, provider);
+	const listKey = gmxKey('ACCOUNT_POSITION_LIST', ['address'], [account]);
+	const count = Number(await store.getBytes32Count(listKey));
+	if (count === 0) {
+		return [];
+	}
+	const keys: string[] = [...await store.getBytes32ValuesAt(listKey, 0, count)];
+
+	const fields: Array<[DataStoreGetter, string]> = [
+		['getAddress', 'MARKET'],
+		['getAddress', 'COLLATERAL_TOKEN'],
+		['getBool', 'IS_LONG'],
+		['getUint', 'SIZE_IN_USD'],
+		['getUint', 'SIZE_IN_TOKENS'],
+		['getUint', 'COLLATERAL_AMOUNT'],
+	];
+	const values = await readDataStore(provider, dataStore, keys.flatMap((key) => (
+		fields.map(([getter, field]) => [getter, recordFieldKey('bytes32', key, field)] as [DataStoreGetter, string])
+	)));
+
+	return keys.map((key, i) => {
+		const [market, collateralToken, isLong, sizeInUsd, sizeInTokens, collateralAmount] =
+			values.slice(i * fields.length, (i + 1) * fields.length);
+		return {
+			key,
+			account,
+			market: market as string,
+			collateralToken: collateralToken as string,
+			isLong: isLong as boolean,
+			sizeInUsd: sizeInUsd as bigint,
+			sizeInTokens: sizeInTokens as bigint,
+			collateralAmount: collateralAmount as bigint,
+		};
+	});
+}
+
+/**
+ * Read open interest, pool amounts and fee parameters of a market
+ */
+export async function getGmxMarketState(
+	provider: Provider,
+	dataStore: string,
+	market: GmxMarket,
+): Promise<GmxMarketState> {
+	const { marketToken, longToken, shortToken } = market;
+	const side = (name: string, isLong: boolean): [DataStoreGetter, string] =>
+		['getUint', gmxKey(name, ['address', 'bool'], [marketToken, isLong])];
+	const perMarket = (name: string, getter: DataStoreGetter = 'getUint'): [DataStoreGetter, string] =>
+		[getter, gmxKey(name, ['address'], [marketToken])];
+	const openInterest = (name: string, collateral: string, isLong: boolean): [DataStoreGetter, string] =>
+		['getUint', gmxKey(name, ['address', 'address', 'bool'], [marketToken, collateral, isLong])];
+	const pool = (token: string): [DataStoreGetter, string] =>
+		['getUint', gmxKey('POOL_AMOUNT', ['address', 'address'], [marketToken, token])];
+
+	const reads: Array<[DataStoreGetter, string]> = [
+		openInterest('OPEN_INTEREST', longToken, true),
+		openInterest('OPEN_INTEREST', shortToken, true),
+		openInterest('OPEN_INTEREST', longToken, false),
+		openInterest('OPEN_INTEREST', shortToken, false),
+		openInterest('OPEN_INTEREST_IN_TOKENS', longToken, true),
+		openInterest('OPEN_INTEREST_IN_TOKENS', shortToken, true),
+		pool(longToken),
+		pool(shortToken),
+		perMarket('FUNDING_FACTOR'),
+		perMarket('FUNDING_EXPONENT_FACTOR'),
+		perMarket('FUNDING_INCREASE_FACTOR_PER_SECOND'),
+		perMarket('MAX_FUNDING_FACTOR_PER_SECOND'),
+		perMarket('SAVED_FUNDING_FACTOR_PER_SECOND', 'getInt'),
+		side('BORROWING_FACTOR', true),
+		side('BORROWING_FACTOR', false),
+		side('BORROWING_EXPONENT_FACTOR', true),
+		side('BORROWING_EXPONENT_FACTOR', false),
+		side('OPTIMAL_USAGE_FACTOR', true),
+		side('OPTIMAL_USAGE_FACTOR', false),
+		side('BASE_BORROWING_FACTOR', true),
+		side('BASE_BORROWING_FACTOR', false),
+		side('ABOVE_OPTIMAL_USAGE_BORROWING_FACTOR', true),
+		side('ABOVE_OPTIMAL_USAGE_BORROWING_FACTOR', false),
+		perMarket('MIN_COLLATERAL_FACTOR'),
+		['getUint', gmxKey('MIN_COLLATERAL_USD')],
+		perMarket('IS_MARKET_DISABLED', 'getBool'),
+	];
+	const values = (await readDataStore(provider, dataStore, reads)).map((value) => value ?? 0n) as bigint[];
+	const factor = (i: number) => toNumber(values[i]);
+
+	// Single-token markets count collateral under both the long and short token
+	const divisor = longToken.toLowerCase() === shortToken.toLowerCase() ? 2n : 1n;
+
+	return {
+		openInterestLongUsd: toNumber((values[0] + values[1]) / divisor),
+		openInterestShortUsd: toNumber((values[2] + values[3]) / divisor),
+		openInterestLongInTokens: (values[4] + values[5]) / divisor,
+		longPoolAmount: values[6] / divisor,
+		shortPoolAmount: values[7] / divisor,
+		fundingFactor: factor(8),
+		fundingExponentFactor: factor(9),
+		fundingIncreaseFactorPerSecond: factor(10),
+		maxFundingFactorPerSecond: factor(11),
+		savedFundingFactorPerSecond: factor(12),
+		borrowingFactor: { long: factor(13), short: factor(14) },
+		borrowingExponentFactor: { long: factor(15), short: factor(16) },
+		optimalUsageFactor: { long: factor(17), short: factor(18) },
+		baseBorrowingFactor: { long: factor(19), short: factor(20) },
+		aboveOptimalUsageBorrowingFactor: { long: factor(21), short: factor(22) },
+		minCollateralFactor: factor(23),
+		minCollateralUsd: factor(24),
+		isDisabled: (values[25] as unknown) === true,
+	};
+}
+
+/**
+ * Funding paid or received per side, matching MarketUtils.getNextFundingFactorPerSecond
+ * Adaptive-funding markets report their last saved rate. Rates are fractions of position size per second.
+ */
+export function getGmxFundingRates(state: GmxMarketState): {
+	longsPayShorts: boolean;
+	fundingFactorPerSecond: number;
+	longRatePerSecond: number;
+	shortRatePerSecond: number;
+} {
+	const { openInterestLongUsd: longOi, openInterestShortUsd: shortOi } = state;
+	const totalOi = longOi + shortOi;
+
+	let longsPayShorts = longOi > shortOi;
+	let fundingFactorPerSecond = 0;
+	if (state.fundingIncreaseFactorPerSecond > 0) {
+		longsPayShorts = state.savedFundingFactorPerSecond > 0;
+		fundingFactorPerSecond = Math.abs(state.savedFundingFactorPerSecond);
+	} else if (totalOi > 0) {
+		const diffUsd = Math.abs(longOi - shortOi);
+		const diffAfterExponent = state.fundingExponentFactor > 0
+			? Math.pow(diffUsd, state.fundingExponentFactor)
+			: diffUsd;
+		fundingFactorPerSecond = (diffAfterExponent / totalOi) * state.fundingFactor;
+	}
+	if (state.maxFundingFactorPerSecond > 0) {
+		fundingFactorPerSecond = Math.min(fundingFactorPerSecond, state.maxFundingFactorPerSecond);
+	}
+
+	// Funding is charged on the larger side's size and shared across the receiving side
+	const fundingUsdPerSecond = Math.max(longOi, shortOi) * fundingFactorPerSecond;
+	const perSide = (oi: number) => (oi > 0 ? fundingUsdPerSecond / oi : 0);
+	const longRate = perSide(longOi);
+	const shortRate = perSide(shortOi);
+
+	return {
+		longsPayShorts,
+		fundingFactorPerSecond,
+		longRatePerSecond: longsPayShorts ? -longRate : longRate,
+		shortRatePerSecond: longsPayShorts ? shortRate : -shortRate,
+	};
+}
+
+/**
+ * Borrowing rate of one side, matching MarketUtils.getBorrowingFactorPerSecond (kink or exponent model)
+ * Usage is approximated as reserved USD over pool USD.
+ */
+export function getGmxBorrowingRate(
+	state: GmxMarketState,
+	isLong: boolean,
+	reservedUsd: number,
+	poolUsd: number,
+): number {
+	const key = isLong ? 'long' : 'short';
+	if (reservedUsd <= 0 || poolUsd <= 0) {
+		return 0;
+	}
+
+	const optimalUsage = state.optimalUsageFactor[key];
+	if (optimalUsage > 0) {
+		const usage = reservedUsd / poolUsd;
+		const base = state.baseBorrowingFactor[key];
+		let rate = usage * base;
+		if (usage > optimalUsage && optimalUsage < 1) {
+			const additional = Math.max(state.aboveOptimalUsageBorrowingFactor[key] - base, 0);
+			rate += (additional * (usage - optimalUsage)) / (1 - optimalUsage);
+		}
+		return rate;
+	}
+
+	const exponent = state.borrowingExponentFactor[key];
+	const reservedAfterExponent = exponent > 0 ? Math.pow(reservedUsd, exponent) : reservedUsd;
+	return (reservedAfterExponent / poolUsd) * state.borrowingFactor[key];
+}
+
+/**
+ * Percent per hour and per year from a per-second factor
+ */
+export function gmxRateToPercent(ratePerSecond: number): { hourly: number; annual: number } {
+	return {
+		hourly: ratePerSecond * SECONDS_PER_HOUR * 100,
+		annual: ratePerSecond * SECONDS_PER_YEAR * 100,
+	};
+}
+
+/**
+ * Price at which the position's remaining collateral falls to the minimum collateral requirement
+ * Pending borrowing/funding fees and price impact are not included.
+ * @returns null when the position cannot be liquidated by price alone
+ */
+export function getGmxLiquidationPrice(params: {
+	isLong: boolean;
+	sizeUsd: number;
+	sizeTokens: number;
+	collateralTokens: number;
+	collateralPriceUsd: number;
+	/** Collateral is the index token, so its value moves with the mark price */
+	collateralIsIndexToken: boolean;
+	minCollateralFactor: number;
+	minCollateralUsd: number;
+}): number | null {
+	const { isLong, sizeUsd, sizeTokens, collateralTokens, collateralPriceUsd } = params;
+	const required = Math.max(params.minCollateralUsd, sizeUsd * params.minCollateralFactor);
+
+	let price: number;
+	if (params.collateralIsIndexToken) {
+		// long: c*P + s*P - size = required; short: c*P + size - s*P = required
+		const denominator = isLong ? collateralTokens + sizeTokens : collateralTokens - sizeTokens;
+		if (denominator === 0) {
+			return null;
+		}
+		price = isLong ? (required + sizeUsd) / denominator : (required - sizeUsd) / denominator;
+	} else {
+		if (sizeTokens === 0) {
+			return null;
+		}
+		const collateralUsd = collateralTokens * collateralPriceUsd;
+		price = isLong
+			? (required + sizeUsd - collateralUsd) / sizeTokens
+			: (collateralUsd + sizeUsd - required) / sizeTokens;
+	}
+
+	return price > 0 ? price : null;
+}
@@ -6,3 +6,17 @@ export * from './unitConverter';
 export * from './gasCalculator';
 export * from './bridgeUtils';
 export * from './retryableUtils';
+export * from './dexUtils';
+export * from './liquidityUtils';
+export * from './lendingUtils';
+export * from './priceUtils';
+export * from './multicallUtils';
+export * from './yieldUtils';
+export * from './gmxUtils';
+export * from './pendleUtils';
+export * from './poolUtils';
+export * from './swapEventUtils';
+export * from './reorgUtils';
+export * from './logScanUtils';
+export * from './blockEventUtils';
+export * from './sequencerFeedUtils';
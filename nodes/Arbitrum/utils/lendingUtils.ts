@@ -0,0 +1,103 @@
+/**
+ * Lending Utilities for Arbitrum
+ * Aave V3 reserve configuration decoding and rate conversion
+ */
+
+/** Aave rates are expressed in ray (1e27) */
+export const RAY = 10n ** 27n;
+
+/** Aave health factors are expressed in wad (1e18) */
+export const WAD = 10n ** 18n;
+
+/** Aave's variable interest rate mode */
+export const VARIABLE_RATE_MODE = 2;
+
+/** Health factor below which an account is close to liquidation */
+export const AT_RISK_HEALTH_FACTOR = 1.1;
+
+const SECONDS_PER_YEAR = 31536000;
+
+/**
+ * Liquidation risk of an Aave account
+ */
+export type HealthStatus = 'no debt' | 'liquidatable' | 'at risk' | 'healthy';
+
+/**
+ * Reserve settings packed into the Aave V3 configuration bitmap
+ */
+export interface ReserveConfiguration {
+	/** Loan to value in basis points */
+	ltv: number;
+	/** Liquidation threshold in basis points */
+	liquidationThreshold: number;
+	/** Liquidation bonus in basis points (10500 = 5% bonus) */
+	liquidationBonus: number;
+	decimals: number;
+	isActive: boolean;
+	isFrozen: boolean;
+	borrowingEnabled: boolean;
+	isPaused: boolean;
+	borrowableInIsolation: boolean;
+	isSiloed: boolean;
+	/** Reserve factor in basis points */
+	reserveFactor: number;
+	/** Borrow cap in whole tokens (0 = no cap) */
+	borrowCap: bigint;
+	/** Supply cap in whole tokens (0 = no cap) */
+	supplyCap: bigint;
+	eModeCategory: number;
+}
+
+function bits(data: bigint, start: number, length: number): bigint {
+	return (data >> BigInt(start)) & ((1n << BigInt(length)) - 1n);
+}
+
+/**
+ * Decode a ReserveConfigurationMap bitmap
+ */
+export function decodeReserveConfiguration(data: bigint): ReserveConfiguration {
+	return {
+		ltv: Number(bits(data, 0, 16)),
+		liquidationThreshold: Number(bits(data, 16, 16)),
+		liquidationBonus: Number(bits(data, 32, 16)),
+		decimals: Number(bits(data, 48, 8)),
+		isActive: bits(data, 56, 1) === 1n,
+		isFrozen: bits(data, 57, 1) === 1n,
+		borrowingEnabled: bits(data, 58, 1) === 1n,
+		isPaused: bits(data, 60, 1) === 1n,
+		borrowableInIsolation: bits(data, 61, 1) === 1n,
+		isSiloed: bits(data, 62, 1) === 1n,
+		reserveFactor: Number(bits(data, 64, 16)),
+		borrowCap: bits(data, 80, 36),
+		supplyCap: bits(data, 116, 36),
+		eModeCategory: Number(bits(data, 168, 8)),
+	};
+}
+
+/**
+ * Convert a ray APR into a percentage APY with per-second compounding
+ */
+export function rayRateToApy(rate: bigint): number {
+	const apr = Number(rate) / Number(RAY);
+	return (Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1) * 100;
+}
+
+/**
+ * Convert a ray APR into a percentage APR
+ */
+export function rayRateToApr(rate: bigint): number {
+	return (Number(rate) / Number(RAY)) * 100;
+}
+
+/**
+ * Classify a wad health factor; accounts without debt report max uint256 and are never at risk
+ */
+export function getHealthStatus(healthFactor: bigint, totalDebtBase: bigint): HealthStatus {
+	if (totalDebtBase === 0n) {
+		return 'no debt';
+	}
+	if (healthFactor < WAD) {
+		return 'liquidatable';
+	}
+	return Number(healthFactor) / Number(WAD) < AT_RISK_HEALTH_FACTOR ? 'at risk' : 'healthy';
+}
@@ -0,0 +1,282 @@
+/**
+ * Liquidity Utilities for Arbitrum
+ * Uniswap V3 concentrated liquidity math (ticks, amounts and fees)
+ */
+
+import { ethers } from 'ethers';
+
+/** Q64.96 fixed point scale */
+export const Q96 = 2n ** 96n;
+
+/** Q128.128 fixed point scale used by fee growth accumulators */
+export const Q128 = 2n ** 128n;
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+/** Tick bounds of Uniswap V3 pools */
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+/**
+ * Tick spacing per Uniswap V3 fee tier
+ */
+export const TICK_SPACINGS: Record<number, number> = {
+	100: 1,
+	500: 10,
+	3000: 60,
+	10000: 200,
+};
+
+/**
+ * Token amounts held by (or owed to) a position
+ */
+export interface TokenAmounts {
+	amount0: bigint;
+	amount1: bigint;
+}
+
+/**
+ * Value of a position against holding its deposit, in token1
+ */
+export interface LpValuation {
+	hodlValue: number;
+	positionValue: number;
+	feesValue: number;
+	/** Position value minus hodl value, fees excluded */
+	impermanentLoss: number;
+	impermanentLossPercent: number;
+	/** Position value plus fees minus hodl value */
+	netPnl: number;
+	netPnlPercent: number;
+}
+
+/**
+ * Fee growth snapshot of a tick boundary
+ */
+export interface TickFeeGrowth {
+	feeGrowthOutside0X128: bigint;
+	feeGrowthOutside1X128: bigint;
+}
+
+// Multipliers from Uniswap V3 TickMath, one per bit of |tick| above the first
+const TICK_RATIO_MULTIPLIERS: Array<[bigint, bigint]> = [
+	[0x2n, 0xfff97272373d413259a46990580e213an],
+	[0x4n, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+	[0x8n, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+	[0x10n, 0xffcb9843d60f6159c9db58835c926644n],
+	[0x20n, 0xff973b41fa98c081472e6896dfb254c0n],
+	[0x40n, 0xff2ea16466c96a3843ec78b326b52861n],
+	[0x80n, 0xfe5dee046a99a2a811c461f1969c3053n],
+	[0x100n, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+	[0x200n, 0xf987a7253ac413176f2b074cf7815e54n],
+	[0x400n, 0xf3392b0822b70005940c7a398e4b70f3n],
+	[0x800n, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+	[0x1000n, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+	[0x2000n, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+	[0x4000n, 0x70d869a156d2a1b890bb3df62baf32f7n],
+	[0x8000n, 0x31be135f97d08fd981231505542fcfa6n],
+	[0x10000n, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+	[0x20000n, 0x5d6af8dedb81196699c329225ee604n],
+	[0x40000n, 0x2216e584f5fa1ea926041bedfe98n],
+	[0x80000n, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * Exact sqrt(1.0001^tick) * 2^96, matching TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+	if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+		throw new Error(`Tick out of range: ${tick}`);
+	}
+	const absTick = BigInt(Math.abs(tick));
+
+	let ratio = (absTick & 0x1n) !== 0n
+		? 0xfffcb933bd6fad37aa2d162d1a594001n
+		: 0x100000000000000000000000000000000n;
+	for (const [bit, multiplier] of TICK_RATIO_MULTIPLIERS) {
+		if ((absTick & bit) !== 0n) {
+			ratio = (ratio * multiplier) >> 128n;
+		}
+	}
+	if (tick > 0) {
+		ratio = MAX_UINT256 / ratio;
+	}
+
+	// Round up when converting from Q128.128 to Q64.96
+	return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Human price of token0 in token1 at a tick
+ */
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+	return Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * Human price of token0 in token1 from a pool's sqrtPriceX96
+ */
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+	return (Number(sqrtPriceX96) / 2 ** 96) ** 2 * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * Nearest initializable tick for a human price of token0 in token1
+ */
+export function priceToTick(price: number, decimals0: number, decimals1: number, tickSpacing: number): number {
+	if (!(price > 0)) {
+		throw new Error('Price must be greater than zero');
+	}
+	const rawTick = Math.log(price * Math.pow(10, decimals1 - decimals0)) / Math.log(1.0001);
+	const tick = Math.round(rawTick / tickSpacing) * tickSpacing;
+	const minUsable = Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+	const maxUsable = Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
+	return Math.min(Math.max(tick, minUsable), maxUsable);
+}
+
+function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint): bigint {
+	if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+	return ((liquidity << 96n) * (sqrtB - sqrtA)) / sqrtB / sqrtA;
+}
+
+function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint): bigint {
+	if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+	return (liquidity * (sqrtB - sqrtA)) / Q96;
+}
+
+/**
+ * Token amounts represented by liquidity in [tickLower, tickUpper] at the current price
+ */
+export function getAmountsForLiquidity(
+	sqrtPriceX96: bigint,
+	tickLower: number,
+	tickUpper: number,
+	liquidity: bigint,
+): TokenAmounts {
+	const sqrtA = getSqrtRatioAtTick(tickLower);
+	const sqrtB = getSqrtRatioAtTick(tickUpper);
+
+	if (sqrtPriceX96 <= sqrtA) {
+		return { amount0: getAmount0Delta(sqrtA, sqrtB, liquidity), amount1: 0n };
+	}
+	if (sqrtPriceX96 < sqrtB) {
+		return {
+			amount0: getAmount0Delta(sqrtPriceX96, sqrtB, liquidity),
+			amount1: getAmount1Delta(sqrtA, sqrtPriceX96, liquidity),
+		};
+	}
+	return { amount0: 0n, amount1: getAmount1Delta(sqrtA, sqrtB, liquidity) };
+}
+
+/**
+ * Maximum liquidity mintable in [tickLower, tickUpper] from the given token amounts
+ */
+export function getLiquidityForAmounts(
+	sqrtPriceX96: bigint,
+	tickLower: number,
+	tickUpper: number,
+	amount0: bigint,
+	amount1: bigint,
+): bigint {
+	const sqrtA = getSqrtRatioAtTick(tickLower);
+	const sqrtB = getSqrtRatioAtTick(tickUpper);
+	const liquidity0 = (lower: bigint, upper: bigint) => (amount0 * ((lower * upper) / Q96)) / (upper - lower);
+	const liquidity1 = (lower: bigint, upper: bigint) => (amount1 * Q96) / (upper - lower);
+
+	if (sqrtPriceX96 <= sqrtA) {
+		return liquidity0(sqrtA, sqrtB);
+	}
+	if (sqrtPriceX96 < sqrtB) {
+		const l0 = liquidity0(sqrtPriceX96, sqrtB);
+		const l1 = liquidity1(sqrtA, sqrtPriceX96);
+		return l0 < l1 ? l0 : l1;
+	}
+	return liquidity1(sqrtA, sqrtB);
+}
+
+/** Subtraction modulo 2^256, as fee growth accumulators are allowed to overflow */
+function subMod256(a: bigint, b: bigint): bigint {
+	return (a - b + (MAX_UINT256 + 1n)) & MAX_UINT256;
+}
+
+/**
+ * Fee growth per unit of liquidity inside [tickLower, tickUpper], matching Tick.getFeeGrowthInside
+ */
+export function getFeeGrowthInside(
+	tickCurrent: number,
+	tickLower: number,
+	tickUpper: number,
+	lower: TickFeeGrowth,
+	upper: TickFeeGrowth,
+	feeGrowthGlobal0X128: bigint,
+	feeGrowthGlobal1X128: bigint,
+): { feeGrowthInside0X128: bigint; feeGrowthInside1X128: bigint } {
+	const below0 = tickCurrent >= tickLower
+		? lower.feeGrowthOutside0X128
+		: subMod256(feeGrowthGlobal0X128, lower.feeGrowthOutside0X128);
+	const below1 = tickCurrent >= tickLower
+		? lower.feeGrowthOutside1X128
+		: subMod256(feeGrowthGlobal1X128, lower.feeGrowthOutside1X128);
+	const above0 = tickCurrent < tickUpper
+		? upper.feeGrowthOutside0X128
+		: subMod256(feeGrowthGlobal0X128, upper.feeGrowthOutside0X128);
+	const above1 = tickCurrent < tickUpper
+		? upper.feeGrowthOutside1X128
+		: subMod256(feeGrowthGlobal1X128, upper.feeGrowthOutside1X128);
+
+	return {
+		feeGrowthInside0X128: subMod256(subMod256(feeGrowthGlobal0X128, below0), above0),
+		feeGrowthInside1X128: subMod256(subMod256(feeGrowthGlobal1X128, below1), above1),
+	};
+}
+
+/**
+ * Fees a position can collect: tokens already owed plus fees accrued since its last checkpoint
+ */
+export function getUncollectedFees(
+	liquidity: bigint,
+	feeGrowthInside0X128: bigint,
+	feeGrowthInside1X128: bigint,
+	feeGrowthInside0LastX128: bigint,
+	feeGrowthInside1LastX128: bigint,
+	tokensOwed0: bigint,
+	tokensOwed1: bigint,
+): TokenAmounts {
+	return {
+		amount0: tokensOwed0 + (subMod256(feeGrowthInside0X128, feeGrowthInside0LastX128) * liquidity) / Q128,
+		amount1: tokensOwed1 + (subMod256(feeGrowthInside1X128, feeGrowthInside1LastX128) * liquidity) / Q128,
+	};
+}
+
+/**
+ * Value a position's principal and fees against holding the deposited amounts, at a price of token0 in token1
+ */
+export function getLpValuation(
+	price: number,
+	decimals0: number,
+	decimals1: number,
+	deposited: TokenAmounts,
+	current: TokenAmounts,
+	fees?: TokenAmounts,
+): LpValuation {
+	const valueIn1 = (amounts: TokenAmounts) =>
+		Number(ethers.formatUnits(amounts.amount0, decimals0)) * price
+		+ Number(ethers.formatUnits(amounts.amount1, decimals1));
+
+	const hodlValue = valueIn1(deposited);
+	const positionValue = valueIn1(current);
+	const feesValue = fees ? valueIn1(fees) : 0;
+	const impermanentLoss = positionValue - hodlValue;
+	const netPnl = positionValue + feesValue - hodlValue;
+	const percentOfHodl = (value: number) => (hodlValue > 0 ? (value / hodlValue) * 100 : 0);
+
+	return {
+		hodlValue,
+		positionValue,
+		feesValue,
+		impermanentLoss,
+		impermanentLossPercent: percentOfHodl(impermanentLoss),
+		netPnl,
+		netPnlPercent: percentOfHodl(netPnl),
+	};
+}
@@ -0,0 +1,189 @@
+/**
+ * Log Scan Utilities for Arbitrum
+ * Chunked getLogs and parallel block fetching for scanning large block ranges
+ */
+
+import type { Block, Filter, Log, Provider } from 'ethers';
+
+/** Blocks per getLogs request before any halving */
+export const DEFAULT_LOG_CHUNK_SIZE = 2000;
+
+/** Blocks fetched at once when walking a range block by block */
+export const DEFAULT_BLOCK_CONCURRENCY = 10;
+
+/** Attempts at the same chunk size after a timeout before giving up */
+export const MAX_TRANSIENT_RETRIES = 3;
+
+/** Wait before the first retry after a timeout, doubled on each further one */
+const TRANSIENT_RETRY_DELAY = 500;
+
+/**
+ * RPC errors that mean the request spanned too many blocks or matched too many logs
+ * A query timeout is the node giving up on a heavy range, unlike a request that timed out in transit.
+ */
+const LOG_RANGE_ERROR = /too many|more than \d+|block range|range (is )?too (large|wide|big)|limit exceeded|exceeds? (the )?(max|limit)|response size|query timeout/i;
+
+/** Errors of a request that may succeed unchanged when sent again */
+const TRANSIENT_ERROR = /timed? ?out|ETIMEDOUT|ECONNRESET|socket hang up/i;
+
+function getErrorMessages(error: unknown): string[] {
+	const err = error as { message?: string; shortMessage?: string; error?: { message?: string }; info?: { error?: { message?: string } } };
+	return [err?.message, err?.shortMessage, err?.error?.message, err?.info?.error?.message]
+		.filter((message): message is string => typeof message === 'string');
+}
+
+/**
+ * Whether a getLogs error can be fixed by asking for a smaller block range
+ */
+export function isLogRangeError(error: unknown): boolean {
+	return getErrorMessages(error).some((message) => LOG_RANGE_ERROR.test(message));
+}
+
+/**
+ * Whether an error is a timeout or dropped connection worth retrying as is, rather than a range error
+ */
+export function isTransientError(error: unknown): boolean {
+	if (isLogRangeError(error)) {
+		return false;
+	}
+	return (error as { code?: string })?.code === 'TIMEOUT' || getErrorMessages(error).some((message) => TRANSIENT_ERROR.test(message));
+}
+
+/**
+ * Chunk size to retry a failed getLogs with, after waiting out a timeout
+ * Range errors halve the chunk; other errors, and range errors on a single block, are rethrown.
+ */
+async function getRetryChunkSize(error: unknown, span: number, size: number, retries: number): Promise<number> {
+	if (isLogRangeError(error)) {
+		if (span === 1) {
+			throw error;
+		}
+		return Math.max(1, Math.floor(span / 2));
+	}
+	if (isTransientError(error) && retries < MAX_TRANSIENT_RETRIES) {
+		await new Promise((resolve) => setTimeout(resolve, TRANSIENT_RETRY_DELAY * 2 ** retries));
+		return size;
+	}
+	throw error;
+}
+
+/**
+ * getLogs over a block range in chunks, halving the chunk whenever the RPC rejects it as too large
+ * The halved size is kept for the rest of the scan; a single block that still fails is rethrown.
+ * Timeouts are retried at the same size up to MAX_TRANSIENT_RETRIES times.
+ */
+export async function getLogsChunked(
+	provider: Provider,
+	filter: Omit<Filter, 'fromBlock' | 'toBlock'>,
+	fromBlock: number,
+	toBlock: number,
+	chunkSize = DEFAULT_LOG_CHUNK_SIZE,
+): Promise<Log[]> {
+	const logs: Log[] = [];
+	let size = Math.max(1, chunkSize);
+	let start = fromBlock;
+	let retries = 0;
+
+	while (start <= toBlock) {
+		const end = Math.min(start + size - 1, toBlock);
+		try {
+			logs.push(...await provider.getLogs({ ...filter, fromBlock: start, toBlock: end }));
+			start = end + 1;
+			retries = 0;
+		} catch (error) {
+			// A halved chunk is always smaller, so an unchanged size means a retried timeout
+			const next = await getRetryChunkSize(error, end - start + 1, size, retries);
+			retries = next === size ? retries + 1 : retries;
+			size = next;
+		}
+	}
+
+	return logs;
+}
+
+/**
+ * Logs of the newest chunk of a block range that has any, scanning back from toBlock
+ * Chunks are halved and retried as in getLogsChunked.
+ */
+export async function getLatestLogs(
+	provider: Provider,
+	filter: Omit<Filter, 'fromBlock' | 'toBlock'>,
+	fromBlock: number,
+	toBlock: number,
+	chunkSize = DEFAULT_LOG_CHUNK_SIZE,
+): Promise<Log[]> {
+	let size = Math.max(1, chunkSize);
+	let end = toBlock;
+	let retries = 0;
+
+	while (end >= fromBlock) {
+		const start = Math.max(fromBlock, end - size + 1);
+		try {
+			const logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end });
+			if (logs.length > 0) {
+				return logs;
+			}
+			end = start - 1;
+			retries = 0;
+		} catch (error) {
+			const next = await getRetryChunkSize(error, end - start + 1, size, retries);
+			retries = next === size ? retries + 1 : retries;
+			size = next;
+		}
+	}
+
+	return [];
+}
+
+/**
+ * Fetch every block in a range, `concurrency` requests at a time, in block order
+ * Blocks the RPC does not return are skipped.
+ */
+export async function getBlocksInRange(
+	provider: Provider,
+	fromBlock: number,
+	toBlock: number,
+	prefetchTxs = false,
+	concurrency = DEFAULT_BLOCK_CONCURRENCY,
+): Promise<Block[]> {
+	const blocks: Block[] = [];
+	const batch = Math.max(1, concurrency);
+
+	for (let start = fromBlock; start <= toBlock; start += batch) {
+		const numbers = Array.from({ length: Math.min(batch, toBlock - start + 1) }, (_, i) => start + i);
+		const fetched = await Promise.all(numbers.map((number) => provider.getBlock(number, prefetchTxs)));
+		blocks.push(...fetched.filter((block): block is Block => block !== null));
+	}
+
+	return blocks;
+}
+
+/**
+ * First block with a timestamp at or after the given unix time, found by binary search
+ * Times past the latest block resolve to the latest block.
+ */
+export async function findBlockByTimestamp(provider: Provider, timestamp: number): Promise<number> {
+	const latest = await provider.getBlock('latest');
+	if (!latest) {
+		throw new Error('RPC did not return the latest block');
+	}
+	if (timestamp >= latest.timestamp) {
+		return latest.number;
+	}
+
+	let low = 0;
+	let high = latest.number;
+	while (low < high) {
+		const mid = Math.floor((low + high) / 2);
+		const block = await provider.getBlock(mid);
+		if (!block) {
+			throw new Error(`RPC did not return block ${mid}`);
+		}
+		if (block.timestamp < timestamp) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+	return low;
+}
@@ -0,0 +1,69 @@
+/**
+ * Multicall Utilities for Arbitrum
+ * Batched reads through Multicall3
+ */
+
+import { ethers, Contract, Interface } from 'ethers';
+import type { Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+import { COMMON_CONTRACTS } from '../constants/tokens';
+
+/** Calls per aggregate3 request */
+const MULTICALL_BATCH_SIZE = 500;
+
+/**
+ * A read to batch: target contract and encoded calldata
+ */
+export interface MulticallRead {
+	target: string;
+	callData: string;
+}
+
+/**
+ * Run reads in batched Multicall3 aggregate3 calls
+ * @returns Return data per read, or null when the read reverted
+ */
+export async function aggregateReads(
+	provider: Provider,
+	reads: MulticallRead[],
+	blockTag?: number,
+): Promise<Array<string | null>> {
+	const multicall = new Contract(COMMON_CONTRACTS.arbitrumOne.multicall3, ABIS.Multicall3, provider);
+
+	const results: Array<{ success: boolean; returnData: string }> = [];
+	for (let i = 0; i < reads.length; i += MULTICALL_BATCH_SIZE) {
+		const batch = reads.slice(i, i + MULTICALL_BATCH_SIZE).map((read) => ({ ...read, allowFailure: true }));
+		results.push(...await multicall.aggregate3.staticCall(batch, { blockTag }));
+	}
+
+	return results.map(({ success, returnData }) => (success ? returnData : null));
+}
+
+/**
+ * Read token balances for every holder/token pair in batched Multicall3 calls
+ * The zero address stands for native ETH. Failed calls read as zero.
+ * @returns balances[holderIndex][tokenIndex]
+ */
+export async function getTokenBalances(
+	provider: Provider,
+	holders: string[],
+	tokens: string[],
+	blockTag?: number,
+): Promise<bigint[][]> {
+	const multicallAddress = COMMON_CONTRACTS.arbitrumOne.multicall3;
+	const multicall = new Interface(ABIS.Multicall3);
+	const erc20 = new Interface(ABIS.ERC20);
+
+	const reads = holders.flatMap((holder) => tokens.map((token) => (
+		token === ethers.ZeroAddress
+			? { target: multicallAddress, callData: multicall.encodeFunctionData('getEthBalance', [holder]) }
+			: { target: token, callData: erc20.encodeFunctionData('balanceOf', [holder]) }
+	)));
+
+	const results = await aggregateReads(provider, reads, blockTag);
+
+	return holders.map((_, h) => tokens.map((_, t) => {
+		const returnData = results[h * tokens.length + t];
+		return returnData && returnData.length >= 66 ? BigInt(ethers.dataSlice(returnData, 0, 32)) : 0n;
+	}));
+}
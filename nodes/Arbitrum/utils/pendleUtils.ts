@@ -0,0 +1,108 @@
+/**
+ * Pendle Utilities for Arbitrum
+ * Market state, implied APY and PT/YT pricing
+ */
+
+import { ethers, Contract } from 'ethers';
+import type { Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+
+const SECONDS_PER_YEAR = 31536000;
+
+/**
+ * State of a Pendle V2 market priced in its accounting asset
+ */
+export interface PendleMarketInfo {
+	market: string;
+	sy: string;
+	pt: string;
+	yt: string;
+	/** PT symbol, e.g. PT-weETH-26JUN2025 */
+	name: string;
+	/** Unix timestamp */
+	expiry: number;
+	isExpired: boolean;
+	secondsToExpiry: number;
+	/** Continuously compounded yearly rate */
+	lnImpliedRate: number;
+	/** Implied fixed APY of PT in percent */
+	impliedApy: number;
+	/** PT and YT prices in the accounting asset; PT + YT = 1 */
+	ptPriceInAsset: number;
+	ytPriceInAsset: number;
+	/** Accounting asset per SY */
+	syExchangeRate: number;
+	asset: string;
+	assetDecimals: number;
+	/** PT, YT and SY share the SY decimals */
+	decimals: number;
+	totalPt: bigint;
+	totalSy: bigint;
+	lpTotalSupply: bigint;
+	/** Pool liquidity (SY + PT) in the accounting asset */
+	liquidityInAsset: number;
+}
+
+/**
+ * PT price in the accounting asset from the market's ln implied rate
+ */
+export function getPendlePtPrice(lnImpliedRate: number, secondsToExpiry: number): number {
+	return secondsToExpiry > 0 ? Math.exp(-lnImpliedRate * secondsToExpiry / SECONDS_PER_YEAR) : 1;
+}
+
+/**
+ * Read a Pendle market, its SY and its PT
+ */
+export async function getPendleMarketInfo(provider: Provider, address: string): Promise<PendleMarketInfo> {
+	const market = new Contract(address, ABIS.PendleMarket, provider);
+	const [tokens, expiry, state, lpTotalSupply] = await Promise.all([
+		market.readTokens(),
+		market.expiry() as Promise<bigint>,
+		market._storage(),
+		market.totalSupply() as Promise<bigint>,
+	]);
+
+	const sy = new Contract(tokens.SY, ABIS.PendleSy, provider);
+	const pt = new Contract(tokens.PT, ABIS.ERC20, provider);
+	const [exchangeRate, assetInfo, decimals, name] = await Promise.all([
+		sy.exchangeRate() as Promise<bigint>,
+		sy.assetInfo(),
+		sy.decimals(),
+		pt.symbol().catch(() => 'PT') as Promise<string>,
+	]);
+
+	const now = Math.floor(Date.now() / 1000);
+	const secondsToExpiry = Math.max(0, Number(expiry) - now);
+	const assetDecimals = Number(assetInfo.assetDecimals);
+
+	// lastLnImpliedRate is scaled by 1e18
+	const lnImpliedRate = Number(state.lastLnImpliedRate) / 1e18;
+	const ptPriceInAsset = getPendlePtPrice(lnImpliedRate, secondsToExpiry);
+	const totalPt = BigInt(state.totalPt);
+	const totalSy = BigInt(state.totalSy);
+	const syInAsset = (totalSy * exchangeRate) / 10n ** 18n;
+
+	return {
+		market: address,
+		sy: tokens.SY,
+		pt: tokens.PT,
+		yt: tokens.YT,
+		name,
+		expiry: Number(expiry),
+		isExpired: secondsToExpiry === 0,
+		secondsToExpiry,
+		lnImpliedRate,
+		impliedApy: (Math.exp(lnImpliedRate) - 1) * 100,
+		ptPriceInAsset,
+		ytPriceInAsset: 1 - ptPriceInAsset,
+		syExchangeRate: Number(ethers.formatUnits(exchangeRate, 18)),
+		asset: assetInfo.assetAddress,
+		assetDecimals,
+		decimals: Number(decimals),
+		totalPt,
+		totalSy,
+		lpTotalSupply,
+		liquidityInAsset: Number(ethers.formatUnits(syInAsset, assetDecimals))
+			+ Number(ethers.formatUnits(totalPt, assetDecimals)) * ptPriceInAsset,
+	};
+}
@@ -0,0 +1,397 @@
+/**
+ * Pool Utilities for Arbitrum
+ * Introspection of Curve and Balancer V2 pools, and pool discovery from DEX factories
+ */
+
+import { ethers, Contract, Interface } from 'ethers';
+import type { Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+import { DEX_ROUTERS } from '../constants/tokens';
+import { aggregateReads } from './multicallUtils';
+import { DEX_NAMES, UNISWAP_V3_FEE_TIERS } from './dexUtils';
+import type { SwapDex } from './dexUtils';
+
+/** Curve pools hold at most 8 coins */
+const CURVE_MAX_COINS = 8;
+
+/** Placeholder Curve uses for native ETH */
+const CURVE_ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+/** Curve fees are scaled by 1e10 */
+const CURVE_FEE_DENOMINATOR = 1e10;
+
+/**
+ * Token held by a pool with its balance in token units
+ */
+export interface PoolToken {
+	index: number;
+	address: string;
+	symbol: string;
+	decimals: number;
+	balance: string;
+}
+
+/**
+ * get_dy quote between two coins of a Curve pool
+ */
+export interface CurveQuote {
+	from: string;
+	to: string;
+	i: number;
+	j: number;
+	amountIn: string;
+	amountOut: string;
+	/** Output per unit of input */
+	rate: number;
+}
+
+/**
+ * State of a Curve pool
+ */
+export interface CurvePoolInfo {
+	pool: string;
+	/** stable: StableSwap invariant; crypto: CryptoSwap pools with a gamma parameter */
+	poolType: 'stable' | 'crypto';
+	coins: PoolToken[];
+	A: number;
+	gamma: number | null;
+	/** Swap fee in percent */
+	feePercent: number;
+	/** Share of the swap fee kept by the DAO, in percent */
+	adminFeePercent: number | null;
+	/** LP token value in the pool's base unit, 18 decimals */
+	virtualPrice: string | null;
+	quotes: CurveQuote[];
+}
+
+/**
+ * State of a Balancer V2 pool
+ */
+export interface BalancerPoolInfo {
+	pool: string;
+	poolId: string;
+	name: string;
+	symbol: string;
+	poolType: 'weighted' | 'stable' | 'other';
+	tokens: Array<PoolToken & {
+		/** Normalized weight in percent on weighted pools */
+		weight: number | null;
+		/** Composable pools list their own BPT among the tokens */
+		isPoolToken: boolean;
+	}>;
+	/** Swap fee in percent */
+	swapFeePercent: number;
+	amplification: number | null;
+	totalSupply: string;
+	lastChangeBlock: number;
+}
+
+async function getTokenMeta(provider: Provider, address: string): Promise<{ symbol: string; decimals: number }> {
+	if (address.toLowerCase() === CURVE_ETH_ADDRESS.toLowerCase()) {
+		return { symbol: 'ETH', decimals: 18 };
+	}
+	const token = new Contract(address, ABIS.ERC20, provider);
+	const [symbol, decimals] = await Promise.all([token.symbol().catch(() => 'Unknown'), token.decimals()]);
+	return { symbol, decimals: Number(decimals) };
+}
+
+/** Read an optional getter, returning null when the pool does not implement it */
+async function optional<T>(read: Promise<T>): Promise<T | null> {
+	try {
+		return await read;
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Read a Curve pool: coins, balances, A, fees, virtual price and get_dy quotes between every pair of coins
+ * @param quoteAmount Amount of each input coin to quote, in token units
+ */
+export async function getCurvePoolInfo(
+	provider: Provider,
+	address: string,
+	quoteAmount = '1',
+): Promise<CurvePoolInfo> {
+	const pool = new Contract(address, ABIS.CurvePool, provider);
+	const iface = new Interface(ABIS.CurvePool);
+
+	// Coin count is not exposed uniformly; read every slot and stop at the first revert
+	const coinReads = await aggregateReads(provider, Array.from({ length: CURVE_MAX_COINS }, (_, i) => ({
+		target: address,
+		callData: iface.encodeFunctionData('coins', [i]),
+	})));
+	const firstMissing = coinReads.indexOf(null);
+	const coinAddresses = coinReads
+		.slice(0, firstMissing === -1 ? CURVE_MAX_COINS : firstMissing)
+		.map((data) => iface.decodeFunctionResult('coins', data as string)[0] as string);
+	if (coinAddresses.length < 2) {
+		throw new Error('Address is not a Curve pool: coins() is not readable');
+	}
+
+	const [balances, metas, A, gamma, fee, adminFee, virtualPrice] = await Promise.all([
+		Promise.all(coinAddresses.map((_, i) => pool.balances(i) as Promise<bigint>)),
+		Promise.all(coinAddresses.map((coin) => getTokenMeta(provider, coin))),
+		pool.A() as Promise<bigint>,
+		optional(pool.gamma() as Promise<bigint>),
+		pool.fee() as Promise<bigint>,
+		optional(pool.admin_fee() as Promise<bigint>),
+		optional(pool.get_virtual_price() as Promise<bigint>),
+	]);
+
+	const coins = coinAddresses.map((coin, i) => ({
+		index: i,
+		address: coin,
+		symbol: metas[i].symbol,
+		decimals: metas[i].decimals,
+		balance: ethers.formatUnits(balances[i], metas[i].decimals),
+	}));
+
+	// Stable pools take int128 indexes; crypto pools take uint256
+	const getDy = async (i: number, j: number, dx: bigint): Promise<bigint> => {
+		try {
+			return await pool['get_dy(int128,int128,uint256)'](i, j, dx);
+		} catch (error) {
+			return pool['get_dy(uint256,uint256,uint256)'](i, j, dx);
+		}
+	};
+
+	const pairs = coins.flatMap((from) => coins.filter((to) => to.index !== from.index).map((to) => [from, to]));
+	const quotes = await Promise.all(pairs.map(async ([from, to]): Promise<CurveQuote | undefined> => {
+		const amountIn = ethers.parseUnits(quoteAmount, from.decimals);
+		const amountOut = await optional(getDy(from.index, to.index, amountIn));
+		if (amountOut === null) {
+			return undefined;
+		}
+		const formattedOut = ethers.formatUnits(amountOut, to.decimals);
+		return {
+			from: from.symbol,
+			to: to.symbol,
+			i: from.index,
+			j: to.index,
+			amountIn: quoteAmount,
+			amountOut: formattedOut,
+			rate: Number(formattedOut) / Number(quoteAmount),
+		};
+	}));
+
+	return {
+		pool: address,
+		poolType: gamma === null ? 'stable' : 'crypto',
+		coins,
+		A: Number(A),
+		gamma: gamma === null ? null : Number(gamma),
+		feePercent: (Number(fee) / CURVE_FEE_DENOMINATOR) * 100,
+		adminFeePercent: adminFee === null ? null : (Number(adminFee) / CURVE_FEE_DENOMINATOR) * 100,
+		virtualPrice: virtualPrice === null ? null : ethers.formatUnits(virtualPrice, 18),
+		quotes: quotes.filter((quote): quote is CurveQuote => quote !== undefined),
+	};
+}
+
+/**
+ * Read a Balancer V2 pool from the vault: tokens, balances, weights, swap fee and amplification
+ * @param poolRef Pool address, or the 32-byte pool ID
+ */
+export async function getBalancerPoolInfo(provider: Provider, poolRef: string): Promise<BalancerPoolInfo> {
+	const vault = new Contract(DEX_ROUTERS.arbitrumOne.balancerVault, ABIS.BalancerVault, provider);
+
+	let poolId: string;
+	let address: string;
+	if (ethers.isHexString(poolRef, 32)) {
+		poolId = poolRef;
+		[address] = await vault.getPool(poolId);
+	} else {
+		address = poolRef;
+		poolId = await new Contract(address, ABIS.BalancerPool, provider).getPoolId();
+	}
+
+	const pool = new Contract(address, ABIS.BalancerPool, provider);
+	const [poolTokens, name, symbol, totalSupply, swapFee, weights, amp] = await Promise.all([
+		vault.getPoolTokens(poolId),
+		pool.name().catch(() => 'Unknown') as Promise<string>,
+		pool.symbol().catch(() => 'Unknown') as Promise<string>,
+		pool.totalSupply() as Promise<bigint>,
+		pool.getSwapFeePercentage() as Promise<bigint>,
+		optional(pool.getNormalizedWeights() as Promise<bigint[]>),
+		optional(pool.getAmplificationParameter()),
+	]);
+
+	const tokenAddresses: string[] = [...poolTokens.tokens];
+	const metas = await Promise.all(tokenAddresses.map((token) => getTokenMeta(provider, token)));
+
+	let poolType: BalancerPoolInfo['poolType'] = 'other';
+	if (weights !== null) {
+		poolType = 'weighted';
+	} else if (amp !== null) {
+		poolType = 'stable';
+	}
+
+	return {
+		pool: address,
+		poolId,
+		name,
+		symbol,
+		poolType,
+		tokens: tokenAddresses.map((token, i) => ({
+			index: i,
+			address: token,
+			symbol: metas[i].symbol,
+			decimals: metas[i].decimals,
+			balance: ethers.formatUnits(poolTokens.balances[i], metas[i].decimals),
+			weight: weights === null ? null : Number(ethers.formatUnits(weights[i], 18)) * 100,
+			isPoolToken: token.toLowerCase() === address.toLowerCase(),
+		})),
+		swapFeePercent: Number(ethers.formatUnits(swapFee, 18)) * 100,
+		amplification: amp === null ? null : Number(amp.value) / Number(amp.precision),
+		totalSupply: ethers.formatUnits(totalSupply, 18),
+		lastChangeBlock: Number(poolTokens.lastChangeBlock),
+	};
+}
+
+/**
+ * A pool found through a DEX factory
+ */
+export interface DiscoveredPool {
+	dex: SwapDex;
+	dexName: string;
+	pool: string;
+	token0: string;
+	token1: string;
+	/** Fee tier in hundredths of a bip; Uniswap V3 only */
+	feeTier?: number;
+	/** Block of the creation event; set for pools found from events */
+	createdAtBlock?: number;
+}
+
+function sortTokens(tokenA: string, tokenB: string): [string, string] {
+	return tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+}
+
+/**
+ * Look up the pools of a token pair on each DEX factory: every Uniswap V3 fee tier, and the
+ * single SushiSwap, Camelot V2 and Camelot V3 pool. Pairs without a pool are left out.
+ */
+export async function findPairPools(
+	provider: Provider,
+	tokenA: string,
+	tokenB: string,
+	dexes: SwapDex[],
+): Promise<DiscoveredPool[]> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const v3Factory = new Interface(ABIS.UniswapV3Factory);
+	const v2Factory = new Interface(ABIS.UniswapV2Factory);
+	const algebraFactory = new Interface(ABIS.AlgebraFactory);
+	const [token0, token1] = sortTokens(tokenA, tokenB);
+
+	const lookups: Array<{ dex: SwapDex; feeTier?: number; iface: Interface; method: string; target: string; args: unknown[] }> = [];
+	for (const dex of dexes) {
+		switch (dex) {
+			case 'uniswapV3':
+				for (const fee of UNISWAP_V3_FEE_TIERS) {
+					lookups.push({ dex, feeTier: fee, iface: v3Factory, method: 'getPool', target: addresses.uniswapV3Factory, args: [token0, token1, fee] });
+				}
+				break;
+			case 'sushiswap':
+				lookups.push({ dex, iface: v2Factory, method: 'getPair', target: addresses.sushiswapFactory, args: [token0, token1] });
+				break;
+			case 'camelot':
+				lookups.push({ dex, iface: v2Factory, method: 'getPair', target: addresses.camelotFactory, args: [token0, token1] });
+				break;
+			case 'camelotV3':
+				lookups.push({ dex, iface: algebraFactory, method: 'poolByPair', target: addresses.camelotV3Factory, args: [token0, token1] });
+				break;
+		}
+	}
+
+	const results = await aggregateReads(provider, lookups.map((lookup) => ({
+		target: lookup.target,
+		callData: lookup.iface.encodeFunctionData(lookup.method, lookup.args),
+	})));
+
+	const pools: DiscoveredPool[] = [];
+	results.forEach((data, i) => {
+		if (data === null) return;
+		const { dex, feeTier, iface, method } = lookups[i];
+		const pool = iface.decodeFunctionResult(method, data)[0] as string;
+		if (pool === ethers.ZeroAddress) return;
+		pools.push({ dex, dexName: DEX_NAMES[dex], pool, token0, token1, feeTier });
+	});
+	return pools;
+}
+
+/**
+ * Find pools created in a block range from the factories' creation events, newest first
+ */
+export async function getCreatedPools(
+	provider: Provider,
+	dexes: SwapDex[],
+	fromBlock: number,
+	toBlock: number | 'latest',
+	limit = 50,
+): Promise<DiscoveredPool[]> {
+	const addresses = DEX_ROUTERS.arbitrumOne;
+	const readEvents = async (dex: SwapDex): Promise<DiscoveredPool[]> => {
+		let factory: Contract;
+		let eventName: string;
+		switch (dex) {
+			case 'uniswapV3':
+				factory = new Contract(addresses.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+				eventName = 'PoolCreated';
+				break;
+			case 'sushiswap':
+				factory = new Contract(addresses.sushiswapFactory, ABIS.UniswapV2Factory, provider);
+				eventName = 'PairCreated';
+				break;
+			case 'camelot':
+				factory = new Contract(addresses.camelotFactory, ABIS.UniswapV2Factory, provider);
+				eventName = 'PairCreated';
+				break;
+			case 'camelotV3':
+				factory = new Contract(addresses.camelotV3Factory, ABIS.AlgebraFactory, provider);
+				eventName = 'Pool';
+				break;
+		}
+
+		const events = await factory.queryFilter(eventName, fromBlock, toBlock);
+		return events.map((event) => {
+			const { args } = event as ethers.EventLog;
+			return {
+				dex,
+				dexName: DEX_NAMES[dex],
+				// PairCreated names the pair positionally
+				pool: args.pool ?? args[2],
+				token0: args.token0,
+				token1: args.token1,
+				feeTier: dex === 'uniswapV3' ? Number(args.fee) : undefined,
+				createdAtBlock: event.blockNumber,
+			};
+		});
+	};
+
+	const pools = (await Promise.all(dexes.map(readEvents))).flat();
+	return pools
+		.sort((a, b) => (b.createdAtBlock ?? 0) - (a.createdAtBlock ?? 0))
+		.slice(0, limit);
+}
+
+/**
+ * Token balances held by each pool, the liquidity available to swaps
+ * Uniswap V3 style pools also hold uncollected LP fees, so balances slightly overstate it.
+ */
+export async function getPoolReserves(
+	provider: Provider,
+	pools: DiscoveredPool[],
+): Promise<Array<{ reserve0: bigint; reserve1: bigint }>> {
+	const erc20 = new Interface(ABIS.ERC20);
+	const reads = pools.flatMap(({ pool, token0, token1 }) => [token0, token1].map((token) => ({
+		target: token,
+		callData: erc20.encodeFunctionData('balanceOf', [pool]),
+	})));
+	const results = await aggregateReads(provider, reads);
+	const decode = (data: string | null): bigint => (data === null ? 0n : erc20.decodeFunctionResult('balanceOf', data)[0]);
+
+	return pools.map((_, i) => ({
+		reserve0: decode(results[i * 2]),
+		reserve1: decode(results[i * 2 + 1]),
+	}));
+}
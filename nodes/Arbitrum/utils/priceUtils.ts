@@ -0,0 +1,334 @@
+/**
+ * Price Utilities for Arbitrum
+ * USD pricing from Chainlink feeds with Uniswap V3 pool fallback, oracle safety checks and pool TWAPs
+ */
+
+import { ethers, Contract } from 'ethers';
+import type { Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+import {
+	ARBITRUM_ONE_TOKENS,
+	CHAINLINK_FEED_HEARTBEATS,
+	CHAINLINK_FEEDS,
+	CHAINLINK_SEQUENCER_UPTIME_FEEDS,
+	DEX_ROUTERS,
+	getTokenByAddress,
+} from '../constants/tokens';
+import type { ArbitrumNetworkId } from '../constants/networks';
+import { UNISWAP_V3_FEE_TIERS } from './dexUtils';
+import { sqrtPriceX96ToPrice, tickToPrice } from './liquidityUtils';
+
+/**
+ * USD price of a token and where it came from
+ */
+export interface TokenUsdPrice {
+	priceUsd: number;
+	source: 'chainlink' | 'uniswapV3';
+	feed?: string;
+	pool?: string;
+	/** Token the pool price was quoted against */
+	quoteToken?: string;
+	/** Unix timestamp of the Chainlink round */
+	updatedAt?: number;
+}
+
+/** Heartbeat assumed for feeds without a configured one */
+export const DEFAULT_FEED_HEARTBEAT = 86400;
+
+/** Time after the sequencer comes back up during which prices are not trusted */
+export const SEQUENCER_GRACE_PERIOD = 3600;
+
+/**
+ * State of the L2 sequencer from the Chainlink uptime feed
+ */
+export interface SequencerStatus {
+	feed: string;
+	isUp: boolean;
+	/** Unix timestamp of the last status change */
+	statusSince: number;
+	/** Still within the grace period after coming back up */
+	inGracePeriod: boolean;
+}
+
+/**
+ * Whether an oracle answer is safe to act on
+ */
+export interface OracleSafety {
+	safe: boolean;
+	stale: boolean;
+	ageSeconds: number;
+	maxAgeSeconds: number;
+	/** null when the network has no sequencer uptime feed */
+	sequencer: SequencerStatus | null;
+	warnings: string[];
+}
+
+/** Tokens priced by the Chainlink feed of their underlying asset */
+const CHAINLINK_SYMBOL_ALIASES: Record<string, string> = {
+	WETH: 'ETH',
+	WBTC: 'BTC',
+	'USDC.e': 'USDC',
+};
+
+/**
+ * Chainlink USD feed for a symbol, if one is configured for the network
+ */
+export function getChainlinkFeedAddress(network: string, symbol: string): string | undefined {
+	const feeds = CHAINLINK_FEEDS[network as keyof typeof CHAINLINK_FEEDS] as Record<string, string> | undefined;
+	if (!feeds) {
+		return undefined;
+	}
+	const base = CHAINLINK_SYMBOL_ALIASES[symbol] ?? symbol.toUpperCase();
+	return feeds[`${base}/USD`];
+}
+
+/**
+ * Heartbeat of a known feed by address, or the default
+ */
+export function getFeedHeartbeat(network: string, feedAddress: string): number {
+	const feeds = CHAINLINK_FEEDS[network as keyof typeof CHAINLINK_FEEDS] as Record<string, string> | undefined;
+	const pair = feeds
+		? Object.keys(feeds).find((key) => feeds[key].toLowerCase() === feedAddress.toLowerCase())
+		: undefined;
+	return (pair && CHAINLINK_FEED_HEARTBEATS[network]?.[pair]) || DEFAULT_FEED_HEARTBEAT;
+}
+
+/**
+ * Read the Chainlink sequencer uptime feed, or null when the network has none
+ */
+export async function getSequencerStatus(
+	provider: Provider,
+	network: string,
+	gracePeriod = SEQUENCER_GRACE_PERIOD,
+	now = Math.floor(Date.now() / 1000),
+): Promise<SequencerStatus | null> {
+	const feedAddress = CHAINLINK_SEQUENCER_UPTIME_FEEDS[network];
+	if (!feedAddress) {
+		return null;
+	}
+	const feed = new Contract(feedAddress, ABIS.ChainlinkFeed, provider);
+	const round = await feed.latestRoundData();
+	const statusSince = Number(round.startedAt);
+
+	// startedAt is 0 when the round is not yet initialized; treat it as down
+	const isUp = round.answer === 0n && statusSince > 0;
+	return {
+		feed: feedAddress,
+		isUp,
+		statusSince,
+		inGracePeriod: isUp && now - statusSince <= gracePeriod,
+	};
+}
+
+/**
+ * Check an answer's age against the feed heartbeat and the sequencer status
+ * @param maxAge Maximum answer age in seconds; 0 uses the feed heartbeat
+ */
+export async function checkOracleSafety(
+	provider: Provider,
+	network: string,
+	feedAddress: string,
+	updatedAt: number,
+	maxAge = 0,
+	gracePeriod = SEQUENCER_GRACE_PERIOD,
+): Promise<OracleSafety> {
+	const now = Math.floor(Date.now() / 1000);
+	const maxAgeSeconds = maxAge > 0 ? maxAge : getFeedHeartbeat(network, feedAddress);
+	const ageSeconds = Math.max(0, now - updatedAt);
+	const stale = updatedAt === 0 || ageSeconds > maxAgeSeconds;
+	const sequencer = await getSequencerStatus(provider, network, gracePeriod, now);
+
+	const warnings: string[] = [];
+	if (stale) {
+		warnings.push(`Price is ${ageSeconds}s old, older than the ${maxAgeSeconds}s limit`);
+	}
+	if (sequencer && !sequencer.isUp) {
+		warnings.push('Arbitrum sequencer is down');
+	} else if (sequencer?.inGracePeriod) {
+		warnings.push(`Sequencer came back up ${now - sequencer.statusSince}s ago, within the ${gracePeriod}s grace period`);
+	}
+
+	return {
+		safe: warnings.length === 0,
+		stale,
+		ageSeconds,
+		maxAgeSeconds,
+		sequencer,
+		warnings,
+	};
+}
+
+/**
+ * Read the latest answer of a Chainlink USD feed
+ */
+export async function getChainlinkUsdPrice(provider: Provider, feedAddress: string): Promise<TokenUsdPrice> {
+	const feed = new Contract(feedAddress, ABIS.ChainlinkFeed, provider);
+	const [round, decimals] = await Promise.all([feed.latestRoundData(), feed.decimals()]);
+	if (round.answer <= 0n) {
+		throw new Error(`Chainlink feed ${feedAddress} returned a non-positive answer`);
+	}
+	return {
+		priceUsd: Number(ethers.formatUnits(round.answer, decimals)),
+		source: 'chainlink',
+		feed: feedAddress,
+		updatedAt: Number(round.updatedAt),
+	};
+}
+
+/**
+ * Price a token from its deepest Uniswap V3 pool against USDC, or against WETH when no USDC pool exists
+ */
+export async function getUniswapV3UsdPrice(
+	provider: Provider,
+	network: string,
+	token: string,
+	decimals: number,
+): Promise<TokenUsdPrice> {
+	const factory = new Contract(DEX_ROUTERS.arbitrumOne.uniswapV3Factory, ABIS.UniswapV3Factory, provider);
+
+	for (const quote of [ARBITRUM_ONE_TOKENS.USDC, ARBITRUM_ONE_TOKENS.WETH]) {
+		if (quote.address.toLowerCase() === token.toLowerCase()) {
+			continue;
+		}
+
+		const candidates = await Promise.all(UNISWAP_V3_FEE_TIERS.map(async (fee) => {
+			const pool: string = await factory.getPool(token, quote.address, fee);
+			if (pool === ethers.ZeroAddress) {
+				return undefined;
+			}
+			const liquidity: bigint = await new Contract(pool, ABIS.UniswapV3Pool, provider).liquidity();
+			return { pool, liquidity };
+		}));
+		const deepest = candidates
+			.filter((c): c is { pool: string; liquidity: bigint } => !!c && c.liquidity > 0n)
+			.sort((a, b) => (b.liquidity > a.liquidity ? 1 : -1))[0];
+		if (!deepest) {
+			continue;
+		}
+
+		const { sqrtPriceX96 } = await new Contract(deepest.pool, ABIS.UniswapV3Pool, provider).slot0();
+		const tokenIsToken0 = token.toLowerCase() < quote.address.toLowerCase();
+		const price0In1 = tokenIsToken0
+			? sqrtPriceX96ToPrice(sqrtPriceX96, decimals, quote.decimals)
+			: sqrtPriceX96ToPrice(sqrtPriceX96, quote.decimals, decimals);
+		const priceInQuote = tokenIsToken0 ? price0In1 : 1 / price0In1;
+
+		const quoteFeed = getChainlinkFeedAddress(network, quote.symbol);
+		const quoteUsd = quoteFeed ? (await getChainlinkUsdPrice(provider, quoteFeed)).priceUsd : 1;
+
+		return {
+			priceUsd: priceInQuote * quoteUsd,
+			source: 'uniswapV3',
+			pool: deepest.pool,
+			quoteToken: quote.symbol,
+		};
+	}
+
+	throw new Error(`No Uniswap V3 USDC or WETH pool with liquidity for ${token}`);
+}
+
+/**
+ * USD price of a token: Chainlink for known tokens with a feed, otherwise Uniswap V3 pool pricing
+ * Feeds are only matched through the curated token list, so a token cannot claim a feed by its symbol.
+ */
+export async function getTokenUsdPrice(
+	provider: Provider,
+	network: string,
+	token: string,
+	decimals: number,
+): Promise<TokenUsdPrice> {
+	const isNative = token === ethers.ZeroAddress;
+	const known = isNative
+		? ARBITRUM_ONE_TOKENS.ETH
+		: getTokenByAddress(network as ArbitrumNetworkId, token);
+	const feed = known ? getChainlinkFeedAddress(network, known.symbol) : undefined;
+
+	if (feed) {
+		try {
+			return await getChainlinkUsdPrice(provider, feed);
+		} catch (error) {
+			// Fall back to pool pricing
+		}
+	}
+
+	return getUniswapV3UsdPrice(provider, network, isNative ? ARBITRUM_ONE_TOKENS.WETH.address : token, decimals);
+}
+
+/**
+ * Time-weighted average price of a Uniswap V3 pool over a window
+ */
+export interface PoolTwap {
+	pool: string;
+	token0: string;
+	token1: string;
+	decimals0: number;
+	decimals1: number;
+	windowSeconds: number;
+	/** Arithmetic mean tick over the window, rounded toward negative infinity */
+	twapTick: number;
+	/** Price of token0 in token1 at the mean tick */
+	price0In1: number;
+	/** Harmonic mean in-range liquidity over the window */
+	harmonicMeanLiquidity: bigint;
+	spotTick: number;
+	spotPrice0In1: number;
+}
+
+/**
+ * Read a pool TWAP through observe(), matching OracleLibrary.consult
+ */
+export async function getUniswapV3Twap(
+	provider: Provider,
+	poolAddress: string,
+	windowSeconds: number,
+): Promise<PoolTwap> {
+	if (!Number.isInteger(windowSeconds) || windowSeconds <= 0) {
+		throw new Error('TWAP window must be a positive number of seconds');
+	}
+
+	const pool = new Contract(poolAddress, ABIS.UniswapV3Pool, provider);
+	const [token0, token1, slot0] = await Promise.all([
+		pool.token0() as Promise<string>,
+		pool.token1() as Promise<string>,
+		pool.slot0(),
+	]);
+
+	let observation;
+	try {
+		observation = await pool.observe([windowSeconds, 0]);
+	} catch (error) {
+		throw new Error(
+			`Pool ${poolAddress} cannot serve a ${windowSeconds}s TWAP (observation cardinality ${Number(slot0.observationCardinality)}): ${(error as Error).message}`,
+		);
+	}
+
+	const erc20 = (address: string) => new Contract(address, ABIS.ERC20, provider);
+	const [decimals0, decimals1] = (await Promise.all([erc20(token0).decimals(), erc20(token1).decimals()])).map(Number);
+
+	const window = BigInt(windowSeconds);
+	const tickDelta = BigInt(observation.tickCumulatives[1]) - BigInt(observation.tickCumulatives[0]);
+	let twapTick = tickDelta / window;
+	if (tickDelta < 0n && tickDelta % window !== 0n) {
+		twapTick -= 1n;
+	}
+
+	const secondsPerLiquidityDelta = BigInt(observation.secondsPerLiquidityCumulativeX128s[1])
+		- BigInt(observation.secondsPerLiquidityCumulativeX128s[0]);
+	const harmonicMeanLiquidity = secondsPerLiquidityDelta > 0n
+		? (window * ((1n << 160n) - 1n)) / (secondsPerLiquidityDelta << 32n)
+		: 0n;
+
+	return {
+		pool: poolAddress,
+		token0,
+		token1,
+		decimals0,
+		decimals1,
+		windowSeconds,
+		twapTick: Number(twapTick),
+		price0In1: tickToPrice(Number(twapTick), decimals0, decimals1),
+		harmonicMeanLiquidity,
+		spotTick: Number(slot0.tick),
+		spotPrice0In1: sqrtPriceX96ToPrice(slot0.sqrtPriceX96, decimals0, decimals1),
+	};
+}
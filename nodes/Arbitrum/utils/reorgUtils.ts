@@ -0,0 +1,200 @@
+/**
+ * Reorg Utilities for Arbitrum
+ * Block cursors that remember processed block hashes so polling can detect reorgs
+ */
+
+import type { Provider } from 'ethers';
+
+/**
+ * Checkpoints kept per cursor
+ * A checkpoint is taken at the last block of every poll, so this counts polls rather than blocks.
+ */
+export const REORG_WINDOW = 64;
+
+/**
+ * How the highest block safe to process is chosen
+ * confirmations: head minus a fixed depth; safe / finalized: the RPC block tags
+ */
+export type FinalityMode = 'confirmations' | 'safe' | 'finalized';
+
+/**
+ * Last processed block with the hashes of recent checkpoints, stored in workflow static data
+ */
+export interface BlockCursor {
+	number: number;
+	hash: string;
+	/** Hashes of the last block of recent polls by block number, newest REORG_WINDOW kept */
+	hashes: Record<string, string>;
+	/** After a reorg: blocks up to here were emitted before and still have to be replayed */
+	replayedTo?: number;
+}
+
+/**
+ * Blocks removed from the canonical chain since they were processed
+ */
+export interface ReorgInfo {
+	/**
+	 * Newest checkpoint still on the canonical chain
+	 * Blocks between checkpoints are not hashed, so the fork may be later than this and
+	 * everything after it is replayed.
+	 */
+	commonAncestor: number;
+	orphaned: Array<{ blockNumber: number; blockHash: string }>;
+	/** Blocks up to here were processed before; events in them are re-emitted */
+	replayedTo: number;
+	/** The fork is deeper than the stored hashes, so the ancestor is a lower bound guess */
+	windowExceeded: boolean;
+}
+
+/**
+ * Block range to process on this poll; empty when fromBlock > toBlock
+ */
+export interface BlockRange {
+	fromBlock: number;
+	toBlock: number;
+	/** Cursor the range starts from, rewound to the common ancestor after a reorg */
+	base?: BlockCursor;
+	reorg?: ReorgInfo;
+	/** Events from blocks up to here re-emit events of orphaned blocks */
+	replayedTo?: number;
+}
+
+/**
+ * Highest block to process under a finality mode
+ */
+export async function getFinalBlockNumber(
+	provider: Provider,
+	finality: FinalityMode,
+	confirmations: number,
+): Promise<number> {
+	if (finality === 'confirmations') {
+		return (await provider.getBlockNumber()) - confirmations;
+	}
+	const block = await provider.getBlock(finality);
+	if (!block) {
+		throw new Error(`RPC did not return the ${finality} block`);
+	}
+	return block.number;
+}
+
+/**
+ * Compare the cursor with the canonical chain and find the checkpoint to rewind to
+ * A block hash commits to its parent, so a matching hash at the cursor means every
+ * earlier processed block is unchanged. Otherwise checkpoints are walked newest first
+ * and the first that still matches is the common ancestor.
+ */
+export async function detectReorg(provider: Provider, cursor: BlockCursor): Promise<ReorgInfo | undefined> {
+	const head = await provider.getBlock(cursor.number);
+	if (head?.hash === cursor.hash) {
+		return undefined;
+	}
+
+	const checkpoints = Object.entries(cursor.hashes)
+		.map(([number, hash]) => ({ blockNumber: Number(number), blockHash: hash }))
+		.filter((checkpoint) => checkpoint.blockNumber < cursor.number)
+		.sort((a, b) => b.blockNumber - a.blockNumber);
+
+	const orphaned = [{ blockNumber: cursor.number, blockHash: cursor.hash }];
+	for (const checkpoint of checkpoints) {
+		const block = await provider.getBlock(checkpoint.blockNumber);
+		if (block?.hash === checkpoint.blockHash) {
+			return { commonAncestor: checkpoint.blockNumber, orphaned, replayedTo: cursor.number, windowExceeded: false };
+		}
+		orphaned.push(checkpoint);
+	}
+
+	const oldest = orphaned[orphaned.length - 1].blockNumber;
+	return { commonAncestor: oldest - 1, orphaned, replayedTo: cursor.number, windowExceeded: true };
+}
+
+/**
+ * Next range to process: from after the cursor (or the reorg's common ancestor) up to the final block
+ * After a reorg the cursor is rewound to the ancestor checkpoint, dropping the orphaned ones.
+ * Without a cursor the range starts after lastBlock (a bare block number from before cursors were
+ * stored, or the block before a backfill start); without either it is empty, so the first poll only
+ * sets the cursor.
+ */
+export async function getNextBlockRange(
+	provider: Provider,
+	cursor: BlockCursor | undefined,
+	finality: FinalityMode,
+	confirmations: number,
+	lastBlock?: number,
+): Promise<BlockRange> {
+	const toBlock = await getFinalBlockNumber(provider, finality, confirmations);
+	return getBlockRangeTo(provider, cursor, toBlock, lastBlock);
+}
+
+/**
+ * Range from after the cursor (or the reorg's common ancestor) up to a final block already known,
+ * e.g. from a pushed block header
+ */
+export async function getBlockRangeTo(
+	provider: Provider,
+	cursor: BlockCursor | undefined,
+	toBlock: number,
+	lastBlock?: number,
+): Promise<BlockRange> {
+	if (!cursor) {
+		return { fromBlock: lastBlock !== undefined ? lastBlock + 1 : toBlock + 1, toBlock };
+	}
+
+	const reorg = await detectReorg(provider, cursor);
+	if (!reorg) {
+		return { fromBlock: cursor.number + 1, toBlock, base: cursor, replayedTo: cursor.replayedTo };
+	}
+
+	const hashes = Object.fromEntries(
+		Object.entries(cursor.hashes).filter(([number]) => Number(number) <= reorg.commonAncestor),
+	);
+	const ancestorHash = hashes[reorg.commonAncestor];
+	return {
+		fromBlock: reorg.commonAncestor + 1,
+		toBlock,
+		base: ancestorHash ? { number: reorg.commonAncestor, hash: ancestorHash, hashes } : undefined,
+		reorg,
+		replayedTo: Math.max(reorg.replayedTo, cursor.replayedTo ?? 0),
+	};
+}
+
+/**
+ * Cursor after processing a range, checkpointing the hash of its last block
+ * Only the last block is hashed, which keeps a poll to one extra getBlock; a reorg therefore
+ * rewinds to the end of an earlier poll rather than to the exact fork block.
+ */
+export async function advanceCursor(provider: Provider, range: BlockRange): Promise<BlockCursor | undefined> {
+	if (range.fromBlock > range.toBlock && range.base) {
+		return { ...range.base, replayedTo: range.replayedTo };
+	}
+
+	const block = await provider.getBlock(range.toBlock);
+	if (!block?.hash) {
+		return range.base;
+	}
+
+	const hashes: Record<string, string> = { ...range.base?.hashes, [block.number]: block.hash };
+	const kept = Object.keys(hashes)
+		.map(Number)
+		.sort((a, b) => b - a)
+		.slice(0, REORG_WINDOW);
+	const cursor: BlockCursor = {
+		number: block.number,
+		hash: block.hash,
+		hashes: Object.fromEntries(kept.map((number) => [number, hashes[number]])),
+	};
+	if (range.replayedTo !== undefined && range.replayedTo > block.number) {
+		cursor.replayedTo = range.replayedTo;
+	}
+	return cursor;
+}
+
+/**
+ * Cap a range at maxBlocks so a long gap is caught up over several polls; 0 disables the cap
+ * The cursor then stops at the capped toBlock and the next poll resumes after it.
+ */
+export function limitBlockRange(range: BlockRange, maxBlocks: number): BlockRange {
+	if (maxBlocks <= 0 || range.toBlock - range.fromBlock + 1 <= maxBlocks) {
+		return range;
+	}
+	return { ...range, toBlock: range.fromBlock + maxBlocks - 1 };
+}
@@ -0,0 +1,163 @@
+/**
+ * Sequencer Feed Utilities for Arbitrum
+ * Decoding of sequencer feed broadcasts into L2 transactions before they are in a block
+ */
+
+import { ethers } from 'ethers';
+
+/** L1 message kind of messages carrying L2 transactions from the sequencer */
+const L1_MESSAGE_KIND_L2_MESSAGE = 3;
+
+/** L2 message kinds: a batch of nested length-prefixed messages, or one signed transaction */
+const L2_MESSAGE_KIND_BATCH = 3;
+const L2_MESSAGE_KIND_SIGNED_TX = 4;
+
+/** Nesting limit for batches, as enforced by Nitro */
+const MAX_BATCH_DEPTH = 16;
+
+/**
+ * One sequenced message of a feed broadcast
+ */
+export interface FeedMessage {
+	sequenceNumber: number;
+	message: {
+		message: {
+			header: {
+				kind: number;
+				sender: string;
+				blockNumber: number;
+				timestamp: number;
+			};
+			/** Base64 encoded L2 message */
+			l2Msg: string;
+		};
+		delayedMessagesRead: number;
+	};
+}
+
+/**
+ * A transaction decoded from the sequencer feed
+ */
+export interface SequencerTransaction {
+	sequenceNumber: number;
+	/** L1 block number the sequencer attached to the message */
+	l1BlockNumber: number;
+	timestamp: number;
+	transaction: ethers.Transaction;
+}
+
+/**
+ * Address, contract and selector filter for feed transactions; empty lists match everything
+ */
+export interface FeedFilter {
+	/** Matches the sender or the recipient */
+	addresses: string[];
+	/** Matches the recipient */
+	contracts: string[];
+	/** 4-byte function selectors, lowercase hex */
+	selectors: string[];
+}
+
+/**
+ * Connection headers for a feed client, optionally asking to resume from a sequence number
+ */
+export function getFeedRequestHeaders(nextSequenceNumber?: number): Record<string, string> {
+	const headers: Record<string, string> = { 'Arbitrum-Feed-Client-Version': '2' };
+	if (nextSequenceNumber !== undefined) {
+		headers['Arbitrum-Requested-Sequence-Number'] = String(nextSequenceNumber);
+	}
+	return headers;
+}
+
+/**
+ * Sequenced messages of a feed broadcast; other broadcasts (e.g. confirmed sequence numbers) yield none
+ */
+export function parseFeedBroadcast(data: string): FeedMessage[] {
+	const broadcast = JSON.parse(data) as { messages?: FeedMessage[] };
+	return Array.isArray(broadcast.messages) ? broadcast.messages : [];
+}
+
+/** Collect signed transactions from an L2 message, unpacking batches */
+function collectSignedTransactions(bytes: Uint8Array, depth: number, out: Uint8Array[]): void {
+	if (bytes.length === 0) {
+		return;
+	}
+	const kind = bytes[0];
+	if (kind === L2_MESSAGE_KIND_SIGNED_TX) {
+		out.push(bytes.subarray(1));
+	} else if (kind === L2_MESSAGE_KIND_BATCH && depth < MAX_BATCH_DEPTH) {
+		let offset = 1;
+		while (offset + 8 <= bytes.length) {
+			const length = Number(ethers.toBigInt(bytes.subarray(offset, offset + 8)));
+			offset += 8;
+			if (offset + length > bytes.length) {
+				break;
+			}
+			collectSignedTransactions(bytes.subarray(offset, offset + length), depth + 1, out);
+			offset += length;
+		}
+	}
+}
+
+/**
+ * Signed transactions in a feed message; messages that carry none (deposits, reports) yield none
+ */
+export function decodeFeedMessage(message: FeedMessage): SequencerTransaction[] {
+	const { header, l2Msg } = message.message.message;
+	if (header.kind !== L1_MESSAGE_KIND_L2_MESSAGE || !l2Msg) {
+		return [];
+	}
+
+	const raw: Uint8Array[] = [];
+	collectSignedTransactions(ethers.decodeBase64(l2Msg), 0, raw);
+
+	const transactions: SequencerTransaction[] = [];
+	for (const bytes of raw) {
+		try {
+			transactions.push({
+				sequenceNumber: message.sequenceNumber,
+				l1BlockNumber: header.blockNumber,
+				timestamp: header.timestamp,
+				transaction: ethers.Transaction.from(ethers.hexlify(bytes)),
+			});
+		} catch (error) {
+			// Not a transaction ethers can decode
+		}
+	}
+	return transactions;
+}
+
+/**
+ * Build a feed filter from comma-separated lists; selectors may be 4-byte hex or function signatures
+ */
+export function parseFeedFilter(addresses: string, contracts: string, selectors: string): FeedFilter {
+	// Commas inside a signature's parentheses do not separate items
+	const list = (value: string) => value.split(/,(?![^(]*\))/).map((item) => item.trim()).filter((item) => item !== '');
+	return {
+		addresses: list(addresses).map((address) => ethers.getAddress(address).toLowerCase()),
+		contracts: list(contracts).map((address) => ethers.getAddress(address).toLowerCase()),
+		selectors: list(selectors).map((selector) =>
+			ethers.isHexString(selector, 4) ? selector.toLowerCase() : ethers.FunctionFragment.from(selector).selector,
+		),
+	};
+}
+
+/**
+ * Whether a transaction passes every non-empty part of the filter
+ */
+export function matchesFeedFilter(transaction: ethers.Transaction, filter: FeedFilter): boolean {
+	const to = transaction.to?.toLowerCase();
+	if (filter.addresses.length > 0) {
+		const from = transaction.from?.toLowerCase();
+		if (!filter.addresses.some((address) => address === from || address === to)) {
+			return false;
+		}
+	}
+	if (filter.contracts.length > 0 && !(to && filter.contracts.includes(to))) {
+		return false;
+	}
+	if (filter.selectors.length > 0 && !filter.selectors.includes(transaction.data.slice(0, 10).toLowerCase())) {
+		return false;
+	}
+	return true;
+}
@@ -0,0 +1,276 @@
+/**
+ * Swap Event Utilities for Arbitrum
+ * Decoding of DEX swap logs into tokens, amounts and USD value
+ */
+
+import { ethers, Contract, Interface } from 'ethers';
+import type { Log, Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+import { DEX_ROUTERS, getTokenByAddress } from '../constants/tokens';
+import type { ArbitrumNetworkId } from '../constants/networks';
+import { getChainlinkFeedAddress, getChainlinkUsdPrice } from './priceUtils';
+
+/** Pools and tokens resolved across polls; cleared when it grows past this */
+const CACHE_LIMIT = 5000;
+
+/**
+ * DEX a swap log was attributed to; unknown covers forks sharing an event signature
+ */
+export type SwapEventDex = 'uniswapV3' | 'sushiswap' | 'camelot' | 'camelotV3' | 'gmx' | 'unknown';
+
+const SWAP_DEX_NAMES: Record<SwapEventDex, string> = {
+	uniswapV3: 'Uniswap V3',
+	sushiswap: 'SushiSwap',
+	camelot: 'Camelot V2',
+	camelotV3: 'Camelot V3',
+	gmx: 'GMX',
+	unknown: 'Unknown',
+};
+
+const V3_POOL = new Interface(ABIS.UniswapV3Pool);
+const V2_PAIR = new Interface(ABIS.UniswapV2Pair);
+const GMX_VAULT = new Interface(ABIS.GmxVault);
+
+/**
+ * Swap event topics: Uniswap V3 and Algebra (Camelot V3) pools share one, Uniswap V2 forks another
+ */
+export const SWAP_EVENT_TOPICS = {
+	v3: V3_POOL.getEvent('Swap')?.topicHash as string,
+	v2: V2_PAIR.getEvent('Swap')?.topicHash as string,
+	gmx: GMX_VAULT.getEvent('Swap')?.topicHash as string,
+};
+
+/**
+ * Token side of a decoded swap
+ */
+export interface SwapToken {
+	address: string;
+	symbol: string;
+	decimals: number;
+}
+
+/**
+ * A swap log decoded into the tokens and amounts that moved
+ */
+export interface DecodedSwap {
+	dex: SwapEventDex;
+	dexName: string;
+	pool: string;
+	sender: string;
+	recipient: string;
+	tokenIn: SwapToken;
+	tokenOut: SwapToken;
+	amountIn: bigint;
+	amountOut: bigint;
+	transactionHash: string;
+	blockNumber: number;
+	logIndex: number;
+}
+
+interface SwapPool {
+	dex: SwapEventDex;
+	token0: string;
+	token1: string;
+}
+
+const poolCache = new Map<string, Promise<SwapPool | null>>();
+const tokenCache = new Map<string, Promise<SwapToken>>();
+
+/** Memoize a lookup, forgetting failures so they are retried on the next poll */
+function cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+	if (cache.size > CACHE_LIMIT) {
+		cache.clear();
+	}
+	let entry = cache.get(key);
+	if (!entry) {
+		entry = load();
+		cache.set(key, entry);
+		entry.catch(() => cache.delete(key));
+	}
+	return entry;
+}
+
+/**
+ * Topics to request from getLogs for a DEX filter ('all' or a single DEX)
+ */
+export function getSwapTopics(dex: string): string[] {
+	switch (dex) {
+		case 'uniswapV3':
+			return [SWAP_EVENT_TOPICS.v3];
+		case 'sushiswap':
+			return [SWAP_EVENT_TOPICS.v2];
+		case 'camelot':
+			return [SWAP_EVENT_TOPICS.v2, SWAP_EVENT_TOPICS.v3];
+		case 'gmx':
+			return [SWAP_EVENT_TOPICS.gmx];
+		default:
+			return [SWAP_EVENT_TOPICS.v3, SWAP_EVENT_TOPICS.v2, SWAP_EVENT_TOPICS.gmx];
+	}
+}
+
+/**
+ * Whether a decoded swap belongs to the DEX filter; Camelot covers both its V2 and V3 pools
+ */
+export function matchesSwapDex(swapDex: SwapEventDex, dex: string): boolean {
+	if (dex === 'all') {
+		return true;
+	}
+	if (dex === 'camelot') {
+		return swapDex === 'camelot' || swapDex === 'camelotV3';
+	}
+	return swapDex === dex;
+}
+
+function getToken(provider: Provider, network: string, address: string): Promise<SwapToken> {
+	return cached(tokenCache, `${network}:${address.toLowerCase()}`, async () => {
+		const known = getTokenByAddress(network as ArbitrumNetworkId, address);
+		if (known) {
+			return { address, symbol: known.symbol, decimals: known.decimals };
+		}
+		const token = new Contract(address, ABIS.ERC20, provider);
+		const [symbol, decimals] = await Promise.all([token.symbol().catch(() => 'Unknown'), token.decimals()]);
+		return { address, symbol, decimals: Number(decimals) };
+	});
+}
+
+/** Attribute a pool to a DEX by the factory that deployed it */
+function getPool(provider: Provider, network: string, address: string, v3: boolean): Promise<SwapPool | null> {
+	return cached(poolCache, `${network}:${address.toLowerCase()}`, async () => {
+		const pool = new Contract(address, v3 ? ABIS.UniswapV3Pool : ABIS.UniswapV2Pair, provider);
+		let token0: string;
+		let token1: string;
+		try {
+			[token0, token1] = await Promise.all([pool.token0(), pool.token1()]);
+		} catch (error) {
+			// Emits a Swap-shaped event but is not a pool
+			return null;
+		}
+		const factory: string = await pool.factory().catch(() => ethers.ZeroAddress);
+
+		const factories: Record<string, SwapEventDex> = v3
+			? {
+				[DEX_ROUTERS.arbitrumOne.uniswapV3Factory.toLowerCase()]: 'uniswapV3',
+				[DEX_ROUTERS.arbitrumOne.camelotV3Factory.toLowerCase()]: 'camelotV3',
+			}
+			: {
+				[DEX_ROUTERS.arbitrumOne.sushiswapFactory.toLowerCase()]: 'sushiswap',
+				[DEX_ROUTERS.arbitrumOne.camelotFactory.toLowerCase()]: 'camelot',
+			};
+		return { dex: factories[factory.toLowerCase()] ?? 'unknown', token0, token1 };
+	});
+}
+
+async function decodeSwapLog(provider: Provider, network: string, log: Log): Promise<DecodedSwap | null> {
+	const topic = log.topics[0];
+	const base = { pool: log.address, transactionHash: log.transactionHash, blockNumber: log.blockNumber, logIndex: log.index };
+
+	if (topic === SWAP_EVENT_TOPICS.gmx) {
+		if (log.address.toLowerCase() !== DEX_ROUTERS.arbitrumOne.gmxVault.toLowerCase()) {
+			return null;
+		}
+		const { args } = GMX_VAULT.parseLog(log) as ethers.LogDescription;
+		const [tokenIn, tokenOut] = await Promise.all([
+			getToken(provider, network, args.tokenIn),
+			getToken(provider, network, args.tokenOut),
+		]);
+		return {
+			...base,
+			dex: 'gmx',
+			dexName: SWAP_DEX_NAMES.gmx,
+			sender: args.account,
+			recipient: args.account,
+			tokenIn,
+			tokenOut,
+			amountIn: args.amountIn,
+			amountOut: args.amountOutAfterFees,
+		};
+	}
+
+	const v3 = topic === SWAP_EVENT_TOPICS.v3;
+	if (!v3 && topic !== SWAP_EVENT_TOPICS.v2) {
+		return null;
+	}
+	const pool = await getPool(provider, network, log.address, v3);
+	if (!pool) {
+		return null;
+	}
+
+	let delta0: bigint;
+	let delta1: bigint;
+	let sender: string;
+	let recipient: string;
+	if (v3) {
+		// Positive amounts flow into the pool
+		const { args } = V3_POOL.parseLog(log) as ethers.LogDescription;
+		delta0 = args.amount0;
+		delta1 = args.amount1;
+		sender = args.sender;
+		recipient = args.recipient;
+	} else {
+		const { args } = V2_PAIR.parseLog(log) as ethers.LogDescription;
+		delta0 = (args.amount0In as bigint) - (args.amount0Out as bigint);
+		delta1 = (args.amount1In as bigint) - (args.amount1Out as bigint);
+		sender = args.sender;
+		recipient = args.to;
+	}
+
+	const zeroIn = delta0 > 0n;
+	const [token0, token1] = await Promise.all([
+		getToken(provider, network, pool.token0),
+		getToken(provider, network, pool.token1),
+	]);
+	const abs = (value: bigint) => (value < 0n ? -value : value);
+	return {
+		...base,
+		dex: pool.dex,
+		dexName: SWAP_DEX_NAMES[pool.dex],
+		sender,
+		recipient,
+		tokenIn: zeroIn ? token0 : token1,
+		tokenOut: zeroIn ? token1 : token0,
+		amountIn: abs(zeroIn ? delta0 : delta1),
+		amountOut: abs(zeroIn ? delta1 : delta0),
+	};
+}
+
+/**
+ * Decode swap logs of Uniswap V3, Camelot, SushiSwap and GMX; logs that are not swaps are dropped
+ */
+export async function decodeSwapLogs(provider: Provider, network: string, logs: Log[]): Promise<DecodedSwap[]> {
+	const swaps = await Promise.all(logs.map((log) => decodeSwapLog(provider, network, log).catch(() => null)));
+	return swaps.filter((swap): swap is DecodedSwap => swap !== null);
+}
+
+/**
+ * Create a USD price lookup backed by Chainlink feeds, resolving each token once
+ * Tokens without a feed price as null.
+ */
+export function createChainlinkPriceLookup(
+	provider: Provider,
+	network: string,
+): (token: SwapToken) => Promise<number | null> {
+	const prices = new Map<string, Promise<number | null>>();
+	return (token: SwapToken) => cached(prices, token.address.toLowerCase(), async () => {
+		const feed = getChainlinkFeedAddress(network, token.symbol);
+		// Only curated tokens may use a feed, so a token cannot borrow one by copying a symbol
+		if (!feed || !getTokenByAddress(network as ArbitrumNetworkId, token.address)) {
+			return null;
+		}
+		return (await getChainlinkUsdPrice(provider, feed)).priceUsd;
+	}).catch(() => null);
+}
+
+/**
+ * USD value of a swap: the larger of its priced legs, or null when neither token has a feed
+ */
+export async function getSwapUsdValue(
+	swap: DecodedSwap,
+	getPrice: (token: SwapToken) => Promise<number | null>,
+): Promise<number | null> {
+	const [priceIn, priceOut] = await Promise.all([getPrice(swap.tokenIn), getPrice(swap.tokenOut)]);
+	const values = [
+		priceIn === null ? null : Number(ethers.formatUnits(swap.amountIn, swap.tokenIn.decimals)) * priceIn,
+		priceOut === null ? null : Number(ethers.formatUnits(swap.amountOut, swap.tokenOut.decimals)) * priceOut,
+	].filter((value): value is number => value !== null);
+	return values.length > 0 ? Math.max(...values) : null;
+}
@@ -0,0 +1,272 @@
+/**
+ * Yield Utilities for Arbitrum
+ * Reward rates and staked value of farming contracts, turned into APRs
+ */
+
+import { ethers, Contract } from 'ethers';
+import type { Provider } from 'ethers';
+import { ABIS } from '../constants/abis';
+import { ARBITRUM_ONE_TOKENS, YIELD_FARM_CONTRACTS, getTokenByAddress } from '../constants/tokens';
+import { getTokenUsdPrice } from './priceUtils';
+import { getPendleMarketInfo } from './pendleUtils';
+
+const SECONDS_PER_YEAR = 31536000;
+
+/**
+ * Reward token emitted by a farm
+ */
+export interface RewardEmission {
+	token: string;
+	symbol: string;
+	/** Tokens emitted per second */
+	perSecond: string;
+	usdPerYear: number;
+}
+
+/**
+ * A farm with its staked value and APR
+ */
+export interface YieldFarm {
+	protocol: string;
+	name: string;
+	address: string;
+	stakedToken: string;
+	tvlUsd: number;
+	/** APR in percent */
+	apr: number;
+	/** rewards: emissions over staked value; impliedFixed: Pendle PT fixed yield */
+	aprType: 'rewards' | 'impliedFixed';
+	rewards: RewardEmission[];
+	endsAt?: number;
+}
+
+/**
+ * Memoized USD price lookup by token address
+ */
+export type PriceLookup = (token: string, decimals: number) => Promise<number>;
+
+/**
+ * Create a price lookup that prices each token once per run
+ * Escrowed reward tokens (esGMX, xGRAIL) are valued at their underlying token.
+ */
+export function createPriceLookup(provider: Provider, network: string): PriceLookup {
+	const contracts = YIELD_FARM_CONTRACTS.arbitrumOne;
+	const proxies: Record<string, string> = {
+		[contracts.esGmx.toLowerCase()]: ARBITRUM_ONE_TOKENS.GMX.address,
+		[contracts.xGrail.toLowerCase()]: ARBITRUM_ONE_TOKENS.GRAIL.address,
+	};
+	const cache = new Map<string, Promise<number>>();
+
+	return (token: string, decimals: number) => {
+		const address = proxies[token.toLowerCase()] ?? token;
+		const key = address.toLowerCase();
+		if (!cache.has(key)) {
+			cache.set(key, getTokenUsdPrice(provider, network, address, decimals).then((price) => price.priceUsd));
+		}
+		return cache.get(key) as Promise<number>;
+	};
+}
+
+async function getTokenInfo(provider: Provider, address: string): Promise<{ symbol: string; decimals: number }> {
+	const known = getTokenByAddress('arbitrumOne', address);
+	if (known) {
+		return { symbol: known.symbol, decimals: known.decimals };
+	}
+	const token = new Contract(address, ABIS.ERC20, provider);
+	const [symbol, decimals] = await Promise.all([token.symbol().catch(() => 'Unknown'), token.decimals()]);
+	return { symbol, decimals: Number(decimals) };
+}
+
+async function toEmission(
+	provider: Provider,
+	getPrice: PriceLookup,
+	token: string,
+	perSecond: bigint,
+	symbolOverride?: string,
+): Promise<RewardEmission> {
+	const { symbol, decimals } = await getTokenInfo(provider, token);
+	const formatted = ethers.formatUnits(perSecond, decimals);
+	const price = perSecond > 0n ? await getPrice(token, decimals) : 0;
+	return {
+		token,
+		symbol: symbolOverride ?? symbol,
+		perSecond: formatted,
+		usdPerYear: Number(formatted) * SECONDS_PER_YEAR * price,
+	};
+}
+
+function rewardApr(rewards: RewardEmission[], tvlUsd: number): number {
+	const usdPerYear = rewards.reduce((sum, reward) => sum + reward.usdPerYear, 0);
+	return tvlUsd > 0 ? (usdPerYear / tvlUsd) * 100 : 0;
+}
+
+/**
+ * GMX staking and GLP: esGMX and WETH emissions from the reward trackers
+ */
+export async function getGmxFarms(provider: Provider, getPrice: PriceLookup): Promise<YieldFarm[]> {
+	const contracts = YIELD_FARM_CONTRACTS.arbitrumOne;
+	const tracker = (address: string) => new Contract(address, ABIS.GmxRewardTracker, provider);
+	const trackerEmission = async (address: string, symbol?: string) => {
+		const contract = tracker(address);
+		const [rewardToken, perSecond] = await Promise.all([contract.rewardToken(), contract.tokensPerInterval()]);
+		return toEmission(provider, getPrice, rewardToken, perSecond, symbol);
+	};
+
+	const glpManager = new Contract(contracts.gmxGlpManager, ABIS.GmxGlpManager, provider);
+	const glp = new Contract(contracts.glp, ABIS.ERC20, provider);
+	const [
+		stakedGmx,
+		stakedGlp,
+		aumInUsdg,
+		glpSupply,
+		gmxPrice,
+		gmxRewards,
+		glpRewards,
+	] = await Promise.all([
+		tracker(contracts.gmxStakedGmxTracker).totalSupply() as Promise<bigint>,
+		tracker(contracts.gmxFeeGlpTracker).totalSupply() as Promise<bigint>,
+		glpManager.getAumInUsdg(false) as Promise<bigint>,
+		glp.totalSupply() as Promise<bigint>,
+		getPrice(ARBITRUM_ONE_TOKENS.GMX.address, ARBITRUM_ONE_TOKENS.GMX.decimals),
+		Promise.all([
+			trackerEmission(contracts.gmxStakedGmxTracker, 'esGMX'),
+			trackerEmission(contracts.gmxFeeGmxTracker),
+		]),
+		Promise.all([
+			trackerEmission(contracts.gmxStakedGlpTracker, 'esGMX'),
+			trackerEmission(contracts.gmxFeeGlpTracker),
+		]),
+	]);
+
+	// staked GMX tracker balances are GMX + esGMX, both valued at the GMX price
+	const gmxTvl = Number(ethers.formatUnits(stakedGmx, 18)) * gmxPrice;
+	const glpPrice = glpSupply > 0n ? Number(aumInUsdg) / Number(glpSupply) : 0;
+	const glpTvl = Number(ethers.formatUnits(stakedGlp, 18)) * glpPrice;
+
+	return [
+		{
+			protocol: 'GMX',
+			name: 'Staked GMX',
+			address: contracts.gmxStakedGmxTracker,
+			stakedToken: ARBITRUM_ONE_TOKENS.GMX.address,
+			tvlUsd: gmxTvl,
+			apr: rewardApr(gmxRewards, gmxTvl),
+			aprType: 'rewards',
+			rewards: gmxRewards,
+		},
+		{
+			protocol: 'GMX',
+			name: 'Staked GLP',
+			address: contracts.gmxFeeGlpTracker,
+			stakedToken: contracts.glp,
+			tvlUsd: glpTvl,
+			apr: rewardApr(glpRewards, glpTvl),
+			aprType: 'rewards',
+			rewards: glpRewards,
+		},
+	];
+}
+
+/**
+ * Camelot nitro pools: extra rewards on staked spNFT positions, valued through the underlying LP token
+ * Reads the given pools, or the most recent `limit` pools from the factory. Ended pools are skipped.
+ */
+export async function getCamelotNitroFarms(
+	provider: Provider,
+	getPrice: PriceLookup,
+	pools: string[] = [],
+	limit = 20,
+): Promise<YieldFarm[]> {
+	let addresses = pools;
+	if (addresses.length === 0) {
+		const factory = new Contract(YIELD_FARM_CONTRACTS.arbitrumOne.camelotNitroPoolFactory, ABIS.CamelotNitroPoolFactory, provider);
+		const count = Number(await factory.nitroPoolsLength());
+		const indexes = Array.from({ length: Math.min(limit, count) }, (_, i) => count - 1 - i);
+		addresses = await Promise.all(indexes.map((i) => factory.getNitroPool(i)));
+	}
+
+	const now = Math.floor(Date.now() / 1000);
+	const farms = await Promise.all(addresses.map(async (address): Promise<YieldFarm | undefined> => {
+		const nitro = new Contract(address, ABIS.CamelotNitroPool, provider);
+		const settings = await nitro.settings();
+		const endsAt = Number(settings.endTime);
+		if (endsAt > 0 && endsAt < now) {
+			return undefined;
+		}
+
+		const [nftPool, reward1, reward2, rate1, rate2, deposited] = await Promise.all([
+			nitro.nftPool(),
+			nitro.rewardsToken1(),
+			nitro.rewardsToken2(),
+			nitro.rewardsToken1PerSecond() as Promise<bigint>,
+			nitro.rewardsToken2PerSecond() as Promise<bigint>,
+			nitro.totalDepositAmount() as Promise<bigint>,
+		]);
+
+		const { lpToken } = await new Contract(nftPool, ABIS.CamelotNftPool, provider).getPoolInfo();
+		const pair = new Contract(lpToken, ABIS.CamelotPair, provider);
+		const [token0, token1, reserves, lpSupply] = await Promise.all([
+			pair.token0() as Promise<string>,
+			pair.token1() as Promise<string>,
+			pair.getReserves(),
+			pair.totalSupply() as Promise<bigint>,
+		]);
+		const [info0, info1] = await Promise.all([getTokenInfo(provider, token0), getTokenInfo(provider, token1)]);
+		const [price0, price1] = await Promise.all([getPrice(token0, info0.decimals), getPrice(token1, info1.decimals)]);
+
+		const reserveUsd = Number(ethers.formatUnits(reserves.reserve0, info0.decimals)) * price0
+			+ Number(ethers.formatUnits(reserves.reserve1, info1.decimals)) * price1;
+		const tvlUsd = lpSupply > 0n ? reserveUsd * (Number(deposited) / Number(lpSupply)) : 0;
+
+		const rewards = await Promise.all(
+			[[reward1.token, rate1], [reward2.token, rate2]]
+				.filter(([token, rate]) => token !== ethers.ZeroAddress && (rate as bigint) > 0n)
+				.map(([token, rate]) => toEmission(provider, getPrice, token as string, rate as bigint)),
+		);
+
+		return {
+			protocol: 'Camelot',
+			name: settings.description || `${info0.symbol}-${info1.symbol} Nitro`,
+			address,
+			stakedToken: lpToken,
+			tvlUsd,
+			apr: rewardApr(rewards, tvlUsd),
+			aprType: 'rewards',
+			rewards,
+			endsAt: endsAt || undefined,
+		};
+	}));
+
+	return farms.filter((farm): farm is YieldFarm => farm !== undefined);
+}
+
+/**
+ * Pendle markets: implied fixed APY of PT and liquidity valued in the underlying asset
+ */
+export async function getPendleMarketFarms(
+	provider: Provider,
+	getPrice: PriceLookup,
+	markets: string[],
+): Promise<YieldFarm[]> {
+	const farms = await Promise.all(markets.map(async (address): Promise<YieldFarm | undefined> => {
+		const info = await getPendleMarketInfo(provider, address);
+		if (info.isExpired) {
+			return undefined;
+		}
+		const assetPrice = await getPrice(info.asset, info.assetDecimals);
+
+		return {
+			protocol: 'Pendle',
+			name: info.name,
+			address,
+			stakedToken: info.pt,
+			tvlUsd: info.liquidityInAsset * assetPrice,
+			apr: info.impliedApy,
+			aprType: 'impliedFixed',
+			rewards: [],
+			endsAt: info.expiry,
+		};
+	}));
+
+	return farms.filter((farm): farm is YieldFarm => farm !== undefined);
+}
@@ -0,0 +1,60 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Sequencer feed messages for unit tests
+ *
+ * Builds signed transactions and the nested L2 message encoding the Arbitrum sequencer
+ * broadcasts, so feed decoding runs against real bytes.
+ */
+
+import { ethers } from 'ethers';
+import type { FeedMessage } from '../../nodes/Arbitrum/utils/sequencerFeedUtils';
+
+/** Signer of every feed transaction */
+export const FEED_SENDER = new ethers.Wallet(ethers.id('feed-sender'));
+
+/** Signed EIP-1559 transaction from FEED_SENDER, serialized */
+export function signedTransaction(to: string, nonce: number, data = '0x'): string {
+	const transaction = ethers.Transaction.from({
+		type: 2,
+		chainId: 42161,
+		nonce,
+		to,
+		data,
+		value: 10n ** 15n,
+		gasLimit: 100000,
+		maxFeePerGas: 100000000,
+		maxPriorityFeePerGas: 0,
+	});
+	transaction.signature = FEED_SENDER.signingKey.sign(transaction.unsignedHash);
+	return transaction.serialized;
+}
+
+/** L2 message of kind 4: one signed transaction */
+export function signedTxMessage(serialized: string): Uint8Array {
+	return ethers.getBytes(ethers.concat(['0x04', serialized]));
+}
+
+/** L2 message of kind 3: a batch of length-prefixed nested messages */
+export function batchMessage(...messages: Uint8Array[]): Uint8Array {
+	return ethers.getBytes(ethers.concat(['0x03', ...messages.flatMap((message) => [ethers.toBeHex(message.length, 8), message])]));
+}
+
+/** Sequenced feed message carrying an L2 message */
+export function feedMessage(sequenceNumber: number, l2Msg: Uint8Array, kind = 3): FeedMessage {
+	return {
+		sequenceNumber,
+		message: {
+			message: {
+				header: { kind, sender: '0xA4B000000000000000000073657175656e636572', blockNumber: 18500000, timestamp: 1700000000 + sequenceNumber },
+				l2Msg: ethers.encodeBase64(l2Msg),
+			},
+			delayedMessagesRead: 1,
+		},
+	};
+}
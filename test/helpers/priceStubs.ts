@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Price sources for unit tests
+ *
+ * Serves Chainlink feeds and Uniswap V3 pools on a StubChain, so pricing code reads
+ * answers and pool prices through the same calls it makes on chain.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { CHAINLINK_SEQUENCER_UPTIME_FEEDS, DEX_ROUTERS } from '../../nodes/Arbitrum/constants/tokens';
+import type { StubChain } from './stubChain';
+
+/**
+ * Uniswap V3 pool of a token against a quote token, served by stubUniswapV3Pools
+ */
+export interface StubPool {
+	address: string;
+	token: string;
+	quote: string;
+	fee: number;
+	liquidity: bigint;
+	sqrtPriceX96: bigint;
+}
+
+/** sqrtPriceX96 of a pool quoting token0 in token1 at a human price */
+export function sqrtPriceX96Of(price: number, decimals0: number, decimals1: number): bigint {
+	return BigInt(Math.round(Math.sqrt(price * 10 ** (decimals1 - decimals0)) * 2 ** 96));
+}
+
+/** Serve a Chainlink feed answering a USD price with 8 decimals */
+export function stubChainlinkFeed(chain: StubChain, feed: string, priceUsd: number, updatedAt = 1700000000): void {
+	chain.stub(feed, ABIS.ChainlinkFeed, {
+		decimals: () => 8,
+		latestRoundData: () => [1n, ethers.parseUnits(priceUsd.toString(), 8), updatedAt, updatedAt, 1n],
+	});
+}
+
+/** Serve the Arbitrum One sequencer uptime feed: answer 0 is up, 1 is down, since startedAt */
+export function stubSequencerUptime(chain: StubChain, answer: bigint, startedAt: number): void {
+	chain.stub(CHAINLINK_SEQUENCER_UPTIME_FEEDS.arbitrumOne, ABIS.ChainlinkFeed, {
+		latestRoundData: () => [1n, answer, startedAt, startedAt, 1n],
+	});
+}
+
+/**
+ * Serve the Uniswap V3 factory with the given pools; other pairs and fee tiers have no pool
+ */
+export function stubUniswapV3Pools(chain: StubChain, pools: StubPool[]): void {
+	const key = (a: string, b: string, fee: bigint | number) => [a.toLowerCase(), b.toLowerCase()].sort().join('-') + `-${fee}`;
+	const byPair = new Map(pools.map((pool) => [key(pool.token, pool.quote, pool.fee), pool.address]));
+	chain.stub(DEX_ROUTERS.arbitrumOne.uniswapV3Factory, ABIS.UniswapV3Factory, {
+		getPool: (a: string, b: string, fee: bigint) => byPair.get(key(a, b, fee)) ?? ethers.ZeroAddress,
+	});
+	for (const pool of pools) {
+		chain.stub(pool.address, ABIS.UniswapV3Pool, {
+			liquidity: () => pool.liquidity,
+			slot0: () => [pool.sqrtPriceX96, 0, 0, 1, 1, 0, true],
+		});
+	}
+}
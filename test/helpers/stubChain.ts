@@ -0,0 +1,234 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * In-memory chain for unit tests
+ *
+ * Serves eth_call and eth_sendTransaction from contract stubs keyed by address, so
+ * ethers Contracts built by the node code run unchanged against it.
+ */
+
+import { ethers } from 'ethers';
+import type { InterfaceAbi, JsonRpcProvider, Log, Wallet } from 'ethers';
+
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+	'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[])',
+	'function getEthBalance(address addr) view returns (uint256 balance)',
+];
+
+type Handler = (...args: any[]) => unknown;
+
+/** Logs a stubbed transaction emits, besides being recorded */
+type SendHandler = (...args: any[]) => Array<{ address: string; topics: string[]; data: string }> | void;
+
+/**
+ * Transaction sent to a stubbed contract
+ */
+export interface SentTransaction {
+	to: string;
+	from: string;
+	name: string;
+	args: ethers.Result;
+	value: bigint;
+	data: string;
+	hash: string;
+}
+
+interface StubContract {
+	iface: ethers.Interface;
+	views: Record<string, Handler>;
+	sends: Record<string, SendHandler>;
+}
+
+export class StubChain {
+	chainId: bigint;
+	blockNumber = 1000;
+	baseFeePerGas: bigint | null = 10_000_000_000n;
+	maxFeePerGas: bigint | null = 100_000_000n;
+	/** Gas estimates by contract address and function name; a missing entry makes estimateGas revert */
+	gasEstimates: Record<string, bigint> = {};
+	sent: SentTransaction[] = [];
+	/** Raw JSON-RPC handlers for provider.send */
+	rpc: Record<string, Handler> = {};
+	logs: Log[] = [];
+	getLogsCalls: Array<{ fromBlock: number; toBlock: number }> = [];
+	/** Widest getLogs block range the RPC serves before rejecting the request */
+	maxLogRange = Infinity;
+	/** Block tag of the eth_call being served, for views that answer from historical state */
+	callBlockTag: number | string | undefined;
+
+	private contracts = new Map<string, StubContract>();
+	private receipts = new Map<string, object>();
+
+	constructor(chainId = 1n) {
+		this.chainId = chainId;
+	}
+
+	/** Serve calls to a contract address through view and send handlers */
+	stub(address: string, abi: InterfaceAbi, views: Record<string, Handler>, sends: Record<string, SendHandler> = {}): this {
+		this.contracts.set(address.toLowerCase(), { iface: new ethers.Interface(abi), views, sends });
+		return this;
+	}
+
+	private resolve(tx: { to?: string; data?: string }) {
+		const contract = this.contracts.get((tx.to ?? '').toLowerCase());
+		if (!contract) {
+			throw new Error(`No stub for ${tx.to}`);
+		}
+		const parsed = contract.iface.parseTransaction({ data: tx.data ?? '0x' });
+		if (!parsed) {
+			throw new Error(`Unknown call to ${tx.to}`);
+		}
+		return { contract, parsed };
+	}
+
+	/**
+	 * Serve Multicall3 at its canonical address by running each aggregated call against the other stubs
+	 * @returns Size of every aggregate3 batch, in call order
+	 */
+	stubMulticall3(ethBalances: Record<string, bigint> = {}): number[] {
+		const batches: number[] = [];
+		this.stub(MULTICALL3, MULTICALL3_ABI, {
+			getEthBalance: (holder: string) => ethBalances[holder] ?? 0n,
+			aggregate3: async (calls: Array<[string, boolean, string]>) => {
+				batches.push(calls.length);
+				return Promise.all(calls.map(async ([target, , callData]) => {
+					try {
+						return [true, await this.call({ to: target, data: callData })];
+					} catch (error) {
+						return [false, '0x'];
+					}
+				}));
+			},
+		});
+		return batches;
+	}
+
+	/** Provider view of the chain */
+	get provider(): JsonRpcProvider {
+		const provider = {
+			getNetwork: async () => ({ chainId: this.chainId, name: 'stub' }),
+			getBlockNumber: async () => this.blockNumber,
+			getBlock: async () => ({ number: this.blockNumber, baseFeePerGas: this.baseFeePerGas, timestamp: 1700000000 }),
+			getFeeData: async () => ({ maxFeePerGas: this.maxFeePerGas, maxPriorityFeePerGas: 0n, gasPrice: this.maxFeePerGas }),
+			getTransactionReceipt: async (hash: string) => this.receipts.get(hash) ?? null,
+			getLogs: async (filter: { address?: string; topics?: Array<string | string[] | null>; fromBlock: number; toBlock: number }) => {
+				this.getLogsCalls.push({ fromBlock: filter.fromBlock, toBlock: filter.toBlock });
+				if (filter.toBlock - filter.fromBlock + 1 > this.maxLogRange) {
+					throw new Error(`block range exceeds ${this.maxLogRange}`);
+				}
+				return this.logs.filter((log) =>
+					log.blockNumber >= filter.fromBlock &&
+					log.blockNumber <= filter.toBlock &&
+					(!filter.address || log.address.toLowerCase() === filter.address.toLowerCase()) &&
+					(filter.topics ?? []).every((topic, i) => !topic || [topic].flat().includes(log.topics[i])),
+				);
+			},
+			send: async (method: string, params: unknown[]) => this.rpc[method](...params),
+			call: (tx: { to: string; data: string; blockTag?: number | string }) => this.call(tx),
+			estimateGas: async (tx: { to: string; data: string }) => {
+				const { parsed } = this.resolve(tx);
+				const estimate = this.gasEstimates[`${tx.to.toLowerCase()}.${parsed.name}`];
+				if (estimate === undefined) {
+					throw new Error('execution reverted');
+				}
+				return estimate;
+			},
+		};
+		// Providers are their own provider, which is how ethers Contracts find one for queryFilter
+		return Object.assign(provider, { provider }) as unknown as JsonRpcProvider;
+	}
+
+	/** Signer that sends through the stubs and mines every transaction at once */
+	signer(address: string): Wallet {
+		const provider = this.provider;
+		return {
+			provider,
+			address,
+			getAddress: async () => address,
+			call: (tx: { to: string; data: string; blockTag?: number | string }) => this.call(tx),
+			estimateGas: provider.estimateGas,
+			sendTransaction: async (tx: { to: string; data: string; value?: bigint }) => this.send(address, tx),
+		} as unknown as Wallet;
+	}
+
+	/** Sent transactions by function name */
+	sentTo(name: string): SentTransaction[] {
+		return this.sent.filter((tx) => tx.name === name);
+	}
+
+	private async call(tx: { to: string; data: string; blockTag?: number | string }): Promise<string> {
+		const { contract, parsed } = this.resolve(tx);
+		const handler = contract.views[parsed.name];
+		if (!handler) {
+			throw new Error(`No view stub for ${parsed.name}`);
+		}
+		// Handlers run synchronously up to their first await, so they see their own call's tag
+		this.callBlockTag = tx.blockTag;
+		const result = await handler(...parsed.args);
+		const outputs = parsed.fragment.outputs.length === 1 ? [result] : (result as unknown[]);
+		return contract.iface.encodeFunctionResult(parsed.fragment, outputs);
+	}
+
+	private async send(from: string, tx: { to: string; data: string; value?: bigint }) {
+		const { contract, parsed } = this.resolve(tx);
+		const hash = ethers.id(`tx-${this.sent.length}`);
+		const value = BigInt(tx.value ?? 0);
+		this.sent.push({ to: tx.to, from, name: parsed.name, args: parsed.args, value, data: tx.data, hash });
+
+		const emitted = contract.sends[parsed.name]?.(...parsed.args) || [];
+		this.blockNumber++;
+		const blockHash = ethers.id(`block-${this.blockNumber}`);
+		this.receipts.set(hash, {
+			to: tx.to,
+			from,
+			contractAddress: null,
+			hash,
+			index: 0,
+			blockHash,
+			blockNumber: this.blockNumber,
+			logsBloom: '0x',
+			gasUsed: 21000n,
+			cumulativeGasUsed: 21000n,
+			gasPrice: 1n,
+			type: 2,
+			status: 1,
+			root: null,
+			logs: emitted.map((log, index) => ({
+				...log,
+				transactionHash: hash,
+				transactionIndex: 0,
+				blockHash,
+				blockNumber: this.blockNumber,
+				removed: false,
+				index,
+			})),
+		});
+
+		return {
+			hash,
+			from,
+			to: tx.to,
+			data: tx.data,
+			value,
+			nonce: this.sent.length - 1,
+			gasLimit: 0n,
+			gasPrice: null,
+			maxFeePerGas: null,
+			maxPriorityFeePerGas: null,
+			chainId: this.chainId,
+			type: 2,
+			blockNumber: null,
+			blockHash: null,
+			index: 0,
+			signature: null,
+			accessList: null,
+		};
+	}
+}
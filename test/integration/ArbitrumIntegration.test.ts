@@ -135,7 +135,7 @@ describe('Arbitrum Integration Tests', () => {
 			expect(packageJson.n8n).toBeDefined();
 			expect(packageJson.n8n.n8nNodesApiVersion).toBe(1);
 			expect(packageJson.n8n.credentials).toHaveLength(2);
-			expect(packageJson.n8n.nodes).toHaveLength(2);
+			expect(packageJson.n8n.nodes).toHaveLength(3);
 		});
 
 		it('should have correct author information', () => {
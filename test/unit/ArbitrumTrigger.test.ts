@@ -0,0 +1,291 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import { ArbitrumTrigger } from '../../nodes/Arbitrum/ArbitrumTrigger.node';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { CHAINLINK_FEEDS, CHAINLINK_SEQUENCER_UPTIME_FEEDS } from '../../nodes/Arbitrum/constants/tokens';
+import { stubChainlinkFeed } from '../helpers/priceStubs';
+import { StubChain } from '../helpers/stubChain';
+
+/** Unix time of block 0; blocks follow one second apart */
+const GENESIS_TIME = 1700000000;
+
+/**
+ * Chain served to the trigger's JsonRpcProvider, with blocks up to head
+ */
+class PollChain {
+	head: number;
+	requestedBlocks: Array<number | string> = [];
+
+	constructor(head: number) {
+		this.head = head;
+	}
+
+	block(number: number) {
+		return {
+			number,
+			hash: ethers.id(`block-${number}`),
+			timestamp: GENESIS_TIME + number,
+			gasLimit: 32000000n,
+			gasUsed: 21000n,
+			baseFeePerGas: 10000000n,
+			transactions: [],
+			prefetchedTransactions: [],
+		};
+	}
+
+	/** Route the provider the trigger creates to this chain */
+	install(): void {
+		jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => this.head);
+		jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlock').mockImplementation(async (tag) => {
+			this.requestedBlocks.push(tag as number | string);
+			const number = tag === 'latest' ? this.head : Number(tag);
+			return (number <= this.head ? this.block(number) : null) as unknown as ethers.Block;
+		});
+	}
+}
+
+/**
+ * Poll a newBlock trigger with the given parameters, keeping static data across polls
+ */
+function createTrigger(parameters: IDataObject) {
+	const staticData: IDataObject = {};
+	const params: IDataObject = { event: 'newBlock', finality: 'confirmations', confirmations: 0, ...parameters };
+	const context = {
+		getNodeParameter: (name: string, fallback?: unknown) => (name in params ? params[name] : fallback),
+		getCredentials: async () => ({ network: 'arbitrumOne', rpcProvider: 'public' }),
+		getWorkflowStaticData: () => staticData,
+	} as unknown as IPollFunctions;
+	const trigger = new ArbitrumTrigger();
+
+	return {
+		staticData,
+		/** Emitted items, or an empty list when the poll returned null */
+		poll: async (): Promise<IDataObject[]> => {
+			const result = await trigger.poll.call(context);
+			return result ? result[0].map((item) => item.json) : [];
+		},
+	};
+}
+
+const blockNumbers = (items: IDataObject[]) => items.map((item) => item.blockNumber as number);
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('ArbitrumTrigger', () => {
+	describe('Start From', () => {
+		let chain: PollChain;
+
+		beforeEach(() => {
+			chain = new PollChain(10000);
+			chain.install();
+		});
+
+		afterEach(() => jest.restoreAllMocks());
+
+		it('should only set the cursor on the first poll from the latest block', async () => {
+			const { poll, staticData } = createTrigger({ startFrom: 'latest' });
+
+			expect(await poll()).toEqual([]);
+			expect(staticData).toMatchObject({ lastProcessedBlock: 10000, blockCursor: { number: 10000 } });
+			expect(staticData.backfillUntil).toBeUndefined();
+
+			chain.head = 10003;
+			const items = await poll();
+
+			expect(blockNumbers(items)).toEqual([10001, 10002, 10003]);
+			expect(items.some((item) => item.backfill)).toBe(false);
+		});
+
+		it('should backfill from a block number in capped polls and then follow the chain', async () => {
+			const { poll, staticData } = createTrigger({ startFrom: 'block', startBlock: 9000, maxBlocksPerPoll: 600 });
+
+			const first = await poll();
+
+			expect(blockNumbers(first)).toEqual(range(9000, 9599));
+			expect(first.every((item) => item.backfill === true)).toBe(true);
+			// The head at activation marks where the backfill ends
+			expect(staticData.backfillUntil).toBe(10000);
+			expect(staticData.lastProcessedBlock).toBe(9599);
+
+			chain.head = 10100;
+			const second = await poll();
+
+			expect(blockNumbers(second)).toEqual(range(9600, 10100));
+			expect(second.filter((item) => item.backfill).map((item) => item.blockNumber)).toEqual(range(9600, 10000));
+			expect(staticData.backfillUntil).toBeUndefined();
+
+			chain.head = 10102;
+			const third = await poll();
+
+			expect(blockNumbers(third)).toEqual([10101, 10102]);
+			expect(third.some((item) => item.backfill)).toBe(false);
+		});
+
+		it('should wait for the chain to reach a start block beyond the final block', async () => {
+			const { poll, staticData } = createTrigger({ startFrom: 'block', startBlock: 10005, confirmations: 2 });
+
+			expect(await poll()).toEqual([]);
+			expect(staticData).toEqual({ lastProcessedBlock: 10004 });
+
+			// Once the chain reaches the block before the start, the cursor can be saved there
+			chain.head = 10006;
+			expect(await poll()).toEqual([]);
+			expect(staticData).toMatchObject({ lastProcessedBlock: 10004, blockCursor: { number: 10004 } });
+
+			chain.head = 10009;
+			const items = await poll();
+
+			expect(blockNumbers(items)).toEqual(range(10005, 10007));
+			expect(items.some((item) => item.backfill)).toBe(false);
+			expect(staticData).toMatchObject({ lastProcessedBlock: 10007, blockCursor: { number: 10007 } });
+		});
+
+		it('should start at the first block at or after the start time', async () => {
+			const startTime = new Date((GENESIS_TIME + 9950) * 1000 - 500).toISOString();
+			const { poll, staticData } = createTrigger({ startFrom: 'timestamp', startTime });
+
+			const items = await poll();
+
+			expect(blockNumbers(items)).toEqual(range(9950, 10000));
+			expect(items.every((item) => item.backfill === true)).toBe(true);
+			expect(staticData.backfillUntil).toBeUndefined();
+			// Resolved by binary search rather than by walking back from the head
+			expect(chain.requestedBlocks.filter((tag) => typeof tag === 'number' && tag < 9950).length).toBeLessThan(20);
+		});
+
+		it('should reject a start time that is not a date', async () => {
+			const { poll, staticData } = createTrigger({ startFrom: 'timestamp', startTime: 'yesterday' });
+
+			await expect(poll()).rejects.toThrow('Start Time is not a valid date');
+			expect(staticData).toEqual({});
+		});
+
+		it('should backfill a number of blocks before the final block', async () => {
+			const { poll, staticData } = createTrigger({ startFrom: 'blocksAgo', startBlocksAgo: 100, confirmations: 10, maxBlocksPerPoll: 60 });
+
+			const first = await poll();
+
+			expect(blockNumbers(first)).toEqual(range(9891, 9950));
+			expect(staticData.backfillUntil).toBe(9990);
+
+			const second = await poll();
+
+			expect(blockNumbers(second)).toEqual(range(9951, 9990));
+			expect(second.every((item) => item.backfill === true)).toBe(true);
+			expect(staticData.backfillUntil).toBeUndefined();
+		});
+
+		it('should not backfill past genesis', async () => {
+			chain.head = 50;
+			const { poll } = createTrigger({ startFrom: 'blocksAgo', startBlocksAgo: 100 });
+
+			expect(blockNumbers(await poll())).toEqual(range(0, 50));
+		});
+
+		it('should ignore the start once the trigger has a cursor', async () => {
+			const { poll, staticData } = createTrigger({ startFrom: 'block', startBlock: 5000 });
+			staticData.lastProcessedBlock = 9997;
+
+			const items = await poll();
+
+			expect(blockNumbers(items)).toEqual([9998, 9999, 10000]);
+			expect(items.some((item) => item.backfill)).toBe(false);
+			expect(staticData.backfillUntil).toBeUndefined();
+		});
+	});
+
+	describe('Price Alerts', () => {
+		const NOW = 1700100000;
+		const ETH_USD = CHAINLINK_FEEDS.arbitrumOne['ETH/USD'];
+		let chain: StubChain;
+
+		/** Sequencer up for a day (0) or down (1) */
+		const setSequencer = (answer: bigint) => chain.stub(CHAINLINK_SEQUENCER_UPTIME_FEEDS.arbitrumOne, ABIS.ChainlinkFeed, {
+			latestRoundData: () => [1n, answer, NOW - 86400, NOW - 86400, 1n],
+		});
+
+		beforeEach(() => {
+			chain = new StubChain(42161n);
+			setSequencer(0n);
+			jest.spyOn(ethers.JsonRpcProvider.prototype, 'call').mockImplementation((tx) => chain.provider.call(tx as { to: string; data: string }));
+			jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+		});
+
+		afterEach(() => jest.restoreAllMocks());
+
+		const createAlert = (parameters: IDataObject = {}) => createTrigger({
+			event: 'priceAlert',
+			tokenAddress: '',
+			priceDirection: 'both',
+			targetPrice: 3000,
+			...parameters,
+		});
+
+		it('should fire once the price crosses the target on a safe answer', async () => {
+			const { poll, staticData } = createAlert();
+			stubChainlinkFeed(chain, ETH_USD, 2900, NOW - 60);
+
+			expect(await poll()).toEqual([]);
+			expect(staticData.lastPrice).toBe(2900);
+
+			stubChainlinkFeed(chain, ETH_USD, 3100, NOW - 30);
+			const [alert] = await poll();
+
+			expect(alert).toMatchObject({ currentPrice: 3100, previousPrice: 2900, direction: 'above', safe: true, stale: false, warnings: [] });
+		});
+
+		it('should skip unsafe answers and baseline the next safe read on them', async () => {
+			const { poll, staticData } = createAlert();
+			stubChainlinkFeed(chain, ETH_USD, 2900, NOW - 60);
+			await poll();
+
+			setSequencer(1n);
+			stubChainlinkFeed(chain, ETH_USD, 3100, NOW - 30);
+
+			expect(await poll()).toEqual([]);
+			expect(staticData.lastPrice).toBe(3100);
+
+			// The crossing happened while unsafe, so staying above the target does not fire it late
+			setSequencer(0n);
+			stubChainlinkFeed(chain, ETH_USD, 3050, NOW - 10);
+
+			expect(await poll()).toEqual([]);
+			expect(staticData.lastPrice).toBe(3050);
+		});
+
+		it('should forget the last price when a skipped answer is not positive', async () => {
+			const { poll, staticData } = createAlert();
+			stubChainlinkFeed(chain, ETH_USD, 2900, NOW - 60);
+			await poll();
+
+			stubChainlinkFeed(chain, ETH_USD, 0, NOW - 30);
+
+			expect(await poll()).toEqual([]);
+			expect(staticData.lastPrice).toBeUndefined();
+		});
+
+		it('should fire on unsafe answers with the warnings when set to flag', async () => {
+			const { poll } = createAlert({ unsafePriceAction: 'flag', maxPriceAge: 600 });
+			stubChainlinkFeed(chain, ETH_USD, 2900, NOW - 60);
+			await poll();
+
+			stubChainlinkFeed(chain, ETH_USD, 3100, NOW - 900);
+			const [alert] = await poll();
+
+			expect(alert).toMatchObject({
+				currentPrice: 3100,
+				feedAddress: ETH_USD,
+				priceUpdatedAt: NOW - 900,
+				safe: false,
+				stale: true,
+				warnings: ['Price is 900s old, older than the 600s limit'],
+			});
+		});
+	});
+});
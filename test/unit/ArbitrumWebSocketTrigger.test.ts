@@ -0,0 +1,390 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { AddressInfo } from 'net';
+import type { IncomingHttpHeaders } from 'http';
+import { ethers } from 'ethers';
+import type { Log, WebSocketProvider } from 'ethers';
+import type { IDataObject, ITriggerFunctions } from 'n8n-workflow';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import { ArbitrumWebSocketTrigger } from '../../nodes/Arbitrum/ArbitrumWebSocketTrigger.node';
+import { openReconnectingWebSocket } from '../../nodes/Arbitrum/transport/webSocket';
+import type { ReconnectingWebSocketOptions } from '../../nodes/Arbitrum/transport/webSocket';
+import { batchMessage, feedMessage, signedTransaction, signedTxMessage } from '../helpers/feedMessages';
+
+jest.mock('../../nodes/Arbitrum/transport/webSocket', () => ({
+	...jest.requireActual('../../nodes/Arbitrum/transport/webSocket'),
+	openReconnectingWebSocket: jest.fn(),
+}));
+
+const CONTRACT = '0x0000000000000000000000000000000000000C01';
+const ROUTER = '0x0000000000000000000000000000000000000e01';
+const OTHER = '0x0000000000000000000000000000000000000e02';
+const EVENT_TOPIC = ethers.id('Ping(uint256)');
+
+/**
+ * Chain pushed to the trigger through a WebSocket provider, whose blocks after a fork point
+ * can be replaced by a competing branch
+ */
+class PushChain {
+	head: number;
+	logs: Log[] = [];
+	getLogsCalls: Array<[number, number]> = [];
+	private forks: number[] = [];
+	private listeners = new Map<string, (value: any) => void>();
+
+	constructor(head: number) {
+		this.head = head;
+	}
+
+	/** Replace every block after a number */
+	reorg(after: number): void {
+		this.forks.push(after);
+	}
+
+	hash(number: number): string {
+		const branch = this.forks.filter((after) => number > after).length;
+		return ethers.id(`block-${number}-${branch}`);
+	}
+
+	log(blockNumber: number, index = 0, removed = false): Log {
+		return {
+			address: CONTRACT,
+			topics: [EVENT_TOPIC],
+			data: ethers.toBeHex(blockNumber, 32),
+			blockNumber,
+			blockHash: this.hash(blockNumber),
+			transactionHash: ethers.id(`tx-${blockNumber}-${index}`),
+			index,
+			removed,
+		} as unknown as Log;
+	}
+
+	/** Announce a new head */
+	newBlock(number: number): void {
+		this.head = number;
+		this.listeners.get('block')?.(number);
+	}
+
+	/** Deliver a log through the log subscription */
+	push(log: Log): void {
+		this.listeners.get('logs')?.(log);
+	}
+
+	get provider(): WebSocketProvider {
+		return {
+			on: async (event: string | object, listener: (value: any) => void) => {
+				this.listeners.set(event === 'block' ? 'block' : 'logs', listener);
+			},
+			getBlockNumber: async () => this.head,
+			getBlock: async (number: number) => (number > this.head ? null : {
+				number,
+				hash: this.hash(number),
+				timestamp: 1700000000 + number,
+				gasLimit: 32000000n,
+				gasUsed: 21000n,
+				baseFeePerGas: 10000000n,
+				transactions: [],
+				prefetchedTransactions: [],
+			}),
+			getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+				this.getLogsCalls.push([fromBlock, toBlock]);
+				return this.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+			},
+		} as unknown as WebSocketProvider;
+	}
+}
+
+/** Let the trigger work through everything queued */
+async function settle(): Promise<void> {
+	for (let i = 0; i < 50; i++) {
+		await new Promise((resolve) => setImmediate(resolve));
+	}
+}
+
+/** Resolve once a condition holds; the feed reconnects after a second */
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+	for (let waited = 0; !condition(); waited += 10) {
+		if (waited > timeout) {
+			throw new Error('Timed out waiting for condition');
+		}
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
+/** Broadcast of sequenced feed messages, as the sequencer sends it */
+const broadcast = (...messages: ReturnType<typeof feedMessage>[]) => JSON.stringify({ version: 1, messages });
+
+/**
+ * Local sequencer feed that runs a script per connection and records the request headers
+ * Connections past the last script are refused.
+ */
+async function startFeedServer(scripts: Array<(socket: WebSocket) => void>) {
+	const headers: IncomingHttpHeaders[] = [];
+	const server = new WebSocketServer({
+		port: 0,
+		verifyClient: (info, accept) => accept(headers.push(info.req.headers) <= scripts.length, 503),
+	});
+	server.on('connection', (socket) => scripts[headers.length - 1](socket));
+	await new Promise((resolve) => server.once('listening', resolve));
+	return {
+		url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		headers,
+		close: () => new Promise((resolve) => server.close(resolve)),
+	};
+}
+
+/**
+ * Trigger context with the given parameters
+ * @returns The context and the batches it emitted, each a list of items
+ */
+function createContext(parameters: IDataObject, staticData: IDataObject = {}, mode = 'trigger') {
+	const emitted: IDataObject[][] = [];
+	const params: IDataObject = { confirmations: 0, maxCatchUpBlocks: 2000, ...parameters };
+	const context = {
+		getNodeParameter: (name: string, fallback?: unknown) => (name in params ? params[name] : fallback),
+		getCredentials: async () => ({ network: 'arbitrumOne', rpcProvider: 'public', enableWebSocket: true }),
+		getWorkflowStaticData: () => staticData,
+		getMode: () => mode,
+		emit: (data: Array<Array<{ json: IDataObject }>>) => emitted.push(data[0].map((item) => item.json)),
+		logger: { warn: jest.fn() },
+	} as unknown as ITriggerFunctions;
+	return { context, emitted };
+}
+
+/**
+ * Start the trigger with the given parameters and connect it to a chain
+ */
+async function startTrigger(chain: PushChain, parameters: IDataObject, staticData: IDataObject = {}) {
+	let options: ReconnectingWebSocketOptions | undefined;
+	const reconnect = jest.fn();
+	jest.mocked(openReconnectingWebSocket).mockImplementation((opened) => {
+		options = opened;
+		return { ready: Promise.resolve(), reconnect, close: async () => undefined };
+	});
+	const { context, emitted } = createContext(parameters, staticData);
+
+	await new ArbitrumWebSocketTrigger().trigger.call(context);
+	await options!.onConnect(chain.provider);
+	await settle();
+	return { emitted, reconnect };
+}
+
+const blockNumbers = (items: IDataObject[]) => items.map((item) => item.blockNumber as number);
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('ArbitrumWebSocketTrigger', () => {
+	afterEach(() => jest.clearAllMocks());
+
+	describe('Catch-up', () => {
+		it('should start at the head on first activation', async () => {
+			const chain = new PushChain(1000);
+			const staticData: IDataObject = {};
+
+			const { emitted } = await startTrigger(chain, { event: 'newBlock' }, staticData);
+
+			expect(emitted).toEqual([]);
+			expect(staticData.lastProcessedBlock).toBe(1000);
+
+			chain.newBlock(1001);
+			await settle();
+
+			expect(emitted.map(blockNumbers)).toEqual([[1001]]);
+		});
+
+		it('should read blocks missed while disconnected in batches of at most maxCatchUpBlocks', async () => {
+			const chain = new PushChain(1250);
+			const staticData: IDataObject = { lastProcessedBlock: 1000 };
+
+			const { emitted, reconnect } = await startTrigger(chain, { event: 'newBlock', maxCatchUpBlocks: 100 }, staticData);
+
+			expect(emitted.map(blockNumbers)).toEqual([range(1001, 1100), range(1101, 1200), range(1201, 1250)]);
+			expect(staticData).toMatchObject({ lastProcessedBlock: 1250, blockCursor: { number: 1250 } });
+			expect(reconnect).not.toHaveBeenCalled();
+		});
+
+		it('should hold back blocks until they have the configured confirmations', async () => {
+			const chain = new PushChain(1010);
+
+			const { emitted } = await startTrigger(chain, { event: 'newBlock', confirmations: 5 }, { lastProcessedBlock: 1000 });
+			chain.newBlock(1012);
+			await settle();
+
+			expect(emitted.map(blockNumbers)).toEqual([range(1001, 1005), [1006, 1007]]);
+		});
+
+		it('should read missed logs with getLogs in capped batches', async () => {
+			const chain = new PushChain(1250);
+			chain.logs = [chain.log(1050), chain.log(1220)];
+
+			const { emitted } = await startTrigger(
+				chain,
+				{ event: 'contractEvent', contractAddress: CONTRACT, maxCatchUpBlocks: 100 },
+				{ lastProcessedBlock: 1000 },
+			);
+
+			expect(chain.getLogsCalls).toEqual([[1001, 1100], [1101, 1200], [1201, 1250]]);
+			expect(emitted.map(blockNumbers)).toEqual([[1050], [1220]]);
+		});
+	});
+
+	describe('Log De-duplication', () => {
+		it('should emit a log once whether it arrives by getLogs, the subscription or both', async () => {
+			const chain = new PushChain(1005);
+			chain.logs = [chain.log(1003), chain.log(1005)];
+			const { emitted } = await startTrigger(chain, { event: 'contractEvent', contractAddress: CONTRACT }, { lastProcessedBlock: 1000 });
+
+			// The subscription repeats a log already read with getLogs, then delivers a new one twice
+			chain.push(chain.log(1005));
+			chain.push(chain.log(1006));
+			chain.push(chain.log(1006));
+			chain.newBlock(1006);
+			await settle();
+			chain.push(chain.log(1006));
+			chain.newBlock(1007);
+			await settle();
+
+			expect(chain.getLogsCalls).toEqual([[1001, 1005]]);
+			expect(emitted.map(blockNumbers)).toEqual([[1003, 1005], [1006]]);
+		});
+
+		it('should retract emitted logs a reorg removes and drop pending ones silently', async () => {
+			const chain = new PushChain(1005);
+			const { emitted } = await startTrigger(chain, { event: 'contractEvent', contractAddress: CONTRACT, confirmations: 2 }, { lastProcessedBlock: 1003 });
+
+			chain.push(chain.log(1004));
+			chain.push(chain.log(1006));
+			chain.newBlock(1006);
+			await settle();
+			chain.push(chain.log(1004, 0, true));
+			chain.push(chain.log(1006, 0, true));
+			chain.newBlock(1008);
+			await settle();
+
+			expect(emitted).toEqual([
+				[expect.objectContaining({ blockNumber: 1004 })],
+				[expect.objectContaining({ type: 'reorg', retracted: true, blockNumber: 1004, blockHash: chain.hash(1004) })],
+			]);
+		});
+	});
+
+	describe('Block Reorgs', () => {
+		it.each(['newBlock', 'addressActivity', 'largeTransaction'])('should keep a block cursor for %s', async (event) => {
+			const chain = new PushChain(1010);
+			const staticData: IDataObject = { lastProcessedBlock: 1000 };
+
+			await startTrigger(chain, { event, address: CONTRACT }, staticData);
+
+			expect(staticData.blockCursor).toEqual({ number: 1010, hash: chain.hash(1010), hashes: { 1010: chain.hash(1010) } });
+		});
+
+		it('should retract orphaned blocks and re-emit the canonical ones as reorged', async () => {
+			const chain = new PushChain(1010);
+			const staticData: IDataObject = { lastProcessedBlock: 1000 };
+			const { emitted } = await startTrigger(chain, { event: 'newBlock' }, staticData);
+			chain.newBlock(1020);
+			await settle();
+			const orphaned = chain.hash(1020);
+
+			chain.reorg(1015);
+			chain.newBlock(1022);
+			await settle();
+
+			const [reorg, ...blocks] = emitted[2];
+			expect(reorg).toEqual({
+				network: 'Arbitrum One',
+				type: 'reorg',
+				reorged: true,
+				retracted: true,
+				commonAncestor: 1010,
+				fromBlock: 1011,
+				toBlock: 1020,
+				orphanedBlocks: [{ blockNumber: 1020, blockHash: orphaned }],
+				windowExceeded: false,
+			});
+			expect(blockNumbers(blocks)).toEqual(range(1011, 1022));
+			expect(blocks.map((block) => block.blockHash)).toEqual(range(1011, 1022).map((number) => chain.hash(number)));
+			expect(blocks.filter((block) => block.reorged).map((block) => block.blockNumber)).toEqual(range(1011, 1020));
+			expect(staticData.lastProcessedBlock).toBe(1022);
+		});
+
+		it('should carry a capped replay after a reorg across batches', async () => {
+			const chain = new PushChain(1100);
+			const staticData: IDataObject = { lastProcessedBlock: 1000 };
+			const { emitted } = await startTrigger(chain, { event: 'newBlock', maxCatchUpBlocks: 30 }, staticData);
+
+			// Checkpoints at 1030, 1060, 1090 and 1100; the fork after 1060 replays 1061-1100
+			chain.reorg(1060);
+			chain.newBlock(1101);
+			await settle();
+
+			const [reorg, ...first] = emitted[4];
+			const second = emitted[5];
+			expect(reorg).toMatchObject({ type: 'reorg', commonAncestor: 1060, toBlock: 1100 });
+			expect(blockNumbers(first)).toEqual(range(1061, 1090));
+			expect(first.every((item) => item.reorged)).toBe(true);
+			expect(blockNumbers(second)).toEqual(range(1091, 1101));
+			expect(second.filter((item) => item.reorged).map((item) => item.blockNumber)).toEqual(range(1091, 1100));
+			expect(emitted).toHaveLength(6);
+		});
+	});
+
+	describe('Sequencer Feed', () => {
+		let server: Awaited<ReturnType<typeof startFeedServer>>;
+
+		afterEach(async () => {
+			await server.close();
+		});
+
+		it('should resume after the last sequence number on reconnect and skip replayed messages', async () => {
+			const tx = (to: string, nonce: number) => signedTxMessage(signedTransaction(to, nonce));
+			server = await startFeedServer([
+				(socket) => {
+					socket.send(broadcast(feedMessage(10, tx(ROUTER, 0)), feedMessage(11, batchMessage(tx(ROUTER, 1), tx(OTHER, 2)))));
+					socket.close();
+				},
+				(socket) => {
+					socket.send(JSON.stringify({ version: 1, confirmedSequenceNumberMessage: { sequenceNumber: 11 } }));
+					socket.send('not a broadcast');
+					// The feed replays from a little before the requested sequence number
+					socket.send(broadcast(feedMessage(11, tx(ROUTER, 1)), feedMessage(12, tx(ROUTER, 3))));
+				},
+			]);
+			const { context, emitted } = createContext({ event: 'sequencerFeed', feedUrl: server.url, feedContracts: ROUTER });
+
+			const { closeFunction } = await new ArbitrumWebSocketTrigger().trigger.call(context);
+			await waitFor(() => emitted.length === 2);
+			await closeFunction!();
+
+			expect(server.headers.map((headers) => headers['arbitrum-requested-sequence-number'])).toEqual([undefined, '12']);
+			expect(server.headers[0]['arbitrum-feed-client-version']).toBe('2');
+			expect(emitted.map((items) => items.map((item) => [item.sequenceNumber, item.nonce]))).toEqual([
+				[[10, 0], [11, 1]],
+				[[12, 3]],
+			]);
+			expect(emitted[0][0]).toMatchObject({
+				network: 'Arbitrum One',
+				type: 'sequencerTransaction',
+				to: ethers.getAddress(ROUTER),
+				value: '0.001',
+				selector: null,
+			});
+		});
+
+		it('should fail a manual run with a clear error when the feed refuses the connection', async () => {
+			server = await startFeedServer([]);
+			const { context } = createContext({ event: 'sequencerFeed', feedUrl: server.url }, {}, 'manual');
+
+			const { manualTriggerFunction } = await new ArbitrumWebSocketTrigger().trigger.call(context);
+
+			await expect(manualTriggerFunction!()).rejects.toThrow(
+				'Could not connect to the sequencer feed: WebSocket error: Unexpected server response: 503',
+			);
+		});
+	});
+});
@@ -0,0 +1,356 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_BRIDGES } from '../../nodes/Arbitrum/constants/bridges';
+import {
+	depositErc20,
+	estimateRetryableGas,
+	executeOutboxTransaction,
+	getOutboxProofs,
+	withdrawErc20,
+} from '../../nodes/Arbitrum/transport/arbitrumSdk';
+import type { OutboxProof } from '../../nodes/Arbitrum/transport/arbitrumSdk';
+import { applyL1ToL2Alias } from '../../nodes/Arbitrum/utils/bridgeUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const USER = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const DAI_L1 = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const DAI_L2 = '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1';
+const L1_ERC20_GATEWAY = '0xa3A7B6F88361F48403514059F1F16C8E78d60EeC';
+const L2_ERC20_GATEWAY = '0x09e9222E96E7B4AE2a407B98d48e330053351EEe';
+const NODE_INTERFACE = '0x00000000000000000000000000000000000000C8';
+
+const gatewayInterface = new ethers.Interface(ABIS.TokenGateway);
+const bridgeInterface = new ethers.Interface(ABIS.L1Bridge);
+const inboxInterface = new ethers.Interface(ABIS.L1Inbox);
+const arbSysInterface = new ethers.Interface(ABIS.ArbSys);
+const outboxInterface = new ethers.Interface(ABIS.L1Outbox);
+
+describe('Arbitrum SDK Transport', () => {
+	describe('Retryable Gas Estimation', () => {
+		const setup = () => {
+			const l1 = new StubChain(1n);
+			const l2 = new StubChain(42161n);
+			l2.stub(NODE_INTERFACE, ABIS.NodeInterface, {});
+			return { l1, l2 };
+		};
+
+		it('should price submission by calldata size and pad the NodeInterface gas estimate', async () => {
+			const { l1, l2 } = setup();
+			l2.gasEstimates[`${NODE_INTERFACE.toLowerCase()}.estimateRetryableTicket`] = 200000n;
+
+			const estimate = await estimateRetryableGas(l1.provider, l2.provider, L2_ERC20_GATEWAY, '0x' + '00'.repeat(100));
+
+			expect(estimate.maxSubmissionCost).toBe((1400n + 100n * 6n) * 10_000_000_000n);
+			expect(estimate.gasLimit).toBe(300000n);
+			expect(estimate.maxFeePerGas).toBe(100_000_000n);
+			expect(estimate.deposit).toBe(estimate.maxSubmissionCost + 300000n * 100_000_000n);
+		});
+
+		it('should fall back to default gas and fees when estimation fails', async () => {
+			const { l1, l2 } = setup();
+			l1.baseFeePerGas = null;
+			l2.maxFeePerGas = null;
+
+			const estimate = await estimateRetryableGas(l1.provider, l2.provider, L2_ERC20_GATEWAY, '0x', 5n);
+
+			expect(estimate.maxSubmissionCost).toBe(1400n * ethers.parseUnits('30', 'gwei'));
+			expect(estimate.gasLimit).toBe(300000n);
+			expect(estimate.maxFeePerGas).toBe(ethers.parseUnits('0.1', 'gwei'));
+			expect(estimate.deposit).toBe(estimate.maxSubmissionCost + 300000n * estimate.maxFeePerGas + 5n);
+		});
+	});
+
+	describe('ERC-20 Deposits', () => {
+		const amount = ethers.parseEther('100');
+
+		const setup = (allowance: bigint) => {
+			const l1 = new StubChain(1n);
+			const l2 = new StubChain(42161n);
+			l2.stub(NODE_INTERFACE, ABIS.NodeInterface, {});
+			l2.gasEstimates[`${NODE_INTERFACE.toLowerCase()}.estimateRetryableTicket`] = 200000n;
+
+			l1.stub(DAI_L1, ABIS.ERC20, { decimals: () => 18, allowance: () => allowance }, { approve: () => [] });
+			l1.stub(ARBITRUM_ONE_BRIDGES.l1.gatewayRouter, ABIS.L1GatewayRouter, { getGateway: () => L1_ERC20_GATEWAY }, {
+				// The router forwards to the gateway, which creates a retryable through the inbox
+				outboundTransfer: (token: string, to: string, value: bigint, maxGas: bigint, gasPriceBid: bigint, data: string) => {
+					const [maxSubmissionCost] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256', 'bytes'], data);
+					const calldata = gatewayInterface.encodeFunctionData('finalizeInboundTransfer', [token, USER, to, value, '0x']);
+					const payload = ethers.concat([
+						ethers.AbiCoder.defaultAbiCoder().encode(
+							Array(9).fill('uint256'),
+							[L2_ERC20_GATEWAY, 0, maxSubmissionCost + maxGas * gasPriceBid, maxSubmissionCost, to, USER, maxGas, gasPriceBid, ethers.dataLength(calldata)],
+						),
+						calldata,
+					]);
+					return [
+						{
+							address: ARBITRUM_ONE_BRIDGES.l1.bridge,
+							...bridgeInterface.encodeEventLog('MessageDelivered', [
+								1500000n, ethers.ZeroHash, ARBITRUM_ONE_BRIDGES.l1.inbox, 9,
+								applyL1ToL2Alias(L1_ERC20_GATEWAY), ethers.keccak256(payload), 10_000_000_000n, 1700000000,
+							]),
+						},
+						{
+							address: ARBITRUM_ONE_BRIDGES.l1.inbox,
+							...inboxInterface.encodeEventLog('InboxMessageDelivered', [1500000n, payload]),
+						},
+					];
+				},
+			});
+			l1.stub(L1_ERC20_GATEWAY, ABIS.TokenGateway, {
+				counterpartGateway: () => L2_ERC20_GATEWAY,
+				getOutboundCalldata: (token: string, from: string, to: string, value: bigint) =>
+					gatewayInterface.encodeFunctionData('finalizeInboundTransfer', [token, from, to, value, '0x']),
+			});
+
+			return { l1, l2 };
+		};
+
+		it('should approve the token gateway, not the router, before depositing', async () => {
+			const { l1, l2 } = setup(0n);
+
+			await depositErc20({ amount: '100', l1Signer: l1.signer(USER), l2Provider: l2.provider }, DAI_L1);
+
+			const [approval] = l1.sentTo('approve');
+			expect(approval.to).toBe(DAI_L1);
+			expect(approval.args[0]).toBe(L1_ERC20_GATEWAY);
+			expect(approval.args[1]).toBe(amount);
+			expect(l1.sent.map((tx) => tx.name)).toEqual(['approve', 'outboundTransfer']);
+		});
+
+		it('should skip the approval when the gateway allowance covers the amount', async () => {
+			const { l1, l2 } = setup(amount);
+
+			await depositErc20({ amount: '100', l1Signer: l1.signer(USER), l2Provider: l2.provider }, DAI_L1);
+
+			expect(l1.sentTo('approve')).toHaveLength(0);
+		});
+
+		it('should fund the retryable from the gas estimate of the outbound calldata', async () => {
+			const { l1, l2 } = setup(amount);
+
+			await depositErc20({ amount: '100', l1Signer: l1.signer(USER), l2Provider: l2.provider }, DAI_L1);
+
+			// finalizeInboundTransfer with empty data is 196 bytes; submission cost gets a 1.5x margin
+			const maxSubmissionCost = ((1400n + 196n * 6n) * 10_000_000_000n * 150n) / 100n;
+			const [transfer] = l1.sentTo('outboundTransfer');
+			expect(transfer.to).toBe(ARBITRUM_ONE_BRIDGES.l1.gatewayRouter);
+			expect([...transfer.args.slice(0, 5)]).toEqual([DAI_L1, USER, amount, 300000n, 100_000_000n]);
+			expect(ethers.AbiCoder.defaultAbiCoder().decode(['uint256', 'bytes'], transfer.args[5])[0]).toBe(maxSubmissionCost);
+			expect(transfer.value).toBe(maxSubmissionCost + 300000n * 100_000_000n);
+		});
+
+		it('should use gas parameters given by the user', async () => {
+			const { l1, l2 } = setup(amount);
+
+			await depositErc20({
+				amount: '100',
+				l1Signer: l1.signer(USER),
+				l2Provider: l2.provider,
+				destinationAddress: L2_ERC20_GATEWAY,
+				maxSubmissionCost: '0.001',
+				gasLimit: 500000,
+				maxFeePerGas: '1',
+			}, DAI_L1);
+
+			const [transfer] = l1.sentTo('outboundTransfer');
+			expect(transfer.args[1]).toBe(L2_ERC20_GATEWAY);
+			expect(transfer.args[3]).toBe(500000n);
+			expect(transfer.args[4]).toBe(ethers.parseUnits('1', 'gwei'));
+			expect(transfer.value).toBe(ethers.parseEther('0.001') + 500000n * ethers.parseUnits('1', 'gwei'));
+		});
+
+		it('should return the retryable ticket from the deposit receipt', async () => {
+			const { l1, l2 } = setup(amount);
+
+			const result = await depositErc20({ amount: '100', l1Signer: l1.signer(USER), l2Provider: l2.provider }, DAI_L1);
+
+			expect(result.l1TxHash).toBe(l1.sentTo('outboundTransfer')[0].hash);
+			expect(result.messageNumber).toBe('1500000');
+			expect(result.message?.kind).toBe('retryable');
+			expect(result.message?.tokenTransfer).toEqual({ l1Token: DAI_L1, from: USER, to: USER, amount: amount.toString() });
+			expect(result.retryableTicketId).toMatch(/^0x[0-9a-f]{64}$/);
+			expect(result.retryableTicketId).toBe(result.l2TxHash);
+		});
+	});
+
+	describe('ERC-20 Withdrawals', () => {
+		const setup = (l1Address: string | null) => {
+			const l2 = new StubChain(42161n);
+			l2.stub(DAI_L2, [...ABIS.ERC20, 'function l1Address() view returns (address)'], {
+				decimals: () => 18,
+				l1Address: () => {
+					if (!l1Address) throw new Error('execution reverted');
+					return l1Address;
+				},
+			});
+			l2.stub(ARBITRUM_ONE_BRIDGES.l2.gatewayRouter, ABIS.L2GatewayRouter, {}, {
+				outboundTransfer: (token: string, to: string, value: bigint) => [{
+					address: ARBITRUM_ONE_BRIDGES.l2.arbSys,
+					...arbSysInterface.encodeEventLog('L2ToL1Tx', [
+						L2_ERC20_GATEWAY, L1_ERC20_GATEWAY, 1n, 140000n, 250000000n, 19000000n, 1700000000n, 0n,
+						gatewayInterface.encodeFunctionData('finalizeInboundTransfer', [token, USER, to, value, '0x']),
+					]),
+				}],
+			});
+			return l2;
+		};
+
+		it('should withdraw through the L2 router using the token L1 address', async () => {
+			const l2 = setup(DAI_L1);
+
+			const result = await withdrawErc20({ amount: '2.5', l2Signer: l2.signer(USER) }, DAI_L2);
+
+			const [transfer] = l2.sentTo('outboundTransfer');
+			expect([...transfer.args]).toEqual([DAI_L1, USER, ethers.parseEther('2.5'), '0x']);
+			expect(result.position).toBe('140000');
+			expect(result.message?.tokenTransfer?.amount).toBe(ethers.parseEther('2.5').toString());
+		});
+
+		it('should refuse tokens without an L1 counterpart', async () => {
+			const l2 = setup(null);
+
+			await expect(withdrawErc20({ amount: '1', l2Signer: l2.signer(USER) }, DAI_L2))
+				.rejects.toThrow(`Cannot determine L1 address for token ${DAI_L2}`);
+			expect(l2.sent).toHaveLength(0);
+		});
+	});
+
+	describe('Outbox Proofs', () => {
+		const SEND_ROOT = ethers.id('send-root');
+		const L2_BLOCK_HASH = ethers.id('l2-block');
+		const PROOF = [ethers.id('sibling-0'), ethers.id('sibling-1')];
+		// The send state is cached per outbox and L1 head, so every setup starts at a new L1 block
+		let l1Head = 19000000;
+
+		const setup = async (sendCount: bigint, spent: bigint[] = []) => {
+			const l1 = new StubChain(1n);
+			const l2 = new StubChain(42161n);
+			l1.blockNumber = l1Head += 10000;
+
+			l2.stub(ARBITRUM_ONE_BRIDGES.l2.arbSys, ABIS.ArbSys, {}, {
+				withdrawEth: (destination: string) => [140000n, 140001n].map((position) => ({
+					address: ARBITRUM_ONE_BRIDGES.l2.arbSys,
+					...arbSysInterface.encodeEventLog('L2ToL1Tx', [
+						USER, destination, 1n, position, 250000000n, 19000000n, 1700000000n, ethers.parseEther('1'), '0x',
+					]),
+				})),
+			});
+			const constructOutboxProof = jest.fn((size: bigint, leaf: bigint) => [ethers.id(`send-${leaf}`), SEND_ROOT, PROOF]);
+			l2.stub(NODE_INTERFACE, ABIS.NodeInterface, { constructOutboxProof });
+			l2.rpc.eth_getBlockByHash = (hash: string) => (hash === L2_BLOCK_HASH ? { sendCount: ethers.toQuantity(sendCount) } : null);
+
+			l1.stub(ARBITRUM_ONE_BRIDGES.l1.outbox, ABIS.L1Outbox, { isSpent: (index: bigint) => spent.includes(index) }, { executeTransaction: () => [] });
+			l1.logs.push({
+				address: ARBITRUM_ONE_BRIDGES.l1.outbox,
+				...outboxInterface.encodeEventLog('SendRootUpdated', [SEND_ROOT, L2_BLOCK_HASH]),
+				blockNumber: l1.blockNumber - 7000,
+			} as never);
+
+			const tx = await l2.signer(USER).sendTransaction({
+				to: ARBITRUM_ONE_BRIDGES.l2.arbSys,
+				data: arbSysInterface.encodeFunctionData('withdrawEth', [USER]),
+			});
+			return { l1, l2, constructOutboxProof, l2TxHash: tx.hash };
+		};
+
+		it('should prove confirmed messages against the latest confirmed send count', async () => {
+			const { l1, l2, constructOutboxProof, l2TxHash } = await setup(140170n, [140000n]);
+
+			const [executed, claimable] = await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+
+			expect(executed).toMatchObject({ position: 140000n, confirmed: true, executed: true, proof: [] });
+			expect(claimable).toMatchObject({
+				position: 140001n,
+				l2Sender: USER,
+				to: USER,
+				l2Block: 250000000n,
+				l1Block: 19000000n,
+				l2Timestamp: 1700000000n,
+				value: ethers.parseEther('1'),
+				sendCount: 140170n,
+				confirmed: true,
+				executed: false,
+				proof: PROOF,
+				root: SEND_ROOT,
+			});
+			expect(constructOutboxProof).toHaveBeenCalledTimes(1);
+			expect(constructOutboxProof).toHaveBeenCalledWith(140170n, 140001n);
+		});
+
+		it('should not build proofs for messages past the confirmed send count', async () => {
+			const { l1, l2, constructOutboxProof, l2TxHash } = await setup(140001n);
+
+			const [confirmed, pending] = await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+
+			expect(confirmed.confirmed).toBe(true);
+			expect(pending).toMatchObject({ confirmed: false, executed: false, proof: [], root: undefined });
+			expect(constructOutboxProof).toHaveBeenCalledTimes(1);
+		});
+
+		it('should stop the send root scan at the newest update and reuse it at the same L1 head', async () => {
+			const { l1, l2, l2TxHash } = await setup(140170n);
+
+			await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+			// The update sits 7000 blocks back, in the second 5000-block chunk
+			expect(l1.getLogsCalls).toHaveLength(2);
+
+			await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+			expect(l1.getLogsCalls).toHaveLength(2);
+
+			l1.blockNumber++;
+			await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+			expect(l1.getLogsCalls).toHaveLength(4);
+		});
+
+		it('should shrink the send root scan on RPCs that limit the getLogs range', async () => {
+			const { l1, l2, l2TxHash } = await setup(140170n);
+			l1.maxLogRange = 2000;
+
+			const [, claimable] = await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+
+			expect(claimable).toMatchObject({ confirmed: true, sendCount: 140170n });
+			const head = l1.blockNumber;
+			expect(l1.getLogsCalls).toEqual([
+				{ fromBlock: head - 4999, toBlock: head },
+				{ fromBlock: head - 2499, toBlock: head },
+				{ fromBlock: head - 1249, toBlock: head },
+				{ fromBlock: head - 2499, toBlock: head - 1250 },
+				{ fromBlock: head - 3749, toBlock: head - 2500 },
+				{ fromBlock: head - 4999, toBlock: head - 3750 },
+				{ fromBlock: head - 6249, toBlock: head - 5000 },
+				{ fromBlock: head - 7499, toBlock: head - 6250 },
+			]);
+		});
+
+		it('should execute a confirmed proof through the outbox', async () => {
+			const { l1, l2, l2TxHash } = await setup(140170n);
+			const [proof] = await getOutboxProofs(l2TxHash, l2.provider, l1.provider);
+
+			const tx = await executeOutboxTransaction(proof, l1.signer(USER), 'arbitrumOne');
+
+			const [sent] = l1.sentTo('executeTransaction');
+			expect(tx.hash).toBe(sent.hash);
+			expect(sent.to).toBe(ARBITRUM_ONE_BRIDGES.l1.outbox);
+			expect([...sent.args[0]]).toEqual(PROOF);
+			expect([...sent.args.slice(1)]).toEqual([140000n, USER, USER, 250000000n, 19000000n, 1700000000n, ethers.parseEther('1'), '0x']);
+		});
+
+		it('should refuse unconfirmed and executed proofs', async () => {
+			const l1 = new StubChain(1n);
+			const proof = { position: 7n, confirmed: false, executed: false, proof: [] } as unknown as OutboxProof;
+
+			await expect(executeOutboxTransaction(proof, l1.signer(USER), 'arbitrumOne')).rejects.toThrow('L2 to L1 message 7 is not confirmed yet');
+			await expect(executeOutboxTransaction({ ...proof, confirmed: true, executed: true }, l1.signer(USER), 'arbitrumOne'))
+				.rejects.toThrow('L2 to L1 message 7 was already executed');
+			expect(l1.sent).toHaveLength(0);
+		});
+	});
+});
@@ -0,0 +1,231 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import type { JsonRpcProvider, Log, TransactionReceipt } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_BRIDGES } from '../../nodes/Arbitrum/constants/bridges';
+import {
+	applyL1ToL2Alias,
+	calculateEthDepositTxId,
+	calculateRetryableTicketId,
+	getDepositMessagesFromReceipt,
+	getWithdrawalMessagesFromReceipt,
+	getWithdrawalMessageStatus,
+	undoL1ToL2Alias,
+} from '../../nodes/Arbitrum/utils/bridgeUtils';
+
+/*
+ * Expected ids were computed with the reference implementation in @arbitrum/sdk 3.7
+ * (L1ToL2MessageReader.calculateSubmitRetryableId, EthDepositMessage.calculateDepositTxId,
+ * Address.applyAlias) for Arbitrum One parameters.
+ */
+const USER = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const L1_ERC20_GATEWAY = '0xa3A7B6F88361F48403514059F1F16C8E78d60EeC';
+const L2_ERC20_GATEWAY = '0x09e9222E96E7B4AE2a407B98d48e330053351EEe';
+const RETRYABLE_TICKET_ID = '0x18392576c5e164544276e57af18fbba219d06f2b083255fbeab0319d6dc6c80c';
+const ETH_DEPOSIT_TX_ID = '0x72a8d1551148b5abc0ab42fd0c49ab5f99856f6eacb87fd8cc501901ee80a097';
+
+const bridgeInterface = new ethers.Interface(ABIS.L1Bridge);
+const inboxInterface = new ethers.Interface(ABIS.L1Inbox);
+const arbSysInterface = new ethers.Interface(ABIS.ArbSys);
+const gatewayInterface = new ethers.Interface(ABIS.TokenGateway);
+
+const toLog = (address: string, encoded: { topics: string[]; data: string }): Log =>
+	({ address, ...encoded, transactionHash: '0x' + 'ab'.repeat(32), blockNumber: 19000000, index: 0 }) as unknown as Log;
+
+const toReceipt = (logs: Log[]): TransactionReceipt => ({ logs }) as unknown as TransactionReceipt;
+
+/** Bridge MessageDelivered plus the Inbox payload for one delayed message */
+function deliveredLogs(messageNumber: bigint, kind: number, sender: string, payload: string): Log[] {
+	return [
+		toLog(
+			ARBITRUM_ONE_BRIDGES.l1.bridge,
+			bridgeInterface.encodeEventLog('MessageDelivered', [
+				messageNumber,
+				ethers.ZeroHash,
+				ARBITRUM_ONE_BRIDGES.l1.inbox,
+				kind,
+				sender,
+				ethers.keccak256(payload),
+				12000000000n,
+				1700000000,
+			]),
+		),
+		toLog(ARBITRUM_ONE_BRIDGES.l1.inbox, inboxInterface.encodeEventLog('InboxMessageDelivered', [messageNumber, payload])),
+	];
+}
+
+describe('Bridge Utils', () => {
+	describe('Address Aliasing', () => {
+		it('should alias the L1 gateway router', () => {
+			expect(applyL1ToL2Alias('0x72Ce9c846789fdB6fC1f34aC4AD25Dd9ef7031ef')).toBe('0x83DF9c846789fDB6fc1f34Ac4aD25DD9ef704300');
+		});
+
+		it('should wrap around the address space', () => {
+			expect(applyL1ToL2Alias(ethers.ZeroAddress)).toBe('0x1111000000000000000000000000000000001111');
+			expect(applyL1ToL2Alias('0xffffffffffffffffffffffffffffffffffffffff')).toBe('0x1111000000000000000000000000000000001110');
+			expect(undoL1ToL2Alias('0x1111000000000000000000000000000000001110')).toBe('0xFFfFfFffFFfffFFfFFfFFFFFffFFFffffFfFFFfF');
+		});
+
+		it('should undo an alias', () => {
+			expect(undoL1ToL2Alias('0x83DF9c846789fDB6fc1f34Ac4aD25DD9ef704300')).toBe('0x72Ce9c846789fdB6fC1f34aC4AD25Dd9ef7031ef');
+		});
+	});
+
+	describe('Deposit Transaction Ids', () => {
+		it('should calculate the retryable ticket id', () => {
+			expect(calculateRetryableTicketId({
+				l2ChainId: 42161,
+				messageNumber: 1500000n,
+				from: applyL1ToL2Alias(L1_ERC20_GATEWAY),
+				l1BaseFee: 12000000000n,
+				deposit: 1000000000000000n,
+				maxFeePerGas: 100000000n,
+				gasLimit: 300000n,
+				destination: L2_ERC20_GATEWAY,
+				l2CallValue: 0n,
+				callValueRefundAddress: USER,
+				maxSubmissionFee: 400000000000000n,
+				excessFeeRefundAddress: USER,
+				data: '0x2e567b36',
+			})).toBe(RETRYABLE_TICKET_ID);
+		});
+
+		it('should encode a zero destination and zero values as empty fields', () => {
+			expect(calculateRetryableTicketId({
+				l2ChainId: 42161,
+				messageNumber: 7n,
+				from: USER,
+				l1BaseFee: 12000000000n,
+				deposit: 1000000000000000n,
+				maxFeePerGas: 0n,
+				gasLimit: 0n,
+				destination: ethers.ZeroAddress,
+				l2CallValue: 0n,
+				callValueRefundAddress: USER,
+				maxSubmissionFee: 400000000000000n,
+				excessFeeRefundAddress: USER,
+				data: '0x',
+			})).toBe('0xc892c24d9e87969f528a2cbece597131cd1180f1dcb38ed963f26efa5c098dee');
+		});
+
+		it('should calculate the ETH deposit transaction hash', () => {
+			expect(calculateEthDepositTxId(42161, 1500001n, USER, USER, ethers.parseEther('1'))).toBe(ETH_DEPOSIT_TX_ID);
+		});
+	});
+
+	describe('Deposit Message Parsing', () => {
+		it('should parse a retryable ticket and its ticket id', () => {
+			const sender = applyL1ToL2Alias(L1_ERC20_GATEWAY);
+			const payload = ethers.concat([
+				ethers.AbiCoder.defaultAbiCoder().encode(
+					Array(9).fill('uint256'),
+					[L2_ERC20_GATEWAY, 0, 1000000000000000n, 400000000000000n, USER, USER, 300000, 100000000, 4],
+				),
+				'0x2e567b36',
+			]);
+
+			const [message] = getDepositMessagesFromReceipt('arbitrumOne', toReceipt(deliveredLogs(1500000n, 9, sender, payload)), 42161);
+
+			expect(message).toMatchObject({
+				messageNumber: '1500000',
+				kind: 'retryable',
+				sender,
+				destination: L2_ERC20_GATEWAY,
+				value: '0',
+				excessFeeRefundAddress: USER,
+				callValueRefundAddress: USER,
+				l2TxHash: RETRYABLE_TICKET_ID,
+				timestamp: 1700000000,
+			});
+		});
+
+		it('should parse an ETH deposit and its L2 transaction hash', () => {
+			const payload = ethers.solidityPacked(['address', 'uint256'], [USER, ethers.parseEther('1')]);
+
+			const [message] = getDepositMessagesFromReceipt('arbitrumOne', toReceipt(deliveredLogs(1500001n, 12, USER, payload)), 42161);
+
+			expect(message).toMatchObject({
+				messageNumber: '1500001',
+				kind: 'ethDeposit',
+				destination: USER,
+				value: ethers.parseEther('1').toString(),
+				l2TxHash: ETH_DEPOSIT_TX_ID,
+			});
+		});
+
+		it('should ignore logs of other contracts and messages without a payload', () => {
+			const payload = ethers.solidityPacked(['address', 'uint256'], [USER, 1n]);
+			const [delivered, inbox] = deliveredLogs(1n, 12, USER, payload);
+			const foreign = { ...inbox, address: USER } as Log;
+
+			expect(getDepositMessagesFromReceipt('arbitrumOne', toReceipt([delivered, foreign]), 42161)).toEqual([]);
+		});
+	});
+
+	describe('Withdrawal Messages', () => {
+		const tokenData = gatewayInterface.encodeFunctionData('finalizeInboundTransfer', [
+			'0x6B175474E89094C44Da98b954EedeAC495271d0F',
+			USER,
+			USER,
+			5n,
+			'0x',
+		]);
+
+		const withdrawalLog = (position: bigint) =>
+			toLog(
+				ARBITRUM_ONE_BRIDGES.l2.arbSys,
+				arbSysInterface.encodeEventLog('L2ToL1Tx', [
+					L2_ERC20_GATEWAY,
+					L1_ERC20_GATEWAY,
+					1n,
+					position,
+					250000000n,
+					19000000n,
+					1700000000n,
+					0n,
+					tokenData,
+				]),
+			);
+
+		it('should parse every L2ToL1Tx of a receipt with its position and token transfer', () => {
+			const messages = getWithdrawalMessagesFromReceipt('arbitrumOne', toReceipt([withdrawalLog(140000n), withdrawalLog(140001n)]));
+
+			expect(messages.map((message) => message.position)).toEqual(['140000', '140001']);
+			expect(messages[0]).toMatchObject({
+				caller: L2_ERC20_GATEWAY,
+				destination: L1_ERC20_GATEWAY,
+				arbBlockNum: '250000000',
+				timestamp: 1700000000,
+				tokenTransfer: { from: USER, to: USER, amount: '5' },
+			});
+		});
+
+		it('should check readiness by the message position against the confirmed send count', async () => {
+			const outboxInterface = new ethers.Interface(ABIS.L1Outbox);
+			const spent = new Set([140000n]);
+			const l1Provider = {
+				call: async (tx: { data: string }) => {
+					const [index] = outboxInterface.decodeFunctionData('isSpent', tx.data);
+					return outboxInterface.encodeFunctionResult('isSpent', [spent.has(index)]);
+				},
+			} as unknown as JsonRpcProvider;
+			const [first, second, third] = getWithdrawalMessagesFromReceipt(
+				'arbitrumOne',
+				toReceipt([withdrawalLog(140000n), withdrawalLog(140001n), withdrawalLog(140002n)]),
+			);
+
+			expect((await getWithdrawalMessageStatus(first, 'arbitrumOne', l1Provider, 140002n)).status).toBe('executed');
+			expect((await getWithdrawalMessageStatus(second, 'arbitrumOne', l1Provider, 140002n)).status).toBe('ready_to_execute');
+			expect((await getWithdrawalMessageStatus(third, 'arbitrumOne', l1Provider, 140002n)).status).toBe('confirmed');
+			expect((await getWithdrawalMessageStatus(second, 'arbitrumOne', l1Provider, undefined)).status).toBe('confirmed');
+			expect((await getWithdrawalMessageStatus(second, 'arbitrumOne', l1Provider, undefined)).challengePeriodEnd)
+				.toBe(1700000000 + 7 * 24 * 60 * 60);
+		});
+	});
+});
@@ -0,0 +1,282 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { execute } from '../../nodes/Arbitrum/actions/defi';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS, CHAINLINK_FEEDS, DEX_ROUTERS } from '../../nodes/Arbitrum/constants/tokens';
+import { getProvider } from '../../nodes/Arbitrum/transport/provider';
+import { sqrtPriceX96Of, stubChainlinkFeed, stubSequencerUptime, stubUniswapV3Pools } from '../helpers/priceStubs';
+import { StubChain } from '../helpers/stubChain';
+
+jest.mock('../../nodes/Arbitrum/transport/provider', () => ({
+	...jest.requireActual('../../nodes/Arbitrum/transport/provider'),
+	getProvider: jest.fn(),
+}));
+
+const FEEDS = CHAINLINK_FEEDS.arbitrumOne;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const ARB = ARBITRUM_ONE_TOKENS.ARB.address;
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const USER = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const HOLDER = ethers.getAddress('0x0000000000000000000000000000000000000c01');
+/** Tokens without a feed; the first has a USDC pool, the second no pool at all */
+const POOLED = ethers.getAddress('0x0000000000000000000000000000000000000a01');
+const ILLIQUID = ethers.getAddress('0x0000000000000000000000000000000000000a02');
+const POOL = ethers.getAddress('0x0000000000000000000000000000000000000b01');
+
+/**
+ * Run a DeFi operation against a chain with the given parameters
+ */
+async function run(chain: StubChain, parameters: IDataObject, credentials: IDataObject = {}): Promise<IDataObject> {
+	jest.mocked(getProvider).mockResolvedValue(chain.provider);
+	const context = {
+		getNodeParameter: (name: string, _index: number, fallback?: unknown) => (name in parameters ? parameters[name] : fallback),
+		getCredentials: async () => ({ network: 'arbitrumOne', rpcProvider: 'public', ...credentials }),
+		getNode: () => ({ name: 'Arbitrum' }),
+	} as unknown as IExecuteFunctions;
+
+	const [item] = await execute.call(context, 0);
+	return item.json;
+}
+
+describe('DeFi Actions', () => {
+	afterEach(() => jest.clearAllMocks());
+
+	describe('TVL', () => {
+		const setup = () => {
+			const chain = new StubChain(42161n);
+			chain.stubMulticall3();
+			const balances: Record<string, bigint> = {
+				[ARB]: ethers.parseEther('1000'),
+				[POOLED]: ethers.parseEther('50'),
+				[ILLIQUID]: ethers.parseEther('7'),
+			};
+			for (const [token, balance] of Object.entries(balances)) {
+				chain.stub(token, ABIS.ERC20, { balanceOf: () => balance, symbol: () => `T${token.slice(-2)}`, decimals: () => 18 });
+			}
+			stubChainlinkFeed(chain, FEEDS['ARB/USD'], 0.8);
+			stubChainlinkFeed(chain, FEEDS['USDC/USD'], 1);
+			stubUniswapV3Pools(chain, [
+				{ address: POOL, token: POOLED, quote: USDC, fee: 3000, liquidity: 10n ** 18n, sqrtPriceX96: sqrtPriceX96Of(2, 18, 6) },
+			]);
+			return chain;
+		};
+
+		it('should price balances through Chainlink and Uniswap V3 and list tokens neither can price', async () => {
+			const chain = setup();
+
+			const result = await run(chain, {
+				operation: 'getTvl',
+				protocol: 'contracts',
+				tvlContracts: HOLDER,
+				tvlTokens: `${ARB}, ${POOLED}, ${ILLIQUID}`,
+			});
+
+			expect(result.tokens).toEqual([
+				expect.objectContaining({ token: ARB, symbol: 'ARB', balance: '1000.0', priceUsd: 0.8, valueUsd: 800, priceSource: 'chainlink', priceReference: FEEDS['ARB/USD'] }),
+				expect.objectContaining({ token: POOLED, symbol: 'T01', balance: '50.0', priceSource: 'uniswapV3', priceReference: POOL }),
+			]);
+			const [, pooled] = result.tokens as IDataObject[];
+			expect(pooled.valueUsd).toBeCloseTo(100, 6);
+			expect(result.totalUsd).toBeCloseTo(900, 6);
+			expect((result.tokens as IDataObject[]).map((entry) => entry.sharePercent)).toEqual([expect.closeTo(88.89, 2), expect.closeTo(11.11, 2)]);
+			expect(result.unpricedTokens).toEqual([{
+				token: ILLIQUID,
+				symbol: 'T02',
+				balance: '7.0',
+				reason: `No Uniswap V3 USDC or WETH pool with liquidity for ${ILLIQUID}`,
+			}]);
+		});
+	});
+
+	describe('LP Position Analysis', () => {
+		const MANAGER = DEX_ROUTERS.arbitrumOne.uniswapV3PositionManager;
+		const WETH_USDC_POOL = ethers.getAddress('0x0000000000000000000000000000000000000b02');
+		const MINT_BLOCK = 3_000_000;
+		const managerInterface = new ethers.Interface(ABIS.UniswapV3PositionManager);
+
+		/** Position 42 minted at MINT_BLOCK in a WETH/USDC pool, with the given state lookup failure before it */
+		const setup = (historyError: () => Error) => {
+			const chain = new StubChain(42161n);
+			chain.blockNumber = 5_000_000;
+			chain.stub(MANAGER, ABIS.UniswapV3PositionManager, {
+				positions: () => {
+					const blockTag = chain.callBlockTag;
+					if (typeof blockTag === 'number' && blockTag < MINT_BLOCK) {
+						throw historyError();
+					}
+					return [0n, ethers.ZeroAddress, WETH, USDC, 500, -200000, -190000, 10n ** 15n, 0n, 0n, 0n, 0n];
+				},
+				ownerOf: () => USER,
+			});
+			chain.stub(DEX_ROUTERS.arbitrumOne.uniswapV3Factory, ABIS.UniswapV3Factory, { getPool: () => WETH_USDC_POOL });
+			chain.stub(WETH_USDC_POOL, ABIS.UniswapV3Pool, {
+				slot0: () => [sqrtPriceX96Of(3000, 18, 6), -196257, 0, 1, 1, 0, true],
+				feeGrowthGlobal0X128: () => 0n,
+				feeGrowthGlobal1X128: () => 0n,
+				ticks: () => [0n, 0n, 0n, 0n, 0n, 0n, 0n, true],
+			});
+			chain.stub(WETH, ABIS.ERC20, { symbol: () => 'WETH', decimals: () => 18 });
+			chain.stub(USDC, ABIS.ERC20, { symbol: () => 'USDC', decimals: () => 6 });
+			stubChainlinkFeed(chain, FEEDS['USDC/USD'], 1);
+
+			const event = (blockNumber: number, name: string, values: unknown[]) => chain.logs.push({
+				address: MANAGER,
+				...managerInterface.encodeEventLog(name, values),
+				blockNumber,
+			} as never);
+			event(MINT_BLOCK, 'IncreaseLiquidity', [42n, 10n ** 15n, ethers.parseEther('1'), 3000_000000n]);
+			event(MINT_BLOCK + 100, 'IncreaseLiquidity', [7n, 10n ** 15n, ethers.parseEther('9'), 27000_000000n]);
+			event(MINT_BLOCK + 600_000, 'IncreaseLiquidity', [42n, 10n ** 14n, ethers.parseEther('0.5'), 1500_000000n]);
+			event(MINT_BLOCK + 1_500_000, 'DecreaseLiquidity', [42n, 10n ** 14n, ethers.parseEther('0.2'), 600_000000n]);
+			event(MINT_BLOCK + 1_500_000, 'Collect', [42n, USER, ethers.parseEther('0.21'), 630_000000n]);
+			return chain;
+		};
+
+		const analyze = (chain: StubChain) => run(chain, {
+			operation: 'analyzeLpPosition',
+			lpSource: 'tokenId',
+			positionTokenId: '42',
+		});
+
+		it('should read the history from the mint block in chunks the RPC accepts', async () => {
+			const chain = setup(() => ethers.makeError('execution reverted: Invalid token ID', 'CALL_EXCEPTION'));
+			chain.maxLogRange = 1_000_000;
+
+			const result = await analyze(chain);
+
+			expect(result.deposited).toEqual({ amount0: '1.3', amount1: '3900.0' });
+			// Fees are everything collected beyond the withdrawn principal
+			expect(result.fees).toEqual({ amount0: '0.01', amount1: '30.0' });
+			expect(chain.getLogsCalls).toEqual([
+				{ fromBlock: MINT_BLOCK, toBlock: 5_000_000 },
+				{ fromBlock: MINT_BLOCK, toBlock: 3_999_999 },
+				{ fromBlock: 4_000_000, toBlock: 4_999_999 },
+				{ fromBlock: 5_000_000, toBlock: 5_000_000 },
+			]);
+		});
+
+		it('should scan from genesis when the RPC cannot serve historical state', async () => {
+			const chain = setup(() => new Error('missing trie node'));
+
+			const result = await analyze(chain);
+
+			expect(result.deposited).toEqual({ amount0: '1.3', amount1: '3900.0' });
+			expect(chain.getLogsCalls).toEqual([{ fromBlock: 0, toBlock: 5_000_000 }]);
+		});
+	});
+
+	describe('Conditional Swaps', () => {
+		const NOW = 1700100000;
+		const SUSHI_PAIR = ethers.getAddress('0x0000000000000000000000000000000000000b03');
+		const TWAP_POOL = ethers.getAddress('0x0000000000000000000000000000000000000b04');
+		const wallet = new ethers.Wallet(ethers.id('conditional swap'));
+
+		/** ARB at 0.8 USDC by Chainlink, with SushiSwap quoting `quotedUsdc` for 100 ARB */
+		const setup = (quotedUsdc: string, arbUpdatedAt = NOW - 60) => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 0n, NOW - 86400);
+			stubChainlinkFeed(chain, FEEDS['ARB/USD'], 0.8, arbUpdatedAt);
+			stubChainlinkFeed(chain, FEEDS['USDC/USD'], 1, NOW - 60);
+			chain.stub(ARB, ABIS.ERC20, { symbol: () => 'ARB', decimals: () => 18, allowance: () => ethers.MaxUint256 });
+			chain.stub(USDC, ABIS.ERC20, { symbol: () => 'USDC', decimals: () => 6, balanceOf: () => 0n });
+			chain.stub(WETH, ABIS.ERC20, { symbol: () => 'WETH', decimals: () => 18 });
+			chain.stub(DEX_ROUTERS.arbitrumOne.sushiswapFactory, ABIS.UniswapV2Factory, { getPair: () => SUSHI_PAIR });
+			chain.stub(DEX_ROUTERS.arbitrumOne.sushiswapRouter, ABIS.UniswapV2Router, {
+				getAmountsOut: (amountIn: bigint) => [amountIn, ethers.parseUnits(quotedUsdc, 6)],
+			});
+			return chain;
+		};
+
+		const swap = (chain: StubChain, parameters: IDataObject = {}) => run(chain, {
+			operation: 'conditionalSwap',
+			dex: 'sushiswap',
+			tokenIn: ARB,
+			tokenOut: USDC,
+			amountIn: '100',
+			slippage: 5,
+			transferTax: 2,
+			waitForConfirmation: false,
+			conditionPriceSource: 'chainlink',
+			conditionDirection: 'above',
+			triggerPrice: 0.75,
+			maxQuoteDeviation: 1,
+			...parameters,
+		}, { privateKey: wallet.privateKey });
+
+		beforeEach(() => {
+			jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+		});
+
+		afterEach(() => jest.restoreAllMocks());
+
+		it('should swap with a minimum output no worse than the condition price less deviation and tax', async () => {
+			const chain = setup('80.1');
+			jest.spyOn(ethers.Wallet.prototype, 'sendTransaction').mockImplementation(function (this: ethers.Wallet, tx) {
+				return chain.signer(this.address).sendTransaction(tx);
+			});
+
+			const result = await swap(chain);
+
+			// 100 ARB at 0.8, less the 1% deviation and the 2% transfer tax
+			expect(result).toMatchObject({ executed: true, amountOutFloor: '77.616' });
+			const [sent] = chain.sentTo('swapExactTokensForTokensSupportingFeeOnTransferTokens');
+			expect(sent.from).toBe(wallet.address);
+			expect(sent.args.amountOutMin).toBe(77_616000n);
+		});
+
+		it('should not quote or swap while the price is on the wrong side of the trigger', async () => {
+			const chain = setup('80.1');
+
+			const result = await swap(chain, { triggerPrice: 0.9 });
+
+			expect(result).toMatchObject({ executed: false, reason: 'Price 0.8 is no longer at or above the trigger price 0.9' });
+			expect(result.quote).toBeUndefined();
+			expect(chain.sent).toEqual([]);
+		});
+
+		it('should not swap on a stale Chainlink answer', async () => {
+			const chain = setup('80.1', NOW - 700);
+
+			const result = await swap(chain, { maxPriceAge: 600 });
+
+			expect(result).toMatchObject({
+				executed: false,
+				reason: 'Chainlink price is unsafe: Price is 700s old, older than the 600s limit',
+			});
+			expect(chain.sent).toEqual([]);
+		});
+
+		it('should not swap when the quote deviates from the condition price beyond the tolerance', async () => {
+			const chain = setup('84');
+
+			const result = await swap(chain);
+
+			expect(result).toMatchObject({
+				executed: false,
+				reason: 'Quote deviates 5.00% from the chainlink price, beyond the 1% tolerance',
+				quote: { expectedAmountOut: '84.0' },
+			});
+			expect(chain.sent).toEqual([]);
+		});
+
+		it('should reject a TWAP pool that does not hold both tokens', async () => {
+			const chain = setup('80.1');
+			chain.stub(TWAP_POOL, ABIS.UniswapV3Pool, {
+				token0: () => WETH,
+				token1: () => USDC,
+				slot0: () => [sqrtPriceX96Of(3000, 18, 6), -196257, 5, 10, 10, 0, true],
+				observe: () => [[0n, -196257n * 300n], [0n, 1n]],
+			});
+
+			await expect(swap(chain, { conditionPriceSource: 'uniswapV3Twap', conditionPool: TWAP_POOL }))
+				.rejects.toThrow('TWAP pool does not hold both Token In and Token Out');
+		});
+	});
+});
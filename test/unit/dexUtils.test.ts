@@ -0,0 +1,398 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS, DEX_ROUTERS } from '../../nodes/Arbitrum/constants/tokens';
+import {
+	encodeUniswapV3Path,
+	getBestSwapQuote,
+	getPriceImpact,
+	quoteCamelotV2,
+	quoteGmx,
+	quoteUniswapV3Route,
+	submitExactOutputSwap,
+	submitSwap,
+} from '../../nodes/Arbitrum/utils/dexUtils';
+import type { ExactOutputSwapParams, SwapParams, SwapQuote } from '../../nodes/Arbitrum/utils/dexUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const DEX = DEX_ROUTERS.arbitrumOne;
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const ARB = ARBITRUM_ONE_TOKENS.ARB.address;
+const CAMELOT_PAIR = '0x84652bb2539513BAf36e225c930Fdd8eaa63CE27';
+const SUSHI_PAIR = '0x905dfCD5649217c42684f23958568e533C711Aa3';
+const USER = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+describe('DEX Utils', () => {
+	describe('Swap Quotes', () => {
+		/** Camelot pair with a different fee per direction: 0.3% selling token0, 0.05% selling token1 */
+		const stubCamelot = (chain: StubChain) => {
+			chain.stub(DEX.camelotFactory, ABIS.UniswapV2Factory, { getPair: () => CAMELOT_PAIR });
+			chain.stub(CAMELOT_PAIR, ABIS.CamelotPair, {
+				token0: () => WETH,
+				getReserves: () => [100n, 200000n, 300, 50],
+				getAmountOut: (amountIn: bigint) => amountIn * 1990n,
+			});
+		};
+
+		it('should apply the Camelot fee of the direction being sold', async () => {
+			const chain = new StubChain(42161n);
+			stubCamelot(chain);
+
+			const sellToken0 = await quoteCamelotV2(chain.provider, WETH, USDC, 10n);
+			const sellToken1 = await quoteCamelotV2(chain.provider, USDC, WETH, 10n);
+
+			expect(sellToken0.feePercent).toBeCloseTo(0.3);
+			expect(sellToken1.feePercent).toBeCloseTo(0.05);
+			expect(sellToken0).toMatchObject({ dex: 'camelot', amountOut: 19900n, pool: CAMELOT_PAIR, route: [WETH, USDC] });
+		});
+
+		it('should report the GMX fee relative to the gross output', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(DEX.gmxReader, ABIS.GmxReader, { getAmountOut: () => [9970n, 30n] });
+
+			const quote = await quoteGmx(chain.provider, WETH, USDC, 1n);
+
+			expect(quote.feePercent).toBe(0.3);
+			expect(quote.pool).toBe(DEX.gmxVault);
+		});
+
+		it('should reject GMX swaps the vault cannot fill', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(DEX.gmxReader, ABIS.GmxReader, { getAmountOut: () => [0n, 0n] });
+
+			await expect(quoteGmx(chain.provider, WETH, USDC, 1n)).rejects.toThrow('GMX vault cannot fill this swap');
+		});
+
+		it('should rank quotes by output and collect errors per DEX', async () => {
+			const chain = new StubChain(42161n);
+			stubCamelot(chain);
+			chain.stub(DEX.uniswapV3Factory, ABIS.UniswapV3Factory, { getPool: () => ethers.ZeroAddress });
+			chain.stub(DEX.sushiswapFactory, ABIS.UniswapV2Factory, { getPair: () => SUSHI_PAIR });
+			chain.stub(DEX.sushiswapRouter, ABIS.UniswapV2Router, { getAmountsOut: (amountIn: bigint) => [amountIn, amountIn * 2000n] });
+			chain.stub(DEX.camelotV3Factory, ABIS.AlgebraFactory, { poolByPair: () => ethers.ZeroAddress });
+			chain.stub(DEX.gmxReader, ABIS.GmxReader, { getAmountOut: (vault: string, tokenIn: string, tokenOut: string, amountIn: bigint) => [amountIn * 1995n, 5n] });
+
+			const { quotes, errors } = await getBestSwapQuote(chain.provider, WETH, USDC, 10n);
+
+			expect(quotes.map((quote) => [quote.dex, quote.amountOut])).toEqual([
+				['sushiswap', 20000n],
+				['gmx', 19950n],
+				['camelot', 19900n],
+			]);
+			expect(errors.map((error) => error.dex)).toEqual(['uniswapV3', 'camelotV3']);
+			expect(errors[1].error).toBe('No Camelot V3 pool for this token pair');
+		});
+	});
+
+	describe('Uniswap V3 Routing', () => {
+		const pool = (n: number) => ethers.getAddress('0x' + n.toString(16).padStart(40, '0'));
+		const USDC_ARB_3000 = pool(1);
+		const USDC_WETH_500 = pool(2);
+		const WETH_ARB_500 = pool(3);
+		const WETH_ARB_3000 = pool(4);
+
+		/** Factory with the given pools keyed by lowercase token pair and fee, and a quoter pricing each path */
+		const stubUniswap = (chain: StubChain, quotes: Record<string, bigint>) => {
+			const pools: Record<string, string> = {
+				[`${USDC}-${ARB}-3000`]: USDC_ARB_3000,
+				[`${USDC}-${WETH}-500`]: USDC_WETH_500,
+				[`${WETH}-${ARB}-500`]: WETH_ARB_500,
+				[`${WETH}-${ARB}-3000`]: WETH_ARB_3000,
+			};
+			chain.stub(DEX.uniswapV3Factory, ABIS.UniswapV3Factory, {
+				getPool: (a: string, b: string, fee: bigint) => pools[`${a}-${b}-${fee}`] ?? pools[`${b}-${a}-${fee}`] ?? ethers.ZeroAddress,
+			});
+			chain.stub(DEX.uniswapV3QuoterV2, ABIS.UniswapV3Quoter, {
+				quoteExactInput: (path: string) => {
+					if (quotes[path] === undefined) {
+						throw new Error('execution reverted');
+					}
+					return [quotes[path], [], [], 90000n];
+				},
+			});
+		};
+
+		it('should pack tokens and fees hop by hop', () => {
+			const path = encodeUniswapV3Path([USDC, WETH, ARB], [500, 3000]);
+
+			expect(path).toBe(ethers.concat([USDC, '0x0001f4', WETH, '0x000bb8', ARB]).toLowerCase());
+			expect(ethers.dataLength(path)).toBe(20 * 3 + 3 * 2);
+		});
+
+		it('should encode exact-output paths from the output token back to the input', () => {
+			const path = encodeUniswapV3Path([ARB, WETH, USDC], [3000, 500]);
+
+			expect(ethers.dataSlice(path, 0, 20)).toBe(ARB.toLowerCase());
+			expect(ethers.dataSlice(path, 20, 23)).toBe('0x000bb8');
+			expect(ethers.dataSlice(path, 46, 66)).toBe(USDC.toLowerCase());
+		});
+
+		it('should reject paths without one more token than fees', () => {
+			expect(() => encodeUniswapV3Path([USDC, WETH], [500, 3000])).toThrow('Path must have exactly one more token than fees');
+		});
+
+		it('should pick the route with the best output and compound its fees', async () => {
+			const chain = new StubChain(42161n);
+			stubUniswap(chain, {
+				[encodeUniswapV3Path([USDC, ARB], [3000])]: 1000n,
+				[encodeUniswapV3Path([USDC, WETH, ARB], [500, 500])]: 1200n,
+				[encodeUniswapV3Path([USDC, WETH, ARB], [500, 3000])]: 1100n,
+			});
+
+			const quote = await quoteUniswapV3Route(chain.provider, USDC, ARB, 500n);
+
+			expect(quote).toMatchObject({
+				amountOut: 1200n,
+				route: [USDC, WETH, ARB],
+				routeFees: [500, 500],
+				pools: [USDC_WETH_500, WETH_ARB_500],
+				pool: `${USDC_WETH_500},${WETH_ARB_500}`,
+				path: encodeUniswapV3Path([USDC, WETH, ARB], [500, 500]),
+				feeTier: undefined,
+				gasEstimate: 90000n,
+			});
+			expect(quote.feePercent).toBe(0.099975);
+		});
+
+		it('should skip routes that fail to quote', async () => {
+			const chain = new StubChain(42161n);
+			stubUniswap(chain, { [encodeUniswapV3Path([USDC, ARB], [3000])]: 1000n });
+
+			const quote = await quoteUniswapV3Route(chain.provider, USDC, ARB, 500n);
+
+			expect(quote).toMatchObject({ amountOut: 1000n, route: [USDC, ARB], feeTier: 3000, feePercent: 0.3 });
+		});
+
+		it('should fail when no direct or intermediate pools exist', async () => {
+			const chain = new StubChain(42161n);
+			stubUniswap(chain, {});
+
+			await expect(quoteUniswapV3Route(chain.provider, USDC, ARBITRUM_ONE_TOKENS.GMX.address, 500n))
+				.rejects.toThrow('No Uniswap V3 route found directly or via WETH, USDC or ARB');
+			await expect(quoteUniswapV3Route(chain.provider, USDC, ARB, 500n))
+				.rejects.toThrow('All 3 Uniswap V3 routes failed to quote');
+		});
+	});
+
+	describe('Price Impact', () => {
+		const V3_POOL = '0x0000000000000000000000000000000000000001';
+		const V3_POOL_2 = '0x0000000000000000000000000000000000000002';
+		const quote = (dex: SwapQuote['dex'], route: string[], amountIn: bigint, amountOut: bigint, pools: string[]): SwapQuote => ({
+			dex,
+			dexName: dex,
+			amountIn,
+			amountOut,
+			feePercent: 0,
+			pool: pools.join(','),
+			pools,
+			route,
+		});
+
+		it('should compare the execution price with V2 reserves in the direction of the swap', async () => {
+			const chain = new StubChain(42161n);
+			// WETH sorts below USDC, so it is token0
+			chain.stub(SUSHI_PAIR, ABIS.UniswapV2Pair, { getReserves: () => [1000n, 2000000n, 0] });
+
+			const impact = await getPriceImpact(chain.provider, quote('sushiswap', [WETH, USDC], 10n, 19000n, [SUSHI_PAIR]));
+
+			expect(impact).toMatchObject({ midPrice: 2000, executionPrice: 1900 });
+			expect(impact.priceImpact).toBeCloseTo(5);
+		});
+
+		it('should invert the V3 pool price when selling token1', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(V3_POOL, ABIS.UniswapV3Pool, { slot0: () => [2n ** 97n, 0, 0, 0, 0, 0, true] });
+
+			const impact = await getPriceImpact(chain.provider, quote('uniswapV3', [USDC, WETH], 100n, 24n, [V3_POOL]));
+
+			expect(impact.midPrice).toBe(0.25);
+			expect(impact.priceImpact).toBeCloseTo(4);
+		});
+
+		it('should multiply mid-prices across hops and never report a negative impact', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(V3_POOL, ABIS.UniswapV3Pool, { slot0: () => [2n ** 97n, 0, 0, 0, 0, 0, true] });
+			chain.stub(V3_POOL_2, ABIS.UniswapV3Pool, { slot0: () => [3n * 2n ** 96n, 0, 0, 0, 0, 0, true] });
+
+			const impact = await getPriceImpact(chain.provider, quote('uniswapV3', [WETH, USDC, ARB], 1n, 40n, [V3_POOL, V3_POOL_2]));
+
+			// WETH -> USDC sells token0 at 4; USDC -> ARB sells token1 at 1 / 9
+			expect(impact.midPrice).toBeCloseTo(4 / 9);
+			expect(impact.priceImpact).toBe(0);
+		});
+
+		it('should read the Algebra global state for Camelot V3', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(V3_POOL, ABIS.AlgebraPool, { globalState: () => [2n ** 96n, 0, 0, 0, 0, 0, 0, true] });
+
+			const impact = await getPriceImpact(chain.provider, quote('camelotV3', [WETH, USDC], 100n, 99n, [V3_POOL]));
+
+			expect(impact.midPrice).toBe(1);
+			expect(impact.priceImpact).toBeCloseTo(1);
+		});
+
+		it('should refuse pools without a mid-price', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(CAMELOT_PAIR, ABIS.CamelotPair, { stableSwap: () => true });
+			chain.stub(SUSHI_PAIR, ABIS.UniswapV2Pair, { getReserves: () => [0n, 0n, 0] });
+
+			await expect(getPriceImpact(chain.provider, quote('camelot', [WETH, USDC], 1n, 1n, [CAMELOT_PAIR])))
+				.rejects.toThrow('Mid-price is not available for Camelot stable pairs');
+			await expect(getPriceImpact(chain.provider, quote('sushiswap', [WETH, USDC], 1n, 1n, [SUSHI_PAIR])))
+				.rejects.toThrow('Pool has no liquidity');
+			await expect(getPriceImpact(chain.provider, quote('gmx', [WETH, USDC], 1n, 1n, [DEX.gmxVault])))
+				.rejects.toThrow('GMX swaps execute at oracle prices and have no pool mid-price');
+		});
+	});
+
+	describe('Swap Execution', () => {
+		const params: SwapParams = {
+			tokenIn: USDC,
+			tokenOut: WETH,
+			amountIn: 1000n,
+			amountOutMinimum: 990n,
+			recipient: USER,
+			deadline: 1700000600,
+			ethIn: false,
+			ethOut: false,
+			feeOnTransfer: false,
+		};
+
+		const setup = () => {
+			const chain = new StubChain(42161n);
+			chain.stub(DEX.sushiswapRouter, ABIS.UniswapV2Router, {});
+			chain.stub(DEX.camelotRouter, ABIS.CamelotRouter, {});
+			chain.stub(DEX.camelotV3Router, ABIS.AlgebraRouter, {});
+			chain.stub(DEX.uniswapV3Router, ABIS.UniswapV3Router, {});
+			return chain;
+		};
+
+		it('should always use the fee-on-transfer entry points of V2 routers', async () => {
+			const chain = setup();
+
+			await submitSwap(chain.signer(USER), 'sushiswap', params);
+			await submitSwap(chain.signer(USER), 'sushiswap', { ...params, tokenIn: WETH, tokenOut: USDC, ethIn: true });
+			await submitSwap(chain.signer(USER), 'sushiswap', { ...params, ethOut: true });
+
+			expect(chain.sent.map((tx) => [tx.to, tx.name, tx.value])).toEqual([
+				[DEX.sushiswapRouter, 'swapExactTokensForTokensSupportingFeeOnTransferTokens', 0n],
+				[DEX.sushiswapRouter, 'swapExactETHForTokensSupportingFeeOnTransferTokens', 1000n],
+				[DEX.sushiswapRouter, 'swapExactTokensForETHSupportingFeeOnTransferTokens', 0n],
+			]);
+			expect([...chain.sent[0].args]).toEqual([1000n, 990n, [USDC, WETH], USER, 1700000600n]);
+			expect([...chain.sent[1].args]).toEqual([990n, [WETH, USDC], USER, 1700000600n]);
+		});
+
+		it('should pass a zero referrer before the deadline to Camelot V2', async () => {
+			const chain = setup();
+
+			await submitSwap(chain.signer(USER), 'camelot', params);
+
+			const [swap] = chain.sent;
+			expect(swap.to).toBe(DEX.camelotRouter);
+			expect([...swap.args]).toEqual([1000n, 990n, [USDC, WETH], USER, ethers.ZeroAddress, 1700000600n]);
+		});
+
+		it('should use the Camelot V3 fee-on-transfer entry point only for token to token swaps', async () => {
+			const chain = setup();
+
+			await submitSwap(chain.signer(USER), 'camelotV3', { ...params, feeOnTransfer: true });
+			await submitSwap(chain.signer(USER), 'camelotV3', { ...params, feeOnTransfer: true, ethIn: true });
+
+			expect(chain.sent.map((tx) => [tx.name, tx.value])).toEqual([
+				['exactInputSingleSupportingFeeOnTransferTokens', 0n],
+				['exactInputSingle', 1000n],
+			]);
+			expect(chain.sent[0].args[0].recipient).toBe(USER);
+			expect(chain.sent[0].args[0].limitSqrtPrice).toBe(0n);
+		});
+
+		it('should swap to the Camelot V3 router and unwrap to the recipient for ETH output', async () => {
+			const chain = setup();
+			const router = new ethers.Interface(ABIS.AlgebraRouter);
+
+			await submitSwap(chain.signer(USER), 'camelotV3', { ...params, ethOut: true });
+
+			const [multicall] = chain.sentTo('multicall');
+			const [swap, unwrap] = multicall.args[0].map((data: string) => router.parseTransaction({ data }));
+			expect(swap.name).toBe('exactInputSingle');
+			expect(swap.args[0].recipient).toBe(DEX.camelotV3Router);
+			expect(unwrap.name).toBe('unwrapWNativeToken');
+			expect([...unwrap.args]).toEqual([990n, USER]);
+		});
+
+		it('should swap a multi-hop path through the router and unwrap WETH for ETH output', async () => {
+			const chain = setup();
+			const router = new ethers.Interface(ABIS.UniswapV3Router);
+			const path = encodeUniswapV3Path([USDC, ARB, WETH], [500, 3000]);
+
+			await submitSwap(chain.signer(USER), 'uniswapV3', { ...params, path });
+			await submitSwap(chain.signer(USER), 'uniswapV3', { ...params, path, ethOut: true });
+
+			const [direct, multicall] = chain.sent;
+			expect(direct.name).toBe('exactInput');
+			expect(direct.args[0].path).toBe(path);
+			expect(direct.args[0].recipient).toBe(USER);
+			const [swap, unwrap] = multicall.args[0].map((data: string) => router.parseTransaction({ data }));
+			expect(swap.name).toBe('exactInput');
+			expect(swap.args[0].recipient).toBe(DEX.uniswapV3Router);
+			expect(unwrap.name).toBe('unwrapWETH9');
+			expect([...unwrap.args]).toEqual([990n, USER]);
+		});
+
+		describe('Exact Output', () => {
+			const exactOutput: ExactOutputSwapParams = {
+				tokenIn: USDC,
+				tokenOut: WETH,
+				amountOut: 500n,
+				amountInMaximum: 1000n,
+				recipient: USER,
+				deadline: 1700000600,
+				feeTier: 500,
+				ethIn: false,
+				ethOut: false,
+			};
+			const router = new ethers.Interface(ABIS.UniswapV3Router);
+			const innerCalls = (chain: StubChain) =>
+				chain.sentTo('multicall')[0].args[0].map((data: string) => router.parseTransaction({ data }));
+
+			it('should call exactOutputSingle directly for token to token swaps', async () => {
+				const chain = setup();
+
+				await submitExactOutputSwap(chain.signer(USER), exactOutput);
+
+				const [swap] = chain.sent;
+				expect([swap.name, swap.value]).toEqual(['exactOutputSingle', 0n]);
+				expect(swap.args[0].toObject()).toMatchObject({ fee: 500n, recipient: USER, amountOut: 500n, amountInMaximum: 1000n });
+			});
+
+			it('should send the maximum input as ETH and refund what is unspent', async () => {
+				const chain = setup();
+
+				await submitExactOutputSwap(chain.signer(USER), { ...exactOutput, tokenIn: WETH, tokenOut: USDC, ethIn: true });
+
+				expect(chain.sent[0].value).toBe(1000n);
+				expect(innerCalls(chain).map((call: ethers.TransactionDescription) => call.name)).toEqual(['exactOutputSingle', 'refundETH']);
+			});
+
+			it('should unwrap the exact output to the recipient for ETH output', async () => {
+				const chain = setup();
+
+				await submitExactOutputSwap(chain.signer(USER), { ...exactOutput, ethOut: true });
+
+				const [swap, unwrap] = innerCalls(chain);
+				expect(chain.sent[0].value).toBe(0n);
+				expect(swap.args[0].recipient).toBe(DEX.uniswapV3Router);
+				expect(unwrap.name).toBe('unwrapWETH9');
+				expect([...unwrap.args]).toEqual([500n, USER]);
+			});
+		});
+	});
+});
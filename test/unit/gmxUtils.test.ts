@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	getGmxBorrowingRate,
+	getGmxFundingRates,
+	getGmxLiquidationPrice,
+	gmxRateToPercent,
+} from '../../nodes/Arbitrum/utils/gmxUtils';
+import type { GmxMarketState } from '../../nodes/Arbitrum/utils/gmxUtils';
+
+const perSide = (long: number, short: number) => ({ long, short });
+
+const marketState = (overrides: Partial<GmxMarketState>): GmxMarketState => ({
+	openInterestLongUsd: 600,
+	openInterestShortUsd: 400,
+	openInterestLongInTokens: 0n,
+	longPoolAmount: 0n,
+	shortPoolAmount: 0n,
+	fundingFactor: 1e-8,
+	fundingExponentFactor: 1,
+	fundingIncreaseFactorPerSecond: 0,
+	maxFundingFactorPerSecond: 0,
+	savedFundingFactorPerSecond: 0,
+	borrowingFactor: perSide(2e-8, 2e-8),
+	borrowingExponentFactor: perSide(1, 1),
+	optimalUsageFactor: perSide(0, 0),
+	baseBorrowingFactor: perSide(0, 0),
+	aboveOptimalUsageBorrowingFactor: perSide(0, 0),
+	minCollateralFactor: 0.01,
+	minCollateralUsd: 1,
+	isDisabled: false,
+	...overrides,
+});
+
+describe('GMX Utils', () => {
+	describe('Liquidation Price', () => {
+		/** 10000 USD position of 5 ETH opened at 2000 with 1% minimum collateral */
+		const position = {
+			sizeUsd: 10000,
+			sizeTokens: 5,
+			collateralTokens: 1000,
+			collateralPriceUsd: 1,
+			collateralIsIndexToken: false,
+			minCollateralFactor: 0.01,
+			minCollateralUsd: 1,
+		};
+
+		it.each([
+			['long with stable collateral', { isLong: true }, 1820],
+			['short with stable collateral', { isLong: false }, 2180],
+			['long with index collateral', { isLong: true, collateralIsIndexToken: true, collateralTokens: 0.5 }, 10100 / 5.5],
+			['short with index collateral', { isLong: false, collateralIsIndexToken: true, collateralTokens: 0.5 }, 2200],
+			['long with a minimum collateral floor', { isLong: true, minCollateralUsd: 500 }, 1900],
+		])('should price the liquidation of a %s', (_, overrides, expected) => {
+			expect(getGmxLiquidationPrice({ ...position, isLong: true, ...overrides })).toBeCloseTo(expected);
+		});
+
+		it('should return null when price alone cannot liquidate the position', () => {
+			expect(getGmxLiquidationPrice({ ...position, isLong: true, collateralTokens: 20000 })).toBeNull();
+			expect(getGmxLiquidationPrice({ ...position, isLong: true, sizeTokens: 0 })).toBeNull();
+			expect(getGmxLiquidationPrice({
+				...position,
+				isLong: false,
+				collateralIsIndexToken: true,
+				collateralTokens: 5,
+			})).toBeNull();
+		});
+	});
+
+	describe('Borrowing Rate', () => {
+		const kinked = marketState({
+			optimalUsageFactor: perSide(0.75, 0.75),
+			baseBorrowingFactor: perSide(1e-9, 1e-9),
+			aboveOptimalUsageBorrowingFactor: perSide(3e-9, 3e-9),
+		});
+
+		it('should scale the base factor with usage below the kink', () => {
+			expect(getGmxBorrowingRate(kinked, true, 50, 100)).toBeCloseTo(0.5e-9, 20);
+		});
+
+		it('should add the above-optimal slope past the kink', () => {
+			// 0.9 * base + (above - base) * (0.9 - 0.75) / (1 - 0.75)
+			expect(getGmxBorrowingRate(kinked, false, 90, 100)).toBeCloseTo(2.1e-9, 20);
+		});
+
+		it('should use the exponent model without an optimal usage factor', () => {
+			const state = marketState({ borrowingExponentFactor: perSide(2, 1) });
+
+			expect(getGmxBorrowingRate(state, true, 10, 100)).toBeCloseTo(2e-8, 20);
+			expect(getGmxBorrowingRate(state, false, 10, 100)).toBeCloseTo(2e-9, 20);
+			expect(getGmxBorrowingRate(state, true, 10, 0)).toBe(0);
+		});
+	});
+
+	describe('Funding Rates', () => {
+		it('should charge the larger side and share it across the smaller side', () => {
+			const rates = getGmxFundingRates(marketState({}));
+
+			// 200 USD imbalance over 1000 USD open interest
+			expect(rates.longsPayShorts).toBe(true);
+			expect(rates.fundingFactorPerSecond).toBeCloseTo(2e-9, 20);
+			expect(rates.longRatePerSecond).toBeCloseTo(-2e-9, 20);
+			expect(rates.shortRatePerSecond).toBeCloseTo(3e-9, 20);
+		});
+
+		it('should cap the factor at the maximum funding factor', () => {
+			const rates = getGmxFundingRates(marketState({ maxFundingFactorPerSecond: 1e-9 }));
+
+			expect(rates.fundingFactorPerSecond).toBe(1e-9);
+		});
+
+		it('should report the saved rate of adaptive funding markets', () => {
+			const rates = getGmxFundingRates(marketState({
+				fundingIncreaseFactorPerSecond: 1e-12,
+				savedFundingFactorPerSecond: -5e-9,
+			}));
+
+			expect(rates.longsPayShorts).toBe(false);
+			expect(rates.longRatePerSecond).toBeCloseTo(5e-9, 20);
+			expect(rates.shortRatePerSecond).toBeCloseTo(-7.5e-9, 20);
+		});
+
+		it('should not fund markets without open interest', () => {
+			const rates = getGmxFundingRates(marketState({ openInterestLongUsd: 0, openInterestShortUsd: 0 }));
+
+			expect(rates.fundingFactorPerSecond).toBe(0);
+			expect(rates.longRatePerSecond).toBe(0);
+		});
+
+		it('should express per-second factors per hour and per year', () => {
+			const percent = gmxRateToPercent(1e-8);
+
+			expect(percent.hourly).toBeCloseTo(0.0036);
+			expect(percent.annual).toBeCloseTo(31.536);
+		});
+	});
+});
@@ -0,0 +1,93 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import {
+	RAY,
+	WAD,
+	decodeReserveConfiguration,
+	getHealthStatus,
+	rayRateToApr,
+	rayRateToApy,
+} from '../../nodes/Arbitrum/utils/lendingUtils';
+
+describe('Lending Utils', () => {
+	describe('Reserve Configuration', () => {
+		it('should decode a WETH style reserve word', () => {
+			// LTV 80%, threshold 83%, bonus 5%, 18 decimals, active, borrowable, flash loans on,
+			// reserve factor 15%, caps of 45000 borrowed and 84000 supplied, 10% protocol fee, e-mode 1
+			const config = decodeReserveConfiguration(0x103e800001482000000afc805dc85122904206c1f40n);
+
+			expect(config).toEqual({
+				ltv: 8000,
+				liquidationThreshold: 8300,
+				liquidationBonus: 10500,
+				decimals: 18,
+				isActive: true,
+				isFrozen: false,
+				borrowingEnabled: true,
+				isPaused: false,
+				borrowableInIsolation: false,
+				isSiloed: false,
+				reserveFactor: 1500,
+				borrowCap: 45000n,
+				supplyCap: 84000n,
+				eModeCategory: 1,
+			});
+		});
+
+		it('should keep neighbouring fields out of flags and caps', () => {
+			// Frozen, paused, isolated and siloed stablecoin with maxed caps, an unbacked mint cap and a debt ceiling
+			const config = decodeReserveConfiguration(0x1e2400000000050203e8ffffffffffffffffff07d0730629fe1e780000n);
+
+			expect(config).toMatchObject({
+				ltv: 0,
+				liquidationThreshold: 7800,
+				liquidationBonus: 10750,
+				decimals: 6,
+				isFrozen: true,
+				borrowingEnabled: false,
+				isPaused: true,
+				borrowableInIsolation: true,
+				isSiloed: true,
+				reserveFactor: 2000,
+				borrowCap: 2n ** 36n - 1n,
+				supplyCap: 2n ** 36n - 1n,
+				eModeCategory: 2,
+			});
+		});
+	});
+
+	describe('Rates', () => {
+		it('should compound a ray APR per second into an APY', () => {
+			const rate = RAY / 20n;
+
+			expect(rayRateToApr(rate)).toBeCloseTo(5);
+			expect(rayRateToApy(rate)).toBeCloseTo((Math.exp(0.05) - 1) * 100, 4);
+			expect(rayRateToApy(0n)).toBe(0);
+		});
+	});
+
+	describe('Health Factor', () => {
+		it.each([
+			['0.5', 'liquidatable'],
+			['0.999999999999999999', 'liquidatable'],
+			['1', 'at risk'],
+			['1.099', 'at risk'],
+			['1.1', 'healthy'],
+			['2.5', 'healthy'],
+		])('should classify a health factor of %s as %s', (healthFactor, status) => {
+			expect(getHealthStatus(ethers.parseEther(healthFactor), 100000000n)).toBe(status);
+		});
+
+		it('should report accounts without debt whatever their health factor', () => {
+			expect(getHealthStatus(ethers.MaxUint256, 0n)).toBe('no debt');
+			expect(getHealthStatus(0n, 0n)).toBe('no debt');
+			expect(getHealthStatus(WAD, 1n)).toBe('at risk');
+		});
+	});
+});
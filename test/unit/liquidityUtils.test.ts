@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	MAX_TICK,
+	MIN_TICK,
+	Q128,
+	getAmountsForLiquidity,
+	getFeeGrowthInside,
+	getLiquidityForAmounts,
+	getLpValuation,
+	getSqrtRatioAtTick,
+	getUncollectedFees,
+	priceToTick,
+	sqrtPriceX96ToPrice,
+	tickToPrice,
+} from '../../nodes/Arbitrum/utils/liquidityUtils';
+
+/*
+ * Expected values were computed with the reference implementation in @uniswap/v3-sdk 3.10
+ * (TickMath, SqrtPriceMath rounding down, maxLiquidityForAmounts with full precision,
+ * priceToClosestTick with nearestUsableTick, TickLibrary and PositionLibrary).
+ */
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+/** WETH/USDC range around 2000 USDC per WETH, token0 WETH with 18 decimals and token1 USDC with 6 */
+const TICK_LOWER = -201060;
+const TICK_UPPER = -199560;
+
+describe('Liquidity Utils', () => {
+	describe('Tick Math', () => {
+		it.each([
+			[MIN_TICK, 4295128739n],
+			[-887220, 4306310044n],
+			[-200311, 3543226830587239509588885n],
+			[-1, 79224201403219477170569942574n],
+			[0, 79228162514264337593543950336n],
+			[1, 79232123823359799118286999568n],
+			[50, 79426470787362580746886972461n],
+			[200000, 1744244129640337381386292603617838n],
+			[MAX_TICK, 1461446703485210103287273052203988822378723970342n],
+		])('should match TickMath.getSqrtRatioAtTick at tick %d', (tick, sqrtRatioX96) => {
+			expect(getSqrtRatioAtTick(tick)).toBe(sqrtRatioX96);
+		});
+
+		it('should reject ticks outside the pool bounds', () => {
+			expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow('Tick out of range: 887273');
+			expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow('Tick out of range: -887273');
+			expect(() => getSqrtRatioAtTick(0.5)).toThrow('Tick out of range: 0.5');
+		});
+
+		it.each([
+			[2000, 60, -200340],
+			[2000, 10, -200310],
+			[3456.78, 200, -194800],
+		])('should snap a price of %s to the nearest tick with spacing %d', (price, tickSpacing, tick) => {
+			expect(priceToTick(price, 18, 6, tickSpacing)).toBe(tick);
+		});
+
+		it('should clamp extreme prices to the usable tick range', () => {
+			expect(priceToTick(1e-300, 18, 18, 60)).toBe(-887220);
+			expect(priceToTick(1e300, 18, 18, 200)).toBe(887200);
+			expect(() => priceToTick(0, 18, 6, 60)).toThrow('Price must be greater than zero');
+		});
+
+		it('should convert ticks and sqrt prices back to human prices', () => {
+			expect(tickToPrice(-200311, 18, 6)).toBeCloseTo(2000, 0);
+			expect(sqrtPriceX96ToPrice(getSqrtRatioAtTick(-200311), 18, 6)).toBeCloseTo(2000, 0);
+			expect(sqrtPriceX96ToPrice(2n ** 96n, 18, 18)).toBe(1);
+		});
+	});
+
+	describe('Liquidity Amounts', () => {
+		const liquidity = 1000000000000000n;
+
+		it.each([
+			['below', -202000, 1677259407987275292n, 0n],
+			['inside', -200311, 824025964246419646n, 1643777755n],
+			['above', -199000, 0n, 3354921850n],
+		])('should split liquidity when the price is %s the range', (_, tick, amount0, amount1) => {
+			expect(getAmountsForLiquidity(getSqrtRatioAtTick(tick), TICK_LOWER, TICK_UPPER, liquidity)).toEqual({ amount0, amount1 });
+		});
+
+		it.each([
+			['below', -202000, 596210696591058n],
+			['inside', -200311, 1213553993913905n],
+			['above', -199000, 596139072366191n],
+		])('should mint the liquidity the limiting token allows when the price is %s the range', (_, tick, expected) => {
+			const sqrtPriceX96 = getSqrtRatioAtTick(tick);
+
+			expect(getLiquidityForAmounts(sqrtPriceX96, TICK_LOWER, TICK_UPPER, 10n ** 18n, 2000000000n)).toBe(expected);
+		});
+
+		it('should never return more than the amounts used to mint', () => {
+			const sqrtPriceX96 = getSqrtRatioAtTick(-200311);
+			const minted = getLiquidityForAmounts(sqrtPriceX96, TICK_LOWER, TICK_UPPER, 10n ** 18n, 2000000000n);
+			const { amount0, amount1 } = getAmountsForLiquidity(sqrtPriceX96, TICK_LOWER, TICK_UPPER, minted);
+
+			expect(amount0 <= 10n ** 18n && amount1 <= 2000000000n).toBe(true);
+		});
+	});
+
+	describe('Fee Growth', () => {
+		const lower = { feeGrowthOutside0X128: Q128, feeGrowthOutside1X128: 2n * Q128 };
+		const upper = { feeGrowthOutside0X128: Q128 / 2n, feeGrowthOutside1X128: Q128 / 4n };
+
+		it.each([
+			['below', -100, 170141183460469231731687303715884105728n, 595494142111642311060905563005594370048n],
+			['inside', 0, 1190988284223284622121811126011188740096n, 1616341242874457701451029385300899004416n],
+			[
+				'above',
+				100,
+				115792089237316195423570985008687907853099843482180094807725896704197245534208n,
+				115792089237316195423570985008687907852674490523528921728396678444907535269888n,
+			],
+		])('should match Tick.getFeeGrowthInside when the price is %s the range', (_, tick, inside0, inside1) => {
+			expect(getFeeGrowthInside(tick, -60, 60, lower, upper, 5n * Q128, 7n * Q128)).toEqual({
+				feeGrowthInside0X128: inside0,
+				feeGrowthInside1X128: inside1,
+			});
+		});
+
+		it('should accrue fees across an accumulator overflow and add tokens owed', () => {
+			const fees = getUncollectedFees(10n ** 12n, Q128, 3n * (Q128 / 2n), MAX_UINT256 + 1n - Q128, 0n, 5n, 0n);
+
+			expect(fees).toEqual({ amount0: 2000000000005n, amount1: 1500000000000n });
+		});
+	});
+
+	describe('Impermanent Loss', () => {
+		// 1 WETH and 2000 USDC deposited full range at 2000; at 2420 the pool holds 1 / 1.1 WETH and 2200 USDC
+		const deposited = { amount0: 10n ** 18n, amount1: 2000000000n };
+		const current = { amount0: 909090909090909091n, amount1: 2200000000n };
+
+		it('should match the constant product loss after a price move', () => {
+			const valuation = getLpValuation(2420, 18, 6, deposited, current);
+
+			expect(valuation.hodlValue).toBeCloseTo(4420);
+			expect(valuation.positionValue).toBeCloseTo(4400);
+			expect(valuation.impermanentLoss).toBeCloseTo(-20);
+			// 2 * sqrt(r) / (1 + r) - 1 for a price ratio r of 1.21
+			expect(valuation.impermanentLossPercent).toBeCloseTo((2 * 1.1 / 2.21 - 1) * 100);
+			expect(valuation.feesValue).toBe(0);
+			expect(valuation.netPnl).toBeCloseTo(valuation.impermanentLoss);
+		});
+
+		it('should offset the loss with fees in net PnL', () => {
+			const fees = { amount0: 10n ** 16n, amount1: 10000000n };
+
+			const valuation = getLpValuation(2420, 18, 6, deposited, current, fees);
+
+			expect(valuation.feesValue).toBeCloseTo(34.2);
+			expect(valuation.netPnl).toBeCloseTo(14.2);
+			expect(valuation.netPnlPercent).toBeCloseTo((14.2 / 4420) * 100);
+			expect(valuation.impermanentLoss).toBeCloseTo(-20);
+		});
+
+		it('should report zero percentages without a deposit', () => {
+			const valuation = getLpValuation(2420, 18, 6, { amount0: 0n, amount1: 0n }, current);
+
+			expect(valuation.impermanentLossPercent).toBe(0);
+			expect(valuation.netPnlPercent).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,219 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { Log, Provider } from 'ethers';
+import {
+	MAX_TRANSIENT_RETRIES,
+	findBlockByTimestamp,
+	getBlocksInRange,
+	getLatestLogs,
+	getLogsChunked,
+	isLogRangeError,
+	isTransientError,
+} from '../../nodes/Arbitrum/utils/logScanUtils';
+
+/** RPC that rejects getLogs over more than maxRange blocks and serves one log per block */
+function createLogRpc(maxRange: number, failures: Array<Error | undefined> = []) {
+	const calls: Array<[number, number]> = [];
+	const provider = {
+		getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+			calls.push([fromBlock, toBlock]);
+			const failure = failures.shift();
+			if (failure) {
+				throw failure;
+			}
+			if (toBlock - fromBlock + 1 > maxRange) {
+				throw Object.assign(new Error('could not coalesce error'), {
+					error: { message: `query returned more than 10000 results; block range exceeds ${maxRange}` },
+				});
+			}
+			return Array.from({ length: toBlock - fromBlock + 1 }, (_, i) => ({ blockNumber: fromBlock + i }) as Log);
+		},
+	} as unknown as Provider;
+	return { provider, calls };
+}
+
+describe('Log Scan Utils', () => {
+	describe('Error Classification', () => {
+		it.each([
+			['block range is too wide', true, false],
+			['Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range', true, false],
+			['query timeout exceeded', true, false],
+			['request timeout', false, true],
+			['connect ETIMEDOUT 10.0.0.1:443', false, true],
+			['socket hang up', false, true],
+			['execution reverted', false, false],
+		])('should classify "%s"', (message, range, transient) => {
+			expect(isLogRangeError(new Error(message))).toBe(range);
+			expect(isTransientError(new Error(message))).toBe(transient);
+		});
+
+		it('should read nested RPC messages and the ethers timeout code', () => {
+			expect(isLogRangeError({ info: { error: { message: 'exceed max limit of 10000 results' } } })).toBe(true);
+			expect(isTransientError({ code: 'TIMEOUT', message: 'request failed' })).toBe(true);
+		});
+	});
+
+	describe('Chunked getLogs', () => {
+		it('should halve rejected chunks and keep the working size for the rest of the scan', async () => {
+			const { provider, calls } = createLogRpc(300);
+
+			const logs = await getLogsChunked(provider, {}, 1, 1000, 1000);
+
+			expect(calls).toEqual([
+				[1, 1000], [1, 500], [1, 250],
+				[251, 500], [501, 750], [751, 1000],
+			]);
+			expect(logs.map((log) => log.blockNumber)).toEqual(Array.from({ length: 1000 }, (_, i) => i + 1));
+		});
+
+		it('should rethrow a range error on a single block', async () => {
+			const { provider, calls } = createLogRpc(0);
+
+			await expect(getLogsChunked(provider, {}, 10, 13, 4)).rejects.toThrow('could not coalesce error');
+			expect(calls).toEqual([[10, 13], [10, 11], [10, 10]]);
+		});
+
+		it('should rethrow other errors without retrying', async () => {
+			const { provider, calls } = createLogRpc(1000, [new Error('invalid address')]);
+
+			await expect(getLogsChunked(provider, {}, 1, 100)).rejects.toThrow('invalid address');
+			expect(calls).toHaveLength(1);
+		});
+
+		describe('Timeouts', () => {
+			beforeEach(() => jest.useFakeTimers());
+			afterEach(() => jest.useRealTimers());
+
+			it('should retry a timed out chunk at the same size', async () => {
+				const timeout = new Error('request timeout');
+				const { provider, calls } = createLogRpc(1000, [undefined, timeout, timeout]);
+
+				const scan = getLogsChunked(provider, {}, 1, 300, 100);
+				await jest.runAllTimersAsync();
+
+				expect(await scan).toHaveLength(300);
+				expect(calls).toEqual([[1, 100], [101, 200], [101, 200], [101, 200], [201, 300]]);
+			});
+
+			it('should give up after the retry limit', async () => {
+				const failures = Array.from({ length: MAX_TRANSIENT_RETRIES + 1 }, () => new Error('connect ETIMEDOUT'));
+				const { provider, calls } = createLogRpc(1000, failures);
+
+				const scan = getLogsChunked(provider, {}, 1, 100);
+				const rejected = expect(scan).rejects.toThrow('ETIMEDOUT');
+				await jest.runAllTimersAsync();
+
+				await rejected;
+				expect(calls).toEqual(Array.from({ length: MAX_TRANSIENT_RETRIES + 1 }, () => [1, 100]));
+			});
+		});
+	});
+
+	describe('Newest Logs', () => {
+		it('should scan back from the end and stop at the newest chunk with logs', async () => {
+			const { provider, calls } = createLogRpc(1000);
+			const sparse = {
+				getLogs: async (filter: { fromBlock: number; toBlock: number }) =>
+					(await provider.getLogs(filter)).filter((log) => log.blockNumber % 250 === 0),
+			} as unknown as Provider;
+
+			const logs = await getLatestLogs(sparse, {}, 1, 1120, 100);
+
+			expect(logs.map((log) => log.blockNumber)).toEqual([1000]);
+			expect(calls).toEqual([[1021, 1120], [921, 1020]]);
+		});
+
+		it('should halve rejected chunks on the way back and stop at the start', async () => {
+			const { provider, calls } = createLogRpc(300);
+			const empty = {
+				getLogs: async (filter: { fromBlock: number; toBlock: number }) => (await provider.getLogs(filter)).slice(0, 0),
+			} as unknown as Provider;
+
+			expect(await getLatestLogs(empty, {}, 1, 1000, 1000)).toEqual([]);
+			expect(calls).toEqual([
+				[1, 1000], [501, 1000], [751, 1000],
+				[501, 750], [251, 500], [1, 250],
+			]);
+		});
+
+		it('should rethrow other errors', async () => {
+			const { provider } = createLogRpc(1000, [new Error('invalid address')]);
+
+			await expect(getLatestLogs(provider, {}, 1, 100)).rejects.toThrow('invalid address');
+		});
+	});
+
+	describe('Block Fetching', () => {
+		it('should fetch blocks in order with at most the given requests in flight', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			const prefetched: boolean[] = [];
+			const provider = {
+				getBlock: async (number: number, prefetchTxs: boolean) => {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+					prefetched.push(prefetchTxs);
+					// Later blocks answer first
+					await new Promise((resolve) => setTimeout(resolve, 30 - number));
+					inFlight--;
+					return number === 17 ? null : { number };
+				},
+			} as unknown as Provider;
+
+			const blocks = await getBlocksInRange(provider, 5, 25, true, 4);
+
+			expect(blocks.map((block) => block.number)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 18, 19, 20, 21, 22, 23, 24, 25]);
+			expect(maxInFlight).toBe(4);
+			expect(prefetched.every(Boolean)).toBe(true);
+		});
+
+		it('should return nothing for an empty range', async () => {
+			const provider = { getBlock: jest.fn() } as unknown as Provider;
+
+			expect(await getBlocksInRange(provider, 10, 9)).toEqual([]);
+			expect(provider.getBlock).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Block by Timestamp', () => {
+		// Blocks 0-999 two seconds apart, then 1000-1999 a quarter second apart as on Arbitrum
+		const timestampOf = (number: number) => (number < 1000 ? 1000 + number * 2 : 3000 + (number - 1000) / 4);
+		const createProvider = (latest = 1999) => {
+			const requested: Array<number | string> = [];
+			const provider = {
+				getBlock: async (tag: number | string) => {
+					requested.push(tag);
+					const number = tag === 'latest' ? latest : (tag as number);
+					return number > latest ? null : { number, timestamp: timestampOf(number) };
+				},
+			} as unknown as Provider;
+			return { provider, requested };
+		};
+
+		it.each([
+			['the exact second of a block', 1500, 250],
+			['a second between two blocks', 1501, 251],
+			['a time before genesis', 0, 0],
+			['a fractional block time', 3100, 1400],
+			['the latest block time', 3249, 1996],
+			['a time after the latest block', 9999, 1999],
+		])('should resolve %s', async (_, timestamp, expected) => {
+			const { provider, requested } = createProvider();
+
+			expect(await findBlockByTimestamp(provider, timestamp)).toBe(expected);
+			expect(requested.length).toBeLessThanOrEqual(12);
+		});
+
+		it('should fail when the RPC skips a block', async () => {
+			const { provider } = createProvider();
+			const missing = { ...provider, getBlock: async (tag: number | string) => (tag === 'latest' ? provider.getBlock(tag) : null) };
+
+			await expect(findBlockByTimestamp(missing as unknown as Provider, 1500)).rejects.toThrow('RPC did not return block 999');
+		});
+	});
+});
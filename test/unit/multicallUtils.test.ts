@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS } from '../../nodes/Arbitrum/constants/tokens';
+import { aggregateReads, getTokenBalances } from '../../nodes/Arbitrum/utils/multicallUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const BROKEN_TOKEN = '0x0000000000000000000000000000000000000bad';
+const ALICE = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const BOB = '0x0000000000000000000000000000000000000B0b';
+
+describe('Multicall Utils', () => {
+	it('should read balances per holder and token, with the zero address as native ETH', async () => {
+		const chain = new StubChain(42161n);
+		chain.stubMulticall3({ [ALICE]: ethers.parseEther('1.5') });
+		const balances: Record<string, Record<string, bigint>> = {
+			[WETH]: { [ALICE]: 2n, [BOB]: 3n },
+			[USDC]: { [ALICE]: 5000000n },
+		};
+		for (const token of [WETH, USDC]) {
+			chain.stub(token, ABIS.ERC20, { balanceOf: (holder: string) => balances[token][holder] ?? 0n });
+		}
+
+		const result = await getTokenBalances(chain.provider, [ALICE, BOB], [ethers.ZeroAddress, WETH, USDC]);
+
+		expect(result).toEqual([
+			[ethers.parseEther('1.5'), 2n, 5000000n],
+			[0n, 3n, 0n],
+		]);
+	});
+
+	it('should read failed balance calls as zero', async () => {
+		const chain = new StubChain(42161n);
+		chain.stubMulticall3();
+		chain.stub(WETH, ABIS.ERC20, { balanceOf: () => 7n });
+
+		const result = await getTokenBalances(chain.provider, [ALICE], [BROKEN_TOKEN, WETH]);
+
+		expect(result).toEqual([[0n, 7n]]);
+	});
+
+	it('should return null for reverted reads and keep the order across batches', async () => {
+		const chain = new StubChain(42161n);
+		const batches = chain.stubMulticall3();
+		const erc20 = new ethers.Interface(ABIS.ERC20);
+		chain.stub(WETH, ABIS.ERC20, { balanceOf: (holder: string) => BigInt(holder) });
+		const holders = Array.from({ length: 600 }, (_, i) => ethers.toBeHex(i + 1, 20));
+		const reads = holders.map((holder, i) => ({
+			target: i === 550 ? BROKEN_TOKEN : WETH,
+			callData: erc20.encodeFunctionData('balanceOf', [holder]),
+		}));
+
+		const results = await aggregateReads(chain.provider, reads);
+
+		expect(batches).toEqual([500, 100]);
+		expect(results).toHaveLength(600);
+		expect(BigInt(results[0]!)).toBe(1n);
+		expect(BigInt(results[599]!)).toBe(600n);
+		expect(results[550]).toBeNull();
+	});
+});
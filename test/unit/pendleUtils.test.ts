@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS } from '../../nodes/Arbitrum/constants/tokens';
+import { getPendleMarketInfo, getPendlePtPrice } from '../../nodes/Arbitrum/utils/pendleUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const MARKET = '0x0000000000000000000000000000000000000a01';
+const SY = '0x0000000000000000000000000000000000000a02';
+const PT = '0x0000000000000000000000000000000000000a03';
+const YT = '0x0000000000000000000000000000000000000a04';
+const NOW = 1700000000;
+const HALF_YEAR = 31536000 / 2;
+
+/** Market quoting PT at a 10% implied APY, with 100 SY worth 1.05 WETH each and 200 PT */
+function stubMarket(chain: StubChain, expiry: number) {
+	chain.stub(MARKET, ABIS.PendleMarket, {
+		readTokens: () => [SY, PT, YT],
+		expiry: () => expiry,
+		_storage: () => [ethers.parseEther('200'), ethers.parseEther('100'), BigInt(Math.round(Math.log(1.1) * 1e18)), 0, 0, 0],
+		totalSupply: () => ethers.parseEther('150'),
+	});
+	chain.stub(SY, ABIS.PendleSy, {
+		exchangeRate: () => ethers.parseEther('1.05'),
+		assetInfo: () => [0, ARBITRUM_ONE_TOKENS.WETH.address, 18],
+		decimals: () => 18,
+	});
+	chain.stub(PT, ABIS.ERC20, { symbol: () => 'PT-weETH-26JUN2025' });
+}
+
+describe('Pendle Utils', () => {
+	beforeEach(() => {
+		jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should discount PT continuously at the ln implied rate until expiry', () => {
+		expect(getPendlePtPrice(Math.log(1.1), 31536000)).toBeCloseTo(1 / 1.1);
+		expect(getPendlePtPrice(Math.log(1.1), HALF_YEAR)).toBeCloseTo(1 / Math.sqrt(1.1));
+		expect(getPendlePtPrice(Math.log(1.1), 0)).toBe(1);
+	});
+
+	it('should derive the implied APY, PT and YT prices and liquidity of a market', async () => {
+		const chain = new StubChain(42161n);
+		stubMarket(chain, NOW + HALF_YEAR);
+
+		const info = await getPendleMarketInfo(chain.provider, MARKET);
+
+		const ptPrice = 1 / Math.sqrt(1.1);
+		expect(info).toMatchObject({
+			name: 'PT-weETH-26JUN2025',
+			sy: SY,
+			pt: PT,
+			yt: YT,
+			isExpired: false,
+			secondsToExpiry: HALF_YEAR,
+			asset: ARBITRUM_ONE_TOKENS.WETH.address,
+			syExchangeRate: 1.05,
+		});
+		expect(info.impliedApy).toBeCloseTo(10);
+		expect(info.ptPriceInAsset).toBeCloseTo(ptPrice);
+		expect(info.ptPriceInAsset + info.ytPriceInAsset).toBeCloseTo(1);
+		// 100 SY at 1.05 plus 200 PT at the PT price
+		expect(info.liquidityInAsset).toBeCloseTo(105 + 200 * ptPrice);
+	});
+
+	it('should redeem PT at par once the market has expired', async () => {
+		const chain = new StubChain(42161n);
+		stubMarket(chain, NOW - 60);
+
+		const info = await getPendleMarketInfo(chain.provider, MARKET);
+
+		expect(info).toMatchObject({ isExpired: true, secondsToExpiry: 0, ptPriceInAsset: 1, ytPriceInAsset: 0 });
+		expect(info.liquidityInAsset).toBeCloseTo(305);
+	});
+});
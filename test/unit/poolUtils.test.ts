@@ -0,0 +1,244 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import type { Log } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS, DEX_ROUTERS } from '../../nodes/Arbitrum/constants/tokens';
+import {
+	findPairPools,
+	getBalancerPoolInfo,
+	getCreatedPools,
+	getCurvePoolInfo,
+	getPoolReserves,
+} from '../../nodes/Arbitrum/utils/poolUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const DEX = DEX_ROUTERS.arbitrumOne;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const USDT = ARBITRUM_ONE_TOKENS.USDT.address;
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const POOL = '0x0000000000000000000000000000000000000a01';
+const POOL_2 = '0x0000000000000000000000000000000000000a02';
+const POOL_3 = '0x0000000000000000000000000000000000000a03';
+const POOL_ID = ethers.concat([POOL, '0x0002', ethers.toBeHex(7, 10)]);
+
+/** Factory event log at a block */
+function factoryLog(address: string, abi: readonly string[], event: string, args: unknown[], blockNumber: number): Log {
+	const encoded = new ethers.Interface(abi).encodeEventLog(event, args);
+	return {
+		address,
+		...encoded,
+		blockNumber,
+		blockHash: ethers.id(`block-${blockNumber}`),
+		transactionHash: ethers.id(`tx-${blockNumber}`),
+		transactionIndex: 0,
+		index: 0,
+		removed: false,
+	} as unknown as Log;
+}
+
+/** ERC-20 metadata stubs for the test tokens */
+function stubTokens(chain: StubChain) {
+	chain.stub(USDC, ABIS.ERC20, { symbol: () => 'USDC', decimals: () => 6 });
+	chain.stub(USDT, ABIS.ERC20, { symbol: () => 'USDT', decimals: () => 6 });
+	chain.stub(WETH, ABIS.ERC20, { symbol: () => 'WETH', decimals: () => 18 });
+}
+
+describe('Pool Utils', () => {
+	describe('Curve Pools', () => {
+		const stubCurve = (chain: StubChain, views: Record<string, (...args: any[]) => unknown>) => {
+			const coins = [USDC, USDT];
+			chain.stub(POOL, ABIS.CurvePool, {
+				coins: (i: bigint) => {
+					if (i >= BigInt(coins.length)) {
+						throw new Error('execution reverted');
+					}
+					return coins[Number(i)];
+				},
+				balances: (i: bigint) => [1500000000000n, 1000000000000n][Number(i)],
+				A: () => 2000n,
+				fee: () => 4000000n,
+				get_dy: (i: bigint, j: bigint, dx: bigint) => (dx * 9998n) / 10000n,
+				...views,
+			});
+		};
+
+		it('should read coins up to the first missing slot with balances, fees and quotes', async () => {
+			const chain = new StubChain(42161n);
+			chain.stubMulticall3();
+			stubTokens(chain);
+			stubCurve(chain, { admin_fee: () => 5000000000n, get_virtual_price: () => ethers.parseEther('1.01') });
+
+			const info = await getCurvePoolInfo(chain.provider, POOL);
+
+			expect(info).toMatchObject({
+				poolType: 'stable',
+				A: 2000,
+				gamma: null,
+				feePercent: 0.04,
+				adminFeePercent: 50,
+				virtualPrice: '1.01',
+			});
+			expect(info.coins.map((coin) => [coin.index, coin.symbol, coin.balance])).toEqual([
+				[0, 'USDC', '1500000.0'],
+				[1, 'USDT', '1000000.0'],
+			]);
+			expect(info.quotes).toEqual([
+				{ from: 'USDC', to: 'USDT', i: 0, j: 1, amountIn: '1', amountOut: '0.9998', rate: 0.9998 },
+				{ from: 'USDT', to: 'USDC', i: 1, j: 0, amountIn: '1', amountOut: '0.9998', rate: 0.9998 },
+			]);
+		});
+
+		it('should tell crypto pools by gamma and leave out getters the pool lacks', async () => {
+			const chain = new StubChain(42161n);
+			chain.stubMulticall3();
+			stubTokens(chain);
+			stubCurve(chain, { gamma: () => 11809167828997n });
+
+			const info = await getCurvePoolInfo(chain.provider, POOL, '10');
+
+			expect(info).toMatchObject({ poolType: 'crypto', gamma: 11809167828997, adminFeePercent: null, virtualPrice: null });
+			expect(info.quotes[0]).toMatchObject({ amountIn: '10', amountOut: '9.998' });
+		});
+
+		it('should reject addresses that are not Curve pools', async () => {
+			const chain = new StubChain(42161n);
+			chain.stubMulticall3();
+			chain.stub(POOL, ABIS.CurvePool, {});
+
+			await expect(getCurvePoolInfo(chain.provider, POOL)).rejects.toThrow('Address is not a Curve pool: coins() is not readable');
+		});
+	});
+
+	describe('Balancer Pools', () => {
+		const stubBalancer = (chain: StubChain, tokens: string[], views: Record<string, (...args: any[]) => unknown>) => {
+			chain.stub(DEX.balancerVault, ABIS.BalancerVault, {
+				getPool: () => [POOL, 2],
+				getPoolTokens: () => [tokens, tokens.map(() => ethers.parseUnits('1000', 6)), 123456n],
+			});
+			// Composable pools list their BPT as a token, so the pool also answers ERC-20 metadata
+			chain.stub(POOL, [...ABIS.BalancerPool, ...ABIS.ERC20], {
+				getPoolId: () => POOL_ID,
+				name: () => 'Balancer Pool',
+				symbol: () => 'BPT',
+				decimals: () => 18,
+				totalSupply: () => ethers.parseEther('2500'),
+				getSwapFeePercentage: () => ethers.parseEther('0.003'),
+				...views,
+			});
+		};
+
+		it('should read a weighted pool by its pool id', async () => {
+			const chain = new StubChain(42161n);
+			stubTokens(chain);
+			stubBalancer(chain, [USDC, USDT], {
+				getNormalizedWeights: () => [ethers.parseEther('0.8'), ethers.parseEther('0.2')],
+			});
+
+			const info = await getBalancerPoolInfo(chain.provider, POOL_ID);
+
+			expect(info).toMatchObject({
+				pool: POOL,
+				poolId: POOL_ID,
+				poolType: 'weighted',
+				swapFeePercent: 0.3,
+				amplification: null,
+				totalSupply: '2500.0',
+				lastChangeBlock: 123456,
+			});
+			expect(info.tokens.map((token) => [token.symbol, token.weight, token.isPoolToken])).toEqual([
+				['USDC', 80, false],
+				['USDT', 20, false],
+			]);
+		});
+
+		it('should read a composable stable pool by address and flag its own BPT', async () => {
+			const chain = new StubChain(42161n);
+			stubTokens(chain);
+			stubBalancer(chain, [POOL, USDC], {
+				getSwapFeePercentage: () => ethers.parseEther('0.0001'),
+				getAmplificationParameter: () => [200000n, false, 1000n],
+			});
+
+			const info = await getBalancerPoolInfo(chain.provider, POOL);
+
+			expect(info).toMatchObject({ poolId: POOL_ID, poolType: 'stable', amplification: 200 });
+			expect(info.swapFeePercent).toBeCloseTo(0.01);
+			expect(info.tokens.map((token) => [token.symbol, token.weight, token.isPoolToken])).toEqual([
+				['BPT', null, true],
+				['USDC', null, false],
+			]);
+		});
+	});
+
+	describe('Pool Discovery', () => {
+		it('should look up every fee tier and factory for a pair in sorted token order', async () => {
+			const chain = new StubChain(42161n);
+			const batches = chain.stubMulticall3();
+			const lookups: string[][] = [];
+			chain.stub(DEX.uniswapV3Factory, ABIS.UniswapV3Factory, {
+				getPool: (a: string, b: string, fee: bigint) => {
+					lookups.push([a, b]);
+					return fee === 500n ? POOL : ethers.ZeroAddress;
+				},
+			});
+			chain.stub(DEX.sushiswapFactory, ABIS.UniswapV2Factory, { getPair: () => POOL_2 });
+			chain.stub(DEX.camelotV3Factory, ABIS.AlgebraFactory, { poolByPair: () => POOL_3 });
+
+			const pools = await findPairPools(chain.provider, USDC, WETH, ['uniswapV3', 'sushiswap', 'camelot', 'camelotV3']);
+
+			expect(batches).toEqual([7]);
+			expect(lookups).toHaveLength(4);
+			expect(lookups.every(([a, b]) => a === WETH && b === USDC)).toBe(true);
+			// Camelot V2 has no factory stub, so its lookup reverts and is left out
+			expect(pools.map((pool) => [pool.dex, pool.pool, pool.feeTier])).toEqual([
+				['uniswapV3', POOL, 500],
+				['sushiswap', POOL_2, undefined],
+				['camelotV3', POOL_3, undefined],
+			]);
+			expect(pools[0]).toMatchObject({ dexName: 'Uniswap V3', token0: WETH, token1: USDC });
+		});
+
+		it('should list pools created in a range newest first across factories', async () => {
+			const chain = new StubChain(42161n);
+			chain.logs.push(
+				factoryLog(DEX.uniswapV3Factory, ABIS.UniswapV3Factory, 'PoolCreated', [WETH, USDC, 500, 10, POOL], 100),
+				factoryLog(DEX.sushiswapFactory, ABIS.UniswapV2Factory, 'PairCreated', [WETH, USDT, POOL_2, 1], 300),
+				factoryLog(DEX.camelotV3Factory, ABIS.AlgebraFactory, 'Pool', [USDC, USDT, POOL_3], 200),
+				factoryLog(DEX.camelotV3Factory, ABIS.AlgebraFactory, 'Pool', [USDC, WETH, POOL_3], 900),
+			);
+
+			const pools = await getCreatedPools(chain.provider, ['uniswapV3', 'sushiswap', 'camelotV3'], 0, 500);
+
+			expect(pools.map((pool) => [pool.dex, pool.pool, pool.createdAtBlock, pool.feeTier])).toEqual([
+				['sushiswap', POOL_2, 300, undefined],
+				['camelotV3', POOL_3, 200, undefined],
+				['uniswapV3', POOL, 100, 500],
+			]);
+			expect(pools[0]).toMatchObject({ token0: WETH, token1: USDT });
+			expect(await getCreatedPools(chain.provider, ['uniswapV3', 'sushiswap', 'camelotV3'], 0, 500, 1)).toHaveLength(1);
+		});
+
+		it('should read pool reserves as token balances, zero when a read fails', async () => {
+			const chain = new StubChain(42161n);
+			chain.stubMulticall3();
+			const balances: Record<string, bigint> = { [POOL]: 5n, [POOL_2]: 7n };
+			chain.stub(WETH, ABIS.ERC20, { balanceOf: (holder: string) => balances[holder] ?? 0n });
+			chain.stub(USDC, ABIS.ERC20, { balanceOf: () => 11n });
+			const discovered = (pool: string, token1: string) =>
+				({ dex: 'sushiswap' as const, dexName: 'SushiSwap', pool, token0: WETH, token1 });
+
+			const reserves = await getPoolReserves(chain.provider, [discovered(POOL, USDC), discovered(POOL_2, USDT)]);
+
+			expect(reserves).toEqual([
+				{ reserve0: 5n, reserve1: 11n },
+				{ reserve0: 7n, reserve1: 0n },
+			]);
+		});
+	});
+});
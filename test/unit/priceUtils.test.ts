@@ -0,0 +1,296 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS, CHAINLINK_FEEDS, CHAINLINK_SEQUENCER_UPTIME_FEEDS } from '../../nodes/Arbitrum/constants/tokens';
+import {
+	DEFAULT_FEED_HEARTBEAT,
+	checkOracleSafety,
+	getFeedHeartbeat,
+	getSequencerStatus,
+	getTokenUsdPrice,
+	getUniswapV3Twap,
+} from '../../nodes/Arbitrum/utils/priceUtils';
+import { sqrtPriceX96Of, stubChainlinkFeed, stubSequencerUptime, stubUniswapV3Pools } from '../helpers/priceStubs';
+import { StubChain } from '../helpers/stubChain';
+
+const FEEDS = CHAINLINK_FEEDS.arbitrumOne;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const ARB = ARBITRUM_ONE_TOKENS.ARB.address;
+/** Token without a feed, sorting before USDC and WETH so it is token0 of its pools */
+const TOKEN = ethers.getAddress('0x0000000000000000000000000000000000000a01');
+
+/** Clock of the safety checks */
+const NOW = 1700100000;
+
+/**
+ * Serve a Uniswap V3 pool whose observe() answers [windowSeconds, 0] with the given cumulatives
+ * An observe error is thrown instead, as the pool does for a window older than its oldest observation.
+ */
+function stubTwapPool(
+	chain: StubChain,
+	address: string,
+	tokens: Array<[string, number]>,
+	tickCumulatives: bigint[],
+	secondsPerLiquidityCumulativeX128s: bigint[] = [0n, 0n],
+	observeError?: string,
+) {
+	for (const [token, decimals] of tokens) {
+		chain.stub(token, ABIS.ERC20, { decimals: () => decimals });
+	}
+	chain.stub(address, ABIS.UniswapV3Pool, {
+		token0: () => tokens[0][0],
+		token1: () => tokens[1][0],
+		slot0: () => [sqrtPriceX96Of(3010, tokens[0][1], tokens[1][1]), -196224, 5, 10, 10, 0, true],
+		observe: () => {
+			if (observeError) {
+				throw new Error(observeError);
+			}
+			return [tickCumulatives, secondsPerLiquidityCumulativeX128s];
+		},
+	});
+}
+
+const pool = (n: number) => ethers.getAddress('0x' + n.toString(16).padStart(40, '0'));
+
+describe('Price Utils', () => {
+	describe('USD Pricing', () => {
+		it('should price a listed token through its Chainlink feed', async () => {
+			const chain = new StubChain(42161n);
+			stubChainlinkFeed(chain, FEEDS['ARB/USD'], 0.85, 1700000100);
+
+			expect(await getTokenUsdPrice(chain.provider, 'arbitrumOne', ARB, 18)).toEqual({
+				priceUsd: 0.85,
+				source: 'chainlink',
+				feed: FEEDS['ARB/USD'],
+				updatedAt: 1700000100,
+			});
+		});
+
+		it('should price a token without a feed from its deepest USDC pool', async () => {
+			const chain = new StubChain(42161n);
+			stubChainlinkFeed(chain, FEEDS['USDC/USD'], 0.999);
+			stubUniswapV3Pools(chain, [
+				{ address: pool(1), token: TOKEN, quote: USDC, fee: 500, liquidity: 10n ** 15n, sqrtPriceX96: sqrtPriceX96Of(1.5, 18, 6) },
+				{ address: pool(2), token: TOKEN, quote: USDC, fee: 3000, liquidity: 10n ** 18n, sqrtPriceX96: sqrtPriceX96Of(2, 18, 6) },
+				{ address: pool(3), token: TOKEN, quote: USDC, fee: 10000, liquidity: 0n, sqrtPriceX96: sqrtPriceX96Of(9, 18, 6) },
+			]);
+
+			const price = await getTokenUsdPrice(chain.provider, 'arbitrumOne', TOKEN, 18);
+
+			expect(price).toMatchObject({ source: 'uniswapV3', pool: pool(2), quoteToken: 'USDC' });
+			expect(price.priceUsd).toBeCloseTo(2 * 0.999, 6);
+		});
+
+		it('should price through WETH when there is no USDC pool, inverting when the token is token1', async () => {
+			const chain = new StubChain(42161n);
+			stubChainlinkFeed(chain, FEEDS['ETH/USD'], 3000);
+			// 0xf... sorts after WETH, so the pool quotes WETH in the token: 1 WETH buys 1500 tokens
+			const token = '0xf000000000000000000000000000000000000a01';
+			stubUniswapV3Pools(chain, [
+				{ address: pool(4), token, quote: WETH, fee: 3000, liquidity: 10n ** 18n, sqrtPriceX96: sqrtPriceX96Of(1500, 18, 6) },
+			]);
+
+			const price = await getTokenUsdPrice(chain.provider, 'arbitrumOne', token, 6);
+
+			expect(price).toMatchObject({ source: 'uniswapV3', pool: pool(4), quoteToken: 'WETH' });
+			expect(price.priceUsd).toBeCloseTo(2, 6);
+		});
+
+		it('should fall back to pool pricing when the feed answer is unusable', async () => {
+			const chain = new StubChain(42161n);
+			chain.stub(FEEDS['ARB/USD'], ABIS.ChainlinkFeed, { decimals: () => 8, latestRoundData: () => [1n, 0n, 0n, 0n, 1n] });
+			stubChainlinkFeed(chain, FEEDS['USDC/USD'], 1);
+			stubUniswapV3Pools(chain, [
+				{ address: pool(5), token: ARB, quote: USDC, fee: 500, liquidity: 10n ** 18n, sqrtPriceX96: sqrtPriceX96Of(0.8, 18, 6) },
+			]);
+
+			const price = await getTokenUsdPrice(chain.provider, 'arbitrumOne', ARB, 18);
+
+			expect(price).toMatchObject({ source: 'uniswapV3', pool: pool(5) });
+			expect(price.priceUsd).toBeCloseTo(0.8, 6);
+		});
+
+		it('should fail for a token with neither a feed nor a pool with liquidity', async () => {
+			const chain = new StubChain(42161n);
+			stubUniswapV3Pools(chain, [
+				{ address: pool(6), token: TOKEN, quote: USDC, fee: 500, liquidity: 0n, sqrtPriceX96: sqrtPriceX96Of(1, 18, 6) },
+			]);
+
+			await expect(getTokenUsdPrice(chain.provider, 'arbitrumOne', TOKEN, 18))
+				.rejects.toThrow(`No Uniswap V3 USDC or WETH pool with liquidity for ${TOKEN}`);
+		});
+	});
+
+	describe('Oracle Safety', () => {
+		beforeEach(() => jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000));
+		afterEach(() => jest.restoreAllMocks());
+
+		it('should read the heartbeat of a known feed and default for others', () => {
+			expect(getFeedHeartbeat('arbitrumOne', FEEDS['LINK/USD'].toLowerCase())).toBe(3600);
+			expect(getFeedHeartbeat('arbitrumOne', FEEDS['ETH/USD'])).toBe(86400);
+			expect(getFeedHeartbeat('arbitrumOne', TOKEN)).toBe(DEFAULT_FEED_HEARTBEAT);
+			expect(getFeedHeartbeat('arbitrumNova', FEEDS['LINK/USD'])).toBe(DEFAULT_FEED_HEARTBEAT);
+		});
+
+		it('should judge an answer stale against the heartbeat of its feed', async () => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 0n, NOW - 86400);
+
+			const link = await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['LINK/USD'], NOW - 4000);
+			const eth = await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['ETH/USD'], NOW - 4000);
+
+			expect(link).toMatchObject({ safe: false, stale: true, ageSeconds: 4000, maxAgeSeconds: 3600 });
+			expect(link.warnings).toEqual(['Price is 4000s old, older than the 3600s limit']);
+			expect(eth).toMatchObject({ safe: true, stale: false, ageSeconds: 4000, maxAgeSeconds: 86400, warnings: [] });
+		});
+
+		it('should judge an answer stale against a custom max age instead of the heartbeat', async () => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 0n, NOW - 86400);
+
+			const safety = await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['ETH/USD'], NOW - 601, 600);
+
+			expect(safety).toMatchObject({ safe: false, stale: true, ageSeconds: 601, maxAgeSeconds: 600 });
+		});
+
+		it('should treat a round that was never updated as stale', async () => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 0n, NOW - 86400);
+
+			expect(await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['ETH/USD'], 0, 10 ** 10))
+				.toMatchObject({ safe: false, stale: true });
+		});
+
+		it('should flag answers read while the sequencer is down', async () => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 1n, NOW - 86400);
+
+			const safety = await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['ETH/USD'], NOW - 10);
+
+			expect(safety).toMatchObject({ safe: false, stale: false });
+			expect(safety.sequencer).toEqual({
+				feed: CHAINLINK_SEQUENCER_UPTIME_FEEDS.arbitrumOne,
+				isUp: false,
+				statusSince: NOW - 86400,
+				inGracePeriod: false,
+			});
+			expect(safety.warnings).toEqual(['Arbitrum sequencer is down']);
+		});
+
+		it('should treat an uninitialized uptime round as down', async () => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 0n, 0);
+
+			expect(await getSequencerStatus(chain.provider, 'arbitrumOne', 3600, NOW))
+				.toMatchObject({ isUp: false, statusSince: 0, inGracePeriod: false });
+		});
+
+		it('should flag answers within the grace period after the sequencer comes back up', async () => {
+			const chain = new StubChain(42161n);
+			stubSequencerUptime(chain, 0n, NOW - 1800);
+
+			const inGrace = await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['ETH/USD'], NOW - 10);
+			const pastGrace = await checkOracleSafety(chain.provider, 'arbitrumOne', FEEDS['ETH/USD'], NOW - 10, 0, 1200);
+
+			expect(inGrace.safe).toBe(false);
+			expect(inGrace.sequencer).toMatchObject({ isUp: true, inGracePeriod: true });
+			expect(inGrace.warnings).toEqual(['Sequencer came back up 1800s ago, within the 3600s grace period']);
+			expect(pastGrace).toMatchObject({ safe: true, warnings: [] });
+			expect(pastGrace.sequencer).toMatchObject({ isUp: true, inGracePeriod: false });
+		});
+
+		it('should only check staleness on networks without an uptime feed', async () => {
+			const chain = new StubChain(42170n);
+
+			expect(await getSequencerStatus(chain.provider, 'arbitrumNova')).toBeNull();
+			expect(await checkOracleSafety(chain.provider, 'arbitrumNova', FEEDS['ETH/USD'], NOW - 10))
+				.toMatchObject({ safe: true, sequencer: null, maxAgeSeconds: DEFAULT_FEED_HEARTBEAT });
+		});
+	});
+
+	describe('Uniswap V3 TWAP', () => {
+		const POOL = pool(7);
+		// A WETH/USDC pool: token0 has 18 decimals, token1 6
+		const WETH_USDC: Array<[string, number]> = [[WETH, 18], [USDC, 6]];
+		const START = 10n ** 12n;
+
+		it('should average the tick over the window and adjust the price for decimals', async () => {
+			const chain = new StubChain(42161n);
+			stubTwapPool(chain, POOL, WETH_USDC, [START, START - 196257n * 1800n]);
+
+			const twap = await getUniswapV3Twap(chain.provider, POOL, 1800);
+
+			expect(twap).toMatchObject({ pool: POOL, token0: WETH, token1: USDC, decimals0: 18, decimals1: 6, windowSeconds: 1800, twapTick: -196257 });
+			expect(twap.price0In1).toBeCloseTo(2999.8043, 3);
+			expect(twap.spotTick).toBe(-196224);
+			expect(twap.spotPrice0In1).toBeCloseTo(3010, 6);
+		});
+
+		it('should round a negative mean tick that does not divide evenly toward negative infinity', async () => {
+			const chain = new StubChain(42161n);
+			stubTwapPool(chain, POOL, WETH_USDC, [START, START - 196257n * 1800n - 1n]);
+
+			expect((await getUniswapV3Twap(chain.provider, POOL, 1800)).twapTick).toBe(-196258);
+		});
+
+		it('should truncate a positive mean tick over a window that does not divide it', async () => {
+			const chain = new StubChain(42161n);
+			// 1400 ticks over 7 seconds, plus 6 that do not make up another tick
+			stubTwapPool(chain, POOL, WETH_USDC, [START, START + 1406n]);
+
+			expect((await getUniswapV3Twap(chain.provider, POOL, 7)).twapTick).toBe(200);
+		});
+
+		it('should adjust for decimals when token0 has fewer decimals', async () => {
+			const chain = new StubChain(42161n);
+			stubTwapPool(chain, POOL, [[TOKEN, 6], [WETH, 18]], [START, START + 196257n * 60n]);
+
+			const twap = await getUniswapV3Twap(chain.provider, POOL, 60);
+
+			expect(twap).toMatchObject({ token0: TOKEN, token1: WETH, decimals0: 6, decimals1: 18, twapTick: 196257 });
+			expect(twap.price0In1).toBeCloseTo(1 / 2999.8043, 9);
+		});
+
+		it('should take the harmonic mean liquidity from the seconds per liquidity delta', async () => {
+			const chain = new StubChain(42161n);
+			// One second at a liquidity of 2^64 adds 2^128 / 2^64 to the X128 accumulator
+			stubTwapPool(chain, POOL, WETH_USDC, [0n, 0n], [5n, 5n + 2n ** 64n]);
+			const windowed = new StubChain(42161n);
+			// 1800 seconds split evenly between liquidity 1e18 and 3e18 average harmonically to 1.5e18
+			const perSecond = (liquidity: bigint) => (2n ** 128n) / liquidity;
+			stubTwapPool(windowed, POOL, WETH_USDC, [0n, 0n], [0n, 900n * perSecond(10n ** 18n) + 900n * perSecond(3n * 10n ** 18n)]);
+
+			expect((await getUniswapV3Twap(chain.provider, POOL, 1)).harmonicMeanLiquidity).toBe(2n ** 64n - 1n);
+			const liquidity = (await getUniswapV3Twap(windowed.provider, POOL, 1800)).harmonicMeanLiquidity;
+			expect(Number(liquidity) / 1.5e18).toBeCloseTo(1, 9);
+		});
+
+		it('should report no liquidity when none was in range over the window', async () => {
+			const chain = new StubChain(42161n);
+			stubTwapPool(chain, POOL, WETH_USDC, [START, START], [7n, 7n]);
+
+			expect((await getUniswapV3Twap(chain.provider, POOL, 60)).harmonicMeanLiquidity).toBe(0n);
+		});
+
+		it('should explain a window older than the oldest observation', async () => {
+			const chain = new StubChain(42161n);
+			stubTwapPool(chain, POOL, WETH_USDC, [], [], 'OLD');
+
+			await expect(getUniswapV3Twap(chain.provider, POOL, 86400))
+				.rejects.toThrow(`Pool ${POOL} cannot serve a 86400s TWAP (observation cardinality 10): OLD`);
+		});
+
+		it.each([0, -60, 1.5])('should reject a window of %d seconds', async (window) => {
+			const chain = new StubChain(42161n);
+
+			await expect(getUniswapV3Twap(chain.provider, POOL, window)).rejects.toThrow('TWAP window must be a positive number of seconds');
+		});
+	});
+});
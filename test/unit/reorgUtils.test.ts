@@ -0,0 +1,231 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import type { Provider } from 'ethers';
+import {
+	REORG_WINDOW,
+	advanceCursor,
+	detectReorg,
+	getNextBlockRange,
+	limitBlockRange,
+} from '../../nodes/Arbitrum/utils/reorgUtils';
+import type { BlockCursor, BlockRange } from '../../nodes/Arbitrum/utils/reorgUtils';
+
+/**
+ * Chain whose blocks after a fork point can be replaced by a competing branch
+ */
+class ForkableChain {
+	head: number;
+	safe: number | null;
+	private forks: Array<{ after: number; branch: string }> = [];
+
+	constructor(head: number, safe: number | null = null) {
+		this.head = head;
+		this.safe = safe;
+	}
+
+	/** Replace every block after a number with blocks of a new branch */
+	reorg(after: number): void {
+		this.forks.push({ after, branch: `fork-${this.forks.length}` });
+	}
+
+	hash(number: number): string {
+		const fork = [...this.forks].reverse().find((candidate) => number > candidate.after);
+		return ethers.id(`${fork?.branch ?? 'main'}-${number}`);
+	}
+
+	get provider(): Provider {
+		return {
+			getBlockNumber: async () => this.head,
+			getBlock: async (tag: number | string) => {
+				const number = typeof tag === 'number' ? tag : tag === 'latest' ? this.head : this.safe;
+				if (number === null || number > this.head) {
+					return null;
+				}
+				return { number, hash: this.hash(number) };
+			},
+		} as unknown as Provider;
+	}
+}
+
+/** Poll the chain once, returning the range and the cursor stored afterwards */
+async function poll(chain: ForkableChain, cursor: BlockCursor | undefined, maxBlocks = 0, lastBlock?: number) {
+	const range = limitBlockRange(await getNextBlockRange(chain.provider, cursor, 'confirmations', 0, lastBlock), maxBlocks);
+	return { range, cursor: await advanceCursor(chain.provider, range) };
+}
+
+describe('Reorg Utils', () => {
+	describe('First Poll', () => {
+		it('should process nothing and checkpoint the final block without a cursor', async () => {
+			const chain = new ForkableChain(1000);
+
+			const { range, cursor } = await poll(chain, undefined);
+
+			expect(range).toEqual({ fromBlock: 1001, toBlock: 1000 });
+			expect(cursor).toEqual({ number: 1000, hash: chain.hash(1000), hashes: { 1000: chain.hash(1000) } });
+		});
+
+		it('should resume after a bare last processed block', async () => {
+			const chain = new ForkableChain(1000);
+
+			const { range, cursor } = await poll(chain, undefined, 0, 990);
+
+			expect(range).toEqual({ fromBlock: 991, toBlock: 1000 });
+			expect(cursor?.number).toBe(1000);
+		});
+
+		it('should stop short of the head by the confirmation depth or at the safe tag', async () => {
+			const chain = new ForkableChain(1000, 980);
+
+			expect((await getNextBlockRange(chain.provider, undefined, 'confirmations', 12)).toBlock).toBe(988);
+			expect((await getNextBlockRange(chain.provider, undefined, 'safe', 0)).toBlock).toBe(980);
+			chain.safe = null;
+			await expect(getNextBlockRange(chain.provider, undefined, 'finalized', 0)).rejects.toThrow(
+				'RPC did not return the finalized block',
+			);
+		});
+	});
+
+	describe('Following the Chain', () => {
+		it('should continue after the cursor and keep a checkpoint per poll', async () => {
+			const chain = new ForkableChain(1000);
+			let { cursor } = await poll(chain, undefined);
+
+			chain.head = 1010;
+			const next = await poll(chain, cursor);
+			cursor = next.cursor;
+
+			expect(next.range).toMatchObject({ fromBlock: 1001, toBlock: 1010 });
+			expect(next.range.reorg).toBeUndefined();
+			expect(Object.keys(cursor!.hashes)).toEqual(['1000', '1010']);
+		});
+
+		it('should keep the cursor when no block is final yet', async () => {
+			const chain = new ForkableChain(1000);
+			const { cursor } = await poll(chain, undefined);
+
+			const next = await poll(chain, cursor);
+
+			expect(next.range).toMatchObject({ fromBlock: 1001, toBlock: 1000 });
+			expect(next.cursor).toEqual({ ...cursor, replayedTo: undefined });
+		});
+
+		it('should drop checkpoints older than the window', async () => {
+			const chain = new ForkableChain(1000);
+			let { cursor } = await poll(chain, undefined);
+			for (let i = 0; i < REORG_WINDOW + 5; i++) {
+				chain.head++;
+				cursor = (await poll(chain, cursor)).cursor;
+			}
+
+			const kept = Object.keys(cursor!.hashes).map(Number);
+
+			expect(kept).toHaveLength(REORG_WINDOW);
+			expect(Math.min(...kept)).toBe(chain.head - REORG_WINDOW + 1);
+		});
+
+		it('should cap a long gap and catch up over several polls', async () => {
+			const chain = new ForkableChain(1000);
+			let { cursor } = await poll(chain, undefined);
+			chain.head = 1250;
+
+			const ranges: Array<[number, number]> = [];
+			for (let i = 0; i < 3; i++) {
+				const next = await poll(chain, cursor, 100);
+				ranges.push([next.range.fromBlock, next.range.toBlock]);
+				cursor = next.cursor;
+			}
+
+			expect(ranges).toEqual([[1001, 1100], [1101, 1200], [1201, 1250]]);
+			expect(limitBlockRange({ fromBlock: 1, toBlock: 5000 }, 0)).toEqual({ fromBlock: 1, toBlock: 5000 });
+		});
+	});
+
+	describe('Reorgs', () => {
+		/** Cursor after polls ending at each of the given blocks */
+		async function pollTo(chain: ForkableChain, ends: number[]): Promise<BlockCursor> {
+			chain.head = ends[0];
+			let { cursor } = await poll(chain, undefined);
+			for (const end of ends.slice(1)) {
+				chain.head = end;
+				cursor = (await poll(chain, cursor)).cursor;
+			}
+			return cursor as BlockCursor;
+		}
+
+		it('should rewind to the newest checkpoint still on the canonical chain', async () => {
+			const chain = new ForkableChain(0);
+			const cursor = await pollTo(chain, [1000, 1010, 1020, 1030]);
+
+			// Fork after 1015: the 1020 and 1030 checkpoints are orphaned, 1010 still matches
+			chain.reorg(1015);
+			chain.head = 1040;
+			const { range, cursor: next } = await poll(chain, cursor);
+
+			expect(range.reorg).toEqual({
+				commonAncestor: 1010,
+				orphaned: [
+					{ blockNumber: 1030, blockHash: cursor.hashes[1030] },
+					{ blockNumber: 1020, blockHash: cursor.hashes[1020] },
+				],
+				replayedTo: 1030,
+				windowExceeded: false,
+			});
+			// Blocks 1011-1015 did not change but are replayed, since no checkpoint lies between 1010 and the fork
+			expect(range).toMatchObject({ fromBlock: 1011, toBlock: 1040, replayedTo: 1030 });
+			expect(range.base).toEqual({ number: 1010, hash: chain.hash(1010), hashes: { 1000: chain.hash(1000), 1010: chain.hash(1010) } });
+			expect(next).toEqual({
+				number: 1040,
+				hash: chain.hash(1040),
+				hashes: { 1000: chain.hash(1000), 1010: chain.hash(1010), 1040: chain.hash(1040) },
+			});
+		});
+
+		it('should not report a reorg when only blocks after the cursor changed', async () => {
+			const chain = new ForkableChain(0);
+			const cursor = await pollTo(chain, [1000, 1010]);
+			chain.reorg(1010);
+
+			expect(await detectReorg(chain.provider, cursor)).toBeUndefined();
+		});
+
+		it('should carry the replayed range across capped polls', async () => {
+			const chain = new ForkableChain(0);
+			const cursor = await pollTo(chain, [1000, 1100, 1200]);
+			chain.reorg(1150);
+			chain.head = 1300;
+
+			const first = await poll(chain, cursor, 50);
+			const second = await poll(chain, first.cursor, 50);
+			const third = await poll(chain, second.cursor, 50);
+
+			expect([first.range.fromBlock, first.range.toBlock, first.range.replayedTo]).toEqual([1101, 1150, 1200]);
+			expect(first.cursor?.replayedTo).toBe(1200);
+			expect(second.range.reorg).toBeUndefined();
+			expect([second.range.fromBlock, second.range.toBlock, second.range.replayedTo]).toEqual([1151, 1200, 1200]);
+			expect(second.cursor?.replayedTo).toBeUndefined();
+			expect(third.range.replayedTo).toBeUndefined();
+		});
+
+		it('should flag a fork deeper than the stored checkpoints and start over from below them', async () => {
+			const chain = new ForkableChain(0);
+			const ends = Array.from({ length: REORG_WINDOW + 2 }, (_, i) => 1000 + i * 10);
+			const cursor = await pollTo(chain, ends);
+			const oldest = Math.min(...Object.keys(cursor.hashes).map(Number));
+
+			chain.reorg(500);
+			const range: BlockRange = await getNextBlockRange(chain.provider, cursor, 'confirmations', 0);
+
+			expect(oldest).toBe(ends[2]);
+			expect(range.reorg).toMatchObject({ commonAncestor: oldest - 1, replayedTo: cursor.number, windowExceeded: true });
+			expect(range.reorg?.orphaned).toHaveLength(REORG_WINDOW);
+			expect(range).toMatchObject({ fromBlock: oldest, base: undefined });
+			expect((await advanceCursor(chain.provider, range))?.hashes).toEqual({ [cursor.number]: chain.hash(cursor.number) });
+		});
+	});
+});
@@ -0,0 +1,117 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import {
+	decodeFeedMessage,
+	getFeedRequestHeaders,
+	matchesFeedFilter,
+	parseFeedBroadcast,
+	parseFeedFilter,
+} from '../../nodes/Arbitrum/utils/sequencerFeedUtils';
+import { FEED_SENDER, batchMessage, feedMessage, signedTransaction, signedTxMessage } from '../helpers/feedMessages';
+
+const ROUTER = '0x0000000000000000000000000000000000000e01';
+const OTHER = '0x0000000000000000000000000000000000000e02';
+const TRANSFER = new ethers.Interface(['function transfer(address to, uint256 amount)']);
+
+describe('Sequencer Feed Utils', () => {
+	describe('Broadcasts', () => {
+		it('should read the messages of a broadcast and none from other broadcasts', () => {
+			const message = feedMessage(7, signedTxMessage(signedTransaction(ROUTER, 0)));
+
+			expect(parseFeedBroadcast(JSON.stringify({ version: 1, messages: [message] }))).toEqual([message]);
+			expect(parseFeedBroadcast(JSON.stringify({ version: 1, confirmedSequenceNumberMessage: { sequenceNumber: 6 } }))).toEqual([]);
+			expect(() => parseFeedBroadcast('not json')).toThrow();
+		});
+
+		it('should ask to resume after the last sequence number when given one', () => {
+			expect(getFeedRequestHeaders()).toEqual({ 'Arbitrum-Feed-Client-Version': '2' });
+			expect(getFeedRequestHeaders(12)).toEqual({
+				'Arbitrum-Feed-Client-Version': '2',
+				'Arbitrum-Requested-Sequence-Number': '12',
+			});
+		});
+	});
+
+	describe('Decoding', () => {
+		it('should decode a signed transaction message', () => {
+			const serialized = signedTransaction(ROUTER, 3, '0x12345678');
+
+			const [decoded] = decodeFeedMessage(feedMessage(7, signedTxMessage(serialized)));
+
+			expect(decoded).toMatchObject({ sequenceNumber: 7, l1BlockNumber: 18500000, timestamp: 1700000007 });
+			expect(decoded.transaction.serialized).toBe(serialized);
+			expect(decoded.transaction.from).toBe(FEED_SENDER.address);
+			expect(decoded.transaction).toMatchObject({ to: ethers.getAddress(ROUTER), nonce: 3, data: '0x12345678' });
+		});
+
+		it('should unpack nested batches in order', () => {
+			const message = batchMessage(
+				signedTxMessage(signedTransaction(ROUTER, 0)),
+				batchMessage(signedTxMessage(signedTransaction(ROUTER, 1)), signedTxMessage(signedTransaction(OTHER, 2))),
+				signedTxMessage(signedTransaction(OTHER, 3)),
+			);
+
+			const decoded = decodeFeedMessage(feedMessage(8, message));
+
+			expect(decoded.map((sequenced) => sequenced.transaction.nonce)).toEqual([0, 1, 2, 3]);
+			expect(decoded.every((sequenced) => sequenced.sequenceNumber === 8)).toBe(true);
+		});
+
+		it('should skip truncated batch entries, undecodable transactions and other message kinds', () => {
+			const valid = signedTxMessage(signedTransaction(ROUTER, 0));
+			const truncated = ethers.getBytes(ethers.concat([batchMessage(valid), ethers.toBeHex(500, 8), '0x04']));
+
+			expect(decodeFeedMessage(feedMessage(9, truncated)).map((sequenced) => sequenced.transaction.nonce)).toEqual([0]);
+			expect(decodeFeedMessage(feedMessage(9, ethers.getBytes('0x04deadbeef')))).toEqual([]);
+			// Kind 9 submits a retryable, kind 12 is an ETH deposit
+			expect(decodeFeedMessage(feedMessage(9, valid, 9))).toEqual([]);
+			expect(decodeFeedMessage(feedMessage(9, valid, 12))).toEqual([]);
+		});
+
+		it('should stop unpacking batches nested deeper than Nitro allows', () => {
+			let message = signedTxMessage(signedTransaction(ROUTER, 0));
+			for (let depth = 0; depth < 16; depth++) {
+				message = batchMessage(message);
+			}
+
+			expect(decodeFeedMessage(feedMessage(10, message))).toHaveLength(1);
+			expect(decodeFeedMessage(feedMessage(10, batchMessage(message)))).toEqual([]);
+		});
+	});
+
+	describe('Filtering', () => {
+		const transaction = ethers.Transaction.from(signedTransaction(ROUTER, 0, TRANSFER.encodeFunctionData('transfer', [OTHER, 1n])));
+
+		it('should split lists on commas outside signatures', () => {
+			const filter = parseFeedFilter(` ${FEED_SENDER.address.toLowerCase()} `, `${ROUTER}, ${OTHER}`, 'transfer(address,uint256), 0xA9059CBB');
+
+			expect(filter).toEqual({
+				addresses: [FEED_SENDER.address.toLowerCase()],
+				contracts: [ROUTER, OTHER],
+				selectors: ['0xa9059cbb', '0xa9059cbb'],
+			});
+			expect(() => parseFeedFilter('0x1234', '', '')).toThrow();
+		});
+
+		it.each([
+			['an empty filter', '', '', '', true],
+			['the sender', FEED_SENDER.address, '', '', true],
+			['the recipient as an address', ROUTER, '', '', true],
+			['another address', OTHER, '', '', false],
+			['the recipient contract', '', ROUTER, '', true],
+			['the sender as a contract', '', FEED_SENDER.address, '', false],
+			['the selector', '', '', 'transfer(address,uint256)', true],
+			['another selector', '', '', '0x095ea7b3', false],
+			['every part', FEED_SENDER.address, ROUTER, '0xa9059cbb', true],
+			['all but one part', FEED_SENDER.address, OTHER, '0xa9059cbb', false],
+		])('should match a transaction against %s', (_, addresses, contracts, selectors, expected) => {
+			expect(matchesFeedFilter(transaction, parseFeedFilter(addresses, contracts, selectors))).toBe(expected);
+		});
+	});
+});
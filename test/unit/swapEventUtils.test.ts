@@ -0,0 +1,218 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import type { Log } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS, DEX_ROUTERS } from '../../nodes/Arbitrum/constants/tokens';
+import {
+	SWAP_EVENT_TOPICS,
+	decodeSwapLogs,
+	getSwapTopics,
+	getSwapUsdValue,
+	matchesSwapDex,
+} from '../../nodes/Arbitrum/utils/swapEventUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const ROUTERS = DEX_ROUTERS.arbitrumOne;
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const ALICE = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const ROUTER = '0x0000000000000000000000000000000000000e01';
+const NEW_TOKEN = '0x0000000000000000000000000000000000000f01';
+
+const V3_POOL = new ethers.Interface(ABIS.UniswapV3Pool);
+const V2_PAIR = new ethers.Interface(ABIS.UniswapV2Pair);
+const GMX_VAULT = new ethers.Interface(ABIS.GmxVault);
+
+/** Pools are cached per address across calls, so every test deploys its own */
+let nextPool = 0x100;
+const newPool = () => ethers.toBeHex(nextPool++, 20);
+
+/** Log emitted by a contract, encoded with the ABI of the DEX it mimics */
+function eventLog(iface: ethers.Interface, event: string, address: string, values: unknown[], index = 0): Log {
+	const { topics, data } = iface.encodeEventLog(event, values);
+	return {
+		address,
+		topics,
+		data,
+		transactionHash: ethers.id(`swap-${address}-${index}`),
+		blockNumber: 1000,
+		index,
+	} as unknown as Log;
+}
+
+const swapLog = (iface: ethers.Interface, address: string, values: unknown[], index = 0) =>
+	eventLog(iface, 'Swap', address, values, index);
+
+function stubPool(chain: StubChain, address: string, factory: string, token0 = WETH, token1 = USDC) {
+	chain.stub(address, ABIS.UniswapV3Pool, { token0: () => token0, token1: () => token1, factory: () => factory });
+}
+
+describe('Swap Event Utils', () => {
+	describe('Decoding', () => {
+		it('should decode a Uniswap V3 swap in both directions from the signed amounts', async () => {
+			const chain = new StubChain(42161n);
+			const pool = newPool();
+			stubPool(chain, pool, ROUTERS.uniswapV3Factory);
+			const price = 2n ** 96n;
+
+			const [sell, buy] = await decodeSwapLogs(chain.provider, 'arbitrumOne', [
+				swapLog(V3_POOL, pool, [ROUTER, ALICE, 10n ** 18n, -2000000000n, price, 1n, 0], 0),
+				swapLog(V3_POOL, pool, [ROUTER, ALICE, -(10n ** 18n), 2010000000n, price, 1n, 0], 1),
+			]);
+
+			expect(sell).toMatchObject({
+				dex: 'uniswapV3',
+				dexName: 'Uniswap V3',
+				pool,
+				sender: ethers.getAddress(ROUTER),
+				recipient: ALICE,
+				tokenIn: { address: WETH, symbol: 'WETH', decimals: 18 },
+				tokenOut: { address: USDC, symbol: 'USDC', decimals: 6 },
+				amountIn: 10n ** 18n,
+				amountOut: 2000000000n,
+				blockNumber: 1000,
+				logIndex: 0,
+			});
+			expect(buy).toMatchObject({
+				tokenIn: { symbol: 'USDC' },
+				tokenOut: { symbol: 'WETH' },
+				amountIn: 2010000000n,
+				amountOut: 10n ** 18n,
+				logIndex: 1,
+			});
+		});
+
+		it('should attribute V3-shaped swaps to Camelot V3 by the Algebra factory', async () => {
+			const chain = new StubChain(42161n);
+			const pool = newPool();
+			stubPool(chain, pool, ROUTERS.camelotV3Factory);
+
+			const [swap] = await decodeSwapLogs(chain.provider, 'arbitrumOne', [
+				swapLog(V3_POOL, pool, [ROUTER, ALICE, 5n * 10n ** 17n, -1000000000n, 2n ** 96n, 1n, 0]),
+			]);
+
+			expect(swap).toMatchObject({ dex: 'camelotV3', dexName: 'Camelot V3', amountIn: 5n * 10n ** 17n, amountOut: 1000000000n });
+		});
+
+		it.each([
+			['sushiswap', 'SushiSwap', ROUTERS.sushiswapFactory],
+			['camelot', 'Camelot V2', ROUTERS.camelotFactory],
+		])('should net the in and out amounts of a V2 swap on %s', async (dex, dexName, factory) => {
+			const chain = new StubChain(42161n);
+			const pool = newPool();
+			stubPool(chain, pool, factory);
+
+			// USDC in for WETH out, with a dust refund of token0 netted away
+			const [swap] = await decodeSwapLogs(chain.provider, 'arbitrumOne', [
+				swapLog(V2_PAIR, pool, [ROUTER, 5n, 3000000000n, 10n ** 18n + 5n, 0n, ALICE]),
+			]);
+
+			expect(swap).toMatchObject({
+				dex,
+				dexName,
+				sender: ethers.getAddress(ROUTER),
+				recipient: ALICE,
+				tokenIn: { symbol: 'USDC' },
+				tokenOut: { symbol: 'WETH' },
+				amountIn: 3000000000n,
+				amountOut: 10n ** 18n,
+			});
+		});
+
+		it('should mark pools from other factories as unknown and read unlisted tokens from chain', async () => {
+			const chain = new StubChain(42161n);
+			const pool = newPool();
+			stubPool(chain, pool, ROUTER, NEW_TOKEN, WETH);
+			chain.stub(NEW_TOKEN, ABIS.ERC20, { symbol: () => 'NEW', decimals: () => 9 });
+
+			const [swap] = await decodeSwapLogs(chain.provider, 'arbitrumOne', [
+				swapLog(V2_PAIR, pool, [ROUTER, 10n ** 9n, 0n, 0n, 10n ** 15n, ALICE]),
+			]);
+
+			expect(swap).toMatchObject({
+				dex: 'unknown',
+				dexName: 'Unknown',
+				tokenIn: { address: ethers.getAddress(NEW_TOKEN), symbol: 'NEW', decimals: 9 },
+				tokenOut: { symbol: 'WETH' },
+			});
+		});
+
+		it('should decode GMX vault swaps with the amount after fees', async () => {
+			const chain = new StubChain(42161n);
+
+			const [swap] = await decodeSwapLogs(chain.provider, 'arbitrumOne', [
+				swapLog(GMX_VAULT, ROUTERS.gmxVault, [ALICE, WETH, USDC, 10n ** 18n, 2000000000n, 1994000000n, 30n]),
+			]);
+
+			expect(swap).toMatchObject({
+				dex: 'gmx',
+				dexName: 'GMX',
+				pool: ROUTERS.gmxVault,
+				sender: ALICE,
+				recipient: ALICE,
+				tokenIn: { symbol: 'WETH' },
+				tokenOut: { symbol: 'USDC' },
+				amountIn: 10n ** 18n,
+				amountOut: 1994000000n,
+			});
+		});
+
+		it('should drop logs that are not swaps of a pool', async () => {
+			const chain = new StubChain(42161n);
+			const pool = newPool();
+			stubPool(chain, pool, ROUTERS.uniswapV3Factory);
+			const notPool = newPool();
+			chain.stub(notPool, ABIS.UniswapV3Pool, { token0: () => WETH });
+
+			const swaps = await decodeSwapLogs(chain.provider, 'arbitrumOne', [
+				// GMX signature from a contract other than the vault
+				swapLog(GMX_VAULT, pool, [ALICE, WETH, USDC, 1n, 1n, 1n, 0n]),
+				// Swap-shaped event from a contract without token0/token1
+				swapLog(V3_POOL, notPool, [ROUTER, ALICE, 1n, -1n, 2n ** 96n, 1n, 0]),
+				eventLog(new ethers.Interface(ABIS.ERC20), 'Transfer', pool, [ALICE, ROUTER, 1n], 2),
+				swapLog(V3_POOL, pool, [ROUTER, ALICE, 1n, -1n, 2n ** 96n, 1n, 0], 3),
+			]);
+
+			expect(swaps.map((swap) => swap.logIndex)).toEqual([3]);
+		});
+	});
+
+	describe('Filtering', () => {
+		it('should request the swap topics of each DEX', () => {
+			expect(getSwapTopics('uniswapV3')).toEqual([SWAP_EVENT_TOPICS.v3]);
+			expect(getSwapTopics('sushiswap')).toEqual([SWAP_EVENT_TOPICS.v2]);
+			expect(getSwapTopics('camelot')).toEqual([SWAP_EVENT_TOPICS.v2, SWAP_EVENT_TOPICS.v3]);
+			expect(getSwapTopics('all')).toEqual([SWAP_EVENT_TOPICS.v3, SWAP_EVENT_TOPICS.v2, SWAP_EVENT_TOPICS.gmx]);
+		});
+
+		it.each([
+			['camelotV3', 'camelot', true],
+			['camelot', 'camelot', true],
+			['uniswapV3', 'camelot', false],
+			['unknown', 'all', true],
+			['unknown', 'uniswapV3', false],
+			['sushiswap', 'sushiswap', true],
+		] as const)('should match a %s swap against the %s filter: %s', (swapDex, dex, expected) => {
+			expect(matchesSwapDex(swapDex, dex)).toBe(expected);
+		});
+	});
+
+	it('should value a swap at its larger priced leg', async () => {
+		const swap = {
+			tokenIn: { address: WETH, symbol: 'WETH', decimals: 18 },
+			tokenOut: { address: USDC, symbol: 'USDC', decimals: 6 },
+			amountIn: 10n ** 18n,
+			amountOut: 1990000000n,
+		} as Parameters<typeof getSwapUsdValue>[0];
+
+		expect(await getSwapUsdValue(swap, async (token) => (token.symbol === 'WETH' ? 2000 : 1))).toBe(2000);
+		expect(await getSwapUsdValue(swap, async (token) => (token.symbol === 'USDC' ? 1 : null))).toBe(1990);
+		expect(await getSwapUsdValue(swap, async () => null)).toBeNull();
+	});
+});
@@ -0,0 +1,162 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import { getReconnectDelay, openSequencerFeed } from '../../nodes/Arbitrum/transport/webSocket';
+import type { ReconnectingWebSocket } from '../../nodes/Arbitrum/transport/webSocket';
+
+/** Resolve once a condition holds, failing after a second */
+async function waitFor(condition: () => boolean): Promise<void> {
+	for (let waited = 0; !condition(); waited += 5) {
+		if (waited > 1000) {
+			throw new Error('Timed out waiting for condition');
+		}
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+}
+
+/**
+ * Local WebSocket server that refuses the first `refuse` connection attempts with HTTP 503
+ */
+async function startServer(refuse = 0) {
+	let attempts = 0;
+	const sockets: WebSocket[] = [];
+	const server = new WebSocketServer({
+		port: 0,
+		verifyClient: (_info, accept) => {
+			attempts++;
+			accept(attempts > refuse, 503);
+		},
+	});
+	server.on('connection', (socket) => sockets.push(socket));
+	await new Promise((resolve) => server.once('listening', resolve));
+	return {
+		url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		sockets,
+		attempts: () => attempts,
+		close: () => {
+			for (const client of server.clients) {
+				client.terminate();
+			}
+			return new Promise((resolve) => server.close(resolve));
+		},
+	};
+}
+
+describe('WebSocket Transport', () => {
+	it.each([
+		[0, 1000],
+		[1, 2000],
+		[3, 8000],
+		[6, 60000],
+		[20, 60000],
+	])('should back off attempt %d by %d ms', (attempt, delay) => {
+		expect(getReconnectDelay(attempt, 1000, 60000)).toBe(delay);
+	});
+
+	describe('Reconnecting', () => {
+		let server: Awaited<ReturnType<typeof startServer>>;
+		let feed: ReconnectingWebSocket | undefined;
+
+		afterEach(async () => {
+			await feed?.close();
+			await server.close();
+		});
+
+		it('should double the delay per failed attempt up to the maximum and reset it once connected', async () => {
+			server = await startServer(4);
+			const disconnects: Array<[number, number]> = [];
+			feed = openSequencerFeed({
+				url: server.url,
+				onMessage: () => undefined,
+				onDisconnect: (_error, attempt, delay) => disconnects.push([attempt, delay]),
+				minDelay: 10,
+				maxDelay: 40,
+			});
+
+			await expect(feed.ready).rejects.toThrow('WebSocket error: Unexpected server response: 503');
+			await waitFor(() => server.sockets.length === 1);
+
+			expect(disconnects).toEqual([[1, 10], [2, 20], [3, 40], [4, 40]]);
+			expect(server.attempts()).toBe(5);
+
+			server.sockets[0].close();
+			await waitFor(() => server.sockets.length === 2);
+
+			expect(disconnects[4]).toEqual([1, 10]);
+		});
+
+		it('should fail the first attempt when the socket closes before opening', async () => {
+			const refusing = createServer((socket) => socket.destroy());
+			await new Promise((resolve) => refusing.listen(0, '127.0.0.1', () => resolve(undefined)));
+			server = await startServer();
+			const errors: string[] = [];
+			feed = openSequencerFeed({
+				url: `ws://127.0.0.1:${(refusing.address() as AddressInfo).port}`,
+				onMessage: () => undefined,
+				onDisconnect: (error) => errors.push(error.message),
+				minDelay: 10,
+			});
+
+			await expect(feed.ready).rejects.toThrow('WebSocket error: socket hang up');
+			await feed.close();
+			await new Promise((resolve) => refusing.close(resolve));
+
+			expect(errors).toEqual(['WebSocket error: socket hang up']);
+		});
+
+		it('should reconnect a silent feed after the idle timeout and keep an active one', async () => {
+			server = await startServer();
+			const errors: string[] = [];
+			const messages: string[] = [];
+			feed = openSequencerFeed({
+				url: server.url,
+				onMessage: (data) => messages.push(data),
+				onDisconnect: (error) => errors.push(error.message),
+				idleTimeout: 80,
+				minDelay: 10,
+			});
+			await feed.ready;
+
+			for (let i = 0; i < 4; i++) {
+				server.sockets[0].send(`tick-${i}`);
+				await new Promise((resolve) => setTimeout(resolve, 40));
+			}
+
+			expect(messages).toEqual(['tick-0', 'tick-1', 'tick-2', 'tick-3']);
+			expect(errors).toEqual([]);
+
+			await waitFor(() => errors.length > 0);
+
+			expect(errors).toEqual(['No WebSocket message for 0.08s']);
+			await waitFor(() => server.sockets.length === 2);
+		});
+
+		it('should drop the connection on request and stop reconnecting once closed', async () => {
+			server = await startServer();
+			const errors: string[] = [];
+			feed = openSequencerFeed({
+				url: server.url,
+				onMessage: () => undefined,
+				onDisconnect: (error) => errors.push(error.message),
+				minDelay: 10,
+			});
+			await feed.ready;
+
+			feed.reconnect(new Error('Processing failed'));
+			await waitFor(() => server.sockets.length === 2);
+			await feed.close();
+			await new Promise((resolve) => setTimeout(resolve, 50));
+
+			expect(errors).toEqual(['Processing failed']);
+			expect(server.attempts()).toBe(2);
+		});
+	});
+});
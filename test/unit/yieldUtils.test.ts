@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ABIS } from '../../nodes/Arbitrum/constants/abis';
+import { ARBITRUM_ONE_TOKENS, CHAINLINK_FEEDS, YIELD_FARM_CONTRACTS } from '../../nodes/Arbitrum/constants/tokens';
+import { createPriceLookup, getCamelotNitroFarms, getGmxFarms } from '../../nodes/Arbitrum/utils/yieldUtils';
+import type { PriceLookup } from '../../nodes/Arbitrum/utils/yieldUtils';
+import { StubChain } from '../helpers/stubChain';
+
+const FARMS = YIELD_FARM_CONTRACTS.arbitrumOne;
+const WETH = ARBITRUM_ONE_TOKENS.WETH.address;
+const USDC = ARBITRUM_ONE_TOKENS.USDC.address;
+const GMX = ARBITRUM_ONE_TOKENS.GMX.address;
+const GRAIL = ARBITRUM_ONE_TOKENS.GRAIL.address;
+const NITRO = '0x0000000000000000000000000000000000000A01';
+const NITRO_ENDED = '0x0000000000000000000000000000000000000A02';
+const NFT_POOL = '0x0000000000000000000000000000000000000B01';
+const LP_TOKEN = '0x0000000000000000000000000000000000000C01';
+
+/** Fixed USD prices by lowercase address */
+const fixedPrices = (prices: Record<string, number>): PriceLookup =>
+	async (token: string) => prices[token.toLowerCase()] ?? 0;
+
+describe('Yield Utils', () => {
+	it('should value GMX and GLP staking rewards per year against their staked value', async () => {
+		const chain = new StubChain(42161n);
+		const tracker = (address: string, totalSupply: bigint, rewardToken: string, tokensPerInterval: bigint) =>
+			chain.stub(address, ABIS.GmxRewardTracker, {
+				totalSupply: () => totalSupply,
+				rewardToken: () => rewardToken,
+				tokensPerInterval: () => tokensPerInterval,
+			});
+		tracker(FARMS.gmxStakedGmxTracker, ethers.parseEther('1000'), FARMS.esGmx, 10n ** 13n);
+		tracker(FARMS.gmxFeeGmxTracker, 0n, WETH, 10n ** 10n);
+		tracker(FARMS.gmxStakedGlpTracker, 0n, FARMS.esGmx, 2n * 10n ** 13n);
+		tracker(FARMS.gmxFeeGlpTracker, ethers.parseEther('5000'), WETH, 10n ** 11n);
+		chain.stub(FARMS.gmxGlpManager, ABIS.GmxGlpManager, { getAumInUsdg: () => ethers.parseEther('10000') });
+		chain.stub(FARMS.glp, ABIS.ERC20, { totalSupply: () => ethers.parseEther('5000') });
+		chain.stub(FARMS.esGmx, ABIS.ERC20, { symbol: () => 'esGMX', decimals: () => 18 });
+		const getPrice = fixedPrices({ [GMX.toLowerCase()]: 40, [FARMS.esGmx.toLowerCase()]: 40, [WETH.toLowerCase()]: 2000 });
+
+		const [gmx, glp] = await getGmxFarms(chain.provider, getPrice);
+
+		// 0.00001 esGMX and 0.00000001 WETH per second on 1000 GMX at $40
+		expect(gmx.tvlUsd).toBe(40000);
+		expect(gmx.rewards.map((reward) => [reward.symbol, reward.perSecond])).toEqual([['esGMX', '0.00001'], ['WETH', '0.00000001']]);
+		expect(gmx.rewards[0].usdPerYear).toBeCloseTo(12614.4);
+		expect(gmx.apr).toBeCloseTo(33.1128);
+		// 5000 GLP priced at AUM over supply, $2
+		expect(glp.tvlUsd).toBe(10000);
+		expect(glp.apr).toBeCloseTo(315.36);
+		expect(glp.stakedToken).toBe(FARMS.glp);
+	});
+
+	describe('Camelot Nitro Pools', () => {
+		const stubNitro = (chain: StubChain, address: string, endTime: number) => {
+			chain.stub(address, ABIS.CamelotNitroPool, {
+				settings: () => [0, endTime, 0, 0, 0, 0, 0, false, ''],
+				nftPool: () => NFT_POOL,
+				rewardsToken1: () => [GRAIL, 0, 0, 0],
+				rewardsToken2: () => [ethers.ZeroAddress, 0, 0, 0],
+				rewardsToken1PerSecond: () => 10n ** 12n,
+				rewardsToken2PerSecond: () => 0n,
+				totalDepositAmount: () => ethers.parseEther('250'),
+			});
+		};
+		const stubPool = (chain: StubChain) => {
+			chain.stub(NFT_POOL, ABIS.CamelotNftPool, { getPoolInfo: () => [LP_TOKEN, GRAIL, FARMS.xGrail, 0, 0, 0, 0, 0] });
+			chain.stub(LP_TOKEN, ABIS.CamelotPair, {
+				token0: () => WETH,
+				token1: () => USDC,
+				getReserves: () => [ethers.parseEther('100'), 200000000000n, 300, 300],
+				totalSupply: () => ethers.parseEther('1000'),
+			});
+		};
+		const getPrice = fixedPrices({ [WETH.toLowerCase()]: 2000, [USDC.toLowerCase()]: 1, [GRAIL.toLowerCase()]: 1000 });
+
+		it('should value the deposited share of the LP reserves and skip ended pools', async () => {
+			const chain = new StubChain(42161n);
+			stubNitro(chain, NITRO, 4102444800);
+			stubNitro(chain, NITRO_ENDED, 1600000000);
+			stubPool(chain);
+
+			const farms = await getCamelotNitroFarms(chain.provider, getPrice, [NITRO, NITRO_ENDED]);
+
+			expect(farms).toHaveLength(1);
+			// 25% of $400000 reserves; 0.000001 GRAIL per second at $1000
+			expect(farms[0]).toMatchObject({
+				protocol: 'Camelot',
+				name: 'WETH-USDC Nitro',
+				address: NITRO,
+				stakedToken: LP_TOKEN,
+				tvlUsd: 100000,
+				endsAt: 4102444800,
+			});
+			expect(farms[0].rewards.map((reward) => reward.symbol)).toEqual(['GRAIL']);
+			expect(farms[0].apr).toBeCloseTo(31.536);
+		});
+
+		it('should read the most recent pools from the factory', async () => {
+			const chain = new StubChain(42161n);
+			const requested: bigint[] = [];
+			chain.stub(FARMS.camelotNitroPoolFactory, ABIS.CamelotNitroPoolFactory, {
+				nitroPoolsLength: () => 3n,
+				getNitroPool: (index: bigint) => {
+					requested.push(index);
+					return NITRO;
+				},
+			});
+			stubNitro(chain, NITRO, 0);
+			stubPool(chain);
+
+			const farms = await getCamelotNitroFarms(chain.provider, getPrice, [], 2);
+
+			expect(requested.sort()).toEqual([1n, 2n]);
+			expect(farms[0].endsAt).toBeUndefined();
+		});
+	});
+
+	it('should price escrowed rewards at their underlying token once per run', async () => {
+		const chain = new StubChain(42161n);
+		let rounds = 0;
+		chain.stub(CHAINLINK_FEEDS.arbitrumOne['GMX/USD'], ABIS.ChainlinkFeed, {
+			latestRoundData: () => {
+				rounds++;
+				return [1n, 4000000000n, 0, 1700000000, 1n];
+			},
+			decimals: () => 8,
+		});
+		const getPrice = createPriceLookup(chain.provider, 'arbitrumOne');
+
+		const prices = await Promise.all([getPrice(FARMS.esGmx, 18), getPrice(GMX, 18), getPrice(GMX.toLowerCase(), 18)]);
+
+		expect(prices).toEqual([40, 40, 40]);
+		expect(rounds).toBe(1);
+	});
+});